@@ -3,6 +3,8 @@
 const nextConfig = {
   experimental: {
     appDir: true,
+    // src/instrumentation.ts でサーバー起動時に定期タスクのスケジューラーを起動する
+    instrumentationHook: true,
   },
 };
 
@@ -0,0 +1,107 @@
+// public/sw.js
+
+// オフラインでもアプリを起動できるようにする Service Worker です。
+// - アプリの画面 (/) と Next.js のビルド済みファイル (/_next/static) をキャッシュします。
+// - ログイン状態 (/api/session) とルーム一覧 (/api/chatwork/rooms) は、通信できない時だけ前回の応答を返します。
+// - それ以外のAPI (タスクの作成など) はキャッシュせず、常にネットワークに送ります。
+// - ログイン・ログアウト (OAuth のコールバックを含む) の時は、前のアカウントの応答を残さないようAPIのキャッシュを削除します。
+// キャッシュの形式を変えた場合は CACHE_VERSION を上げてください。古いキャッシュは有効化の時に削除します。
+
+const CACHE_VERSION = 'v1';
+const SHELL_CACHE = `chatwork-task-memo-shell-${CACHE_VERSION}`;
+const API_CACHE = `chatwork-task-memo-api-${CACHE_VERSION}`;
+
+// インストール時にキャッシュしておくアプリの画面
+const SHELL_URLS = ['/', '/manifest.webmanifest', '/icon.svg'];
+
+// 通信できない時に前回の応答を返すAPI
+const CACHED_API_PATHS = ['/api/session', '/api/chatwork/rooms'];
+
+// 「Chatworkでログイン」の後に Chatwork から戻ってくるURL (GET でログインする)
+const OAUTH_CALLBACK_PATH = '/api/auth/chatwork/callback';
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then(cache => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(
+        keys
+          .filter(key => key.startsWith('chatwork-task-memo-') && key !== SHELL_CACHE && key !== API_CACHE)
+          .map(key => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+// ネットワークを優先し、成功した応答はキャッシュに保存する。通信できない時はキャッシュを返す
+// cacheKey を指定した場合は、リクエストのURLの代わりにそのURLで保存・検索する
+const networkFirst = async (request, cacheName, cacheKey) => {
+  const cache = await caches.open(cacheName);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      cache.put(cacheKey || request, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match(cacheKey || request);
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+// リクエストを送り、応答を返す前にAPIのキャッシュを削除する (ログイン状態が変わるリクエスト用)
+const fetchAndClearApiCache = async (request) => {
+  const response = await fetch(request);
+  await caches.delete(API_CACHE);
+  return response;
+};
+
+// キャッシュを優先する (ファイル名にハッシュが付いていて内容が変わらないファイル用)
+const cacheFirst = async (request) => {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) {
+    cache.put(request, response.clone());
+  }
+  return response;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  // ログイン・ログアウト・アカウントの切り替えをしたら、前のアカウントのルーム一覧を残さない
+  // (OAuth のログインは、Chatwork から戻ってくるコールバックの GET でセッションが変わる)
+  if ((request.method !== 'GET' && url.pathname.startsWith('/api/session')) || url.pathname === OAUTH_CALLBACK_PATH) {
+    event.respondWith(fetchAndClearApiCache(request));
+    return;
+  }
+  if (request.method !== 'GET') return;
+
+  if (request.mode === 'navigate') {
+    // クエリ (共有された内容など) は画面ごとに異なるため、トップページは / としてキャッシュする
+    // 共有 (/share) などの他のURLはキャッシュせず、通信できない時はアプリの画面を返して画面側で共有された内容を読み取る
+    event.respondWith(url.pathname === '/'
+      ? networkFirst(request, SHELL_CACHE, '/')
+      : fetch(request).catch(() => caches.match('/')));
+    return;
+  }
+  if (url.pathname.startsWith('/_next/static/')) {
+    event.respondWith(cacheFirst(request));
+    return;
+  }
+  if (CACHED_API_PATHS.includes(url.pathname)) {
+    event.respondWith(networkFirst(request, API_CACHE));
+  }
+});
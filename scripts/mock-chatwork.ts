@@ -0,0 +1,23 @@
+// scripts/mock-chatwork.ts
+
+// Chatwork APIのモックサーバーを起動するスクリプトです。
+//   npm run mock:chatwork
+// 起動後、.env.local に以下を設定して `npm run dev` すると、本物のAPIトークンなしでアプリを試せます。
+//   CHATWORK_API_BASE_URL=http://127.0.0.1:4010/v2
+// アプリのトークン入力欄には MOCK_CHATWORK_TOKEN の値 (既定: mock-token) を入力してください。
+// OAuth ログインを試す場合は、さらに以下も設定します (偽の認可サーバーは確認画面なしで認可します)。
+//   CHATWORK_OAUTH_CLIENT_ID=mock-client-id
+//   CHATWORK_OAUTH_CLIENT_SECRET=mock-client-secret
+//   CHATWORK_OAUTH_REDIRECT_URI=http://localhost:3000/api/auth/chatwork/callback
+//   CHATWORK_OAUTH_AUTHORIZE_URL=http://127.0.0.1:4010/oauth/authorize
+//   CHATWORK_OAUTH_TOKEN_URL=http://127.0.0.1:4010/oauth/token
+//   CHATWORK_OAUTH_REVOKE_URL=http://127.0.0.1:4010/oauth/revoke
+
+import { createInitialState, startChatworkMockServer } from '../src/mock/chatworkMockServer';
+
+const port = parseInt(process.env.MOCK_CHATWORK_PORT || '4010', 10);
+const token = process.env.MOCK_CHATWORK_TOKEN || 'mock-token';
+
+startChatworkMockServer({ port, state: createInitialState(token) }).then(server => {
+  console.log(`Chatwork mock server listening on ${server.url} (token: ${token})`);
+});
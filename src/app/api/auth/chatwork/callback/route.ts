@@ -0,0 +1,58 @@
+// src/app/api/auth/chatwork/callback/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { apiErrorJson } from '../../../../../lib/apiErrors';
+import { logger, withRequestLogging } from '../../../../../lib/logger';
+import { exchangeCode, getOAuthConfig } from '../../../../../lib/oauth';
+import { clearOAuthPendingCookie, getOAuthPending, sessionExpiry, setSessionCookie } from '../../../../../lib/session';
+
+// ログイン後 (または失敗時) にリダイレクトする画面のURL。失敗時はクエリ authError に理由を付ける
+const redirectToApp = (request: NextRequest, authError?: string) => {
+  const url = new URL('/', request.nextUrl.origin);
+  if (authError) url.searchParams.set('authError', authError);
+  const response = NextResponse.redirect(url);
+  clearOAuthPendingCookie(response);
+  return response;
+};
+
+/**
+ * Chatwork の OAuth ログインのコールバックを受け取るAPIルートハンドラー (GETメソッド)
+ * state を照合してから認可コードをトークンと交換し、暗号化したセッションCookieに保存して画面に戻ります。
+ *
+ * @param {NextRequest} request - Next.jsのリクエストオブジェクト
+ * @returns {NextResponse} - Next.jsのレスポンスオブジェクト
+ */
+export const GET = withRequestLogging(async function GET(request: NextRequest) {
+  const config = getOAuthConfig();
+  if (!config) {
+    logger.error('API Route Error: Chatwork OAuth is not configured.');
+    return apiErrorJson('oauth_not_configured', 'Chatwork OAuth is not configured.', 404);
+  }
+
+  const { searchParams } = request.nextUrl;
+
+  // ユーザーが認可画面で拒否した場合など
+  const error = searchParams.get('error');
+  if (error) {
+    logger.error(`API Route Error: OAuth authorization failed: ${error}`);
+    return redirectToApp(request, error);
+  }
+
+  // ログイン開始時に保存した state と一致しない場合は、CSRFの可能性があるため受け付けない
+  const pending = getOAuthPending(request);
+  const code = searchParams.get('code');
+  if (!pending || !code || searchParams.get('state') !== pending.state) {
+    logger.error('API Route Error: OAuth state mismatch or missing code.');
+    return redirectToApp(request, 'invalid_state');
+  }
+
+  try {
+    const tokens = await exchangeCode(config, code, pending.codeVerifier);
+    const response = redirectToApp(request);
+    setSessionCookie(response, { kind: 'oauth', ...tokens, expiresAt: sessionExpiry() });
+    return response;
+  } catch (exchangeError) {
+    logger.error('API Route Error: Failed to exchange OAuth code.', { error: exchangeError });
+    return redirectToApp(request, 'token_exchange_failed');
+  }
+});
@@ -0,0 +1,36 @@
+// src/app/api/auth/chatwork/login/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { apiErrorJson } from '../../../../../lib/apiErrors';
+import { logger, withRequestLogging } from '../../../../../lib/logger';
+import { buildAuthorizeUrl, createPkcePair, createState, getOAuthConfig } from '../../../../../lib/oauth';
+import { detachActiveProfile, getProfileVault, setProfilesCookie } from '../../../../../lib/profiles';
+import { getSession, setOAuthPendingCookie } from '../../../../../lib/session';
+
+/**
+ * Chatwork の OAuth ログインを開始するAPIルートハンドラー (GETメソッド)
+ * state と PKCE の code_verifier を生成して暗号化したCookieに保存し、Chatwork の認可画面にリダイレクトします。
+ * ログイン中のプロフィールがある場合は、ログイン後も切り替えて使えるよう、その認証情報をプロフィール用のCookieに移しておきます。
+ *
+ * @param {NextRequest} request - Next.jsのリクエストオブジェクト
+ * @returns {NextResponse} - Next.jsのレスポンスオブジェクト
+ */
+export const GET = withRequestLogging(async function GET(request: NextRequest) {
+  const config = getOAuthConfig();
+
+  // OAuth のクライアント設定がない場合は使えない
+  if (!config) {
+    logger.error('API Route Error: Chatwork OAuth is not configured.');
+    return apiErrorJson('oauth_not_configured', 'Chatwork OAuth is not configured.', 404);
+  }
+
+  const state = createState();
+  const { verifier, challenge } = createPkcePair();
+  const response = NextResponse.redirect(buildAuthorizeUrl(config, state, challenge));
+  setOAuthPendingCookie(response, state, verifier);
+  const vault = getProfileVault(request);
+  if (vault.activeId) {
+    setProfilesCookie(response, detachActiveProfile(vault, getSession(request)));
+  }
+  return response;
+});
@@ -1,26 +1,20 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
+import { apiErrorJson } from '../../../../lib/apiErrors';
+import { callChatwork, chatworkErrorJson, chatworkJson } from '../../../../lib/chatworkClient';
+import { withRequestLogging } from '../../../../lib/logger';
+import { getCredential } from '../../../../lib/session';
 
-export async function GET(request: NextRequest) {
-  const token = request.headers.get('X-ChatWorkToken');
+export const GET = withRequestLogging(async function GET(request: NextRequest) {
+  const auth = await getCredential(request);
   
-  if (!token) {
-    return NextResponse.json({ error: 'APIトークンがありません' }, { status: 401 });
+  if (!auth) {
+    return apiErrorJson('token_missing', 'Chatwork API Token is missing.', 400);
   }
 
   try {
-    const response = await fetch('https://api.chatwork.com/v2/me', {
-      headers: {
-        'X-ChatWorkToken': token,
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error(`ChatWork API error: ${response.status}`);
-    }
-
-    const data = await response.json();
-    return NextResponse.json(data);
+    const result = await callChatwork(auth.credential, '/me');
+    return auth.applyTo(chatworkJson(result));
   } catch (error) {
-    return NextResponse.json({ error: 'APIエラーが発生しました' }, { status: 500 });
+    return auth.applyTo(chatworkErrorJson(error));
   }
-}
\ No newline at end of file
+});
@@ -0,0 +1,88 @@
+// src/app/api/chatwork/my/calendar-feed/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { apiErrorJson } from '../../../../../lib/apiErrors';
+import { deleteCalendarFeed, findCalendarFeedByOwner, issueCalendarFeed } from '../../../../../lib/calendarFeedStore';
+import { callChatwork, chatworkErrorJson } from '../../../../../lib/chatworkClient';
+import { saveCredential } from '../../../../../lib/credentialStore';
+import { LOCALE_COOKIE_NAME, resolveLocale } from '../../../../../lib/i18n';
+import { logger, withRequestLogging } from '../../../../../lib/logger';
+import { getCredential } from '../../../../../lib/session';
+import type { ChatworkMe } from '../../../../../types/chatwork';
+
+// iCalendar のフィードのパス (秘密の値はクエリ key で渡す)
+const FEED_PATH = '/api/chatwork/my/tasks.ics';
+
+/**
+ * タスクのカレンダーのフィードを発行済みかどうかを返すAPIルートハンドラー (GETメソッド)
+ * URLの秘密の値は発行時にしか返さないため、ここでは発行日時だけを返します。
+ *
+ * @param {NextRequest} request - Next.jsのリクエストオブジェクト
+ * @returns {NextResponse} - Next.jsのレスポンスオブジェクト
+ */
+export const GET = withRequestLogging(async function GET(request: NextRequest) {
+  const auth = await getCredential(request);
+  if (!auth) {
+    logger.error('API Route Error: Chatwork API Token is missing for /my/calendar-feed.');
+    return apiErrorJson('token_missing', 'Chatwork API Token is missing.', 400);
+  }
+
+  try {
+    const { data: me } = await callChatwork<ChatworkMe>(auth.credential, '/me');
+    const feed = await findCalendarFeedByOwner(me.account_id);
+    return auth.applyTo(NextResponse.json({ enabled: !!feed, createdAt: feed ? feed.createdAt : null }));
+  } catch (error) {
+    return auth.applyTo(chatworkErrorJson(error));
+  }
+});
+
+/**
+ * タスクのカレンダーのフィードを発行するAPIルートハンドラー (POSTメソッド)
+ * フィードの取得時に使うため、リクエストの認証情報をアカウントの認証情報として保存します。発行済みの場合は以前のURLを無効にして再発行します。
+ * カレンダーの項目の説明などは、発行した時の表示言語で作ります。
+ *
+ * @param {NextRequest} request - Next.jsのリクエストオブジェクト
+ * @returns {NextResponse} - Next.jsのレスポンスオブジェクト
+ */
+export const POST = withRequestLogging(async function POST(request: NextRequest) {
+  const auth = await getCredential(request);
+  if (!auth || !auth.session) {
+    logger.error('API Route Error: Login session or X-ChatWorkToken is required for calendar feeds.');
+    return apiErrorJson('token_missing', 'Login session or X-ChatWorkToken is required.', 400);
+  }
+
+  try {
+    const { data: me } = await callChatwork<ChatworkMe>(auth.credential, '/me');
+    await saveCredential(me.account_id, auth.session);
+    const locale = resolveLocale(request.cookies.get(LOCALE_COOKIE_NAME)?.value, request.headers.get('accept-language'));
+    const secret = await issueCalendarFeed(me.account_id, locale);
+    return auth.applyTo(NextResponse.json({ path: `${FEED_PATH}?key=${encodeURIComponent(secret)}` }, { status: 201 }));
+  } catch (error) {
+    return auth.applyTo(chatworkErrorJson(error));
+  }
+});
+
+/**
+ * タスクのカレンダーのフィードを停止するAPIルートハンドラー (DELETEメソッド)
+ *
+ * @param {NextRequest} request - Next.jsのリクエストオブジェクト
+ * @returns {NextResponse} - Next.jsのレスポンスオブジェクト
+ */
+export const DELETE = withRequestLogging(async function DELETE(request: NextRequest) {
+  const auth = await getCredential(request);
+  if (!auth) {
+    logger.error('API Route Error: Chatwork API Token is missing for /my/calendar-feed.');
+    return apiErrorJson('token_missing', 'Chatwork API Token is missing.', 400);
+  }
+
+  try {
+    const { data: me } = await callChatwork<ChatworkMe>(auth.credential, '/me');
+    if (!(await deleteCalendarFeed(me.account_id))) {
+      logger.error('API Route Error: Calendar feed not found.');
+      return auth.applyTo(apiErrorJson('calendar_feed_not_found', 'Calendar feed not found.', 404));
+    }
+    return auth.applyTo(new NextResponse(null, { status: 204 }));
+  } catch (error) {
+    return auth.applyTo(chatworkErrorJson(error));
+  }
+});
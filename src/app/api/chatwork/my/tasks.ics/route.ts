@@ -0,0 +1,62 @@
+// src/app/api/chatwork/my/tasks.ics/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { apiErrorJson } from '../../../../../lib/apiErrors';
+import { CalendarFeed, findCalendarFeed } from '../../../../../lib/calendarFeedStore';
+import { callChatwork, chatworkErrorJson } from '../../../../../lib/chatworkClient';
+import { getAccountCredential } from '../../../../../lib/credentialStore';
+import { createTranslate, DEFAULT_LOCALE, LOCALE_COOKIE_NAME, resolveLocale } from '../../../../../lib/i18n';
+import { buildTasksCalendar } from '../../../../../lib/icalendar';
+import { logger, withRequestLogging } from '../../../../../lib/logger';
+import { CredentialContext, getCredential } from '../../../../../lib/session';
+import type { MyTask } from '../../../../../types/task';
+
+// フィードを発行したアカウントの保存済みの認証情報を取り出します。
+// フィードがない場合や認証情報が無効な場合は null を返します。
+const getFeedCredential = async (feed: CalendarFeed | null): Promise<CredentialContext | null> => {
+  const credential = feed ? await getAccountCredential(feed.ownerAccountId) : null;
+  return credential ? { credential, session: null, applyTo: response => response } : null;
+};
+
+/**
+ * 自分が担当者の未完了のタスクを iCalendar 形式で返すAPIルートハンドラー (GETメソッド)
+ * カレンダーアプリから購読できるよう、クエリの key (フィードの秘密の値) で認証します。
+ * key がない場合は、他のAPIルートと同じくセッションCookieやヘッダーの認証情報を使います。
+ * 説明などの言語は、key で取得する場合はフィードを発行した時の表示言語、key がない場合はリクエストの表示言語です。
+ *
+ * @param {NextRequest} request - Next.jsのリクエストオブジェクト
+ * @returns {NextResponse} - Next.jsのレスポンスオブジェクト
+ */
+export const GET = withRequestLogging(async function GET(request: NextRequest) {
+  const secret = request.nextUrl.searchParams.get('key');
+  const feed = secret ? await findCalendarFeed(secret) : null;
+  const auth = secret ? await getFeedCredential(feed) : await getCredential(request);
+  if (!auth) {
+    if (secret) {
+      logger.error('API Route Error: Calendar feed not found.');
+      return apiErrorJson('calendar_feed_not_found', 'Calendar feed not found.', 404);
+    }
+    logger.error('API Route Error: Chatwork API Token is missing for /my/tasks.ics.');
+    return apiErrorJson('token_missing', 'Chatwork API Token is missing.', 400);
+  }
+
+  const locale = feed
+    ? feed.locale ?? DEFAULT_LOCALE
+    : resolveLocale(request.cookies.get(LOCALE_COOKIE_NAME)?.value, request.headers.get('accept-language'));
+
+  try {
+    const result = await callChatwork<MyTask[] | null>(auth.credential, '/my/tasks', { query: { status: 'open' } });
+    // 該当するタスクがない場合、Chatwork APIはボディなしの204を返すため空のカレンダーにする
+    return auth.applyTo(new NextResponse(buildTasksCalendar(result.data ?? [], new Date(), createTranslate(locale)), {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="chatwork-tasks.ics"',
+        // 秘密のURLの内容を共有のキャッシュに残さない
+        'Cache-Control': 'private, max-age=300',
+      },
+    }));
+  } catch (error) {
+    return auth.applyTo(chatworkErrorJson(error));
+  }
+});
@@ -0,0 +1,144 @@
+// src/app/api/chatwork/rooms/[roomId]/files/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { apiErrorJson } from '../../../../../../lib/apiErrors';
+import { MAX_ATTACHMENT_SIZE } from '../../../../../../lib/attachments';
+import { callChatwork, chatworkErrorJson, rateLimitHeaders } from '../../../../../../lib/chatworkClient';
+import { logger, withRequestLogging } from '../../../../../../lib/logger';
+import { getCredential } from '../../../../../../lib/session';
+import type { ChatworkUploadedFile } from '../../../../../../types/chatwork';
+
+// multipart/form-data の境界文字列やファイル以外の項目の分として、Content-Length に上乗せを許す大きさ
+const MULTIPART_OVERHEAD = 64 * 1024;
+
+// 受け取るリクエストのボディの上限
+const MAX_BODY_SIZE = MAX_ATTACHMENT_SIZE + MULTIPART_OVERHEAD;
+
+// リクエストのボディを、大きさを数えながら読み込みます。
+// Content-Length より実際のボディが大きい場合に備えて、上限を超えた時点で読み込みをやめて null を返します。
+// ボディはChatworkにストリームで中継せず、意図的にメモリに読み込んでいます。
+// file の有無や大きさを確かめてからChatworkに送るため (不正なアップロードでChatworkにファイルやメッセージを作らない) で、
+// 読み込む大きさは MAX_BODY_SIZE (5MB + 64KB) までに制限しているため、1リクエストあたりのメモリ使用量も上限があります。
+const readBodyWithinLimit = async (request: NextRequest, limit: number): Promise<Uint8Array | null> => {
+  if (!request.body) return new Uint8Array(0);
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.byteLength;
+    if (total > limit) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  const body = new Uint8Array(total);
+  let offset = 0;
+  for (let index = 0; index < chunks.length; index++) {
+    body.set(chunks[index], offset);
+    offset += chunks[index].byteLength;
+  }
+  return body;
+};
+
+/**
+ * ChatworkのルームにファイルをアップロードするAPIルートハンドラー (POSTメソッド)
+ * multipart/form-data で file (1ファイル) と、省略可能な message (ファイルと一緒に投稿するメッセージ) を受け取ります。
+ * Chatworkの上限 (5MB) を超えるファイルは、Chatworkに送らずに 413 を返します。
+ * Content-Length がない場合 (411) や明らかに上限を超えている場合は、ボディを読み込む前に断ります。
+ * Content-Length を偽った場合も、ボディの読み込み中に上限を超えた時点で断ります。
+ * ボディは検証のために一度すべて読み込んでからChatworkに送ります (ストリームでは中継しません。readBodyWithinLimit を参照)。
+ *
+ * アップロードで投稿されたメッセージにタスクからリンクできるよう、ファイル情報を取得して message_id も返します。
+ *
+ * @param {NextRequest} request - Next.jsのリクエストオブジェクト
+ * @param {Object} context - Next.jsのコンテキストオブジェクト。動的ルートパラメータを含む。
+ * @param {Object} context.params - 動的ルートパラメータのオブジェクト。
+ * @param {string} context.params.roomId - URLから取得されるルームID。
+ * @returns {NextResponse} - Next.jsのレスポンスオブジェクト
+ */
+export const POST = withRequestLogging(async function POST(request: NextRequest, { params }: { params: { roomId: string } }) {
+  const { roomId } = params;
+  // セッション (またはX-ChatWorkToken / Authorizationヘッダー) からChatwork APIの認証情報を取得
+  const auth = await getCredential(request);
+
+  // 認証情報がない場合のチェック
+  if (!auth) {
+    logger.error('API Route Error: Chatwork API Token is missing for file upload.');
+    return apiErrorJson('token_missing', 'Chatwork API Token is missing.', 400);
+  }
+
+  // ルームIDがない場合のチェック (URLパラメータから取得されるため、通常は発生しないが念のため)
+  if (!roomId) {
+    logger.error('API Route Error: Room ID is missing from URL parameters.');
+    return auth.applyTo(apiErrorJson('invalid_path', 'Room ID is missing from URL.', 400));
+  }
+
+  const tooLarge = () => {
+    logger.error('API Route Error: Uploaded file exceeds the size limit.');
+    return auth.applyTo(apiErrorJson('file_too_large', "File exceeds Chatwork's 5MB limit.", 413));
+  };
+
+  // ボディを読み込む前に、Content-Length で大きさの分からないアップロードや大きすぎるアップロードを断る
+  const contentLength = parseInt(request.headers.get('Content-Length') ?? '', 10);
+  if (isNaN(contentLength)) {
+    logger.error('API Route Error: Content-Length is required for file upload.');
+    return auth.applyTo(apiErrorJson('length_required', 'Content-Length is required.', 411));
+  }
+  if (contentLength > MAX_BODY_SIZE) {
+    return tooLarge();
+  }
+
+  let file: File | null = null;
+  let message: string | null = null;
+  try {
+    const body = await readBodyWithinLimit(request, MAX_BODY_SIZE);
+    if (!body) {
+      return tooLarge();
+    }
+    const formData = await new Response(body, { headers: { 'Content-Type': request.headers.get('Content-Type') ?? '' } }).formData();
+    const value = formData.get('file');
+    file = typeof value === 'object' && value !== null ? (value as File) : null;
+    message = formData.get('message')?.toString() || null;
+  } catch (error) {
+    logger.error('Failed to parse multipart form data', { error });
+    return auth.applyTo(apiErrorJson('invalid_body', 'Invalid multipart form data.', 400));
+  }
+
+  if (!file || file.size === 0) {
+    logger.error("API Route Error: Parameter 'file' is required.");
+    return auth.applyTo(apiErrorJson('invalid_parameter', "Parameter 'file' is required.", 400));
+  }
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    return tooLarge();
+  }
+
+  const upload = new FormData();
+  upload.append('file', file, file.name);
+  if (message) {
+    upload.append('message', message);
+  }
+
+  let fileId: number;
+  try {
+    const result = await callChatwork<{ file_id: number }>(auth.credential, `/rooms/${roomId}/files`, { method: 'POST', multipart: upload });
+    fileId = result.data.file_id;
+  } catch (error) {
+    // Chatwork APIのエラーはステータスコードを保ったまま共通の形式で返す
+    return auth.applyTo(chatworkErrorJson(error));
+  }
+
+  // アップロードは成功しているため、メッセージIDが取れなくてもエラーにはしない (再送でファイルが重複しないように)
+  const uploaded: ChatworkUploadedFile = { file_id: fileId, message_id: null, filename: file.name, filesize: file.size };
+  try {
+    const info = await callChatwork<{ message_id: string }>(auth.credential, `/rooms/${roomId}/files/${fileId}`);
+    uploaded.message_id = info.data.message_id ?? null;
+    return auth.applyTo(NextResponse.json(uploaded, { status: 200, headers: rateLimitHeaders(info.rateLimit) }));
+  } catch (error) {
+    logger.error(`Failed to get the message of uploaded file ${fileId}`, { error });
+    return auth.applyTo(NextResponse.json(uploaded, { status: 200 }));
+  }
+});
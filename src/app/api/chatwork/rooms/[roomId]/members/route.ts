@@ -0,0 +1,45 @@
+// src/app/api/chatwork/rooms/[roomId]/members/route.ts
+
+import { NextRequest } from 'next/server';
+import { apiErrorJson } from '../../../../../../lib/apiErrors';
+import { callChatwork, chatworkErrorJson, chatworkJson } from '../../../../../../lib/chatworkClient';
+import { logger, withRequestLogging } from '../../../../../../lib/logger';
+import { getCredential } from '../../../../../../lib/session';
+
+/**
+ * Chatworkのルームメンバー一覧を取得するAPIルートハンドラー (GETメソッド)
+ * タスクの担当者を選択するために、クライアントからのリクエストをChatwork APIにプロキシします。
+ *
+ * @param {NextRequest} request - Next.jsのリクエストオブジェクト
+ * @param {Object} context - Next.jsのコンテキストオブジェクト。動的ルートパラメータを含む。
+ * @param {Object} context.params - 動的ルートパラメータのオブジェクト。
+ * @param {string} context.params.roomId - URLから取得されるルームID。
+ * @returns {NextResponse} - Next.jsのレスポンスオブジェクト
+ */
+export const GET = withRequestLogging(async function GET(request: NextRequest, { params }: { params: { roomId: string } }) {
+  // URLパラメータからルームIDを取得
+  const { roomId } = params;
+  // セッション (またはX-ChatWorkToken / Authorizationヘッダー) からChatwork APIの認証情報を取得
+  const auth = await getCredential(request);
+
+  // 認証情報がない場合は400エラーを返す
+  if (!auth) {
+    logger.error('API Route Error: Chatwork API Token is missing for /members.');
+    return apiErrorJson('token_missing', 'Chatwork API Token is missing.', 400);
+  }
+
+  // ルームIDがない場合のチェック (URLパラメータから取得されるため、通常は発生しないが念のため)
+  if (!roomId) {
+    logger.error('API Route Error: Room ID is missing from URL parameters.');
+    return auth.applyTo(apiErrorJson('invalid_path', 'Room ID is missing from URL.', 400));
+  }
+
+  try {
+    // Chatwork APIのメンバー一覧エンドポイントにリクエストを送信
+    const result = await callChatwork(auth.credential, `/rooms/${roomId}/members`);
+    return auth.applyTo(chatworkJson(result));
+  } catch (error) {
+    // Chatwork APIのエラーはステータスコードを保ったまま共通の形式で返す
+    return auth.applyTo(chatworkErrorJson(error));
+  }
+});
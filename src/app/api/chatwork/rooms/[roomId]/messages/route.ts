@@ -0,0 +1,89 @@
+// src/app/api/chatwork/rooms/[roomId]/messages/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  callChatwork,
+  ChatworkApiError,
+  rateLimitHeaders,
+  toChatworkErrorBody,
+} from '../../../../../../lib/chatworkClient';
+import { apiErrorJson } from '../../../../../../lib/apiErrors';
+import { IdempotentResponse, runOnce, scopeIdempotencyKey } from '../../../../../../lib/idempotencyStore';
+import { logger, withRequestLogging } from '../../../../../../lib/logger';
+import { getCredential } from '../../../../../../lib/session';
+
+/**
+ * Chatworkのルームにメッセージを投稿するAPIルートハンドラー (POSTメソッド)
+ * クライアントからのリクエストを受け取り、Chatwork APIにプロキシとしてリクエストを転送します。
+ * フォームデータで body (メッセージ本文) と、省略可能な self_unread (0/1) を受け取ります。
+ *
+ * @param {NextRequest} request - Next.jsのリクエストオブジェクト
+ * @param {Object} context - Next.jsのコンテキストオブジェクト。動的ルートパラメータを含む。
+ * @param {Object} context.params - 動的ルートパラメータのオブジェクト。
+ * @param {string} context.params.roomId - URLから取得されるルームID。
+ * @returns {NextResponse} - Next.jsのレスポンスオブジェクト
+ */
+export const POST = withRequestLogging(async function POST(request: NextRequest, { params }: { params: { roomId: string } }) {
+  const { roomId } = params;
+  // セッション (またはX-ChatWorkToken / Authorizationヘッダー) からChatwork APIの認証情報を取得
+  const auth = await getCredential(request);
+
+  // 認証情報がない場合のチェック
+  if (!auth) {
+    logger.error('API Route Error: Chatwork API Token is missing for messages.');
+    return apiErrorJson('token_missing', 'Chatwork API Token is missing.', 400);
+  }
+
+  // ルームIDがない場合のチェック (URLパラメータから取得されるため、通常は発生しないが念のため)
+  if (!roomId) {
+    logger.error('API Route Error: Room ID is missing from URL parameters.');
+    return auth.applyTo(apiErrorJson('invalid_path', 'Room ID is missing from URL.', 400));
+  }
+
+  let message: string | null = null;
+  let selfUnread: string | null = null;
+  try {
+    const formData = await request.formData();
+    message = formData.get('body')?.toString() || null;
+    selfUnread = formData.get('self_unread')?.toString() || null;
+  } catch (error) {
+    logger.error('Failed to parse request form data', { error });
+    return auth.applyTo(apiErrorJson('invalid_body', 'Invalid form data format.', 400));
+  }
+
+  if (!message || !message.trim()) {
+    logger.error("API Route Error: Parameter 'body' is required.");
+    return auth.applyTo(apiErrorJson('invalid_parameter', "Parameter 'body' (message) is required.", 400));
+  }
+  if (selfUnread && selfUnread !== '0' && selfUnread !== '1') {
+    logger.error(`API Route Error: Invalid self_unread: ${selfUnread}`);
+    return auth.applyTo(apiErrorJson('invalid_parameter', "Parameter 'self_unread' must be 0 or 1.", 400));
+  }
+
+  const chatworkApiBody = new URLSearchParams({ body: message });
+  if (selfUnread) {
+    chatworkApiBody.append('self_unread', selfUnread);
+  }
+
+  // Chatworkのエラーもthrowせず、ステータスコードを保ったまま共通のエラー形式のボディにする
+  const send = async (): Promise<IdempotentResponse> => {
+    try {
+      const result = await callChatwork(auth.credential, `/rooms/${roomId}/messages`, { method: 'POST', form: chatworkApiBody });
+      return { status: result.status, body: result.data, headers: rateLimitHeaders(result.rateLimit) };
+    } catch (error) {
+      const body = toChatworkErrorBody(error);
+      return { status: body.status, body, headers: rateLimitHeaders(error instanceof ChatworkApiError ? error.rateLimit : null) };
+    }
+  };
+
+  // Idempotency-Key がある場合、同じキーで投稿済みのメッセージがあればChatworkには送らずに前回の結果を返す
+  // (タスク作成と同じキーを使っても重ならないよう、キーにメッセージであることを含める。キーは認証情報ごとに分ける)
+  const idempotencyKey = request.headers.get('Idempotency-Key');
+  const { response, replayed } = idempotencyKey
+    ? await runOnce(scopeIdempotencyKey(auth.credential, `${roomId}:messages:${idempotencyKey}`), send)
+    : { response: await send(), replayed: false };
+  return auth.applyTo(NextResponse.json(response.body, {
+    status: response.status,
+    headers: replayed ? { ...response.headers, 'Idempotent-Replayed': 'true' } : response.headers,
+  }));
+});
@@ -0,0 +1,45 @@
+// src/app/api/chatwork/rooms/[roomId]/tasks/[taskId]/route.ts
+
+import { NextRequest } from 'next/server';
+import { apiErrorJson } from '../../../../../../../lib/apiErrors';
+import { callChatwork, chatworkErrorJson, chatworkJson } from '../../../../../../../lib/chatworkClient';
+import { logger, withRequestLogging } from '../../../../../../../lib/logger';
+import { getCredential } from '../../../../../../../lib/session';
+
+/**
+ * タスクを1件取得するAPIルートハンドラー (GETメソッド)
+ * 送信履歴から、送ったタスクの現在の状態 (未完了/完了) を確認するために使います。
+ *
+ * @param {NextRequest} request - Next.jsのリクエストオブジェクト
+ * @param {Object} context - Next.jsのコンテキストオブジェクト。動的ルートパラメータを含む。
+ * @param {Object} context.params - 動的ルートパラメータのオブジェクト。
+ * @param {string} context.params.roomId - URLから取得されるルームID。
+ * @param {string} context.params.taskId - URLから取得されるタスクID。
+ * @returns {NextResponse} - Next.jsのレスポンスオブジェクト
+ */
+export const GET = withRequestLogging(async function GET(request: NextRequest, { params }: { params: { roomId: string; taskId: string } }) {
+  const { roomId, taskId } = params;
+  // セッション (またはX-ChatWorkToken / Authorizationヘッダー) からChatwork APIの認証情報を取得
+  const auth = await getCredential(request);
+
+  // 認証情報がない場合のチェック
+  if (!auth) {
+    logger.error('API Route Error: Chatwork API Token is missing for task detail.');
+    return apiErrorJson('token_missing', 'Chatwork API Token is missing.', 400);
+  }
+
+  // タスクIDは数値であること
+  if (!roomId || !/^\d+$/.test(taskId ?? '')) {
+    logger.error(`API Route Error: Invalid task ID: ${taskId}`);
+    return auth.applyTo(apiErrorJson('invalid_path', 'Room ID or Task ID is invalid.', 400));
+  }
+
+  try {
+    // Chatwork APIのタスク詳細エンドポイントにリクエストを送信
+    const result = await callChatwork(auth.credential, `/rooms/${roomId}/tasks/${taskId}`);
+    return auth.applyTo(chatworkJson(result));
+  } catch (error) {
+    // Chatwork APIのエラーはステータスコードを保ったまま共通の形式で返す
+    return auth.applyTo(chatworkErrorJson(error));
+  }
+});
@@ -0,0 +1,64 @@
+// src/app/api/chatwork/rooms/[roomId]/tasks/[taskId]/status/route.ts
+
+import { NextRequest } from 'next/server';
+import { apiErrorJson } from '../../../../../../../../lib/apiErrors';
+import { callChatwork, chatworkErrorJson, chatworkJson } from '../../../../../../../../lib/chatworkClient';
+import { logger, withRequestLogging } from '../../../../../../../../lib/logger';
+import { getCredential } from '../../../../../../../../lib/session';
+
+/**
+ * タスクの完了状態を変更するAPIルートハンドラー (PUTメソッド)
+ * クライアントから `body=done` または `body=open` を受け取り、Chatwork APIにプロキシします。
+ *
+ * @param {NextRequest} request - Next.jsのリクエストオブジェクト
+ * @param {Object} context - Next.jsのコンテキストオブジェクト。動的ルートパラメータを含む。
+ * @param {Object} context.params - 動的ルートパラメータのオブジェクト。
+ * @param {string} context.params.roomId - URLから取得されるルームID。
+ * @param {string} context.params.taskId - URLから取得されるタスクID。
+ * @returns {NextResponse} - Next.jsのレスポンスオブジェクト
+ */
+export const PUT = withRequestLogging(async function PUT(request: NextRequest, { params }: { params: { roomId: string; taskId: string } }) {
+  const { roomId, taskId } = params;
+  // セッション (またはX-ChatWorkToken / Authorizationヘッダー) からChatwork APIの認証情報を取得
+  const auth = await getCredential(request);
+
+  // 認証情報がない場合のチェック
+  if (!auth) {
+    logger.error('API Route Error: Chatwork API Token is missing for task status.');
+    return apiErrorJson('token_missing', 'Chatwork API Token is missing.', 400);
+  }
+
+  // ルームID・タスクIDがない場合のチェック (URLパラメータから取得されるため、通常は発生しないが念のため)
+  if (!roomId || !taskId) {
+    logger.error('API Route Error: Room ID or Task ID is missing from URL parameters.');
+    return auth.applyTo(apiErrorJson('invalid_path', 'Room ID or Task ID is missing from URL.', 400));
+  }
+
+  let status: string | null = null;
+  try {
+    // クライアントから送られてくるフォームデータをパース
+    const formData = await request.formData();
+    status = formData.get('body')?.toString() || null;
+  } catch (error) {
+    logger.error('Failed to parse request form data', { error });
+    return auth.applyTo(apiErrorJson('invalid_body', 'Invalid form data format.', 400));
+  }
+
+  // 変更後の状態は done または open のいずれか
+  if (status !== 'done' && status !== 'open') {
+    logger.error(`API Route Error: Invalid task status: ${status}`);
+    return auth.applyTo(apiErrorJson('invalid_parameter', "Parameter 'body' must be 'done' or 'open'.", 400));
+  }
+
+  try {
+    // Chatwork APIのタスク完了状態変更エンドポイントにリクエストを送信
+    const result = await callChatwork(auth.credential, `/rooms/${roomId}/tasks/${taskId}/status`, {
+      method: 'PUT',
+      form: new URLSearchParams({ body: status }),
+    });
+    return auth.applyTo(chatworkJson(result));
+  } catch (error) {
+    // Chatwork APIのエラーはステータスコードを保ったまま共通の形式で返す
+    return auth.applyTo(chatworkErrorJson(error));
+  }
+});
@@ -1,9 +1,11 @@
 // src/app/api/chatwork/rooms/[roomId]/tasks/route.ts
 
 import { NextRequest, NextResponse } from 'next/server';
-
-// Chatwork APIのベースURLを定数として定義
-const CHATWORK_API_BASE_URL = 'https://api.chatwork.com/v2';
+import { apiErrorJson } from '../../../../../../lib/apiErrors';
+import { callChatwork, chatworkErrorJson, rateLimitHeaders } from '../../../../../../lib/chatworkClient';
+import { buildChatworkTaskBody, createChatworkTask, validateTaskParams } from '../../../../../../lib/chatworkTasks';
+import { logger, withRequestLogging } from '../../../../../../lib/logger';
+import { getCredential } from '../../../../../../lib/session';
 
 /**
  * Chatworkにタスクを送信するAPIルートハンドラー (POSTメソッド)
@@ -15,27 +17,28 @@ const CHATWORK_API_BASE_URL = 'https://api.chatwork.com/v2';
  * @param {string} context.params.roomId - URLから取得されるルームID。
  * @returns {NextResponse} - Next.jsのレスポンスオブジェクト
  */
-export async function POST(request: NextRequest, { params }: { params: { roomId: string } }) {
+export const POST = withRequestLogging(async function POST(request: NextRequest, { params }: { params: { roomId: string } }) {
   // URLパラメータからルームIDを取得
   const { roomId } = params;
-  // リクエストヘッダーからChatwork APIトークンを取得
-  const apiToken = request.headers.get('X-ChatWorkToken');
+  // セッション (またはX-ChatWorkToken / Authorizationヘッダー) からChatwork APIの認証情報を取得
+  const auth = await getCredential(request);
 
-  // APIトークンがない場合のチェック
-  if (!apiToken) {
-    console.error('API Route Error: Chatwork API Token is missing.');
-    return NextResponse.json({ error: 'Chatwork API Token is missing.' }, { status: 400 });
+  // 認証情報がない場合のチェック
+  if (!auth) {
+    logger.error('API Route Error: Chatwork API Token is missing.');
+    return apiErrorJson('token_missing', 'Chatwork API Token is missing.', 400);
   }
 
   // ルームIDがない場合のチェック (URLパラメータから取得されるため、通常は発生しないが念のため)
   if (!roomId) {
-    console.error('API Route Error: Room ID is missing from URL parameters.');
-    return NextResponse.json({ error: 'Room ID is missing from URL.' }, { status: 400 });
+    logger.error('API Route Error: Room ID is missing from URL parameters.');
+    return auth.applyTo(apiErrorJson('invalid_path', 'Room ID is missing from URL.', 400));
   }
 
   let message: string | null = null;
   let to_ids: string | null = null;
   let limit: string | null = null;
+  let limit_type: string | null = null;
 
   try {
     // クライアントから送られてくるフォームデータをパース
@@ -47,104 +50,84 @@ export async function POST(request: NextRequest, { params }: { params: { roomId:
     message = formData.get('body')?.toString() || null;
     to_ids = formData.get('to_ids')?.toString() || null;
     limit = formData.get('limit')?.toString() || null;
+    limit_type = formData.get('limit_type')?.toString() || null;
 
-    // 取得したフォームデータをログに出力して確認
-    console.log('API Route Received Form Data:', { message, to_ids, limit });
+    // 取得したフォームデータをログに出力して確認 (タスク本文はロガーが伏せる)
+    logger.debug('API Route Received Form Data', { body: message, to_ids, limit, limit_type });
 
   } catch (error) {
     // フォームデータパース失敗時のハンドリング
-    console.error('Failed to parse request form data:', error);
-    return NextResponse.json({ error: 'Invalid form data format.' }, { status: 400 });
+    logger.error('Failed to parse request form data', { error });
+    return auth.applyTo(apiErrorJson('invalid_body', 'Invalid form data format.', 400));
   }
 
-  // 必須パラメータのチェック
-  // これらのパラメータがnullの場合、Chatwork APIへのリクエストを続行できないため、ここでエラーを返す
-  if (!message) {
-    console.error("API Route Error: Parameter 'body' (message) is required.");
-    return NextResponse.json({ error: "Parameter 'body' (message) is required." }, { status: 400 });
+  // パラメータのチェック (必須項目・limit_type・limit の形式)
+  // 問題がある場合、Chatwork APIへのリクエストを続行できないため、ここでエラーを返す
+  const taskParams = { body: message, to_ids, limit, limit_type };
+  const validationError = validateTaskParams(taskParams);
+  if (validationError) {
+    logger.error(`API Route Error: ${validationError}`);
+    return auth.applyTo(apiErrorJson('invalid_parameter', validationError, 400));
   }
-  if (!to_ids) {
-    console.error("API Route Error: Parameter 'to_ids' is required.");
-    return NextResponse.json({ error: "Parameter 'to_ids' is required." }, { status: 400 });
+
+  // Idempotency-Key がある場合、同じキーで作成済みのタスクがあればChatworkには送らずに前回の結果を返す
+  const idempotencyKey = request.headers.get('Idempotency-Key');
+  const { response, replayed } = await createChatworkTask(auth.credential, roomId, buildChatworkTaskBody(taskParams), idempotencyKey);
+  return auth.applyTo(NextResponse.json(response.body, {
+    status: response.status,
+    headers: replayed ? { ...response.headers, 'Idempotent-Replayed': 'true' } : response.headers,
+  }));
+});
+
+/**
+ * Chatworkのルームのタスク一覧を取得するAPIルートハンドラー (GETメソッド)
+ * クエリパラメータ `status` (open/done) と `account_id` (担当者) で絞り込めます。
+ *
+ * @param {NextRequest} request - Next.jsのリクエストオブジェクト
+ * @param {Object} context - Next.jsのコンテキストオブジェクト。動的ルートパラメータを含む。
+ * @param {Object} context.params - 動的ルートパラメータのオブジェクト。
+ * @param {string} context.params.roomId - URLから取得されるルームID。
+ * @returns {NextResponse} - Next.jsのレスポンスオブジェクト
+ */
+export const GET = withRequestLogging(async function GET(request: NextRequest, { params }: { params: { roomId: string } }) {
+  const { roomId } = params;
+  // セッション (またはX-ChatWorkToken / Authorizationヘッダー) からChatwork APIの認証情報を取得
+  const auth = await getCredential(request);
+
+  // 認証情報がない場合のチェック
+  if (!auth) {
+    logger.error('API Route Error: Chatwork API Token is missing for task list.');
+    return apiErrorJson('token_missing', 'Chatwork API Token is missing.', 400);
   }
-  if (!limit) {
-    console.error("API Route Error: Parameter 'limit' is required.");
-    return NextResponse.json({ error: "Parameter 'limit' is required." }, { status: 400 });
+
+  // ルームIDがない場合のチェック (URLパラメータから取得されるため、通常は発生しないが念のため)
+  if (!roomId) {
+    logger.error('API Route Error: Room ID is missing from URL parameters.');
+    return auth.applyTo(apiErrorJson('invalid_path', 'Room ID is missing from URL.', 400));
   }
 
-  // Chatwork APIのタスク作成エンドポイントのURLを構築
-  const chatworkApiUrl = `${CHATWORK_API_BASE_URL}/rooms/${roomId}/tasks`;
-
-  // Chatwork APIへのリクエストボディを構築 (application/x-www-form-urlencoded 形式)
-  // Chatwork APIがこの形式を要求するため、URLSearchParamsを使用
-  const chatworkApiBody = new URLSearchParams();
-  chatworkApiBody.append('body', message);
-  chatworkApiBody.append('to_ids', to_ids);
-  chatworkApiBody.append('limit', limit);
-
-  // Chatwork APIへのリクエスト内容をログに出力して確認
-  console.log('Sending to Chatwork API:', {
-      url: chatworkApiUrl,
-      method: 'POST',
-      headers: {
-          'X-ChatWorkToken': apiToken ? '********' : 'undefined', // セキュリティのためトークンは伏字に
-          'Content-Type': 'application/x-www-form-urlencoded',
-          'Accept': 'application/json',
-      },
-      body: chatworkApiBody.toString(),
-  });
+  // 絞り込み条件をクエリパラメータから取得
+  const status = request.nextUrl.searchParams.get('status');
+  const accountId = request.nextUrl.searchParams.get('account_id');
+
+  if (status && status !== 'open' && status !== 'done') {
+    logger.error(`API Route Error: Invalid task status filter: ${status}`);
+    return auth.applyTo(apiErrorJson('invalid_parameter', "Parameter 'status' must be 'open' or 'done'.", 400));
+  }
+  if (accountId && !/^\d+$/.test(accountId)) {
+    logger.error(`API Route Error: Invalid account_id filter: ${accountId}`);
+    return auth.applyTo(apiErrorJson('invalid_parameter', "Parameter 'account_id' must be numeric.", 400));
+  }
 
   try {
-    // Chatwork APIへリクエストを送信
-    const chatworkResponse = await fetch(chatworkApiUrl, {
-      method: 'POST',
-      headers: {
-        'X-ChatWorkToken': apiToken,
-        'Content-Type': 'application/x-www-form-urlencoded', // Chatwork APIはこれ
-        'Accept': 'application/json',
-      },
-      body: chatworkApiBody.toString(), // URLSearchParamsオブジェクトを文字列に変換して送信
+    // Chatwork APIのタスク一覧エンドポイントにリクエストを送信
+    const result = await callChatwork<unknown[] | null>(auth.credential, `/rooms/${roomId}/tasks`, {
+      query: { status, account_id: accountId },
     });
-
-    // Chatwork APIからのレスポンスボディをテキストとして取得
-    const chatworkResponseText = await chatworkResponse.text();
-    // 取得した生レスポンスとステータスコードをログに出力して確認
-    console.log('Raw Chatwork API Response Text:', chatworkResponseText);
-    console.log('Chatwork API Response Status:', chatworkResponse.status);
-
-    let chatworkData;
-    // レスポンスがJSON形式であるかパースを試みる
-    try {
-      chatworkData = JSON.parse(chatworkResponseText);
-    } catch (parseError: any) { // parseErrorの型をanyにする
-      // JSONパースに失敗した場合のエラーハンドリング
-      console.error('Chatwork API response is NOT valid JSON:', parseError);
-      console.error('Original non-JSON response:', chatworkResponseText);
-
-      // Chatwork APIがJSONではないエラー（例: HTML）を返した場合
-      // そのステータスコードと内容をそのままクライアントに返す
-      return NextResponse.json(
-          {
-              error: 'Chatwork API returned non-JSON response.',
-              details: chatworkResponseText.substring(0, 200) + (chatworkResponseText.length > 200 ? '...' : ''), // 長すぎる場合は切り詰める
-              statusFromChatwork: chatworkResponse.status
-          },
-          { status: chatworkResponse.status || 500 } // Chatwork APIのステータスコードを優先
-      );
-    }
-
-    // Chatwork APIからのレスポンスが成功 (2xx) だった場合
-    if (chatworkResponse.ok) {
-      console.log('Chatwork API Success Response:', chatworkData);
-      return NextResponse.json(chatworkData, { status: chatworkResponse.status });
-    } else {
-      // Chatwork APIからのエラーレスポンスをそのままクライアントに返す
-      console.error('Chatwork API error response (parsed JSON):', chatworkData);
-      return NextResponse.json(chatworkData, { status: chatworkResponse.status });
-    }
-  } catch (error: any) { // errorの型をanyにする
-    // ネットワークエラーなど、Chatwork APIへのリクエスト自体が失敗した場合
-    console.error('Error calling Chatwork API (network/fetch error):', error);
-    return NextResponse.json({ error: 'Failed to connect to Chatwork API or network error.', details: error.message }, { status: 500 });
+    // 該当するタスクがない場合、Chatwork APIはボディなしの204を返すため空配列として扱う
+    return auth.applyTo(NextResponse.json(result.data ?? [], { status: 200, headers: rateLimitHeaders(result.rateLimit) }));
+  } catch (error) {
+    // Chatwork APIのエラーはステータスコードを保ったまま共通の形式で返す
+    return auth.applyTo(chatworkErrorJson(error));
   }
-}
+});
@@ -1,9 +1,10 @@
 // src/app/api/chatwork/rooms/route.ts
 
-import { NextRequest, NextResponse } from 'next/server';
-
-// Chatwork APIのベースURLを定数として定義
-const CHATWORK_API_BASE_URL = 'https://api.chatwork.com/v2';
+import { NextRequest } from 'next/server';
+import { apiErrorJson } from '../../../../lib/apiErrors';
+import { callChatwork, chatworkErrorJson, chatworkJson } from '../../../../lib/chatworkClient';
+import { logger, withRequestLogging } from '../../../../lib/logger';
+import { getCredential } from '../../../../lib/session';
 
 /**
  * Chatworkのルーム一覧を取得するAPIルートハンドラー (GETメソッド)
@@ -12,54 +13,22 @@ const CHATWORK_API_BASE_URL = 'https://api.chatwork.com/v2';
  * @param {NextRequest} request - Next.jsのリクエストオブジェクト
  * @returns {NextResponse} - Next.jsのレスポンスオブジェクト
  */
-export async function GET(request: NextRequest) {
-  // リクエストヘッダーからChatwork APIトークンを取得
-  const apiToken = request.headers.get('X-ChatWorkToken');
-
-  // APIトークンがない場合は400エラーを返す
-  if (!apiToken) {
-    console.error('API Route Error: Chatwork API Token is missing for /rooms.');
-    return NextResponse.json({ error: 'Chatwork API Token is missing.' }, { status: 400 });
+export const GET = withRequestLogging(async function GET(request: NextRequest) {
+  // セッション (またはX-ChatWorkToken / Authorizationヘッダー) からChatwork APIの認証情報を取得
+  const auth = await getCredential(request);
+
+  // 認証情報がない場合は400エラーを返す
+  if (!auth) {
+    logger.error('API Route Error: Chatwork API Token is missing for /rooms.');
+    return apiErrorJson('token_missing', 'Chatwork API Token is missing.', 400);
   }
 
   try {
     // Chatwork APIのルーム一覧エンドポイントにリクエストを送信
-    const chatworkResponse = await fetch(`${CHATWORK_API_BASE_URL}/rooms`, {
-      method: 'GET', // GETリクエスト
-      headers: {
-        'X-ChatWorkToken': apiToken, // 取得したAPIトークンをヘッダーに設定
-        'Accept': 'application/json' // JSON形式のレスポンスを要求
-      }
-    });
-
-    // Chatwork APIからのレスポンスボディをテキストとして取得
-    const chatworkResponseText = await chatworkResponse.text();
-    let chatworkData;
-
-    // レスポンスがJSON形式であるかパースを試みる
-    try {
-      chatworkData = JSON.parse(chatworkResponseText);
-    } catch (parseError) {
-      // JSONパースに失敗した場合のエラーハンドリング
-      console.error('Chatwork API response for /rooms is not valid JSON or empty:', chatworkResponseText);
-      return NextResponse.json(
-          { error: 'Chatwork API returned non-JSON response or empty response for /rooms.', details: chatworkResponseText },
-          { status: chatworkResponse.status || 500 } // Chatwork APIのステータスコードを優先、なければ500
-      );
-    }
-
-    // Chatwork APIからのレスポンスが成功 (2xx) だった場合
-    if (chatworkResponse.ok) {
-      console.log('Chatwork API Success Response for /rooms:', chatworkData);
-      return NextResponse.json(chatworkData, { status: chatworkResponse.status });
-    } else {
-      // Chatwork APIからのエラーレスポンスをそのままクライアントに返す
-      console.error('Chatwork API error response for /rooms:', chatworkData);
-      return NextResponse.json(chatworkData, { status: chatworkResponse.status });
-    }
+    const result = await callChatwork(auth.credential, '/rooms');
+    return auth.applyTo(chatworkJson(result));
   } catch (error) {
-    // ネットワークエラーなど、Chatwork APIへのリクエスト自体が失敗した場合
-    console.error('Error calling Chatwork API for rooms:', error);
-    return NextResponse.json({ error: 'Failed to connect to Chatwork API for rooms.' }, { status: 500 });
+    // Chatwork APIのエラーはステータスコードを保ったまま共通の形式で返す
+    return auth.applyTo(chatworkErrorJson(error));
   }
-}
+});
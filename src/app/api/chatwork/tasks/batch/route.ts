@@ -0,0 +1,46 @@
+// src/app/api/chatwork/tasks/batch/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { apiErrorJson } from '../../../../../lib/apiErrors';
+import { broadcastTask, parseBroadcastRequest } from '../../../../../lib/broadcast';
+import { logger, withRequestLogging } from '../../../../../lib/logger';
+import { getCredential } from '../../../../../lib/session';
+import type { BroadcastResponse } from '../../../../../types/broadcast';
+
+/**
+ * 1つのタスクを複数のルームに一斉送信するAPIルートハンドラー (POSTメソッド)
+ * JSONで body・limit・limit_type と、ルームごとの担当者のルールを含む rooms を受け取ります。
+ *
+ * 一部のルームだけ失敗しても残りのルームには送信し、ルームごとの結果を返します。
+ * すべて成功した場合は 200、失敗したルームがある場合は 207 (Multi-Status) を返します。
+ * Idempotency-Key ヘッダーを付けて同じキーで再送すると、成功済みのルームには重複して作成しません。
+ *
+ * @param {NextRequest} request - Next.jsのリクエストオブジェクト
+ * @returns {NextResponse} - Next.jsのレスポンスオブジェクト
+ */
+export const POST = withRequestLogging(async function POST(request: NextRequest) {
+  // セッション (またはX-ChatWorkToken / Authorizationヘッダー) からChatwork APIの認証情報を取得
+  const auth = await getCredential(request);
+  if (!auth) {
+    logger.error('API Route Error: Chatwork API Token is missing for batch tasks.');
+    return apiErrorJson('token_missing', 'Chatwork API Token is missing.', 400);
+  }
+
+  let json: unknown;
+  try {
+    json = await request.json();
+  } catch (error) {
+    logger.error('Failed to parse request JSON', { error });
+    return auth.applyTo(apiErrorJson('invalid_body', 'Invalid JSON body.', 400));
+  }
+  const { input, error: validationError } = parseBroadcastRequest(json);
+  if (!input) {
+    logger.error(`API Route Error: ${validationError}`);
+    return auth.applyTo(apiErrorJson('invalid_parameter', validationError, 400));
+  }
+
+  const results = await broadcastTask(auth.credential, input, request.headers.get('Idempotency-Key'));
+  const succeeded = results.filter(result => result.ok).length;
+  const body: BroadcastResponse = { results, succeeded, failed: results.length - succeeded };
+  return auth.applyTo(NextResponse.json(body, { status: body.failed === 0 ? 200 : 207 }));
+});
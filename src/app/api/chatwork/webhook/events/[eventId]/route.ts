@@ -0,0 +1,48 @@
+// src/app/api/chatwork/webhook/events/[eventId]/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { apiErrorJson } from '../../../../../../lib/apiErrors';
+import { callChatwork, chatworkErrorJson } from '../../../../../../lib/chatworkClient';
+import { logger, withRequestLogging } from '../../../../../../lib/logger';
+import { getCredential } from '../../../../../../lib/session';
+import { acknowledgeWebhookEvent, listWebhookEvents } from '../../../../../../lib/webhookEventStore';
+import type { ChatworkMe, ChatworkRoom } from '../../../../../../types/chatwork';
+
+/**
+ * Webhookで受け取ったイベントを、反映済みとして削除するAPIルートハンドラー (DELETEメソッド)
+ * タスクの追加・完了はルームのメンバー全員に返すため、ログイン中のアカウントにだけ返さないようにします (他のメンバーには残る)。
+ * 他のアカウント宛てのメンションや、参加していないルームのイベントは削除できません。
+ *
+ * @param {NextRequest} request - Next.jsのリクエストオブジェクト
+ * @param {Object} context - Next.jsのコンテキストオブジェクト。動的ルートパラメータを含む。
+ * @param {Object} context.params - 動的ルートパラメータのオブジェクト。
+ * @param {string} context.params.eventId - URLから取得されるイベントのID。
+ * @returns {NextResponse} - Next.jsのレスポンスオブジェクト
+ */
+export const DELETE = withRequestLogging(async function DELETE(request: NextRequest, { params }: { params: { eventId: string } }) {
+  const auth = await getCredential(request);
+  if (!auth) {
+    logger.error('API Route Error: Chatwork API Token is missing for /webhook/events.');
+    return apiErrorJson('token_missing', 'Chatwork API Token is missing.', 400);
+  }
+
+  try {
+    const event = (await listWebhookEvents()).find(stored => stored.id === params.eventId);
+    const { data: me } = await callChatwork<ChatworkMe>(auth.credential, '/me');
+    let allowed = false;
+    if (event?.kind === 'mention') {
+      allowed = event.toAccountId === me.account_id;
+    } else if (event) {
+      const { data: rooms } = await callChatwork<ChatworkRoom[]>(auth.credential, '/rooms');
+      allowed = rooms.some(room => room.room_id === event.roomId);
+    }
+
+    if (!event || !allowed || !(await acknowledgeWebhookEvent(event.id, me.account_id))) {
+      logger.error(`API Route Error: Webhook event not found: ${params.eventId}`);
+      return auth.applyTo(apiErrorJson('webhook_event_not_found', 'Webhook event not found.', 404));
+    }
+    return auth.applyTo(new NextResponse(null, { status: 204 }));
+  } catch (error) {
+    return auth.applyTo(chatworkErrorJson(error));
+  }
+});
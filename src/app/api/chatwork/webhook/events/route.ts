@@ -0,0 +1,37 @@
+// src/app/api/chatwork/webhook/events/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { apiErrorJson } from '../../../../../lib/apiErrors';
+import { callChatwork, chatworkErrorJson } from '../../../../../lib/chatworkClient';
+import { logger, withRequestLogging } from '../../../../../lib/logger';
+import { getCredential } from '../../../../../lib/session';
+import { isAcknowledgedBy, listWebhookEvents, toPublicWebhookEvent } from '../../../../../lib/webhookEventStore';
+import type { ChatworkMe, ChatworkRoom } from '../../../../../types/chatwork';
+
+/**
+ * Webhookで受け取ったイベントのうち、ログイン中のアカウントに関係するものを返すAPIルートハンドラー (GETメソッド)
+ * メンションは自分宛てのもの、タスクの追加・完了は自分が参加しているルームのもので、自分がまだ反映済みにしていないものだけを返します。
+ *
+ * @param {NextRequest} request - Next.jsのリクエストオブジェクト
+ * @returns {NextResponse} - Next.jsのレスポンスオブジェクト
+ */
+export const GET = withRequestLogging(async function GET(request: NextRequest) {
+  const auth = await getCredential(request);
+  if (!auth) {
+    logger.error('API Route Error: Chatwork API Token is missing for /webhook/events.');
+    return apiErrorJson('token_missing', 'Chatwork API Token is missing.', 400);
+  }
+
+  try {
+    const { data: me } = await callChatwork<ChatworkMe>(auth.credential, '/me');
+    const { data: rooms } = await callChatwork<ChatworkRoom[]>(auth.credential, '/rooms');
+    const roomIds = rooms.map(room => room.room_id);
+    const events = (await listWebhookEvents()).filter(event =>
+      event.kind === 'mention'
+        ? event.toAccountId === me.account_id
+        : roomIds.includes(event.roomId) && !isAcknowledgedBy(event, me.account_id));
+    return auth.applyTo(NextResponse.json(events.map(toPublicWebhookEvent)));
+  } catch (error) {
+    return auth.applyTo(chatworkErrorJson(error));
+  }
+});
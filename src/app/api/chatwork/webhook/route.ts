@@ -0,0 +1,56 @@
+// src/app/api/chatwork/webhook/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { apiErrorJson } from '../../../../lib/apiErrors';
+import { getWebhookToken, toWebhookEvents, verifyWebhookSignature } from '../../../../lib/chatworkWebhook';
+import { logger, withRequestLogging } from '../../../../lib/logger';
+import { addWebhookEvents } from '../../../../lib/webhookEventStore';
+
+/**
+ * ChatworkのWebhookを受け取るAPIルートハンドラー (POSTメソッド)
+ * Chatworkから呼ばれるため、セッションではなく X-ChatWorkWebhookSignature ヘッダーの署名で送信元を確認します。
+ * 自分宛てのメンションと、メッセージに含まれるタスクの追加・完了をイベントとして保存し、クライアントが取りに来るまで残します。
+ *
+ * @param {NextRequest} request - Next.jsのリクエストオブジェクト
+ * @returns {NextResponse} - Next.jsのレスポンスオブジェクト
+ */
+export const POST = withRequestLogging(async function POST(request: NextRequest) {
+  const token = getWebhookToken();
+
+  // Webhookのトークンが設定されていない場合は使えない
+  if (!token) {
+    logger.error('API Route Error: Chatwork webhook is not configured.');
+    return apiErrorJson('webhook_not_configured', 'Chatwork webhook is not configured.', 404);
+  }
+
+  // 署名はボディのバイト列に対して計算されるため、パースする前のボディで検証する
+  const rawBody = await request.text();
+  const signature = request.headers.get('X-ChatWorkWebhookSignature') ?? request.nextUrl.searchParams.get('chatwork_webhook_signature');
+  if (!verifyWebhookSignature(rawBody, signature, token)) {
+    logger.error('API Route Error: Invalid Chatwork webhook signature.');
+    return apiErrorJson('invalid_webhook_signature', 'Invalid webhook signature.', 401);
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(rawBody);
+  } catch (error) {
+    logger.error('Failed to parse webhook JSON', { error });
+    return apiErrorJson('invalid_body', 'Invalid JSON body.', 400);
+  }
+
+  const events = toWebhookEvents(json, Date.now());
+  if (!events) {
+    logger.error('API Route Error: Unsupported webhook payload.');
+    return apiErrorJson('invalid_webhook_payload', 'Invalid webhook payload.', 400);
+  }
+
+  try {
+    const stored = await addWebhookEvents(events);
+    // Chatworkは200以外を受け取ると再送するため、扱わないイベントでも200を返す
+    return NextResponse.json({ received: events.length, stored });
+  } catch (error) {
+    logger.error('API Route Error: Failed to store webhook events', { error });
+    return apiErrorJson('storage_failed', 'Failed to store webhook events.', 500);
+  }
+});
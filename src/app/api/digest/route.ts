@@ -0,0 +1,97 @@
+// src/app/api/digest/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { apiErrorJson } from '../../../lib/apiErrors';
+import { callChatwork, chatworkErrorJson } from '../../../lib/chatworkClient';
+import { systemClock } from '../../../lib/clock';
+import { saveCredential } from '../../../lib/credentialStore';
+import { digestRule } from '../../../lib/digest';
+import { getDigest, putDigest, StoredDigest, toPublicDigest } from '../../../lib/digestStore';
+import { LOCALE_COOKIE_NAME, resolveLocale } from '../../../lib/i18n';
+import { logger, withRequestLogging } from '../../../lib/logger';
+import { nextOccurrence, parseRecurrenceRule } from '../../../lib/recurrence';
+import { getCredential } from '../../../lib/session';
+import type { ChatworkMe } from '../../../types/chatwork';
+import type { DigestSettings } from '../../../types/digest';
+
+// 送信設定を保存していない場合の既定値
+const DEFAULT_DIGEST: Pick<DigestSettings, 'enabled' | 'time' | 'weekdaysOnly'> = { enabled: false, time: '08:30', weekdaysOnly: true };
+
+/**
+ * 毎日のダイジェストの送信設定を返すAPIルートハンドラー (GETメソッド)
+ * 設定を保存していない場合は既定値 (停止中) を返します。
+ *
+ * @param {NextRequest} request - Next.jsのリクエストオブジェクト
+ * @returns {NextResponse} - Next.jsのレスポンスオブジェクト
+ */
+export const GET = withRequestLogging(async function GET(request: NextRequest) {
+  const auth = await getCredential(request);
+  if (!auth) {
+    logger.error('API Route Error: Chatwork API Token is missing for /digest.');
+    return apiErrorJson('token_missing', 'Chatwork API Token is missing.', 400);
+  }
+
+  try {
+    const { data: me } = await callChatwork<ChatworkMe>(auth.credential, '/me');
+    const digest = await getDigest(me.account_id);
+    const settings: DigestSettings = digest
+      ? toPublicDigest(digest)
+      : { ...DEFAULT_DIGEST, ownerAccountId: me.account_id, nextRunAt: null, lastRun: null };
+    return auth.applyTo(NextResponse.json(settings));
+  } catch (error) {
+    return auth.applyTo(chatworkErrorJson(error));
+  }
+});
+
+/**
+ * 毎日のダイジェストの送信設定を保存するAPIルートハンドラー (PUTメソッド)
+ * JSONで enabled・time (HH:MM)・weekdaysOnly を受け取ります。指定しなかった項目は保存済みの値 (なければ既定値) のままです。
+ * 送信時に使うため、リクエストの認証情報をアカウントの認証情報として保存します。ダイジェストの本文は、保存した時の表示言語で作ります。
+ *
+ * @param {NextRequest} request - Next.jsのリクエストオブジェクト
+ * @returns {NextResponse} - Next.jsのレスポンスオブジェクト
+ */
+export const PUT = withRequestLogging(async function PUT(request: NextRequest) {
+  const auth = await getCredential(request);
+  if (!auth || !auth.session) {
+    logger.error('API Route Error: Login session or X-ChatWorkToken is required for digests.');
+    return apiErrorJson('token_missing', 'Login session or X-ChatWorkToken is required.', 400);
+  }
+
+  let json: any;
+  try {
+    json = await request.json();
+  } catch (error) {
+    logger.error('Failed to parse request JSON', { error });
+    return auth.applyTo(apiErrorJson('invalid_body', 'Invalid JSON body.', 400));
+  }
+  let validationError: string | null = null;
+  if (!json || typeof json !== 'object') validationError = 'Request body must be a JSON object.';
+  else if (json.enabled !== undefined && typeof json.enabled !== 'boolean') validationError = "Field 'enabled' must be a boolean.";
+  else if (json.weekdaysOnly !== undefined && typeof json.weekdaysOnly !== 'boolean') validationError = "Field 'weekdaysOnly' must be a boolean.";
+  else if (json.time !== undefined && !parseRecurrenceRule({ kind: 'daily', time: json.time })) validationError = "Field 'time' must be HH:MM.";
+  if (validationError) {
+    logger.error(`API Route Error: ${validationError}`);
+    return auth.applyTo(apiErrorJson('invalid_parameter', validationError, 400));
+  }
+
+  try {
+    const { data: me } = await callChatwork<ChatworkMe>(auth.credential, '/me');
+    const current = await getDigest(me.account_id);
+    const base = current ?? { ...DEFAULT_DIGEST, ownerAccountId: me.account_id, nextRunAt: null, lastRun: null };
+    const updated: StoredDigest = {
+      ...base,
+      enabled: json.enabled ?? base.enabled,
+      time: json.time ?? base.time,
+      weekdaysOnly: json.weekdaysOnly ?? base.weekdaysOnly,
+      locale: resolveLocale(request.cookies.get(LOCALE_COOKIE_NAME)?.value, request.headers.get('accept-language')),
+    };
+    // 送信時刻を変えた場合に備えて、次回の送信時刻は毎回計算し直す
+    updated.nextRunAt = updated.enabled ? nextOccurrence(digestRule(updated), systemClock.now()).getTime() : null;
+    await saveCredential(me.account_id, auth.session);
+    await putDigest(updated);
+    return auth.applyTo(NextResponse.json(toPublicDigest(updated)));
+  } catch (error) {
+    return auth.applyTo(chatworkErrorJson(error));
+  }
+});
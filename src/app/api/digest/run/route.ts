@@ -0,0 +1,44 @@
+// src/app/api/digest/run/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { apiErrorJson } from '../../../../lib/apiErrors';
+import { chatworkErrorJson } from '../../../../lib/chatworkClient';
+import { systemClock } from '../../../../lib/clock';
+import { buildDigest, postDigest } from '../../../../lib/digest';
+import { createTranslate, LOCALE_COOKIE_NAME, resolveLocale } from '../../../../lib/i18n';
+import { logger, withRequestLogging } from '../../../../lib/logger';
+import { getCredential } from '../../../../lib/session';
+
+/**
+ * 毎日のダイジェストを今すぐ作成するAPIルートハンドラー (POSTメソッド)
+ * 自分が担当者の未完了のタスクをまとめて、マイチャットに投稿します。
+ * クエリに dryRun=true を指定した場合は投稿せず、投稿する本文だけを返します (プレビュー用)。
+ * 本文はリクエストの表示言語で作ります。送信設定の次回の送信時刻は変えません。
+ *
+ * @param {NextRequest} request - Next.jsのリクエストオブジェクト
+ * @returns {NextResponse} - Next.jsのレスポンスオブジェクト
+ */
+export const POST = withRequestLogging(async function POST(request: NextRequest) {
+  const auth = await getCredential(request);
+  if (!auth) {
+    logger.error('API Route Error: Chatwork API Token is missing for /digest/run.');
+    return apiErrorJson('token_missing', 'Chatwork API Token is missing.', 400);
+  }
+  const dryRun = request.nextUrl.searchParams.get('dryRun') === 'true';
+
+  try {
+    const locale = resolveLocale(request.cookies.get(LOCALE_COOKIE_NAME)?.value, request.headers.get('accept-language'));
+    const digest = await buildDigest(auth.credential, systemClock.now(), createTranslate(locale));
+    if (!digest) {
+      logger.error('API Route Error: My chat room not found.');
+      return auth.applyTo(apiErrorJson('my_chat_not_found', 'My chat room not found.', 404));
+    }
+    if (dryRun) {
+      return auth.applyTo(NextResponse.json({ ...digest, posted: false, messageId: null }));
+    }
+    const messageId = await postDigest(auth.credential, digest);
+    return auth.applyTo(NextResponse.json({ ...digest, posted: true, messageId }));
+  } catch (error) {
+    return auth.applyTo(chatworkErrorJson(error));
+  }
+});
@@ -0,0 +1,27 @@
+// src/app/api/health/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getLastRateLimit, probeChatwork } from '../../../lib/chatworkClient';
+import { withRequestLogging } from '../../../lib/logger';
+
+/**
+ * サーバーの状態を返すAPIルートハンドラー (GETメソッド)
+ * Chatwork API に接続できるかどうかと、最後に受け取ったレート制限の状態を返します。
+ * 監視から呼べるよう認証は不要です。Chatwork API に接続できない場合は 503 を返します。
+ *
+ * @param {NextRequest} request - Next.jsのリクエストオブジェクト
+ * @returns {NextResponse} - Next.jsのレスポンスオブジェクト
+ */
+export const GET = withRequestLogging(async function GET(request: NextRequest) {
+  const chatwork = await probeChatwork();
+  return NextResponse.json({
+    status: chatwork.reachable ? 'ok' : 'unavailable',
+    checkedAt: new Date().toISOString(),
+    chatwork,
+    rateLimit: getLastRateLimit(),
+  }, {
+    status: chatwork.reachable ? 200 : 503,
+    // 監視のたびに最新の状態を返す
+    headers: { 'Cache-Control': 'no-store' },
+  });
+});
@@ -0,0 +1,125 @@
+// src/app/api/schedules/[scheduleId]/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { apiErrorJson } from '../../../../lib/apiErrors';
+import { callChatwork, chatworkErrorJson } from '../../../../lib/chatworkClient';
+import { systemClock } from '../../../../lib/clock';
+import { saveCredential } from '../../../../lib/credentialStore';
+import { logger, withRequestLogging } from '../../../../lib/logger';
+import { nextOccurrence } from '../../../../lib/recurrence';
+import { parseScheduleUpdate } from '../../../../lib/scheduleInput';
+import { getScheduleStore, StoredSchedule, toPublicSchedule } from '../../../../lib/scheduleStore';
+import { CredentialContext, getCredential } from '../../../../lib/session';
+import type { ChatworkMe } from '../../../../types/chatwork';
+
+// 自分が登録した定期タスクを取得します。存在しない場合や他のアカウントのものの場合は null を返します。
+const findOwnSchedule = async (auth: CredentialContext, scheduleId: string): Promise<StoredSchedule | null> => {
+  const { data: me } = await callChatwork<ChatworkMe>(auth.credential, '/me');
+  const schedule = await getScheduleStore().get(scheduleId);
+  return schedule && schedule.ownerAccountId === me.account_id ? schedule : null;
+};
+
+// 定期タスクが見つからない場合のレスポンス
+const notFound = (scheduleId: string) => {
+  logger.error(`API Route Error: Schedule not found: ${scheduleId}`);
+  return apiErrorJson('schedule_not_found', 'Schedule not found.', 404);
+};
+
+/**
+ * 定期タスクを1件返すAPIルートハンドラー (GETメソッド)
+ *
+ * @param {NextRequest} request - Next.jsのリクエストオブジェクト
+ * @param {Object} context - Next.jsのコンテキストオブジェクト。動的ルートパラメータを含む。
+ * @param {Object} context.params - 動的ルートパラメータのオブジェクト。
+ * @param {string} context.params.scheduleId - URLから取得される定期タスクのID。
+ * @returns {NextResponse} - Next.jsのレスポンスオブジェクト
+ */
+export const GET = withRequestLogging(async function GET(request: NextRequest, { params }: { params: { scheduleId: string } }) {
+  const auth = await getCredential(request);
+  if (!auth) {
+    logger.error('API Route Error: Chatwork API Token is missing for /schedules.');
+    return apiErrorJson('token_missing', 'Chatwork API Token is missing.', 400);
+  }
+
+  try {
+    const schedule = await findOwnSchedule(auth, params.scheduleId);
+    return auth.applyTo(schedule ? NextResponse.json(toPublicSchedule(schedule)) : notFound(params.scheduleId));
+  } catch (error) {
+    return auth.applyTo(chatworkErrorJson(error));
+  }
+});
+
+/**
+ * 定期タスクを変更するAPIルートハンドラー (PUTメソッド)
+ * JSONで指定した項目だけを変更します。繰り返しのルールか有効/停止を変えた場合は、次回の実行時刻を計算し直します。
+ * アカウントの認証情報は、変更したリクエストのもので保存し直します (トークンを作り直した場合に備えて)。
+ *
+ * @param {NextRequest} request - Next.jsのリクエストオブジェクト
+ * @param {Object} context - Next.jsのコンテキストオブジェクト。動的ルートパラメータを含む。
+ * @returns {NextResponse} - Next.jsのレスポンスオブジェクト
+ */
+export const PUT = withRequestLogging(async function PUT(request: NextRequest, { params }: { params: { scheduleId: string } }) {
+  const auth = await getCredential(request);
+  if (!auth) {
+    logger.error('API Route Error: Chatwork API Token is missing for /schedules.');
+    return apiErrorJson('token_missing', 'Chatwork API Token is missing.', 400);
+  }
+
+  let json: unknown;
+  try {
+    json = await request.json();
+  } catch (error) {
+    logger.error('Failed to parse request JSON', { error });
+    return auth.applyTo(apiErrorJson('invalid_body', 'Invalid JSON body.', 400));
+  }
+  const { input, error: validationError } = parseScheduleUpdate(json);
+  if (!input) {
+    logger.error(`API Route Error: ${validationError}`);
+    return auth.applyTo(apiErrorJson('invalid_parameter', validationError, 400));
+  }
+
+  try {
+    const schedule = await findOwnSchedule(auth, params.scheduleId);
+    if (!schedule) {
+      return auth.applyTo(notFound(params.scheduleId));
+    }
+
+    const updated: StoredSchedule = { ...schedule, ...input };
+    if (input.rule || input.enabled !== undefined) {
+      updated.nextRunAt = updated.enabled ? nextOccurrence(updated.rule, systemClock.now()).getTime() : null;
+    }
+    if (auth.session) {
+      await saveCredential(schedule.ownerAccountId, auth.session);
+    }
+    await getScheduleStore().put(updated);
+    return auth.applyTo(NextResponse.json(toPublicSchedule(updated)));
+  } catch (error) {
+    return auth.applyTo(chatworkErrorJson(error));
+  }
+});
+
+/**
+ * 定期タスクを削除するAPIルートハンドラー (DELETEメソッド)
+ *
+ * @param {NextRequest} request - Next.jsのリクエストオブジェクト
+ * @param {Object} context - Next.jsのコンテキストオブジェクト。動的ルートパラメータを含む。
+ * @returns {NextResponse} - Next.jsのレスポンスオブジェクト
+ */
+export const DELETE = withRequestLogging(async function DELETE(request: NextRequest, { params }: { params: { scheduleId: string } }) {
+  const auth = await getCredential(request);
+  if (!auth) {
+    logger.error('API Route Error: Chatwork API Token is missing for /schedules.');
+    return apiErrorJson('token_missing', 'Chatwork API Token is missing.', 400);
+  }
+
+  try {
+    const schedule = await findOwnSchedule(auth, params.scheduleId);
+    if (!schedule) {
+      return auth.applyTo(notFound(params.scheduleId));
+    }
+    await getScheduleStore().delete(schedule.id);
+    return auth.applyTo(new NextResponse(null, { status: 204 }));
+  } catch (error) {
+    return auth.applyTo(chatworkErrorJson(error));
+  }
+});
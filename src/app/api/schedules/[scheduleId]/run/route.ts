@@ -0,0 +1,45 @@
+// src/app/api/schedules/[scheduleId]/run/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { apiErrorJson } from '../../../../../lib/apiErrors';
+import { callChatwork, chatworkErrorJson } from '../../../../../lib/chatworkClient';
+import { logger, withRequestLogging } from '../../../../../lib/logger';
+import { getScheduleStore, toPublicSchedule } from '../../../../../lib/scheduleStore';
+import { runScheduleNow } from '../../../../../lib/scheduler';
+import { getCredential } from '../../../../../lib/session';
+import type { ChatworkMe } from '../../../../../types/chatwork';
+
+/**
+ * 定期タスクを今すぐ1回実行するAPIルートハンドラー (POSTメソッド)
+ * 動作確認のためのもので、次回の実行時刻は変えません。実行結果を記録した定期タスクを返します。
+ *
+ * @param {NextRequest} request - Next.jsのリクエストオブジェクト
+ * @param {Object} context - Next.jsのコンテキストオブジェクト。動的ルートパラメータを含む。
+ * @param {Object} context.params - 動的ルートパラメータのオブジェクト。
+ * @param {string} context.params.scheduleId - URLから取得される定期タスクのID。
+ * @returns {NextResponse} - Next.jsのレスポンスオブジェクト
+ */
+export const POST = withRequestLogging(async function POST(request: NextRequest, { params }: { params: { scheduleId: string } }) {
+  const auth = await getCredential(request);
+  if (!auth) {
+    logger.error('API Route Error: Chatwork API Token is missing for /schedules.');
+    return apiErrorJson('token_missing', 'Chatwork API Token is missing.', 400);
+  }
+
+  try {
+    const { data: me } = await callChatwork<ChatworkMe>(auth.credential, '/me');
+    const schedule = await getScheduleStore().get(params.scheduleId);
+    if (!schedule || schedule.ownerAccountId !== me.account_id) {
+      logger.error(`API Route Error: Schedule not found: ${params.scheduleId}`);
+      return auth.applyTo(apiErrorJson('schedule_not_found', 'Schedule not found.', 404));
+    }
+
+    const updated = await runScheduleNow(schedule);
+    if (!updated) {
+      return auth.applyTo(apiErrorJson('schedule_not_found', 'Schedule not found.', 404));
+    }
+    return auth.applyTo(NextResponse.json(toPublicSchedule(updated)));
+  } catch (error) {
+    return auth.applyTo(chatworkErrorJson(error));
+  }
+});
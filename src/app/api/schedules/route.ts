@@ -0,0 +1,84 @@
+// src/app/api/schedules/route.ts
+
+import { apiErrorJson } from '../../../lib/apiErrors';
+import crypto from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { callChatwork, chatworkErrorJson } from '../../../lib/chatworkClient';
+import { systemClock } from '../../../lib/clock';
+import { saveCredential } from '../../../lib/credentialStore';
+import { logger, withRequestLogging } from '../../../lib/logger';
+import { nextOccurrence } from '../../../lib/recurrence';
+import { parseScheduleInput } from '../../../lib/scheduleInput';
+import { getScheduleStore, StoredSchedule, toPublicSchedule } from '../../../lib/scheduleStore';
+import { getCredential } from '../../../lib/session';
+import type { ChatworkMe } from '../../../types/chatwork';
+
+/**
+ * 自分が登録した定期タスクの一覧を返すAPIルートハンドラー (GETメソッド)
+ *
+ * @param {NextRequest} request - Next.jsのリクエストオブジェクト
+ * @returns {NextResponse} - Next.jsのレスポンスオブジェクト
+ */
+export const GET = withRequestLogging(async function GET(request: NextRequest) {
+  const auth = await getCredential(request);
+  if (!auth) {
+    logger.error('API Route Error: Chatwork API Token is missing for /schedules.');
+    return apiErrorJson('token_missing', 'Chatwork API Token is missing.', 400);
+  }
+
+  try {
+    // 定期タスクは登録したアカウント本人のものだけを返す
+    const { data: me } = await callChatwork<ChatworkMe>(auth.credential, '/me');
+    const schedules = (await getScheduleStore().list()).filter(schedule => schedule.ownerAccountId === me.account_id);
+    return auth.applyTo(NextResponse.json(schedules.map(toPublicSchedule)));
+  } catch (error) {
+    return auth.applyTo(chatworkErrorJson(error));
+  }
+});
+
+/**
+ * 定期タスクを登録するAPIルートハンドラー (POSTメソッド)
+ * JSONで name・roomId・body・assigneeIds・deadline・rule・enabled を受け取ります。
+ * 実行時に使うため、リクエストの認証情報をアカウントの認証情報として保存します。
+ *
+ * @param {NextRequest} request - Next.jsのリクエストオブジェクト
+ * @returns {NextResponse} - Next.jsのレスポンスオブジェクト
+ */
+export const POST = withRequestLogging(async function POST(request: NextRequest) {
+  const auth = await getCredential(request);
+  if (!auth || !auth.session) {
+    logger.error('API Route Error: Login session or X-ChatWorkToken is required for schedules.');
+    return apiErrorJson('token_missing', 'Login session or X-ChatWorkToken is required.', 400);
+  }
+
+  let json: unknown;
+  try {
+    json = await request.json();
+  } catch (error) {
+    logger.error('Failed to parse request JSON', { error });
+    return auth.applyTo(apiErrorJson('invalid_body', 'Invalid JSON body.', 400));
+  }
+  const { input, error: validationError } = parseScheduleInput(json);
+  if (!input) {
+    logger.error(`API Route Error: ${validationError}`);
+    return auth.applyTo(apiErrorJson('invalid_parameter', validationError, 400));
+  }
+
+  try {
+    const { data: me } = await callChatwork<ChatworkMe>(auth.credential, '/me');
+    const now = systemClock.now();
+    const schedule: StoredSchedule = {
+      ...input,
+      id: crypto.randomUUID(),
+      ownerAccountId: me.account_id,
+      nextRunAt: input.enabled ? nextOccurrence(input.rule, now).getTime() : null,
+      runs: [],
+      createdAt: now.getTime(),
+    };
+    await saveCredential(me.account_id, auth.session);
+    await getScheduleStore().put(schedule);
+    return auth.applyTo(NextResponse.json(toPublicSchedule(schedule), { status: 201 }));
+  } catch (error) {
+    return auth.applyTo(chatworkErrorJson(error));
+  }
+});
@@ -0,0 +1,40 @@
+// src/app/api/session/profile/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { apiErrorJson } from '../../../../lib/apiErrors';
+import { logger, withRequestLogging } from '../../../../lib/logger';
+import { getProfileVault, profileStatus, setProfilesCookie, switchProfile } from '../../../../lib/profiles';
+import { getSession, setSessionCookie } from '../../../../lib/session';
+
+/**
+ * 使用中のプロフィールを切り替えるAPIルートハンドラー (PUTメソッド)
+ * JSONの `profileId` のプロフィールの認証情報をセッションCookieに入れ、それまでの認証情報はプロフィール用のCookieに移します。
+ * Chatwork API は呼ばないため、切り替えてすぐにそのアカウントで操作できます。
+ *
+ * @param {NextRequest} request - Next.jsのリクエストオブジェクト
+ * @returns {NextResponse} - Next.jsのレスポンスオブジェクト
+ */
+export const PUT = withRequestLogging(async function PUT(request: NextRequest) {
+  let profileId: unknown;
+  try {
+    ({ profileId } = await request.json());
+  } catch (error) {
+    logger.error('Failed to parse request JSON', { error });
+    return apiErrorJson('invalid_body', 'Invalid JSON body.', 400);
+  }
+  if (typeof profileId !== 'string' || !profileId) {
+    logger.error("API Route Error: Field 'profileId' is required.");
+    return apiErrorJson('invalid_parameter', "Field 'profileId' is required.", 400);
+  }
+
+  const switched = switchProfile(getProfileVault(request), getSession(request), profileId);
+  if (!switched) {
+    logger.error('API Route Error: Profile not found.', { profileId });
+    return apiErrorJson('profile_not_found', 'Profile not found.', 404);
+  }
+
+  const response = NextResponse.json({ loggedIn: true, method: switched.session.kind, ...profileStatus(switched.vault) });
+  setSessionCookie(response, switched.session);
+  setProfilesCookie(response, switched.vault);
+  return response;
+});
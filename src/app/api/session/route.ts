@@ -0,0 +1,132 @@
+// src/app/api/session/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { apiErrorJson } from '../../../lib/apiErrors';
+import { callChatwork, chatworkErrorJson } from '../../../lib/chatworkClient';
+import { isStoredRefreshToken } from '../../../lib/credentialStore';
+import { logger, withRequestLogging } from '../../../lib/logger';
+import { getOAuthConfig, revokeToken } from '../../../lib/oauth';
+import { addProfile, getProfileVault, MAX_PROFILES, profileStatus, removeActiveProfile, setProfilesCookie } from '../../../lib/profiles';
+import { clearSessionCookie, getCredential, getSession, sessionExpiry, setSessionCookie } from '../../../lib/session';
+import type { ChatworkMe } from '../../../types/chatwork';
+
+/**
+ * ログイン状態を返すAPIルートハンドラー (GETメソッド)
+ * トークン自体は返さず、ログインしているかどうか・ログイン方法・OAuth ログインが使えるかどうかと、プロフィールの一覧を返します。
+ * プロフィールに対応する前からログインしていた場合は、/me で確認したアカウントのプロフィールを作ります。
+ *
+ * @param {NextRequest} request - Next.jsのリクエストオブジェクト
+ * @returns {NextResponse} - Next.jsのレスポンスオブジェクト
+ */
+export const GET = withRequestLogging(async function GET(request: NextRequest) {
+  const session = getSession(request);
+  const vault = getProfileVault(request);
+  const status = {
+    loggedIn: session !== null,
+    method: session?.kind ?? null,
+    oauthAvailable: getOAuthConfig() !== null,
+  };
+  if (!session || vault.activeId) {
+    return NextResponse.json({ ...status, ...profileStatus(vault) });
+  }
+
+  // プロフィールのないセッションを、ログイン中のアカウントのプロフィールにする
+  const auth = await getCredential(request);
+  if (!auth) {
+    return NextResponse.json({ ...status, ...profileStatus(vault) });
+  }
+  try {
+    const { data } = await callChatwork<ChatworkMe>(auth.credential, '/me');
+    const added = addProfile(vault, null, data, null);
+    if (!added) {
+      return auth.applyTo(NextResponse.json({ ...status, ...profileStatus(vault) }));
+    }
+    const response = NextResponse.json({ ...status, ...profileStatus(added.vault) });
+    setProfilesCookie(response, added.vault);
+    return auth.applyTo(response);
+  } catch (error) {
+    return auth.applyTo(chatworkErrorJson(error));
+  }
+});
+
+/**
+ * ログインするAPIルートハンドラー (POSTメソッド)
+ * フォームデータの `token` を /me で検証し、有効であれば暗号化したセッションCookieに保存します。
+ * ログイン中だった場合、それまでのアカウントはプロフィールとして残し、新しいアカウントのプロフィールを追加して使用中にします。
+ * プロフィール名はフォームデータの `profileName` で指定できます (省略した場合はアカウント名)。
+ *
+ * @param {NextRequest} request - Next.jsのリクエストオブジェクト
+ * @returns {NextResponse} - Next.jsのレスポンスオブジェクト
+ */
+export const POST = withRequestLogging(async function POST(request: NextRequest) {
+  let token: string | null = null;
+  let profileName: string | null = null;
+  try {
+    const formData = await request.formData();
+    token = formData.get('token')?.toString().trim() || null;
+    profileName = formData.get('profileName')?.toString() || null;
+  } catch (error) {
+    logger.error('Failed to parse request form data', { error });
+    return apiErrorJson('invalid_body', 'Invalid form data format.', 400);
+  }
+
+  if (!token) {
+    logger.error("API Route Error: Parameter 'token' is required.");
+    return apiErrorJson('invalid_parameter', "Parameter 'token' is required.", 400);
+  }
+
+  try {
+    // トークンが有効かどうかを /me で確認する
+    const { data } = await callChatwork<ChatworkMe>({ type: 'token', token }, '/me');
+    const added = addProfile(getProfileVault(request), getSession(request), data, profileName);
+    if (!added) {
+      logger.error(`API Route Error: No more than ${MAX_PROFILES} profiles can be saved.`);
+      return apiErrorJson('profile_limit_reached', `No more than ${MAX_PROFILES} profiles can be saved.`, 409);
+    }
+    const response = NextResponse.json({
+      loggedIn: true,
+      account: { account_id: data.account_id, name: data.name },
+      profile: added.profile,
+      ...profileStatus(added.vault),
+    });
+    setSessionCookie(response, { kind: 'token', token, expiresAt: sessionExpiry() });
+    setProfilesCookie(response, added.vault);
+    return response;
+  } catch (error) {
+    // 無効なトークンの場合は Chatwork API の 401 をそのまま返す
+    return chatworkErrorJson(error);
+  }
+});
+
+/**
+ * ログアウトするAPIルートハンドラー (DELETEメソッド)
+ * 使用中のプロフィールを削除し、セッションCookieを削除します。OAuth でログインしていた場合は、トークンも失効させます。
+ * ただし、定期タスク・ダイジェスト・カレンダーのフィードのために保存した認証情報が同じトークンを使っている場合は、
+ * それらが動き続けるよう失効させません。
+ * 他のプロフィールが残っている場合は、そのうち最初のものに切り替えます。
+ *
+ * @param {NextRequest} request - Next.jsのリクエストオブジェクト
+ * @returns {NextResponse} - Next.jsのレスポンスオブジェクト
+ */
+export const DELETE = withRequestLogging(async function DELETE(request: NextRequest) {
+  const session = getSession(request);
+  const config = getOAuthConfig();
+  if (session?.kind === 'oauth' && config) {
+    if (await isStoredRefreshToken(session.refreshToken)) {
+      logger.info('Kept the OAuth token on logout because a stored credential uses it.');
+    } else {
+      // リフレッシュトークンを失効させれば、そこから発行されたアクセストークンも使えなくなる
+      await revokeToken(config, session.refreshToken, 'refresh_token');
+    }
+  }
+
+  const { vault, session: next } = removeActiveProfile(getProfileVault(request));
+  const response = NextResponse.json({ loggedIn: next !== null, ...profileStatus(vault) });
+  if (next) {
+    setSessionCookie(response, next);
+  } else {
+    clearSessionCookie(response);
+  }
+  setProfilesCookie(response, vault);
+  return response;
+});
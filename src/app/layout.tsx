@@ -1,8 +1,16 @@
 import './globals.css'
+import { cookies, headers } from 'next/headers'
+import LocaleProvider from '../components/LocaleProvider'
+import ServiceWorkerRegistration from '../components/ServiceWorkerRegistration'
+import { LOCALE_COOKIE_NAME, resolveLocale } from '../lib/i18n'
 
 export const metadata = {
   title: 'Chatwork Task Memo',
   description: 'Chatwork task management tool',
+  // ホーム画面への追加と、他のアプリからの共有 (share_target) に使うマニフェスト
+  manifest: '/manifest.webmanifest',
+  themeColor: '#059669',
+  icons: { icon: '/icon.svg', apple: '/icon.svg' },
 }
 
 export default function RootLayout({
@@ -10,9 +18,17 @@ export default function RootLayout({
 }: {
   children: React.ReactNode
 }) {
+  // 画面で選んだ言語 (Cookie) を優先し、選んでいない場合はブラウザの言語設定に合わせる
+  const locale = resolveLocale(cookies().get(LOCALE_COOKIE_NAME)?.value, headers().get('accept-language'))
+
   return (
-    <html lang="ja">
-      <body>{children}</body>
+    <html lang={locale}>
+      <body>
+        <LocaleProvider initialLocale={locale}>
+          {children}
+        </LocaleProvider>
+        <ServiceWorkerRegistration />
+      </body>
     </html>
   )
-}
\ No newline at end of file
+}
@@ -6,54 +6,175 @@
 
 // Reactのフックをインポートします。
 import { useState, useEffect, useRef } from 'react';
+import AssigneePicker from '../components/AssigneePicker';
+import AttachmentDropZone from '../components/AttachmentDropZone';
+import BroadcastPanel from '../components/BroadcastPanel';
+import CalendarFeedPanel from '../components/CalendarFeedPanel';
+import ChatworkPreview from '../components/ChatworkPreview';
+import DeadlinePicker from '../components/DeadlinePicker';
+import DigestPanel from '../components/DigestPanel';
+import HistoryPanel from '../components/HistoryPanel';
+import ImportPanel from '../components/ImportPanel';
+import { useI18n } from '../components/LocaleProvider';
+import LocaleToggle from '../components/LocaleToggle';
+import TaskList from '../components/TaskList';
+import TaskInput, { DraftResult } from '../components/TaskInput';
+import OutboxPanel from '../components/OutboxPanel';
+import ProfileSwitcher from '../components/ProfileSwitcher';
+import RoomPicker from '../components/RoomPicker';
+import SchedulePanel from '../components/SchedulePanel';
+import SendModePicker from '../components/SendModePicker';
+import TemplatePanel, { AppliedTemplate } from '../components/TemplatePanel';
+import WebhookInbox from '../components/WebhookInbox';
+import { appendAttachmentLinks, Attachment, toAttachment, validateAttachmentSize } from '../lib/attachments';
+import { buildMessageBody, includesMessage, includesTask, SEND_MODES, SendMode } from '../lib/chatworkMessage';
+import { convertMarkdownToChatwork } from '../lib/chatworkNotation';
+import { Deadline, deadlineToUnix, defaultDeadline } from '../lib/dueDate';
+import { describeApiError, readApiError } from '../lib/i18n';
+import { parseMemoLines, TaskDraft } from '../lib/memoParser';
+import { migrateLegacyItems, readProfileItem, removeProfileItems, writeProfileItem } from '../lib/profileStorage';
+import { readSharedMemo } from '../lib/shareTarget';
+import { addHistoryEntry, HistoryEntry } from '../lib/taskHistory';
+import { createTask, describeSendError, isRetryableSendError, postMessage, TaskRequest, uploadFile } from '../lib/taskClient';
+import { createOutboxItem, generateIdempotencyKey, putOutboxItem } from '../lib/outbox';
+import type { ChatworkMe, ChatworkMember, ChatworkRoom, ChatworkUploadedFile } from '../types/chatwork';
+import type { ChatworkProfile, SessionStatus } from '../types/profile';
 
 // Next.jsのAPIルートを呼び出すためのベースURLを定義します。
 // これは、Chatwork APIへのリクエストをプロキシするNext.jsのAPIルートのパスです。
 const PROXY_BASE_URL = '/api/chatwork';
 
+// 以前のバージョンでAPIトークンを平文で保存していたキー。
+// トークンはサーバー側のセッションに移したため、見つけたら削除します。
+const LEGACY_KEY_API_TOKEN = 'chatworkApiToken';
+
 // ローカルストレージで使用するキャッシュキーと有効期限を定義します。
-const CACHE_KEY_API_TOKEN = 'chatworkApiToken'; // APIトークンを保存するキー
+// アカウントごとに異なる内容は、プロフィールのIDを付けたキーに保存します (lib/profileStorage.ts を参照)。
 const CACHE_KEY_ROOMS = 'chatworkRoomsCache'; // ルーム一覧のキャッシュを保存するキー
 const CACHE_KEY_ROOMS_TIMESTAMP = 'chatworkRoomsCacheTimestamp'; // ルーム一覧キャッシュのタイムスタンプを保存するキー
+const CACHE_KEY_MEMBERS = 'chatworkMembersCache'; // ルームごとのメンバー一覧キャッシュを保存するキー
+const CACHE_KEY_ME = 'chatworkMeCache'; // 自分のアカウント情報を保存するキー
 const CACHE_DURATION_MS = 1000 * 60 * 60 * 24; // キャッシュの有効期限: 24時間 (ミリ秒)
+const STORAGE_KEY_FAVORITE_ROOMS = 'chatworkFavoriteRooms'; // お気に入りのルームIDを保存するキー
+const STORAGE_KEY_RECENT_ROOMS = 'chatworkRecentRooms'; // 最近タスクを送信したルームIDを保存するキー
+const MAX_RECENT_ROOMS = 5; // 「最近送信したルーム」に表示する件数
+const STORAGE_KEY_DEFAULT_ROOM = 'chatworkDefaultRoom'; // 前回選んだルーム (プロフィールを開いた時に選択するルーム) を保存するキー
+// プロフィールに対応する前の保存内容のうち、最初に使ったプロフィールに移すキーと、どのアカウントのものか分からないため削除するキー
+const LEGACY_MOVABLE_KEYS = [STORAGE_KEY_FAVORITE_ROOMS, STORAGE_KEY_RECENT_ROOMS];
+const LEGACY_DISCARD_KEYS = [CACHE_KEY_ROOMS, CACHE_KEY_ROOMS_TIMESTAMP, CACHE_KEY_MEMBERS, CACHE_KEY_ME];
+// ログアウトでプロフィールを削除する時に消すキー
+const PROFILE_STORAGE_KEYS = [...LEGACY_DISCARD_KEYS, ...LEGACY_MOVABLE_KEYS, STORAGE_KEY_DEFAULT_ROOM];
+const STORAGE_KEY_SEND_MODE = 'chatworkSendMode'; // 前回選んだ送信方法 (タスク/メッセージ/両方) を保存するキー
+const STORAGE_KEY_SEND_RAW_BODY = 'chatworkSendRawBody'; // Markdown を変換せずにそのまま送るかどうかを保存するキー
+
+// Chatwork APIのルーム一覧の要素から、このアプリで使う項目だけを取り出す
+// (以前のバージョンのキャッシュに項目が欠けていても表示できるよう、既定値を補う)
+const toRoom = (room: any): ChatworkRoom => ({
+  room_id: room.room_id,
+  name: room.name,
+  type: room.type ?? 'group',
+  sticky: !!room.sticky,
+  unread_num: room.unread_num ?? 0,
+  icon_path: room.icon_path ?? '',
+});
+
+// プロフィールのルームIDの配列をローカルストレージから読み込む (壊れている場合は空配列)
+const loadRoomIds = (profileId: string | null, key: string): number[] => {
+  try {
+    const ids = JSON.parse(readProfileItem(profileId, key) || '[]');
+    return Array.isArray(ids) ? ids.filter((id): id is number => typeof id === 'number') : [];
+  } catch (e) {
+    console.error(`Stored room ids (${key}) are corrupted.`, e);
+    return [];
+  }
+};
+
+// ルームごとのメンバー一覧キャッシュの形式 (キーはルームID)
+type MembersCache = Record<string, { members: ChatworkMember[]; timestamp: number }>;
 
 // Homeコンポーネントをデフォルトエクスポートします。これがアプリケーションのメインページになります。
 export default function Home() {
+  // 表示言語の翻訳関数
+  const { t } = useI18n();
+
   // --- 状態管理 ---
-  // APIトークンを保持するstate
+  // ログインフォームに入力されたAPIトークンを保持するstate (ログイン後はクリアし、ブラウザには残さない)
   const [apiToken, setApiToken] = useState<string>('');
+  // サーバー側のセッションでログインしているかどうか
+  const [loggedIn, setLoggedIn] = useState<boolean>(false);
+  // 保存しているプロフィール (アカウント) の一覧と、使用中のプロフィールのID
+  const [profiles, setProfiles] = useState<ChatworkProfile[]>([]);
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(null);
+  // プロフィールを切り替え中かどうか
+  const [switchingProfile, setSwitchingProfile] = useState<boolean>(false);
+  // ログイン中に別のアカウントを追加するため、ログインフォームを表示しているかどうか
+  const [addingProfile, setAddingProfile] = useState<boolean>(false);
+  // ログインフォームに入力されたプロフィール名 (省略した場合はアカウント名)
+  const [profileName, setProfileName] = useState<string>('');
+  // サーバーに OAuth の設定があり、「Chatworkでログイン」が使えるかどうか
+  const [oauthAvailable, setOauthAvailable] = useState<boolean>(false);
   // 取得したルーム一覧を保持するstate
-  const [rooms, setRooms] = useState<{ room_id: number; name: string }[]>([]);
+  const [rooms, setRooms] = useState<ChatworkRoom[]>([]);
+  // ルーム一覧をAPIから取得中かどうか
+  const [roomsLoading, setRoomsLoading] = useState<boolean>(false);
+  // お気に入りのルームID (登録順)
+  const [favoriteRoomIds, setFavoriteRoomIds] = useState<number[]>([]);
+  // 最近タスクを送信したルームID (新しい順)
+  const [recentRoomIds, setRecentRoomIds] = useState<number[]>([]);
   // ★修正: 選択されたルームIDを保持するstate。useStateで管理し、初期値は空文字列。
   const [selectedRoomId, setSelectedRoomId] = useState<string>('');
   // タスクメモの内容を保持するstate
   const [memoContent, setMemoContent] = useState<string>('');
+  // 自分自身のアカウント情報を保持するstate (担当者のデフォルト値として使用)
+  const [myAccount, setMyAccount] = useState<ChatworkMe | null>(null);
+  // 選択中のルームのメンバー一覧を保持するstate
+  const [members, setMembers] = useState<ChatworkMember[]>([]);
+  // メンバー一覧を読み込み中かどうか
+  const [membersLoading, setMembersLoading] = useState<boolean>(false);
+  // 選択された担当者のアカウントIDを保持するstate
+  const [selectedAssigneeIds, setSelectedAssigneeIds] = useState<number[]>([]);
+  // タスクの期限 (種類・日付・時刻) を保持するstate。初期値は1週間後。
+  const [deadline, setDeadline] = useState<Deadline>(() => defaultDeadline());
+  // 送信方法 (タスクのみ・メッセージのみ・タスク＋メッセージ)
+  const [sendMode, setSendMode] = useState<SendMode>('task');
+  // メッセージを [info] で囲む場合のタイトル (囲まない場合は null)
+  const [messageInfo, setMessageInfo] = useState<{ title: string } | null>(null);
+  // Markdown を Chatwork の記法に変換せず、入力した文字列のまま送るかどうか
+  const [sendRawBody, setSendRawBody] = useState<boolean>(false);
+  // タスクに添付するファイル (送信時にアップロードする)
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  // タスク一覧を再読み込みさせるためのカウンター (タスク送信成功時に加算)
+  const [taskListRefreshKey, setTaskListRefreshKey] = useState<number>(0);
+  // メモの1行ごとに別タスクとして送信する一括モードかどうか
+  const [bulkMode, setBulkMode] = useState<boolean>(false);
+  // 一括モードのタスク下書き (プレビュー作成前は null)
+  const [drafts, setDrafts] = useState<TaskDraft[] | null>(null);
+  // 一括送信の行ごとの結果 (キーは下書きの行番号)
+  const [draftResults, setDraftResults] = useState<Record<number, DraftResult>>({});
   // ユーザーへのステータスメッセージと、そのメッセージのタイプ（成功、エラーなど）を保持するstate
   const [statusMessage, setStatusMessage] = useState<{ text: string; type: 'success' | 'error' | '' }>({ text: '', type: '' });
 
   // --- DOM要素への参照 ---
   // textarea要素への参照を保持するためのref。直接DOMを操作するのではなく、Reactの流儀に従います。
   const memoTextRef = useRef<HTMLTextAreaElement>(null);
+  // 使用中のプロフィールのID。キャッシュの読み書きは、切り替えた直後から新しいプロフィールを使うよう state ではなく ref を参照する
+  const activeProfileIdRef = useRef<string | null>(null);
+  // テンプレートでルームを切り替えた時に、メンバー読み込み後に選択する担当者 (ない場合は null で、自分を選択する)
+  const pendingAssigneeIdsRef = useRef<number[] | null>(null);
 
   // --- ルーム一覧読み込み関数 ---
   // Chatwork APIからルーム一覧を取得し、プルダウンに表示する非同期関数です。
   // キャッシュがあればそれを利用し、必要に応じてAPIから再取得します。
-  // @param token - Chatwork APIトークン
+  // APIトークンはセッションCookieとしてAPIルートに送られるため、ここでは扱いません。
   // @param forceFetch - trueの場合、キャッシュを無視してAPIから強制的に取得します。
   // ★修正: 取得したルーム一覧をPromiseで返すように変更
-  const loadRooms = async (token: string, forceFetch = false): Promise<{ room_id: number; name: string }[] | null> => {
-    // APIトークンがない場合はエラーメッセージを表示して処理を中断
-    if (!token) {
-      setStatusMessage({ text: 'APIトークンが設定されていません。', type: 'error' });
-      setRooms([]); // ルーム一覧をクリア
-      setSelectedRoomId(''); // 選択中のルームをクリア
-      return null;
-    }
-
+  const loadRooms = async (forceFetch = false): Promise<ChatworkRoom[] | null> => {
+    // 取得中にプロフィールが切り替えられても、取得を始めたプロフィールのキャッシュに保存する
+    const profileId = activeProfileIdRef.current;
     // キャッシュからの読み込みを試みる
     if (!forceFetch) {
-      const cachedRooms = localStorage.getItem(CACHE_KEY_ROOMS);
-      const cachedTimestamp = localStorage.getItem(CACHE_KEY_ROOMS_TIMESTAMP);
+      const cachedRooms = readProfileItem(profileId, CACHE_KEY_ROOMS);
+      const cachedTimestamp = readProfileItem(profileId, CACHE_KEY_ROOMS_TIMESTAMP);
 
       // キャッシュが存在し、有効期限内の場合
       if (cachedRooms && cachedTimestamp) {
@@ -62,9 +183,9 @@ export default function Home() {
 
         if (now - timestamp < CACHE_DURATION_MS) {
           try {
-            const parsedRooms = JSON.parse(cachedRooms);
+            const parsedRooms: ChatworkRoom[] = JSON.parse(cachedRooms).map(toRoom);
             setRooms(parsedRooms); // キャッシュからルーム一覧をセット
-            setStatusMessage({ text: 'キャッシュからルーム一覧を読み込みました。', type: 'success' });
+            setStatusMessage({ text: t('page.roomsFromCache'), type: 'success' });
             // ★修正: キャッシュから読み込んだ場合もルーム一覧を返す
             return parsedRooms;
           } catch (e) {
@@ -73,13 +194,14 @@ export default function Home() {
           }
         } else {
           // キャッシュが期限切れの場合
-          setStatusMessage({ text: 'ルーム一覧のキャッシュが期限切れです。更新中...', type: '' });
+          setStatusMessage({ text: t('page.roomsCacheExpired'), type: '' });
         }
       }
     }
 
     // APIからルーム一覧を取得中のメッセージを表示
-    setStatusMessage({ text: 'ルーム一覧をChatwork APIから取得中...', type: '' });
+    setStatusMessage({ text: t('page.fetchingRooms'), type: '' });
+    setRoomsLoading(true);
     setRooms([]); // ロード中はルーム一覧をクリア
     setSelectedRoomId(''); // ロード中は選択中のルームをクリア
 
@@ -88,83 +210,424 @@ export default function Home() {
       const response = await fetch(`${PROXY_BASE_URL}/rooms`, {
         method: 'GET', // GETリクエスト
         headers: {
-          'X-ChatWorkToken': token, // APIトークンをヘッダーに設定
           'Accept': 'application/json' // JSON形式のレスポンスを要求
         }
       });
 
       // レスポンスが成功 (HTTPステータス2xx) だった場合
       if (response.ok) {
-        const fetchedRooms = await response.json(); // レスポンスをJSONとしてパース
+        const fetchedRooms: ChatworkRoom[] = (await response.json()).map(toRoom); // レスポンスをJSONとしてパースし、使う項目だけ取り出す
+        // 取得中に別のプロフィールに切り替えられた場合は、前のアカウントのルーム一覧を表示しない
+        if (profileId !== activeProfileIdRef.current) return null;
         setRooms(fetchedRooms); // 取得したルーム一覧をstateにセット
-        setStatusMessage({ text: 'ルーム一覧の取得が完了しました。', type: 'success' });
+        setStatusMessage({ text: t('page.roomsFetched'), type: 'success' });
         // 取得したルーム一覧とタイムスタンプをローカルストレージにキャッシュ
-        localStorage.setItem(CACHE_KEY_ROOMS, JSON.stringify(fetchedRooms));
-        localStorage.setItem(CACHE_KEY_ROOMS_TIMESTAMP, Date.now().toString());
+        writeProfileItem(profileId, CACHE_KEY_ROOMS, JSON.stringify(fetchedRooms));
+        writeProfileItem(profileId, CACHE_KEY_ROOMS_TIMESTAMP, Date.now().toString());
         return fetchedRooms; // 取得したルーム一覧を返す
       } else {
-        // レスポンスがエラーだった場合
-        const errorData = await response.json(); // エラーレスポンスをJSONとしてパース
-        throw new Error(`Chatwork APIエラー（ルーム一覧取得）: ${response.status} - ${JSON.stringify(errorData)}`);
+        // レスポンスがエラーだった場合 (エラーの種類から表示言語のメッセージにする)
+        throw new Error(await readApiError(t, response));
       }
     } catch (error: any) {
       // API呼び出し中にエラーが発生した場合
       console.error('エラー:', error);
-      setStatusMessage({ text: `ルーム一覧の取得に失敗しました: ${error.message}`, type: 'error' });
+      setStatusMessage({ text: t('page.roomsFailed', { detail: error.message }), type: 'error' });
       setRooms([]); // エラー時はルーム一覧をクリア
       return null; // エラー時はnullを返す
+    } finally {
+      // 取得中に別のプロフィールに切り替えられた場合は、切り替え後の取得の状態を残す
+      if (profileId === activeProfileIdRef.current) setRoomsLoading(false);
+    }
+  };
+
+  // --- 自分の情報読み込み関数 ---
+  // /me APIから自分のアカウント情報を取得します。一度取得した情報はローカルストレージにキャッシュします。
+  const loadMe = async (): Promise<ChatworkMe | null> => {
+    const profileId = activeProfileIdRef.current;
+    const cachedMe = readProfileItem(profileId, CACHE_KEY_ME);
+    if (cachedMe) {
+      try {
+        const parsedMe: ChatworkMe = JSON.parse(cachedMe);
+        setMyAccount(parsedMe);
+        return parsedMe;
+      } catch (e) {
+        console.error('Cached account data is corrupted, fetching new data.', e);
+      }
+    }
+
+    try {
+      const response = await fetch(`${PROXY_BASE_URL}/me`, {
+        method: 'GET',
+        headers: {
+          'Accept': 'application/json'
+        }
+      });
+      if (!response.ok) {
+        throw new Error(await readApiError(t, response));
+      }
+      const data = await response.json();
+      const me: ChatworkMe = { account_id: data.account_id, name: data.name };
+      setMyAccount(me);
+      writeProfileItem(profileId, CACHE_KEY_ME, JSON.stringify(me));
+      return me;
+    } catch (error: any) {
+      console.error('エラー:', error);
+      setStatusMessage({ text: t('page.meFailed', { detail: error.message }), type: 'error' });
+      return null;
+    }
+  };
+
+  // --- メンバー一覧読み込み関数 ---
+  // 指定したルームのメンバー一覧を取得します。loadRoomsと同様に、ルームごとにローカルストレージへキャッシュします。
+  // @param roomId - メンバーを取得するルームID
+  // @param forceFetch - trueの場合、キャッシュを無視してAPIから強制的に取得します。
+  const loadMembers = async (roomId: string, forceFetch = false): Promise<ChatworkMember[] | null> => {
+    const profileId = activeProfileIdRef.current;
+    let cache: MembersCache = {};
+    try {
+      cache = JSON.parse(readProfileItem(profileId, CACHE_KEY_MEMBERS) || '{}');
+    } catch (e) {
+      // キャッシュデータが破損している場合は空のキャッシュとして扱う
+      console.error('Cached members data is corrupted, fetching new data.', e);
+    }
+
+    // キャッシュが存在し、有効期限内の場合はそれを利用
+    const cached = cache[roomId];
+    if (!forceFetch && cached && Date.now() - cached.timestamp < CACHE_DURATION_MS) {
+      setMembers(cached.members);
+      return cached.members;
+    }
+
+    setMembersLoading(true);
+    setMembers([]);
+    try {
+      // Next.js APIルート (/api/chatwork/rooms/[roomId]/members) を呼び出し
+      const response = await fetch(`${PROXY_BASE_URL}/rooms/${roomId}/members`, {
+        method: 'GET',
+        headers: {
+          'Accept': 'application/json'
+        }
+      });
+
+      if (!response.ok) {
+        throw new Error(await readApiError(t, response));
+      }
+
+      const fetchedMembers: ChatworkMember[] = await response.json();
+      setMembers(fetchedMembers);
+      cache[roomId] = { members: fetchedMembers, timestamp: Date.now() };
+      writeProfileItem(profileId, CACHE_KEY_MEMBERS, JSON.stringify(cache));
+      return fetchedMembers;
+    } catch (error: any) {
+      console.error('エラー:', error);
+      setStatusMessage({ text: t('page.membersFailed', { detail: error.message }), type: 'error' });
+      return null;
+    } finally {
+      setMembersLoading(false);
     }
   };
 
+  // --- プロフィールの切り替え ---
+  // 使用中のプロフィールを切り替え、前のアカウントの表示を破棄して、そのプロフィールのお気に入りと送信履歴を読み込みます。
+  // ルーム一覧は呼び出し側で loadRooms を呼んで読み込みます (プロフィールごとのキャッシュがあればそれを使う)。
+  const activateProfile = (nextProfiles: ChatworkProfile[], profileId: string | null) => {
+    activeProfileIdRef.current = profileId;
+    setProfiles(nextProfiles);
+    setActiveProfileId(profileId);
+    setMyAccount(null);
+    setRooms([]);
+    setRoomsLoading(false);
+    setSelectedRoomId('');
+    setMembers([]);
+    setFavoriteRoomIds(loadRoomIds(profileId, STORAGE_KEY_FAVORITE_ROOMS));
+    setRecentRoomIds(loadRoomIds(profileId, STORAGE_KEY_RECENT_ROOMS));
+  };
+
+  // 読み込んだルーム一覧から、preferredRoomId のルームを選択する (見つからない場合は最初のルーム)
+  const selectInitialRoom = (fetchedRooms: ChatworkRoom[] | null, preferredRoomId: number | null) => {
+    if (!fetchedRooms || fetchedRooms.length === 0) {
+      setSelectedRoomId('');
+      return;
+    }
+    const preferred = fetchedRooms.find(room => room.room_id === preferredRoomId);
+    setSelectedRoomId(String((preferred ?? fetchedRooms[0]).room_id));
+  };
+
+  // 使用中のプロフィールで前回選んだルームのID (ない場合は null)
+  const defaultRoomId = (): number | null => {
+    const roomId = parseInt(readProfileItem(activeProfileIdRef.current, STORAGE_KEY_DEFAULT_ROOM) ?? '', 10);
+    return isNaN(roomId) ? null : roomId;
+  };
+
   // --- 初期化処理 ---
   // コンポーネントがマウントされた時に一度だけ実行されます (useEffectの第二引数が空配列のため)。
   useEffect(() => {
-    const storedApiToken = localStorage.getItem(CACHE_KEY_API_TOKEN);
-    if (storedApiToken) {
-      setApiToken(storedApiToken); // 読み込んだトークンをstateにセット
-      // ★修正: loadRoomsのPromiseの解決を待って、最初のルームを選択
-      loadRooms(storedApiToken).then(fetchedRooms => {
-        if (fetchedRooms && fetchedRooms.length > 0) {
-          setSelectedRoomId(String(fetchedRooms[0].room_id));
+    // 以前のバージョンが平文で保存したトークンが残っていれば削除
+    localStorage.removeItem(LEGACY_KEY_API_TOKEN);
+    // 前回選んだ送信方法を復元
+    const storedSendMode = localStorage.getItem(STORAGE_KEY_SEND_MODE);
+    if (SEND_MODES.indexOf(storedSendMode as SendMode) >= 0) {
+      setSendMode(storedSendMode as SendMode);
+    }
+    setSendRawBody(localStorage.getItem(STORAGE_KEY_SEND_RAW_BODY) === 'true');
+
+    // 他のアプリから共有されて開かれた場合は、共有された内容をメモに入れてURLからクエリを消す
+    const sharedMemo = readSharedMemo(window.location.pathname, window.location.search);
+    if (sharedMemo) {
+      setMemoContent(sharedMemo);
+      window.history.replaceState(null, '', '/');
+    }
+
+    // サーバー側のセッションでログイン済みかを確認
+    fetch('/api/session', { headers: { 'Accept': 'application/json' } })
+      .then(response => response.json())
+      .then(async (session: SessionStatus) => {
+        setOauthAvailable(session.oauthAvailable);
+        // プロフィールに対応する前に保存したお気に入りなどは、最初に開いたプロフィールに移す
+        if (session.activeProfileId) {
+          migrateLegacyItems(session.activeProfileId, LEGACY_MOVABLE_KEYS, LEGACY_DISCARD_KEYS);
+        }
+        activateProfile(session.profiles ?? [], session.activeProfileId ?? null);
+
+        // OAuth ログインに失敗して戻ってきた場合は、理由を表示してURLからクエリを消す
+        const authError = new URLSearchParams(window.location.search).get('authError');
+        if (authError) {
+          window.history.replaceState(null, '', window.location.pathname);
         }
+
+        if (session.loggedIn) {
+          setLoggedIn(true);
+          // ★修正: loadRoomsのPromiseの解決を待って、前回選んだルーム (ない場合は最初のルーム) を選択
+          const fetchedRooms = await loadRooms();
+          // 共有された内容は、最後に使ったルームに送ることが多いため、そのルームを選んでおく
+          const lastRoomId = sharedMemo ? loadRoomIds(session.activeProfileId, STORAGE_KEY_RECENT_ROOMS)[0] : undefined;
+          selectInitialRoom(fetchedRooms, lastRoomId ?? defaultRoomId());
+          if (sharedMemo) {
+            setStatusMessage({ text: t('page.sharedMemo'), type: 'success' });
+          }
+        } else {
+          // 未ログインの場合はメッセージを表示し、ルーム選択を無効化
+          setStatusMessage(authError
+            ? { text: t('page.oauthFailed', { detail: authError }), type: 'error' }
+            : { text: t('page.loginPrompt'), type: '' });
+        }
+      })
+      .catch(error => {
+        console.error('エラー:', error);
+        setStatusMessage({ text: t('page.sessionFailed', { detail: error.message }), type: 'error' });
       });
-    } else {
-      // トークンがない場合はメッセージを表示し、ルーム選択を無効化
-      setStatusMessage({ text: 'Chatwork APIトークンを入力してください。', type: '' });
-      setRooms([]);
-      setSelectedRoomId('');
-    }
   }, []); // 空の配列を渡すと、コンポーネントの初回レンダリング時のみ実行されます。
 
+  // --- ルーム変更時の処理 ---
+  // 選択中のルームが変わるたびにメンバー一覧を読み込み、担当者のデフォルトを自分に設定します。
+  useEffect(() => {
+    setSelectedAssigneeIds([]);
+    if (!loggedIn || !selectedRoomId) {
+      setMembers([]);
+      return;
+    }
+
+    // ルームの切り替えが連続した場合に、古いルームの結果で上書きしないためのフラグ
+    let cancelled = false;
+    Promise.all([loadMe(), loadMembers(selectedRoomId)]).then(([me, fetchedMembers]) => {
+      if (cancelled || !me || !fetchedMembers) return;
+      // テンプレートの担当者が指定されている場合は、このルームのメンバーだけを選択する
+      const pendingAssigneeIds = pendingAssigneeIdsRef.current;
+      pendingAssigneeIdsRef.current = null;
+      if (pendingAssigneeIds) {
+        setSelectedAssigneeIds(pendingAssigneeIds.filter(id => fetchedMembers.some(member => member.account_id === id)));
+        return;
+      }
+      if (fetchedMembers.some(member => member.account_id === me.account_id)) {
+        setSelectedAssigneeIds([me.account_id]);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedRoomId, loggedIn]);
+
+  // --- 選択中のルームの記録 ---
+  // 次にこのプロフィールを開いた時に同じルームを選択するよう、選んだルームをプロフィールごとに保存します。
+  useEffect(() => {
+    if (selectedRoomId) {
+      writeProfileItem(activeProfileIdRef.current, STORAGE_KEY_DEFAULT_ROOM, selectedRoomId);
+    }
+  }, [selectedRoomId]);
+
   // --- イベントハンドラ ---
 
-  // 「トークンを保存してルーム一覧を取得」ボタンがクリックされた時の処理
-  const handleSaveToken = async () => {
+  // ルームのお気に入りの☆がクリックされた時の処理。登録済みなら外し、未登録なら末尾に追加します。
+  const handleToggleFavorite = (roomId: number) => {
+    setFavoriteRoomIds(ids => {
+      const next = ids.includes(roomId) ? ids.filter(id => id !== roomId) : [...ids, roomId];
+      writeProfileItem(activeProfileIdRef.current, STORAGE_KEY_FAVORITE_ROOMS, JSON.stringify(next));
+      return next;
+    });
+  };
+
+  // タスクを送信したルームを「最近送信したルーム」の先頭に記録する
+  const rememberRecentRoom = (roomId: string) => {
+    setRecentRoomIds(ids => {
+      const id = parseInt(roomId, 10);
+      const next = [id, ...ids.filter(recentId => recentId !== id)].slice(0, MAX_RECENT_ROOMS);
+      writeProfileItem(activeProfileIdRef.current, STORAGE_KEY_RECENT_ROOMS, JSON.stringify(next));
+      return next;
+    });
+  };
+
+  // 作成したタスクを送信履歴に残す (履歴の保存に失敗しても、送信自体は成功として扱う)
+  const recordHistory = (roomId: string, roomName: string, task: TaskRequest, taskIds: number[]) => {
+    addHistoryEntry({
+      roomId,
+      roomName,
+      body: task.body,
+      assignees: task.toIds.map(id => ({
+        account_id: id,
+        name: members.find(member => member.account_id === id)?.name ?? `ID:${id}`,
+      })),
+      deadline: task.deadline,
+      taskIds,
+      sentAt: Date.now(),
+      profileId: activeProfileIdRef.current,
+    }).catch(err => console.error('送信履歴の保存に失敗しました', err));
+  };
+
+  // ルームIDから表示用のルーム名を求める
+  const roomNameOf = (roomId: string) => rooms.find(room => String(room.room_id) === roomId)?.name ?? roomId;
+
+  // テンプレートを使った時の処理。本文・ルーム・担当者・期限をフォームに反映します。
+  // ルームが変わる場合、担当者はメンバー一覧を読み込んだ後に選択します (ルーム変更時の処理を参照)。
+  const handleApplyTemplate = (applied: AppliedTemplate) => {
+    setMemoContent(applied.body);
+    if (applied.deadline) {
+      setDeadline(applied.deadline);
+    }
+
+    const roomId = applied.roomId !== null && rooms.some(room => room.room_id === applied.roomId) ? String(applied.roomId) : selectedRoomId;
+    if (applied.assigneeIds.length > 0) {
+      if (roomId !== selectedRoomId) {
+        pendingAssigneeIdsRef.current = applied.assigneeIds;
+      } else {
+        setSelectedAssigneeIds(applied.assigneeIds.filter(id => members.some(member => member.account_id === id)));
+      }
+    }
+    setSelectedRoomId(roomId);
+  };
+
+  // 「ログインしてルーム一覧を取得」ボタンがクリックされた時の処理
+  // トークンをサーバーに送って検証し、暗号化されたセッションCookieに保存します。以降、ブラウザはトークンを保持しません。
+  // ログイン中に別のアカウントでログインした場合は、新しいプロフィールとして追加して切り替えます。
+  const handleLogin = async () => {
     const newToken = apiToken.trim(); // 入力されたトークンの前後の空白を削除
     if (!newToken) {
-      setStatusMessage({ text: 'APIトークンを入力してください。', type: 'error' });
+      setStatusMessage({ text: t('page.tokenRequired'), type: 'error' });
       return;
     }
-    localStorage.setItem(CACHE_KEY_API_TOKEN, newToken); // 新しいトークンをローカルストレージに保存
-    // stateのapiTokenは既に最新なので、そのままloadRoomsに渡す
-    // ★修正: 強制取得後も最初のルームを選択
-    const fetchedRooms = await loadRooms(newToken, true);
-    if (fetchedRooms && fetchedRooms.length > 0) {
-      setSelectedRoomId(String(fetchedRooms[0].room_id));
-    } else {
-      setSelectedRoomId('');
+
+    setStatusMessage({ text: t('page.loggingIn'), type: '' });
+    try {
+      const response = await fetch('/api/session', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          'Accept': 'application/json'
+        },
+        body: new URLSearchParams({ token: newToken, profileName: profileName.trim() }).toString()
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(describeApiError(t, data, response.status));
+      }
+
+      // ログインしたアカウントのプロフィールに切り替える (前のアカウントの表示は破棄される)
+      activateProfile(data.profiles, data.activeProfileId);
+      setApiToken(''); // 入力欄のトークンは消す
+      setProfileName('');
+      setAddingProfile(false);
+      setLoggedIn(true);
+      setMyAccount(data.account);
+      writeProfileItem(data.activeProfileId, CACHE_KEY_ME, JSON.stringify(data.account));
+    } catch (error: any) {
+      console.error('エラー:', error);
+      setStatusMessage({ text: t('page.loginFailed', { detail: error.message }), type: 'error' });
+      return;
+    }
+
+    // ★修正: 強制取得後も前回選んだルーム (ない場合は最初のルーム) を選択
+    const fetchedRooms = await loadRooms(true);
+    selectInitialRoom(fetchedRooms, defaultRoomId());
+  };
+
+  // 「ログアウト」ボタンがクリックされた時の処理
+  // 使用中のプロフィールを削除します。他のプロフィールが残っている場合は、そのプロフィールに切り替えます。
+  const handleLogout = async () => {
+    let session: SessionStatus;
+    try {
+      const response = await fetch('/api/session', { method: 'DELETE', headers: { 'Accept': 'application/json' } });
+      session = await response.json();
+    } catch (error: any) {
+      console.error('エラー:', error);
+      setStatusMessage({ text: t('page.logoutFailed', { detail: error.message }), type: 'error' });
+      return;
     }
+    // 削除したプロフィールのキャッシュやお気に入りは残さない
+    removeProfileItems(activeProfileIdRef.current, PROFILE_STORAGE_KEYS);
+    activateProfile(session.profiles ?? [], session.activeProfileId ?? null);
+    setAddingProfile(false);
+    setLoggedIn(session.loggedIn);
+    if (!session.loggedIn) {
+      setStatusMessage({ text: t('page.loggedOut'), type: 'success' });
+      return;
+    }
+    const fetchedRooms = await loadRooms();
+    selectInitialRoom(fetchedRooms, defaultRoomId());
+    setStatusMessage({ text: t('page.loggedOutSwitched'), type: 'success' });
+  };
+
+  // ヘッダーでプロフィールが選ばれた時の処理
+  // サーバーのセッションを切り替えてから、そのプロフィールのルーム一覧 (キャッシュがあればキャッシュ) を読み込みます。
+  const handleSwitchProfile = async (profileId: string) => {
+    if (profileId === activeProfileIdRef.current) return;
+    setSwitchingProfile(true);
+    setStatusMessage({ text: t('page.switchingProfile'), type: '' });
+    try {
+      const response = await fetch('/api/session/profile', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'Accept': 'application/json'
+        },
+        body: JSON.stringify({ profileId })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(describeApiError(t, data, response.status));
+      }
+      activateProfile(data.profiles, data.activeProfileId);
+    } catch (error: any) {
+      console.error('エラー:', error);
+      setStatusMessage({ text: t('page.switchFailed', { detail: error.message }), type: 'error' });
+      return;
+    } finally {
+      setSwitchingProfile(false);
+    }
+
+    const fetchedRooms = await loadRooms();
+    selectInitialRoom(fetchedRooms, defaultRoomId());
   };
 
   // 「ルーム一覧を更新」ボタンがクリックされた時の処理
   const handleRefreshRooms = async () => {
-    const token = localStorage.getItem(CACHE_KEY_API_TOKEN); // ローカルストレージからトークンを取得
-    if (!token) {
-      setStatusMessage({ text: 'APIトークンが設定されていません。先にトークンを保存してください。', type: 'error' });
+    if (!loggedIn) {
+      setStatusMessage({ text: t('page.notLoggedIn'), type: 'error' });
       return;
     }
+    // ルーム一覧と合わせてメンバー一覧も再取得されるよう、メンバーのキャッシュを破棄
+    removeProfileItems(activeProfileIdRef.current, [CACHE_KEY_MEMBERS]);
     // ★修正: 強制取得後も最初のルームを選択
-    const fetchedRooms = await loadRooms(token, true);
+    const fetchedRooms = await loadRooms(true);
     if (fetchedRooms && fetchedRooms.length > 0) {
       setSelectedRoomId(String(fetchedRooms[0].room_id));
     } else {
@@ -172,86 +635,282 @@ export default function Home() {
     }
   };
 
-  // 「Chatworkにタスクとして送信」ボタンがクリックされた時の処理
+  // 一括モードで「プレビューを作成」ボタンがクリックされた時の処理
+  // メモを1行ずつタスク下書きに分解し、編集可能な表として表示します。
+  const handlePreviewDrafts = () => {
+    setDrafts(parseMemoLines(memoContent, members, { assigneeIds: selectedAssigneeIds, deadline }, myAccount?.account_id ?? null, t));
+    setDraftResults({});
+  };
+
+  // 一括モードの送信処理
+  // 下書きを上から順に1件ずつ送信し、行ごとの成否を表に表示します。
+  // 再送信の際は、すでに送信に成功した行と送信待ちに追加した行を飛ばして、失敗した行だけを送ります。
+  // 各行は冪等キーを持ち、失敗した行の再送信では同じキーを使います (タイムアウトしたが作成済みだったタスクを重複作成しない)。
+  const handleSendDrafts = async (roomId: string) => {
+    if (!drafts) {
+      setStatusMessage({ text: t('page.previewFirst'), type: 'error' });
+      return;
+    }
+    const pendingDrafts = drafts.filter(draft => !draftResults[draft.line]?.ok && !draftResults[draft.line]?.queued);
+    if (pendingDrafts.length === 0) {
+      setStatusMessage({ text: t('page.noDrafts'), type: 'error' });
+      return;
+    }
+
+    const results: Record<number, DraftResult> = { ...draftResults };
+    let failedCount = 0;
+    let queuedCount = 0;
+    for (let index = 0; index < pendingDrafts.length; index++) {
+      const draft = pendingDrafts[index];
+      const previousKey = draftResults[draft.line]?.idempotencyKey;
+      const idempotencyKey = previousKey ?? generateIdempotencyKey();
+      setStatusMessage({ text: t('page.sendingProgress', { done: index + 1, total: pendingDrafts.length }), type: '' });
+
+      // 行ごとのバリデーション
+      let validationError = '';
+      if (!draft.body.trim()) validationError = t('page.draft.emptyBody');
+      else if (draft.assigneeIds.length === 0) validationError = t('page.draft.noAssignees');
+      else if (draft.deadline.limitType !== 'none' && deadlineToUnix(draft.deadline) === null) validationError = t('page.missingDeadline');
+      if (validationError) {
+        // 前回の送信で使ったキーは、修正後の再送信のために残す
+        results[draft.line] = { ok: false, message: validationError, idempotencyKey: previousKey };
+        failedCount++;
+        continue;
+      }
+
+      const task: TaskRequest = { body: draft.body.trim(), toIds: draft.assigneeIds, deadline: draft.deadline };
+      try {
+        const created = await createTask(roomId, task, idempotencyKey);
+        results[draft.line] = { ok: true, message: t('page.draft.created', { taskIds: created.task_ids.join(', ') }), idempotencyKey };
+        recordHistory(roomId, roomNameOf(roomId), task, created.task_ids);
+      } catch (err) {
+        console.error("タスク送信失敗", err);
+        // ネットワークエラーやChatworkの5xxの場合は、単体送信と同じく送信待ちに追加して後で自動再送する
+        if (isRetryableSendError(err)) {
+          try {
+            await putOutboxItem(createOutboxItem({
+              id: idempotencyKey,
+              roomId,
+              roomName: roomNameOf(roomId),
+              task,
+              profileId: activeProfileIdRef.current,
+              message: null,
+            }, err, t));
+            results[draft.line] = { ok: false, queued: true, message: t('page.draft.queued'), idempotencyKey };
+            queuedCount++;
+            continue;
+          } catch (outboxError) {
+            console.error('送信待ちへの追加に失敗しました', outboxError);
+          }
+        }
+        results[draft.line] = { ok: false, message: describeSendError(err, t), idempotencyKey };
+        failedCount++;
+      }
+    }
+
+    const successCount = pendingDrafts.length - failedCount - queuedCount;
+    // 結果は表の各行に表示する
+    setDraftResults(results);
+    if (failedCount === 0) {
+      setMemoContent(""); // すべて成功した場合はメモ内容をクリア (結果の表は次に入力するまで残す)
+      setStatusMessage(queuedCount === 0
+        ? { text: t('page.draftsSent', { count: successCount }), type: "success" }
+        : { text: t('page.draftsQueued', { sent: successCount, queued: queuedCount }), type: "error" });
+    } else {
+      setStatusMessage({ text: t('page.draftsPartlyFailed', { sent: successCount, failed: failedCount }), type: "error" });
+    }
+    if (successCount > 0) {
+      setTaskListRefreshKey(key => key + 1);
+      rememberRecentRoom(roomId);
+    }
+  };
+
+  // 添付ファイルを1つずつアップロードし、結果をファイルごとに一覧へ反映します。
+  // アップロード済みのファイルは送り直しません (別のルームにアップロードしたものは、送信先のルームに送り直します)。
+  // 1つでもアップロードできなかった場合は null を返します。
+  const uploadAttachments = async (roomId: string): Promise<ChatworkUploadedFile[] | null> => {
+    const updateAttachment = (id: string, patch: Partial<Attachment>) =>
+      setAttachments(list => list.map(attachment => (attachment.id === id ? { ...attachment, ...patch } : attachment)));
+
+    const uploadedFiles: ChatworkUploadedFile[] = [];
+    let failed = false;
+    for (let index = 0; index < attachments.length; index++) {
+      const attachment = attachments[index];
+      if (attachment.status === 'uploaded' && attachment.uploaded && attachment.roomId === roomId) {
+        uploadedFiles.push(attachment.uploaded);
+        continue;
+      }
+      // サイズの上限を超えるファイルは、追加した時点でエラーを表示している
+      if (validateAttachmentSize(attachment.file.size, t)) {
+        failed = true;
+        continue;
+      }
+      updateAttachment(attachment.id, { status: 'uploading', error: null });
+      try {
+        const uploaded = await uploadFile(roomId, attachment.file);
+        updateAttachment(attachment.id, { status: 'uploaded', uploaded, roomId });
+        uploadedFiles.push(uploaded);
+      } catch (err) {
+        console.error('ファイルのアップロード失敗', err);
+        updateAttachment(attachment.id, { status: 'error', error: describeSendError(err, t) });
+        failed = true;
+      }
+    }
+    return failed ? null : uploadedFiles;
+  };
+
+  // Markdown を Chatwork の記法に変換した本文 (変換せずに送る場合は null)
+  const conversion = sendRawBody || !memoContent.trim()
+    ? null
+    : convertMarkdownToChatwork(memoContent.trim(), members, myAccount?.account_id ?? null);
+  // 送信される本文 (添付ファイルのリンクを付ける前)
+  const sendableBody = conversion ? conversion.body : memoContent.trim();
+
+  // 選択中の担当者 (メッセージの宛先。選択した順)
+  const selectedAssignees = selectedAssigneeIds
+    .map(id => members.find(member => member.account_id === id))
+    .filter((member): member is ChatworkMember => member !== undefined);
+
+  // 「Chatworkにタスクとして送信」ボタンがクリックされた時の処理 (送信方法に応じてメッセージも投稿)
   const handleSendTask = async () => {
-    const token = apiToken; // 現在のAPIトークンをstateから取得
     const roomId = selectedRoomId; // 選択されたルームIDをstateから取得
     const message = memoContent.trim(); // メモ内容の前後の空白を削除
 
     // 各入力フィールドのバリデーション
-    if (!token) {
-      setStatusMessage({ text: 'APIトークンが設定されていません。', type: 'error' });
+    if (!loggedIn) {
+      setStatusMessage({ text: t('page.notLoggedIn'), type: 'error' });
       return;
     }
     if (!roomId) {
-      setStatusMessage({ text: 'タスクを飛ばすルームを選択してください。', type: 'error' });
+      setStatusMessage({ text: t('page.roomRequired'), type: 'error' });
       return;
     }
     if (!message) {
-      setStatusMessage({ text: 'メモが空です。何か入力してください。', type: 'error' });
+      setStatusMessage({ text: t('page.memoRequired'), type: 'error' });
+      return;
+    }
+    // 一括モードの場合はプレビューした下書きを1行ずつ送信
+    if (bulkMode) {
+      await handleSendDrafts(roomId);
+      return;
+    }
+    // タスクを作成する場合は担当者と期限が必要 (メッセージのみの場合、担当者は宛先に使うだけなので省略できる)
+    const withTask = includesTask(sendMode);
+    const withMessage = includesMessage(sendMode);
+    if (withTask && selectedAssigneeIds.length === 0) {
+      setStatusMessage({ text: t('page.assigneeRequired'), type: 'error' });
+      return;
+    }
+    // 期限あり (日付/日時) の場合は日付が正しく入力されていること
+    if (withTask && deadline.limitType !== 'none' && deadlineToUnix(deadline) === null) {
+      setStatusMessage({ text: t('page.missingDeadline'), type: 'error' });
       return;
     }
 
-    setStatusMessage({ text: 'タスクを送信中...', type: '' }); // 送信中のメッセージを表示
+    setStatusMessage({ text: withTask ? t('page.sendingTask') : t('page.sendingMessage'), type: '' }); // 送信中のメッセージを表示
 
-    try {
-      // 自分のChatwork IDを取得するためのAPI呼び出し
-      // タスクの担当者として自分自身を設定するために必要です。
-      const myInfoResponse = await fetch(`${PROXY_BASE_URL}/me`, { // Next.js APIルート (/api/chatwork/me)
-        method: 'GET',
-        headers: {
-          'X-ChatWorkToken': token, // APIトークンをヘッダーに設定
-          'Accept': 'application/json' // JSON形式のレスポンスを要求
-        }
-      });
+    // 添付ファイルをアップロードし、本文の末尾にファイルのメッセージへのリンクを付ける (エラーはファイルごとに一覧に表示)
+    const uploadedFiles = await uploadAttachments(roomId);
+    if (!uploadedFiles) {
+      setStatusMessage({ text: t('page.uploadFailed'), type: 'error' });
+      return;
+    }
+    // Markdown の見出し・コードブロック・引用・宛先などを Chatwork の記法に変換してから送る
+    const body = appendAttachmentLinks(conversion ? conversion.body : message, roomId, uploadedFiles);
 
-      // 自分の情報取得が失敗した場合
-      if (!myInfoResponse.ok) {
-        const errorData = await myInfoResponse.json();
-        throw new Error(`Chatwork APIエラー（自分の情報取得）: ${myInfoResponse.status} - ${JSON.stringify(errorData)}`);
-      }
-      const myInfo = await myInfoResponse.json(); // 自分の情報をJSONとしてパース
-      const myChatworkId = myInfo.account_id; // 自分のChatwork IDを取得
+    const task: TaskRequest = { body, toIds: selectedAssigneeIds, deadline };
+    // 送信待ちに回して再送した場合も同じタスクとして扱えるよう、最初の送信から冪等キーを付ける
+    const idempotencyKey = generateIdempotencyKey();
 
-      console.log('My Chatwork ID (from /me API):', myChatworkId); // 取得したIDをログで確認
+    if (withTask) {
+      try {
+        // タスクをChatwork APIに送信 (Next.js APIルート /api/chatwork/rooms/[roomId]/tasks 経由)
+        const created = await createTask(roomId, task, idempotencyKey);
+        recordHistory(roomId, roomNameOf(roomId), task, created.task_ids);
+      } catch (err) {
+        // API呼び出し中にエラーが発生した場合
+        console.error("タスク送信失敗", err);
+        // タスクとメッセージの両方を送る場合、タスクが失敗したらメッセージは送らない
+        const messageNote = withMessage ? t('page.messageNotPosted') : '';
 
-      // タスクをChatwork APIに送信するためのAPI呼び出し
-      const response = await fetch(`${PROXY_BASE_URL}/rooms/${roomId}/tasks`, { // Next.js APIルート (/api/chatwork/rooms/[roomId]/tasks)
-        method: "POST", // POSTリクエスト
-        headers: {
-          "X-ChatWorkToken": token, // APIトークンをヘッダーに設定
-          // ★★★ ここが重要: APIルートがformData()で受け取るため、application/x-www-form-urlencodedで送信 ★★★
-          "Content-Type": "application/x-www-form-urlencoded",
-          "Accept": "application/json" // JSON形式のレスポンスを要求
-        },
-        // ★★★ ここが重要: URLSearchParamsを使ってフォームデータ形式の文字列を生成して送信 ★★★
-        body: new URLSearchParams({
-          body: message, // タスク内容
-          to_ids: myChatworkId.toString(), // 担当者ID (文字列に変換)
-          // タスクの期限を現在時刻の1週間後に設定 (Unixタイムスタンプ、文字列に変換)
-          limit: (Math.floor(Date.now() / 1000) + (60 * 60 * 24 * 7)).toString()
-        }).toString()
-      });
+        // ネットワークエラーやChatworkの5xxの場合は送信待ちに追加し、後で自動再送する
+        // (メッセージも送る場合は項目に含め、再送でタスクを作成した後に投稿する)
+        if (isRetryableSendError(err)) {
+          try {
+            await putOutboxItem(createOutboxItem({
+              id: idempotencyKey,
+              roomId,
+              roomName: roomNameOf(roomId),
+              task,
+              profileId: activeProfileIdRef.current,
+              message: withMessage ? buildMessageBody(body, selectedAssignees, messageInfo) : null,
+            }, err, t));
+            setStatusMessage({ text: t('page.queuedToOutbox', { note: withMessage ? t('page.messageQueued') : '' }), type: 'error' });
+            setMemoContent("");
+            setAttachments([]);
+            return;
+          } catch (outboxError) {
+            console.error('送信待ちへの追加に失敗しました', outboxError);
+          }
+        }
 
-      // タスク送信のレスポンスが成功 (HTTPステータス2xx) だった場合
-      if (response.ok) {
-        setStatusMessage({ text: "✅ タスクを送信しました！", type: "success" });
-        setMemoContent(""); // 送信後、メモ内容をクリア
-      } else {
-        // レスポンスがエラーだった場合
-        const errorData = await response.json(); // エラーレスポンスをJSONとしてパース
-        throw new Error(`Chatwork APIエラー: ${response.status} - ${JSON.stringify(errorData)}`);
+        let errorMessage = t('page.taskFailed', { detail: describeSendError(err, t) });
+        // エラーメッセージが長すぎる場合は切り詰める
+        if (errorMessage.length > 100) {
+          errorMessage = errorMessage.substring(0, 97) + '...';
+        }
+        setStatusMessage({ text: errorMessage + messageNote, type: "error" });
+        return;
       }
-    } catch (err: any) {
-      // API呼び出し中にエラーが発生した場合
-      console.error("タスク送信失敗", err);
-      let errorMessage = `❌ タスク送信に失敗しました: ${err.message}`;
-      // エラーメッセージが長すぎる場合は切り詰める
-      if (errorMessage.length > 100) {
-        errorMessage = errorMessage.substring(0, 97) + '...';
+    }
+
+    if (withMessage) {
+      try {
+        // 担当者への宛先を付けたメッセージを投稿 (Next.js APIルート /api/chatwork/rooms/[roomId]/messages 経由)
+        await postMessage(roomId, buildMessageBody(body, selectedAssignees, messageInfo), idempotencyKey);
+      } catch (err) {
+        console.error("メッセージ送信失敗", err);
+        const detail = describeSendError(err, t);
+        let errorMessage = withTask
+          ? t('page.messageFailedAfterTask', { detail })
+          : t('page.messageFailed', { detail });
+        if (errorMessage.length > 100) {
+          errorMessage = errorMessage.substring(0, 97) + '...';
+        }
+        setStatusMessage({ text: errorMessage, type: "error" });
+        // タスクは作成済みのため、同じ内容で再送しないよう入力はクリアする
+        if (withTask) {
+          setMemoContent("");
+          setAttachments([]);
+          setTaskListRefreshKey(key => key + 1);
+          rememberRecentRoom(roomId);
+        }
+        return;
       }
-      setStatusMessage({ text: errorMessage, type: "error" });
     }
+
+    setStatusMessage({
+      text: t(`page.sent.${sendMode}`),
+      type: "success",
+    });
+    setMemoContent(""); // 送信後、メモ内容をクリア
+    setAttachments([]);
+    if (withTask) {
+      setTaskListRefreshKey(key => key + 1); // 送信したタスクが表示されるよう、タスク一覧を再読み込み
+    }
+    rememberRecentRoom(roomId);
+  };
+
+  // 送信方法を変更し、次回のためにローカルストレージに保存する
+  const handleSendModeChange = (mode: SendMode) => {
+    setSendMode(mode);
+    localStorage.setItem(STORAGE_KEY_SEND_MODE, mode);
+  };
+
+  // Markdown を変換せずに送るかどうかを変更し、次回のためにローカルストレージに保存する
+  const handleSendRawBodyChange = (raw: boolean) => {
+    setSendRawBody(raw);
+    localStorage.setItem(STORAGE_KEY_SEND_RAW_BODY, String(raw));
   };
 
   // --- JSX (UI) 部分 ---
@@ -261,82 +920,181 @@ export default function Home() {
     <div className="flex justify-center items-center min-h-screen bg-gray-100 px-4">
       {/* メインのフォームコンテナ */}
       <div className="w-full max-w-md bg-white p-6 rounded-lg shadow-md">
+        {/* 表示言語の切り替え */}
+        <LocaleToggle />
+
         {/* タイトル */}
         <h1 className="text-2xl font-bold text-center text-emerald-600 mb-6">
-          Chatworkタスクメモ
+          {t('page.title')}
         </h1>
 
-        {/* Chatwork APIトークン入力欄 */}
-        <div className="mb-4">
-          <label htmlFor="apiTokenInput" className="block mb-1 text-sm font-medium">Chatwork APIトークン：</label>
-          <input
-            id="apiTokenInput"
-            type="text"
-            placeholder="APIトークンを入力"
-            className="w-full border rounded px-3 py-2 focus:ring focus:ring-emerald-300 focus:border-emerald-500"
-            value={apiToken} // stateと入力値を紐付け
-            onChange={(e) => setApiToken(e.target.value)} // 入力値の変更をstateに反映
+        {/* ログイン中はプロフィールの切り替えとログアウトボタンを表示 */}
+        {loggedIn && (
+          <ProfileSwitcher
+            profiles={profiles}
+            activeProfileId={activeProfileId}
+            switching={switchingProfile}
+            onSwitch={handleSwitchProfile}
+            onAdd={() => setAddingProfile(adding => !adding)}
+            onLogout={handleLogout}
           />
-        </div>
+        )}
+
+        {/* 未ログインの場合と、別のアカウントを追加する場合はAPIトークン入力欄を表示 */}
+        {(!loggedIn || addingProfile) && (
+          <div className="mb-4">
+            <label htmlFor="apiTokenInput" className="block mb-1 text-sm font-medium">{t('page.tokenLabel')}</label>
+            <input
+              id="apiTokenInput"
+              type="password"
+              autoComplete="off"
+              placeholder={t('page.tokenPlaceholder')}
+              className="w-full border rounded px-3 py-2 focus:ring focus:ring-emerald-300 focus:border-emerald-500"
+              value={apiToken} // stateと入力値を紐付け
+              onChange={(e) => setApiToken(e.target.value)} // 入力値の変更をstateに反映
+            />
+            {/* 会社と取引先のように複数のアカウントを使い分ける時に、区別しやすい名前を付けられる */}
+            <input
+              id="profileNameInput"
+              type="text"
+              placeholder={t('page.profileNamePlaceholder')}
+              className="mt-2 w-full border rounded px-3 py-2 text-sm focus:ring focus:ring-emerald-300 focus:border-emerald-500"
+              value={profileName}
+              onChange={(e) => setProfileName(e.target.value)}
+            />
+            {/* OAuth が設定されている場合は、APIトークンを作らずにChatworkのアカウントでログインできる */}
+            {oauthAvailable && (
+              <a
+                id="oauthLoginButton"
+                href="/api/auth/chatwork/login"
+                className="mt-2 block text-center border border-emerald-600 text-emerald-700 px-4 py-2 rounded hover:bg-emerald-50"
+              >
+                {t('page.oauthLogin')}
+              </a>
+            )}
+          </div>
+        )}
 
-        {/* ボタン群 (トークン保存/ルーム一覧取得、ルーム一覧更新) */}
+        {/* ボタン群 (ログイン/ルーム一覧取得、ルーム一覧更新) */}
         <div className="mb-4 flex gap-2">
-          <button
-            id="saveTokenButton"
-            className="bg-emerald-600 text-white px-4 py-2 rounded hover:bg-emerald-700 flex-grow"
-            onClick={handleSaveToken} // クリックイベントハンドラを紐付け
-          >
-            トークンを保存してルーム一覧を取得
-          </button>
+          {(!loggedIn || addingProfile) && (
+            <button
+              id="loginButton"
+              className="bg-emerald-600 text-white px-4 py-2 rounded hover:bg-emerald-700 flex-grow"
+              onClick={handleLogin} // クリックイベントハンドラを紐付け
+            >
+              {t('page.login')}
+            </button>
+          )}
           <button
             id="refreshRoomsButton"
             className="bg-emerald-500 text-white px-4 py-2 rounded hover:bg-emerald-600 flex-grow"
             onClick={handleRefreshRooms} // クリックイベントハンドラを紐付け
           >
-            ルーム一覧を更新
+            {t('page.refreshRooms')}
           </button>
         </div>
 
+        {/* Webhookで受け取った自分宛てのメンション */}
+        {/* アカウントごとの内容を表示するパネルは、プロフィールを切り替えた時に前のアカウントの表示を残さないよう、key にプロフィールのIDを指定して作り直す */}
+        <WebhookInbox
+          key={`webhook-${activeProfileId}`}
+          enabled={loggedIn}
+          rooms={rooms}
+          onImport={(mention) => {
+            handleApplyTemplate({ body: mention.body, roomId: mention.roomId, assigneeIds: [], deadline: null });
+            setStatusMessage({ text: t('page.mentionImported'), type: 'success' });
+          }}
+        />
+
+        {/* タスクのテンプレート */}
+        <TemplatePanel
+          current={{ body: memoContent, roomId: selectedRoomId, assigneeIds: selectedAssigneeIds }}
+          rooms={rooms}
+          onApply={handleApplyTemplate}
+        />
+
         {/* タスクを飛ばすルーム選択プルダウン */}
         <div className="mb-4">
-          <label htmlFor="roomSelect" className="block mb-1 text-sm font-medium">タスクを飛ばすルームを選択：</label>
-          <select
-            id="roomSelect"
-            className="w-full border rounded px-3 py-2 focus:ring focus:ring-emerald-300 focus:border-emerald-500"
-            value={selectedRoomId} // ★修正: selectedRoomId stateを直接使用
-            onChange={(e) => setSelectedRoomId(e.target.value)} // ★修正: selectedRoomId stateを直接更新
-            disabled={rooms.length === 0 && !statusMessage.text.includes('取得中')}
-          >
-            {/* ルームが読み込み中の場合や空の場合の表示 */}
-            {rooms.length === 0 ? (
-              <option value="">{statusMessage.text.includes('取得中') ? 'ルーム一覧を読み込み中...' : '-- ルームを選択 --'}</option>
-            ) : (
-              <>
-                {/* デフォルトの選択肢 */}
-                <option value="">-- ルームを選択 --</option>
-                {/* 取得したルーム一覧をオプションとしてマッピング */}
-                {rooms.map(room => (
-                  <option key={room.room_id} value={room.room_id}>
-                    {room.name}
-                  </option>
-                ))}
-              </>
-            )}
-          </select>
+          <label htmlFor="roomSelect" className="block mb-1 text-sm font-medium">{t('page.roomLabel')}</label>
+          <RoomPicker
+            rooms={rooms}
+            selectedRoomId={selectedRoomId}
+            favoriteIds={favoriteRoomIds}
+            recentIds={recentRoomIds}
+            loading={roomsLoading}
+            onSelect={setSelectedRoomId}
+            onToggleFavorite={handleToggleFavorite}
+          />
+        </div>
+
+        {/* 担当者選択 (複数選択可) */}
+        <div className="mb-4">
+          <span className="block mb-1 text-sm font-medium">{t('page.assigneeLabel')}</span>
+          <AssigneePicker
+            members={members}
+            selectedIds={selectedAssigneeIds}
+            myAccountId={myAccount?.account_id ?? null}
+            loading={membersLoading}
+            onChange={setSelectedAssigneeIds}
+          />
+        </div>
+
+        {/* 期限の指定 */}
+        <div className="mb-4">
+          <span className="block mb-1 text-sm font-medium">{t('page.deadlineLabel')}</span>
+          <DeadlinePicker value={deadline} onChange={setDeadline} />
+        </div>
+
+        {/* 送信方法 (タスク・メッセージ・両方) */}
+        <div className="mb-4">
+          <span className="block mb-1 text-sm font-medium">{t('page.sendModeLabel')}</span>
+          <SendModePicker
+            mode={sendMode}
+            onModeChange={handleSendModeChange}
+            info={messageInfo}
+            onInfoChange={setMessageInfo}
+            messagePreview={sendableBody ? buildMessageBody(sendableBody, selectedAssignees, messageInfo) : ''}
+            disabled={bulkMode}
+          />
         </div>
 
         {/* タスク内容入力欄 */}
         <div className="mb-4">
-          <label htmlFor="memoText" className="block mb-1 text-sm font-medium">タスク内容を入力：</label>
-          <textarea
-            id="memoText"
-            placeholder="タスク内容を入力"
-            className="w-full border rounded px-3 py-2 focus:ring focus:ring-emerald-300 focus:border-emerald-500"
-            rows={4}
-            value={memoContent} // stateと入力値を紐付け
-            onChange={(e) => setMemoContent(e.target.value)} // 入力値の変更をstateに反映
-            ref={memoTextRef} // refを紐付け (必要であれば後で直接DOM操作に利用可能)
-          ></textarea>
+          <label htmlFor="memoText" className="block mb-1 text-sm font-medium">{t('page.memoLabel')}</label>
+          <AttachmentDropZone
+            attachments={attachments}
+            onAdd={(files) => setAttachments(list => [...list, ...files.map(file => toAttachment(file, t))])}
+            onRemove={(id) => setAttachments(list => list.filter(attachment => attachment.id !== id))}
+            disabled={bulkMode}
+          >
+            <TaskInput
+              value={memoContent} // stateと入力値を紐付け
+              onChange={setMemoContent} // 入力値の変更をstateに反映
+              textareaRef={memoTextRef} // refを紐付け (必要であれば後で直接DOM操作に利用可能)
+              bulkMode={bulkMode}
+              onBulkModeChange={setBulkMode}
+              drafts={drafts}
+              onDraftsChange={(next) => {
+                setDrafts(next);
+                if (!next) setDraftResults({});
+              }}
+              onPreview={handlePreviewDrafts}
+              results={draftResults}
+              members={members}
+              myAccountId={myAccount?.account_id ?? null}
+            />
+          </AttachmentDropZone>
+
+          {/* 送信される本文と Chatwork での表示のプレビュー */}
+          {!bulkMode && (
+            <ChatworkPreview
+              body={sendableBody}
+              unresolvedMentions={conversion?.unresolvedMentions ?? []}
+              raw={sendRawBody}
+              onRawChange={handleSendRawBodyChange}
+            />
+          )}
         </div>
 
         {/* タスク送信ボタン */}
@@ -345,7 +1103,7 @@ export default function Home() {
           className="w-full bg-emerald-600 text-white px-4 py-3 rounded hover:bg-emerald-700 font-bold text-lg"
           onClick={handleSendTask} // クリックイベントハンドラを紐付け
         >
-          Chatworkにタスクとして送信
+          {t(`page.send.${bulkMode ? 'task' : sendMode}`)}
         </button>
 
         {/* ステータスメッセージの表示エリア */}
@@ -355,6 +1113,89 @@ export default function Home() {
             {statusMessage.text}
           </p>
         )}
+
+        {/* 送信に失敗したタスクの送信待ち一覧 */}
+        <OutboxPanel
+          enabled={loggedIn}
+          profileId={activeProfileId}
+          onSent={(item, result) => {
+            setStatusMessage({
+              text: t(item.message ? 'page.outboxSentWithMessage' : 'page.outboxSent', { room: item.roomName }),
+              type: 'success',
+            });
+            recordHistory(item.roomId, item.roomName, item.task, result.task_ids);
+            setTaskListRefreshKey(key => key + 1);
+            rememberRecentRoom(item.roomId);
+          }}
+        />
+
+        {/* 選択中のルームのタスク一覧 */}
+        {loggedIn && (
+          <TaskList
+            key={`tasks-${activeProfileId}`}
+            roomId={selectedRoomId}
+            members={members}
+            refreshKey={taskListRefreshKey}
+          />
+        )}
+
+        {/* CSV / Markdown からの一括作成 */}
+        <ImportPanel
+          key={`import-${activeProfileId}`}
+          enabled={loggedIn}
+          rooms={rooms}
+          defaultRoomId={selectedRoomId}
+          onSent={(roomId, roomName, task, taskIds) => {
+            recordHistory(roomId, roomName, task, taskIds);
+            setTaskListRefreshKey(key => key + 1);
+          }}
+        />
+
+        {/* 複数のルームへの一斉送信 */}
+        <BroadcastPanel
+          key={`broadcast-${activeProfileId}`}
+          enabled={loggedIn}
+          rooms={rooms}
+          current={{ body: memoContent, deadline }}
+          onSent={(roomId, roomName, task, taskIds) => {
+            recordHistory(roomId, roomName, task, taskIds);
+            setTaskListRefreshKey(key => key + 1);
+          }}
+        />
+
+        {/* 定期タスクの管理 */}
+        <SchedulePanel
+          key={`schedule-${activeProfileId}`}
+          enabled={loggedIn}
+          current={{ body: memoContent, roomId: selectedRoomId, assigneeIds: selectedAssigneeIds }}
+          rooms={rooms}
+        />
+
+        {/* 自分のタスクのまとめをマイチャットに送るダイジェスト */}
+        <DigestPanel key={`digest-${activeProfileId}`} enabled={loggedIn} />
+
+        {/* 自分のタスクをカレンダーアプリで購読するURL */}
+        <CalendarFeedPanel key={`calendar-${activeProfileId}`} enabled={loggedIn} />
+
+        {/* 送信したタスクの履歴 */}
+        <HistoryPanel
+          enabled={loggedIn}
+          profileId={activeProfileId}
+          rooms={rooms}
+          onResent={(entry: HistoryEntry) => {
+            setTaskListRefreshKey(key => key + 1);
+            rememberRecentRoom(entry.roomId);
+          }}
+          onCopy={(entry: HistoryEntry, roomId: number) => {
+            handleApplyTemplate({
+              body: entry.body,
+              roomId,
+              assigneeIds: entry.assignees.map(assignee => assignee.account_id),
+              deadline: entry.deadline,
+            });
+            setStatusMessage({ text: t('page.historyCopied', { room: roomNameOf(String(roomId)) }), type: 'success' });
+          }}
+        />
       </div>
     </div>
   );
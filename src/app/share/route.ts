@@ -0,0 +1,30 @@
+// src/app/share/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withRequestLogging } from '../../lib/logger';
+import { buildSharedMemo, SHARED_MEMO_PARAM } from '../../lib/shareTarget';
+
+/**
+ * 他のアプリから共有された内容を受け取るルートハンドラー (GETメソッド)
+ * Web アプリのマニフェストの share_target から title・text・url のクエリで呼ばれ、
+ * 内容を1つのメモにまとめて、メモの入力欄に入れた状態のトップページへリダイレクトします。
+ * 何も共有されていない場合は、そのままトップページへリダイレクトします。
+ *
+ * @param {NextRequest} request - Next.jsのリクエストオブジェクト
+ * @returns {NextResponse} - トップページへのリダイレクト
+ */
+export const GET = withRequestLogging(async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const memo = buildSharedMemo({
+    title: searchParams.get('title'),
+    text: searchParams.get('text'),
+    url: searchParams.get('url'),
+  });
+
+  const destination = new URL('/', request.nextUrl.origin);
+  if (memo) {
+    destination.searchParams.set(SHARED_MEMO_PARAM, memo);
+  }
+  // 共有のたびに内容が変わるため、キャッシュさせない
+  return NextResponse.redirect(destination, { status: 303, headers: { 'Cache-Control': 'no-store' } });
+});
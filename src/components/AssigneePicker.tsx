@@ -0,0 +1,63 @@
+// src/components/AssigneePicker.tsx
+
+'use client';
+
+import { useI18n } from './LocaleProvider';
+import type { ChatworkMember } from '../types/chatwork';
+
+interface AssigneePickerProps {
+  // 選択肢として表示するルームメンバー一覧
+  members: ChatworkMember[];
+  // 選択中の担当者のアカウントID
+  selectedIds: number[];
+  // 自分自身のアカウントID (一覧で「自分」と表示するために使用)
+  myAccountId: number | null;
+  // メンバー一覧を読み込み中かどうか
+  loading: boolean;
+  // 選択状態が変更された時に呼ばれるコールバック
+  onChange: (ids: number[]) => void;
+}
+
+/**
+ * タスクの担当者を複数選択するためのコンポーネント
+ * ルームメンバーをチェックボックスで一覧表示します。
+ */
+export default function AssigneePicker({ members, selectedIds, myAccountId, loading, onChange }: AssigneePickerProps) {
+  const { t } = useI18n();
+
+  // チェックボックスの切り替え処理。選択済みなら外し、未選択なら追加します。
+  const toggle = (accountId: number) => {
+    if (selectedIds.includes(accountId)) {
+      onChange(selectedIds.filter(id => id !== accountId));
+    } else {
+      onChange([...selectedIds, accountId]);
+    }
+  };
+
+  if (loading) {
+    return <p className="text-sm text-gray-500">{t('assigneePicker.loading')}</p>;
+  }
+
+  if (members.length === 0) {
+    return <p className="text-sm text-gray-500">{t('assigneePicker.empty')}</p>;
+  }
+
+  return (
+    <div id="assigneePicker" className="max-h-40 overflow-y-auto border rounded px-3 py-2">
+      {members.map(member => (
+        <label key={member.account_id} className="flex items-center gap-2 py-1 text-sm">
+          <input
+            type="checkbox"
+            className="accent-emerald-600"
+            checked={selectedIds.includes(member.account_id)}
+            onChange={() => toggle(member.account_id)}
+          />
+          <span>
+            {member.name}
+            {member.account_id === myAccountId && <span className="ml-1 text-xs text-emerald-600">{t('assigneePicker.me')}</span>}
+          </span>
+        </label>
+      ))}
+    </div>
+  );
+}
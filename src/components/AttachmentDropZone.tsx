@@ -0,0 +1,99 @@
+// src/components/AttachmentDropZone.tsx
+
+'use client';
+
+import { ChangeEvent, DragEvent, ReactNode, useState } from 'react';
+import { Attachment, formatFileSize, MAX_ATTACHMENT_SIZE } from '../lib/attachments';
+import { useI18n } from './LocaleProvider';
+
+interface AttachmentDropZoneProps {
+  // 添付ファイルの一覧 (状態とエラーを含む)
+  attachments: Attachment[];
+  // ファイルがドロップ・選択された時に呼ばれるコールバック
+  onAdd: (files: File[]) => void;
+  // 添付ファイルを一覧から外す時に呼ばれるコールバック
+  onRemove: (id: string) => void;
+  // 一括モードなど、添付できない場合は true
+  disabled?: boolean;
+  // ドロップを受け付ける範囲に表示する内容 (メモの入力欄)
+  children: ReactNode;
+}
+
+/**
+ * メモの入力欄にファイルをドラッグ＆ドロップして添付するためのコンポーネント
+ * 添付したファイルはタスクの送信時にChatworkにアップロードされ、タスク本文にファイルのメッセージへのリンクが付きます。
+ * アップロードの結果やエラーは、ファイルごとに一覧に表示します。
+ */
+export default function AttachmentDropZone({ attachments, onAdd, onRemove, disabled = false, children }: AttachmentDropZoneProps) {
+  const { t } = useI18n();
+  // ファイルをドラッグして入力欄の上にいるかどうか
+  const [dragging, setDragging] = useState<boolean>(false);
+
+  const handleDragOver = (e: DragEvent<HTMLDivElement>) => {
+    if (disabled || !e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault(); // ドロップを受け付ける
+    setDragging(true);
+  };
+
+  const handleDrop = (e: DragEvent<HTMLDivElement>) => {
+    setDragging(false);
+    if (disabled || e.dataTransfer.files.length === 0) return;
+    e.preventDefault(); // ブラウザでファイルが開かれないようにする
+    onAdd(Array.prototype.slice.call(e.dataTransfer.files));
+  };
+
+  const handleSelect = (e: ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = e.target.files ? Array.prototype.slice.call(e.target.files) : [];
+    e.target.value = ''; // 同じファイルを続けて選んでも追加できるようにする
+    if (files.length > 0) onAdd(files);
+  };
+
+  return (
+    <div
+      id="attachmentDropZone"
+      className={`rounded ${dragging ? 'ring-2 ring-emerald-400 bg-emerald-50' : ''}`}
+      onDragOver={handleDragOver}
+      onDragLeave={() => setDragging(false)}
+      onDrop={handleDrop}
+    >
+      {children}
+
+      {disabled ? (
+        <p className="mt-1 text-xs text-gray-500">{t('attachment.disabled')}</p>
+      ) : (
+        <label className="mt-1 inline-block text-xs text-emerald-700 underline cursor-pointer">
+          {t('attachment.add', { size: formatFileSize(MAX_ATTACHMENT_SIZE) })}
+          <input type="file" multiple className="hidden" onChange={handleSelect} />
+        </label>
+      )}
+
+      {/* 添付ファイルの一覧 (ファイルごとの状態とエラー) */}
+      {!disabled && attachments.length > 0 && (
+        <ul id="attachmentList" className="mt-1 text-sm divide-y border rounded">
+          {attachments.map(attachment => (
+            <li key={attachment.id} className="flex items-start justify-between gap-2 px-2 py-1">
+              <div className="min-w-0">
+                <p className="truncate">
+                  📎 {attachment.file.name}
+                  <span className="ml-1 text-xs text-gray-500">({formatFileSize(attachment.file.size)})</span>
+                </p>
+                <p className={`text-xs ${attachment.status === 'error' ? 'text-red-600' : attachment.status === 'uploaded' ? 'text-green-700' : 'text-gray-500'}`}>
+                  {t(`attachment.status.${attachment.status}`)}
+                  {attachment.error && `: ${attachment.error}`}
+                </p>
+              </div>
+              <button
+                type="button"
+                className="shrink-0 text-xs text-gray-600 underline disabled:opacity-50"
+                onClick={() => onRemove(attachment.id)}
+                disabled={attachment.status === 'uploading'}
+              >
+                {t('attachment.remove')}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
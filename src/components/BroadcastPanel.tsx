@@ -0,0 +1,290 @@
+// src/components/BroadcastPanel.tsx
+
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Deadline, deadlineToUnix } from '../lib/dueDate';
+import { describeApiError, readApiError, Translate } from '../lib/i18n';
+import { generateIdempotencyKey } from '../lib/outbox';
+import { matchesRoom, normalizeForSearch } from '../lib/roomSearch';
+import { broadcastTask, describeSendError, TaskRequest } from '../lib/taskClient';
+import type { BroadcastAssigneeRule, BroadcastRoomResult, BroadcastTarget } from '../types/broadcast';
+import type { ChatworkMember, ChatworkRoom } from '../types/chatwork';
+import { useI18n } from './LocaleProvider';
+
+// Next.jsのAPIルートを呼び出すためのベースURL
+const PROXY_BASE_URL = '/api/chatwork';
+
+// 担当者のルールの選択肢
+const RULE_TYPES: BroadcastAssigneeRule['type'][] = ['all', 'members', 'me'];
+
+interface BroadcastPanelProps {
+  // ログイン中のみ送信できる
+  enabled: boolean;
+  // 送信先に選べるルーム一覧
+  rooms: ChatworkRoom[];
+  // 一斉送信する、現在のフォームの内容
+  current: { body: string; deadline: Deadline };
+  // 1つのルームへの送信に成功するごとに呼ばれるコールバック (送信履歴への記録などに使用)
+  onSent: (roomId: string, roomName: string, task: TaskRequest, taskIds: number[]) => void;
+}
+
+// 前回の送信内容 (失敗したルームを同じ内容・同じキーで再送するために保持する)
+interface LastBroadcast {
+  task: Omit<TaskRequest, 'toIds'>;
+  targets: BroadcastTarget[];
+  idempotencyKey: string;
+}
+
+// ルームのメンバー一覧を取得する
+const fetchMembers = async (roomId: number, t: Translate): Promise<ChatworkMember[]> => {
+  const response = await fetch(`${PROXY_BASE_URL}/rooms/${roomId}/members`, {
+    method: 'GET',
+    headers: { 'Accept': 'application/json' }
+  });
+  if (!response.ok) {
+    throw new Error(await readApiError(t, response));
+  }
+  return response.json();
+};
+
+// ルームごとの結果の表示
+const describeResult = (result: BroadcastRoomResult, t: Translate): string => {
+  if (result.ok) return t('broadcast.created', { taskIds: result.taskIds.join(', ') });
+  if (result.status === 429 && result.rateLimitReset) {
+    return t('broadcast.rateLimited', { time: new Date(result.rateLimitReset * 1000).toLocaleTimeString() });
+  }
+  return t('broadcast.failed', { status: result.status, detail: describeApiError(t, result, result.status) });
+};
+
+/**
+ * 1つのタスクを複数のルームに一斉送信するパネル
+ * ルームごとに担当者を「全員」「メンバーを指定」「自分」から選び、現在のタスク内容と期限で送信します。
+ * 結果はルームごとに表示し、失敗したルームだけを再送できます (成功済みのルームに重複して作成されることはありません)。
+ */
+export default function BroadcastPanel({ enabled, rooms, current, onSent }: BroadcastPanelProps) {
+  const { t } = useI18n();
+  // 選択したルームIDごとの担当者のルール (選択順)
+  const [targets, setTargets] = useState<BroadcastTarget[]>([]);
+  const [query, setQuery] = useState<string>('');
+  // 「メンバーを指定」で選ぶための、ルームIDごとのメンバー一覧
+  const [membersByRoomId, setMembersByRoomId] = useState<Record<number, ChatworkMember[]>>({});
+  const [results, setResults] = useState<BroadcastRoomResult[]>([]);
+  const [lastBroadcast, setLastBroadcast] = useState<LastBroadcast | null>(null);
+  const [sending, setSending] = useState<boolean>(false);
+  // パネル内の操作結果のメッセージ
+  const [message, setMessage] = useState<{ text: string; type: 'success' | 'error' } | null>(null);
+
+  // 検索のたびにルーム名を変換し直さないよう、変換した名前を保持する
+  const normalizedNames = useMemo(() => {
+    const names: Record<number, string> = {};
+    rooms.forEach(room => (names[room.room_id] = normalizeForSearch(room.name)));
+    return names;
+  }, [rooms]);
+
+  const roomNameOf = (roomId: number) => rooms.find(room => room.room_id === roomId)?.name ?? `ID:${roomId}`;
+
+  const toggleRoom = (roomId: number, checked: boolean) => {
+    setTargets(list => checked
+      ? [...list, { roomId, assignees: { type: 'all' } }]
+      : list.filter(target => target.roomId !== roomId));
+  };
+
+  const setRule = (roomId: number, assignees: BroadcastAssigneeRule) => {
+    setTargets(list => list.map(target => (target.roomId === roomId ? { roomId, assignees } : target)));
+  };
+
+  // 担当者のルールを切り替える。「メンバーを指定」の場合は、選べるようにメンバー一覧を読み込む
+  const handleRuleChange = async (roomId: number, type: BroadcastAssigneeRule['type']) => {
+    if (type !== 'members') {
+      setRule(roomId, { type });
+      return;
+    }
+    setRule(roomId, { type, accountIds: [] });
+    if (membersByRoomId[roomId]) return;
+    try {
+      const members = await fetchMembers(roomId, t);
+      setMembersByRoomId(current => ({ ...current, [roomId]: members }));
+    } catch (err: any) {
+      setMessage({ text: t('broadcast.membersFailed', { room: roomNameOf(roomId), detail: err.message }), type: 'error' });
+    }
+  };
+
+  const toggleMember = (target: BroadcastTarget, accountId: number, checked: boolean) => {
+    const accountIds = target.assignees.type === 'members' ? target.assignees.accountIds : [];
+    setRule(target.roomId, {
+      type: 'members',
+      accountIds: checked ? [...accountIds, accountId] : accountIds.filter(id => id !== accountId),
+    });
+  };
+
+  // 送信して、ルームごとの結果を反映する (再送の場合は前回の結果のうち送り直したルームだけを置き換える)
+  const send = async (broadcast: LastBroadcast, previous: BroadcastRoomResult[]) => {
+    setSending(true);
+    try {
+      const response = await broadcastTask(broadcast.task, broadcast.targets, broadcast.idempotencyKey);
+      response.results.forEach(result => {
+        if (result.ok) {
+          onSent(String(result.roomId), roomNameOf(result.roomId), { ...broadcast.task, toIds: result.assigneeIds }, result.taskIds);
+        }
+      });
+      const merged = previous
+        .filter(result => !response.results.some(sent => sent.roomId === result.roomId))
+        .concat(response.results);
+      setResults(merged);
+      const failedCount = merged.filter(result => !result.ok).length;
+      setMessage(failedCount > 0
+        ? { text: t('broadcast.partlyFailed', { sent: merged.length - failedCount, failed: failedCount }), type: 'error' }
+        : { text: t('broadcast.sent', { count: merged.length }), type: 'success' });
+    } catch (err) {
+      setMessage({ text: t('broadcast.sendFailed', { detail: describeSendError(err, t) }), type: 'error' });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleSend = () => {
+    if (!current.body.trim()) {
+      setMessage({ text: t('broadcast.emptyBody'), type: 'error' });
+      return;
+    }
+    if (current.deadline.limitType !== 'none' && deadlineToUnix(current.deadline) === null) {
+      setMessage({ text: t('broadcast.missingDeadline'), type: 'error' });
+      return;
+    }
+    const unassigned = targets.find(target => target.assignees.type === 'members' && target.assignees.accountIds.length === 0);
+    if (unassigned) {
+      setMessage({ text: t('broadcast.missingAssignees', { room: roomNameOf(unassigned.roomId) }), type: 'error' });
+      return;
+    }
+    if (!window.confirm(t('broadcast.confirm', { count: targets.length }))) return;
+
+    const broadcast: LastBroadcast = {
+      task: { body: current.body.trim(), deadline: current.deadline },
+      targets,
+      idempotencyKey: generateIdempotencyKey(),
+    };
+    setLastBroadcast(broadcast);
+    send(broadcast, []);
+  };
+
+  // 失敗したルームだけを、前回と同じ内容・同じキーで再送する
+  const handleRetryFailed = () => {
+    if (!lastBroadcast) return;
+    const failedIds = results.filter(result => !result.ok).map(result => result.roomId);
+    send({ ...lastBroadcast, targets: lastBroadcast.targets.filter(target => failedIds.includes(target.roomId)) }, results);
+  };
+
+  if (!enabled) return null;
+
+  const visibleRooms = rooms.filter(room => matchesRoom(room, normalizedNames[room.room_id] ?? '', query));
+  const failedCount = results.filter(result => !result.ok).length;
+
+  return (
+    <details id="broadcastPanel" className="mt-6 border rounded px-3 py-2 text-sm">
+      <summary className="cursor-pointer font-medium">{t('broadcast.title')}</summary>
+
+      <p className="mt-2 text-xs text-gray-600">
+        {t('broadcast.help')}
+      </p>
+
+      {/* 送信先のルーム */}
+      <input
+        type="search"
+        className="mt-2 w-full border rounded px-2 py-1"
+        placeholder={t('broadcast.filterPlaceholder')}
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+      />
+      <ul className="mt-1 max-h-40 overflow-y-auto border rounded divide-y">
+        {visibleRooms.map(room => (
+          <li key={room.room_id} className="px-2 py-1">
+            <label className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                className="accent-emerald-600"
+                checked={targets.some(target => target.roomId === room.room_id)}
+                onChange={(e) => toggleRoom(room.room_id, e.target.checked)}
+                disabled={sending}
+              />
+              <span className="truncate">{room.name}</span>
+            </label>
+          </li>
+        ))}
+      </ul>
+
+      {/* 選んだルームごとの担当者のルール */}
+      {targets.length > 0 && (
+        <ul className="mt-2 divide-y border rounded">
+          {targets.map(target => (
+            <li key={target.roomId} className="px-2 py-1">
+              <div className="flex items-center justify-between gap-2">
+                <span className="truncate">{roomNameOf(target.roomId)}</span>
+                <select
+                  className="shrink-0 border rounded px-1 py-0.5 text-xs"
+                  value={target.assignees.type}
+                  onChange={(e) => handleRuleChange(target.roomId, e.target.value as BroadcastAssigneeRule['type'])}
+                  disabled={sending}
+                >
+                  {RULE_TYPES.map(type => (
+                    <option key={type} value={type}>{t(`broadcast.rule.${type}`)}</option>
+                  ))}
+                </select>
+              </div>
+              {target.assignees.type === 'members' && (
+                <div className="mt-1 flex flex-wrap gap-2 text-xs">
+                  {!membersByRoomId[target.roomId] ? (
+                    <span className="text-gray-500">{t('broadcast.loadingMembers')}</span>
+                  ) : membersByRoomId[target.roomId].map(member => (
+                    <label key={member.account_id} className="flex items-center gap-1">
+                      <input
+                        type="checkbox"
+                        className="accent-emerald-600"
+                        checked={target.assignees.type === 'members' && target.assignees.accountIds.includes(member.account_id)}
+                        onChange={(e) => toggleMember(target, member.account_id, e.target.checked)}
+                        disabled={sending}
+                      />
+                      {member.name}
+                    </label>
+                  ))}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="mt-2 flex gap-2">
+        <button
+          type="button"
+          className="bg-emerald-500 text-white px-3 py-1 rounded hover:bg-emerald-600 disabled:opacity-50"
+          onClick={handleSend}
+          disabled={sending || targets.length === 0}
+        >
+          {sending ? t('broadcast.sending') : t('broadcast.send', { count: targets.length })}
+        </button>
+        {failedCount > 0 && (
+          <button type="button" className="text-emerald-700 underline disabled:opacity-50" onClick={handleRetryFailed} disabled={sending}>
+            {t('broadcast.retryFailed', { count: failedCount })}
+          </button>
+        )}
+      </div>
+
+      {/* ルームごとの送信結果 */}
+      {results.length > 0 && (
+        <ul className="mt-2 divide-y border rounded text-xs">
+          {results.map(result => (
+            <li key={result.roomId} className="px-2 py-1">
+              <span className="font-medium">{roomNameOf(result.roomId)}</span>
+              <span className={`ml-2 ${result.ok ? 'text-green-700' : 'text-red-600'}`}>{describeResult(result, t)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {message && (
+        <p className={`mt-2 text-xs ${message.type === 'error' ? 'text-red-600' : 'text-green-700'}`}>{message.text}</p>
+      )}
+    </details>
+  );
+}
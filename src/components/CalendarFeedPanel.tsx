@@ -0,0 +1,126 @@
+// src/components/CalendarFeedPanel.tsx
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { readApiError } from '../lib/i18n';
+import { useI18n } from './LocaleProvider';
+
+// カレンダーのフィードのAPIルートのURL
+const FEED_API = '/api/chatwork/my/calendar-feed';
+
+interface CalendarFeedPanelProps {
+  // ログイン中のみ表示する
+  enabled: boolean;
+}
+
+// 発行日時を「YYYY/M/D」の形式で表示する
+const formatIssuedAt = (time: number): string => {
+  const date = new Date(time);
+  return `${date.getFullYear()}/${date.getMonth() + 1}/${date.getDate()}`;
+};
+
+/**
+ * 自分が担当者の未完了のタスクを、カレンダーアプリで購読するためのURLを発行するパネル
+ * URLには秘密の値が含まれ、発行した時にだけ表示します。URLが漏れた場合は再発行すると以前のURLは使えなくなります。
+ */
+export default function CalendarFeedPanel({ enabled }: CalendarFeedPanelProps) {
+  const { t } = useI18n();
+  // 発行済みの場合は発行日時
+  const [issuedAt, setIssuedAt] = useState<number | null>(null);
+  // 発行した直後のURL (再読み込みすると表示されない)
+  const [feedUrl, setFeedUrl] = useState<string>('');
+  // パネル内の操作結果のメッセージ
+  const [message, setMessage] = useState<{ text: string; type: 'success' | 'error' } | null>(null);
+
+  useEffect(() => {
+    if (!enabled) {
+      setIssuedAt(null);
+      setFeedUrl('');
+      return;
+    }
+    fetch(FEED_API, { headers: { 'Accept': 'application/json' } })
+      .then(async response => {
+        if (!response.ok) throw new Error(await readApiError(t, response));
+        const data: { enabled: boolean; createdAt: number | null } = await response.json();
+        setIssuedAt(data.createdAt);
+      })
+      .catch(err => console.error('カレンダーのURLの状態の取得に失敗しました', err));
+  }, [enabled]);
+
+  const handleIssue = async () => {
+    if (issuedAt && !window.confirm(t('calendarFeed.confirmReissue'))) return;
+    try {
+      const response = await fetch(FEED_API, { method: 'POST', headers: { 'Accept': 'application/json' } });
+      if (!response.ok) {
+        throw new Error(await readApiError(t, response));
+      }
+      const { path }: { path: string } = await response.json();
+      setFeedUrl(new URL(path, window.location.origin).toString());
+      setIssuedAt(Date.now());
+      setMessage({ text: t('calendarFeed.issued'), type: 'success' });
+    } catch (err: any) {
+      setMessage({ text: t('calendarFeed.issueFailed', { detail: err.message }), type: 'error' });
+    }
+  };
+
+  const handleStop = async () => {
+    if (!window.confirm(t('calendarFeed.confirmStop'))) return;
+    try {
+      const response = await fetch(FEED_API, { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error(await readApiError(t, response));
+      }
+      setIssuedAt(null);
+      setFeedUrl('');
+      setMessage({ text: t('calendarFeed.stopped'), type: 'success' });
+    } catch (err: any) {
+      setMessage({ text: t('calendarFeed.stopFailed', { detail: err.message }), type: 'error' });
+    }
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      setMessage({ text: t('calendarFeed.copied'), type: 'success' });
+    } catch (err: any) {
+      setMessage({ text: t('calendarFeed.copyFailed', { detail: err.message }), type: 'error' });
+    }
+  };
+
+  if (!enabled) return null;
+
+  return (
+    <details id="calendarFeedPanel" className="mt-6 border rounded px-3 py-2 text-sm">
+      <summary className="cursor-pointer font-medium">{t('calendarFeed.title')}</summary>
+
+      <p className="mt-2 text-xs text-gray-600">
+        {t('calendarFeed.help')}
+      </p>
+
+      {feedUrl && (
+        <div className="mt-2 flex gap-2">
+          <input type="text" readOnly className="flex-grow border rounded px-2 py-1 text-xs" value={feedUrl} onFocus={(e) => e.target.select()} />
+          <button type="button" className="text-emerald-700 underline text-xs shrink-0" onClick={handleCopy}>{t('calendarFeed.copy')}</button>
+          <a href={feedUrl.replace(/^https?:/, 'webcal:')} className="text-emerald-700 underline text-xs shrink-0">{t('calendarFeed.openInCalendar')}</a>
+        </div>
+      )}
+      {!feedUrl && issuedAt && (
+        <p className="mt-2 text-xs text-gray-600">{t('calendarFeed.active', { date: formatIssuedAt(issuedAt) })}</p>
+      )}
+
+      <div className="mt-2 flex gap-3 text-xs">
+        <button type="button" className="text-emerald-700 underline" onClick={handleIssue}>
+          {issuedAt ? t('calendarFeed.reissue') : t('calendarFeed.issue')}
+        </button>
+        {issuedAt && (
+          <button type="button" className="text-gray-600 underline" onClick={handleStop}>{t('calendarFeed.stop')}</button>
+        )}
+      </div>
+
+      {message && (
+        <p className={`mt-2 text-xs ${message.type === 'error' ? 'text-red-600' : 'text-green-700'}`}>{message.text}</p>
+      )}
+    </details>
+  );
+}
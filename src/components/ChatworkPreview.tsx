@@ -0,0 +1,87 @@
+// src/components/ChatworkPreview.tsx
+
+'use client';
+
+import { Fragment, ReactNode } from 'react';
+import { ChatworkNode, parseChatworkNotation } from '../lib/chatworkNotation';
+import { useI18n } from './LocaleProvider';
+
+interface ChatworkPreviewProps {
+  // 送信する本文 (Chatwork の記法に変換したもの、または変換しない元の文字列)
+  body: string;
+  // ルームメンバーに解決できなかった `@名前` (警告として表示する)
+  unresolvedMentions: string[];
+  // Markdown を変換せずにそのまま送るかどうか
+  raw: boolean;
+  onRawChange: (raw: boolean) => void;
+}
+
+// 表示用のノードを、Chatwork の見た目に近い要素に変換する
+const renderNodes = (nodes: ChatworkNode[]): ReactNode => nodes.map((node, index) => {
+  switch (node.type) {
+    case 'text':
+      return <Fragment key={index}>{node.text}</Fragment>;
+    case 'to':
+      return <span key={index} className="mr-1 rounded bg-emerald-100 px-1 text-[10px] font-bold text-emerald-700">TO</span>;
+    case 'hr':
+      return <hr key={index} className="my-1 border-gray-300" />;
+    case 'code':
+      return <pre key={index} className="my-1 rounded bg-gray-800 p-1 text-gray-100 whitespace-pre-wrap break-all">{node.text}</pre>;
+    case 'quote':
+      return <blockquote key={index} className="my-1 border-l-4 border-gray-300 pl-2 text-gray-600">{renderNodes(node.children)}</blockquote>;
+    case 'title':
+      return <strong key={index}>{renderNodes(node.children)}</strong>;
+    case 'info':
+      return (
+        <div key={index} className="my-1 rounded border border-sky-300 bg-sky-50 p-1">
+          {node.title && <p className="mb-1 border-b border-sky-200 font-bold">ⓘ {renderNodes(node.title)}</p>}
+          {renderNodes(node.children)}
+        </div>
+      );
+  }
+});
+
+/**
+ * タスク内容の入力欄の下に、送信される本文のプレビューを表示するコンポーネント
+ * 左に Chatwork の記法のままの本文、右に Chatwork での表示イメージを並べます。
+ * Markdown を変換せずにそのまま送る場合の切り替えもここで行います。
+ */
+export default function ChatworkPreview({ body, unresolvedMentions, raw, onRawChange }: ChatworkPreviewProps) {
+  const { t } = useI18n();
+
+  return (
+    <div id="chatworkPreview" className="mt-2 text-xs">
+      <label className="flex items-center gap-1 text-sm">
+        <input
+          type="checkbox"
+          className="accent-emerald-600"
+          checked={raw}
+          onChange={(e) => onRawChange(e.target.checked)}
+        />
+        {t('preview.raw')}
+      </label>
+
+      {body && (
+        <div className="mt-1 grid grid-cols-2 gap-2">
+          <div>
+            <p className="mb-0.5 text-gray-500">{t('preview.body')}</p>
+            <pre className="h-full rounded border bg-gray-50 p-2 whitespace-pre-wrap break-all">{body}</pre>
+          </div>
+          <div>
+            <p className="mb-0.5 text-gray-500">{t('preview.rendered')}</p>
+            <div className="h-full rounded border p-2 whitespace-pre-wrap break-words">
+              {/* そのまま送る場合も、本文に書いたタグは Chatwork で記法として表示される */}
+              {renderNodes(parseChatworkNotation(body))}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {!raw && unresolvedMentions.length > 0 && (
+        <p className="mt-1 text-amber-600">
+          {t('preview.unresolvedMentions', { names: unresolvedMentions.map(name => `@${name}`).join(t('preview.mentionSeparator')) })}
+        </p>
+      )}
+    </div>
+  );
+}
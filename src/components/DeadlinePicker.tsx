@@ -0,0 +1,131 @@
+// src/components/DeadlinePicker.tsx
+
+'use client';
+
+import { useState } from 'react';
+import { useI18n } from './LocaleProvider';
+import type { LimitType } from '../types/chatwork';
+import {
+  Deadline,
+  deadlineToUnix,
+  formatDateInput,
+  formatDeadlineLabel,
+  formatTimeInput,
+  parseJapaneseDueDate,
+} from '../lib/dueDate';
+
+interface DeadlinePickerProps {
+  // 現在の期限の入力値
+  value: Deadline;
+  // 期限が変更された時に呼ばれるコールバック
+  onChange: (deadline: Deadline) => void;
+}
+
+// 期限の種類の選択肢 (表示名はメッセージのカタログの `deadline.<種類>`)
+const LIMIT_TYPE_OPTIONS: LimitType[] = ['none', 'date', 'time'];
+
+/**
+ * タスクの期限を指定するためのコンポーネント
+ * 期限の種類 (なし/日付/日時) の切り替えと、「明日17時」のような自然文による入力に対応します。
+ */
+export default function DeadlinePicker({ value, onChange }: DeadlinePickerProps) {
+  const { t } = useI18n();
+  // 自然文で入力された期限の文字列
+  const [shortcutText, setShortcutText] = useState<string>('');
+
+  // 自然文の解釈結果 (入力のたびに再計算)
+  const parsed = shortcutText.trim() ? parseJapaneseDueDate(shortcutText) : null;
+
+  // 自然文の解釈結果をフォームの期限に反映します。時刻を含む場合は「日付と時刻」、含まない場合は「日付のみ」になります。
+  const applyShortcut = () => {
+    if (!parsed) return;
+    onChange({
+      limitType: parsed.hasTime ? 'time' : 'date',
+      date: formatDateInput(parsed.date),
+      time: parsed.hasTime ? formatTimeInput(parsed.date) : value.time,
+    });
+    setShortcutText('');
+  };
+
+  // 送信される期限のプレビュー
+  const limit = deadlineToUnix(value);
+  const preview = value.limitType === 'none'
+    ? t('deadline.none')
+    : limit === null
+      ? t('deadline.enterDate')
+      : formatDeadlineLabel(new Date(limit * 1000), value.limitType === 'time', t);
+
+  return (
+    <div id="deadlinePicker" className="space-y-2">
+      {/* 期限の種類 */}
+      <div className="flex gap-4 text-sm">
+        {LIMIT_TYPE_OPTIONS.map(option => (
+          <label key={option} className="flex items-center gap-1">
+            <input
+              type="radio"
+              name="limitType"
+              className="accent-emerald-600"
+              checked={value.limitType === option}
+              onChange={() => onChange({ ...value, limitType: option })}
+            />
+            {t(`deadline.${option}`)}
+          </label>
+        ))}
+      </div>
+
+      {/* 日付・時刻の入力欄 (期限なしの場合は非表示) */}
+      {value.limitType !== 'none' && (
+        <div className="flex gap-2">
+          <input
+            type="date"
+            className="flex-grow border rounded px-3 py-2 focus:ring focus:ring-emerald-300 focus:border-emerald-500"
+            value={value.date}
+            onChange={(e) => onChange({ ...value, date: e.target.value })}
+          />
+          {value.limitType === 'time' && (
+            <input
+              type="time"
+              className="border rounded px-3 py-2 focus:ring focus:ring-emerald-300 focus:border-emerald-500"
+              value={value.time}
+              onChange={(e) => onChange({ ...value, time: e.target.value })}
+            />
+          )}
+        </div>
+      )}
+
+      {/* 自然文による期限入力 */}
+      <div className="flex gap-2">
+        <input
+          id="deadlineShortcut"
+          type="text"
+          placeholder={t('deadline.shortcutPlaceholder')}
+          className="flex-grow border rounded px-3 py-2 text-sm focus:ring focus:ring-emerald-300 focus:border-emerald-500"
+          value={shortcutText}
+          onChange={(e) => setShortcutText(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              applyShortcut();
+            }
+          }}
+        />
+        <button
+          type="button"
+          className="bg-emerald-500 text-white px-3 py-2 rounded text-sm hover:bg-emerald-600 disabled:opacity-50"
+          onClick={applyShortcut}
+          disabled={!parsed}
+        >
+          {t('deadline.apply')}
+        </button>
+      </div>
+      {shortcutText.trim() && (
+        <p className={`text-xs ${parsed ? 'text-emerald-700' : 'text-red-600'}`}>
+          {parsed ? `→ ${formatDeadlineLabel(parsed.date, parsed.hasTime, t)}` : t('deadline.unparsable')}
+        </p>
+      )}
+
+      {/* 送信される期限のプレビュー */}
+      <p className="text-xs text-gray-600">{t('deadline.preview', { deadline: preview })}</p>
+    </div>
+  );
+}
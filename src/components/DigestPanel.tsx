@@ -0,0 +1,146 @@
+// src/components/DigestPanel.tsx
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { describeApiError, readApiError } from '../lib/i18n';
+import type { DigestSettings } from '../types/digest';
+import { useI18n } from './LocaleProvider';
+
+// ダイジェストのAPIルートのURL
+const DIGEST_API = '/api/digest';
+
+// 送信結果にはHTTPステータスがないため、失敗の表示ではサーバー側のエラーとして扱う
+const DIGEST_RUN_FAILED_STATUS = 500;
+
+interface DigestPanelProps {
+  // ログイン中のみ表示する
+  enabled: boolean;
+}
+
+// 日時を「M/D HH:MM」の形式で表示する
+const formatDateTime = (time: number): string => {
+  const date = new Date(time);
+  return `${date.getMonth() + 1}/${date.getDate()} ${date.getHours().toString().padStart(2, '0')}:${date.getMinutes().toString().padStart(2, '0')}`;
+};
+
+/**
+ * 毎日のダイジェスト (自分の未完了タスクのまとめ) を設定するパネル
+ * 指定した時刻に、期限切れ・今日まで・今週中などに分けたタスクの一覧をマイチャットに投稿します。
+ * 投稿せずに本文を確認するプレビューと、今すぐ投稿する操作もできます。
+ */
+export default function DigestPanel({ enabled }: DigestPanelProps) {
+  const { t } = useI18n();
+  const [settings, setSettings] = useState<DigestSettings | null>(null);
+  // 入力中の送信時刻
+  const [time, setTime] = useState<string>('08:30');
+  const [weekdaysOnly, setWeekdaysOnly] = useState<boolean>(true);
+  // プレビューの本文
+  const [preview, setPreview] = useState<string>('');
+  // パネル内の操作結果のメッセージ
+  const [message, setMessage] = useState<{ text: string; type: 'success' | 'error' } | null>(null);
+
+  // 送信設定を反映する
+  const applySettings = (next: DigestSettings) => {
+    setSettings(next);
+    setTime(next.time);
+    setWeekdaysOnly(next.weekdaysOnly);
+  };
+
+  useEffect(() => {
+    if (!enabled) {
+      setSettings(null);
+      setPreview('');
+      return;
+    }
+    fetch(DIGEST_API, { headers: { 'Accept': 'application/json' } })
+      .then(async response => {
+        if (!response.ok) throw new Error(await readApiError(t, response));
+        applySettings(await response.json());
+      })
+      .catch((err: any) => setMessage({ text: t('digest.loadFailed', { detail: err.message }), type: 'error' }));
+  }, [enabled]);
+
+  // 送信設定を保存する (有効/停止の切り替えにも使う)
+  const handleSave = async (nextEnabled: boolean) => {
+    try {
+      const response = await fetch(DIGEST_API, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', 'Accept': 'application/json' },
+        body: JSON.stringify({ enabled: nextEnabled, time, weekdaysOnly }),
+      });
+      if (!response.ok) {
+        throw new Error(await readApiError(t, response));
+      }
+      applySettings(await response.json());
+      setMessage({ text: nextEnabled ? t('digest.started', { time }) : t('digest.stopped'), type: 'success' });
+    } catch (err: any) {
+      setMessage({ text: t('digest.saveFailed', { detail: err.message }), type: 'error' });
+    }
+  };
+
+  // ダイジェストを作成する (dryRun の場合は投稿せずに本文だけを表示する)
+  const handleRun = async (dryRun: boolean) => {
+    try {
+      const response = await fetch(`${DIGEST_API}/run${dryRun ? '?dryRun=true' : ''}`, { method: 'POST', headers: { 'Accept': 'application/json' } });
+      if (!response.ok) {
+        throw new Error(await readApiError(t, response));
+      }
+      const result: { body: string; taskCount: number } = await response.json();
+      setPreview(result.body);
+      setMessage(dryRun ? null : { text: t('digest.posted', { count: result.taskCount }), type: 'success' });
+    } catch (err: any) {
+      setMessage({ text: t('digest.runFailed', { detail: err.message }), type: 'error' });
+    }
+  };
+
+  if (!enabled || !settings) return null;
+
+  return (
+    <details id="digestPanel" className="mt-6 border rounded px-3 py-2 text-sm">
+      <summary className="cursor-pointer font-medium">
+        {t('digest.title', { state: settings.enabled ? t('digest.state.scheduled', { time: settings.time }) : t('digest.state.stopped') })}
+      </summary>
+
+      <p className="mt-2 text-xs text-gray-600">
+        {t('digest.help')}
+      </p>
+      <div className="mt-2 flex flex-wrap items-center gap-3">
+        <input type="time" className="border rounded px-2 py-1" value={time} onChange={(e) => setTime(e.target.value)} />
+        <label className="flex items-center gap-1">
+          <input type="checkbox" checked={weekdaysOnly} onChange={(e) => setWeekdaysOnly(e.target.checked)} />
+          {t('digest.weekdaysOnly')}
+        </label>
+        <button type="button" className="bg-emerald-500 text-white px-3 py-1 rounded hover:bg-emerald-600 ml-auto" onClick={() => handleSave(true)}>
+          {settings.enabled ? t('digest.save') : t('digest.start')}
+        </button>
+        {settings.enabled && (
+          <button type="button" className="text-gray-600 underline" onClick={() => handleSave(false)}>{t('digest.stop')}</button>
+        )}
+      </div>
+      <p className="mt-1 text-xs text-gray-600">
+        {settings.nextRunAt && t('digest.nextRun', { time: formatDateTime(settings.nextRunAt) })}
+        {settings.lastRun && (
+          <span className={settings.lastRun.ok ? 'text-green-700' : 'text-red-600'}>
+            {settings.nextRunAt && t('digest.lastRunSeparator')}
+            {settings.lastRun.ok
+              ? t('digest.lastRunOk', { time: formatDateTime(settings.lastRun.at), count: settings.lastRun.taskCount })
+              : t('digest.lastRunFailed', { time: formatDateTime(settings.lastRun.at), detail: describeApiError(t, settings.lastRun, DIGEST_RUN_FAILED_STATUS) })}
+          </span>
+        )}
+      </p>
+
+      <div className="mt-2 flex gap-3 text-xs">
+        <button type="button" className="text-emerald-700 underline" onClick={() => handleRun(true)}>{t('digest.preview')}</button>
+        <button type="button" className="text-emerald-700 underline" onClick={() => handleRun(false)}>{t('digest.runNow')}</button>
+      </div>
+      {preview && (
+        <pre className="mt-2 text-xs text-gray-600 bg-gray-50 border rounded p-2 whitespace-pre-wrap break-all">{preview}</pre>
+      )}
+
+      {message && (
+        <p className={`mt-2 text-xs ${message.type === 'error' ? 'text-red-600' : 'text-green-700'}`}>{message.text}</p>
+      )}
+    </details>
+  );
+}
@@ -0,0 +1,243 @@
+// src/components/HistoryPanel.tsx
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { chatworkRoomUrl } from '../lib/chatworkLinks';
+import { deadlineToUnix, formatDeadlineLabel } from '../lib/dueDate';
+import { readApiError, Translate } from '../lib/i18n';
+import { generateIdempotencyKey } from '../lib/outbox';
+import { createTask, describeSendError } from '../lib/taskClient';
+import {
+  addHistoryEntry,
+  deleteHistoryEntry,
+  HistoryEntry,
+  listHistory,
+  searchHistory,
+  subscribeHistory,
+} from '../lib/taskHistory';
+import { useI18n } from './LocaleProvider';
+import type { ChatworkRoom } from '../types/chatwork';
+import type { Task, TaskStatus } from '../types/task';
+
+// Next.jsのAPIルートを呼び出すためのベースURL
+const PROXY_BASE_URL = '/api/chatwork';
+
+// 一度に表示する履歴の件数
+const PAGE_SIZE = 20;
+
+interface HistoryPanelProps {
+  // ログイン中かどうか (未ログインの間は状態の確認や再送をしない)
+  enabled: boolean;
+  // 使用中のプロフィールのID (他のプロフィールで送信した履歴は表示しない)
+  profileId: string | null;
+  // 「別のルームにコピー」で選べるルーム一覧
+  rooms: ChatworkRoom[];
+  // 「もう一度送信」に成功した時に呼ばれるコールバック
+  onResent: (entry: HistoryEntry) => void;
+  // 「別のルームにコピー」で、入力フォームに内容を反映する時に呼ばれるコールバック
+  onCopy: (entry: HistoryEntry, roomId: number) => void;
+}
+
+// 使用中のプロフィールで送信した履歴かどうか (プロフィールに対応する前の履歴は、どのプロフィールでも表示する)
+const belongsTo = (entry: HistoryEntry, profileId: string | null) => !entry.profileId || entry.profileId === profileId;
+
+// タスクIDごとの、Chatworkで確認した現在の状態 (表示名はメッセージのカタログの `history.status.<状態>`)
+type StatusResult = TaskStatus | 'loading' | 'error';
+
+// 送信日時を「M/D HH:MM」の形式で表示する
+const formatSentAt = (time: number): string => {
+  const date = new Date(time);
+  return `${date.getMonth() + 1}/${date.getDate()} ${date.getHours().toString().padStart(2, '0')}:${date.getMinutes().toString().padStart(2, '0')}`;
+};
+
+// 期限の表示
+const formatDeadline = (entry: HistoryEntry, t: Translate): string => {
+  const limit = deadlineToUnix(entry.deadline);
+  return entry.deadline.limitType === 'none' || limit === null
+    ? t('history.noDeadline')
+    : formatDeadlineLabel(new Date(limit * 1000), entry.deadline.limitType === 'time', t);
+};
+
+/**
+ * 送信したタスクの履歴を表示するパネル
+ * キーワードで絞り込み、Chatworkのルームを開く・現在の状態を確認する・もう一度送信する・別のルームにコピーする操作ができます。
+ */
+export default function HistoryPanel({ enabled, profileId, rooms, onResent, onCopy }: HistoryPanelProps) {
+  const { t } = useI18n();
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [query, setQuery] = useState<string>('');
+  const [visibleCount, setVisibleCount] = useState<number>(PAGE_SIZE);
+  // タスクIDごとの現在の状態 (確認ボタンを押したものだけ)
+  const [statuses, setStatuses] = useState<Record<number, StatusResult>>({});
+  // 「別のルームにコピー」でルームを選んでいる履歴のID
+  const [copyingId, setCopyingId] = useState<string | null>(null);
+  // パネル内の操作結果のメッセージ
+  const [message, setMessage] = useState<{ text: string; type: 'success' | 'error' } | null>(null);
+
+  // 使用中のプロフィールの送信履歴を IndexedDB から読み込み、変更があれば読み込み直す (プロフィールを切り替えた時も読み込み直す)
+  useEffect(() => {
+    const reload = () => {
+      listHistory()
+        .then(all => setEntries(all.filter(entry => belongsTo(entry, profileId))))
+        .catch(err => console.error('送信履歴の読み込みに失敗しました', err));
+    };
+    reload();
+    return subscribeHistory(reload);
+  }, [profileId]);
+
+  const filtered = searchHistory(entries, query);
+
+  // 送ったタスクの現在の状態をChatworkに問い合わせる
+  const handleCheckStatus = async (entry: HistoryEntry) => {
+    const pending: Record<number, StatusResult> = {};
+    entry.taskIds.forEach(taskId => (pending[taskId] = 'loading'));
+    setStatuses(current => ({ ...current, ...pending }));
+
+    await Promise.all(entry.taskIds.map(async taskId => {
+      let result: StatusResult;
+      try {
+        const response = await fetch(`${PROXY_BASE_URL}/rooms/${entry.roomId}/tasks/${taskId}`, {
+          method: 'GET',
+          headers: { 'Accept': 'application/json' }
+        });
+        if (!response.ok) {
+          throw new Error(await readApiError(t, response));
+        }
+        result = ((await response.json()) as Task).status;
+      } catch (err) {
+        console.error('エラー:', err);
+        result = 'error';
+      }
+      setStatuses(current => ({ ...current, [taskId]: result }));
+    }));
+  };
+
+  // 同じルーム・担当者・期限で、もう一度タスクを作成する
+  const handleResend = async (entry: HistoryEntry) => {
+    if (!window.confirm(t('history.confirmResend', { room: entry.roomName }))) return;
+    try {
+      const result = await createTask(
+        entry.roomId,
+        { body: entry.body, toIds: entry.assignees.map(a => a.account_id), deadline: entry.deadline },
+        generateIdempotencyKey(),
+      );
+      const saved = await addHistoryEntry({ ...entry, taskIds: result.task_ids, sentAt: Date.now(), profileId });
+      setMessage({ text: t('history.resent', { room: entry.roomName }), type: 'success' });
+      onResent(saved);
+    } catch (err: any) {
+      console.error('タスク再送失敗', err);
+      setMessage({ text: t('history.resendFailed', { detail: describeSendError(err, t) }), type: 'error' });
+    }
+  };
+
+  const handleDelete = async (entry: HistoryEntry) => {
+    try {
+      await deleteHistoryEntry(entry.id);
+    } catch (err: any) {
+      setMessage({ text: t('history.deleteFailed', { detail: err.message }), type: 'error' });
+    }
+  };
+
+  return (
+    <details id="historyPanel" className="mt-6 border rounded px-3 py-2 text-sm">
+      <summary className="cursor-pointer font-medium">{t('history.title', { count: entries.length })}</summary>
+
+      <input
+        type="search"
+        className="mt-2 w-full border rounded px-2 py-1"
+        placeholder={t('history.search')}
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setVisibleCount(PAGE_SIZE);
+        }}
+      />
+
+      {filtered.length === 0 ? (
+        <p className="mt-2 text-gray-500">{entries.length === 0 ? t('history.empty') : t('history.noMatch')}</p>
+      ) : (
+        <ul className="mt-2 divide-y">
+          {filtered.slice(0, visibleCount).map(entry => (
+            <li key={entry.id} className="py-2">
+              <p className="whitespace-pre-wrap break-words">{entry.body}</p>
+              <p className="text-xs text-gray-600">
+                {formatSentAt(entry.sentAt)}
+                {' ／ '}
+                <a href={chatworkRoomUrl(entry.roomId)} target="_blank" rel="noopener noreferrer" className="text-emerald-700 underline">
+                  {entry.roomName}
+                </a>
+                {t('history.assignees', {
+                  names: entry.assignees
+                    .map(a => (entry.doneAccountIds ?? []).includes(a.account_id) ? `✓${a.name}` : a.name)
+                    .join(t('history.nameSeparator')),
+                })}
+                {t('history.deadline', { deadline: formatDeadline(entry, t) })}
+              </p>
+              <p className="text-xs text-gray-600">
+                {t('history.taskIds')}{entry.taskIds.map(taskId => (
+                  <span key={taskId} className="mr-2">
+                    {taskId}
+                    {statuses[taskId] && (
+                      <span className={statuses[taskId] === 'done' ? 'text-green-700' : statuses[taskId] === 'error' ? 'text-red-600' : ''}>
+                        ({t(`history.status.${statuses[taskId]}`)})
+                      </span>
+                    )}
+                  </span>
+                ))}
+              </p>
+
+              <div className="mt-1 flex flex-wrap gap-3 text-xs">
+                <button type="button" className="text-emerald-700 underline disabled:opacity-50" onClick={() => handleCheckStatus(entry)} disabled={!enabled}>
+                  {t('history.checkStatus')}
+                </button>
+                <button type="button" className="text-emerald-700 underline disabled:opacity-50" onClick={() => handleResend(entry)} disabled={!enabled}>
+                  {t('history.resend')}
+                </button>
+                <button
+                  type="button"
+                  className="text-emerald-700 underline disabled:opacity-50"
+                  onClick={() => setCopyingId(copyingId === entry.id ? null : entry.id)}
+                  disabled={!enabled || rooms.length === 0}
+                >
+                  {t('history.copy')}
+                </button>
+                <button type="button" className="text-gray-600 underline" onClick={() => handleDelete(entry)}>
+                  {t('history.delete')}
+                </button>
+              </div>
+
+              {/* コピー先のルームを選ぶと、入力フォームに内容を反映する */}
+              {copyingId === entry.id && (
+                <select
+                  className="mt-1 w-full border rounded px-2 py-1"
+                  value=""
+                  onChange={(e) => {
+                    if (!e.target.value) return;
+                    onCopy(entry, parseInt(e.target.value, 10));
+                    setCopyingId(null);
+                  }}
+                >
+                  <option value="">{t('history.copyTarget')}</option>
+                  {rooms.map(room => (
+                    <option key={room.room_id} value={room.room_id}>{room.name}</option>
+                  ))}
+                </select>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {filtered.length > visibleCount && (
+        <button type="button" className="mt-1 text-xs text-emerald-700 underline" onClick={() => setVisibleCount(count => count + PAGE_SIZE)}>
+          {t('history.more')}
+        </button>
+      )}
+
+      {message && (
+        <p className={`mt-2 text-xs ${message.type === 'error' ? 'text-red-600' : 'text-green-700'}`}>{message.text}</p>
+      )}
+    </details>
+  );
+}
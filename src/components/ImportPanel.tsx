@@ -0,0 +1,218 @@
+// src/components/ImportPanel.tsx
+
+'use client';
+
+import { ChangeEvent, useState } from 'react';
+import { readApiError, Translate } from '../lib/i18n';
+import { createTask, TaskRequest } from '../lib/taskClient';
+import {
+  buildImportResultCsv,
+  detectImportFormat,
+  IMPORT_CSV_COLUMNS,
+  ImportResult,
+  ImportRow,
+  readImportCsv,
+  readImportMarkdown,
+  resolveImportRows,
+  sendImportRows,
+} from '../lib/taskImport';
+import { useI18n } from './LocaleProvider';
+import type { ChatworkMember, ChatworkRoom } from '../types/chatwork';
+
+// Next.jsのAPIルートを呼び出すためのベースURL
+const PROXY_BASE_URL = '/api/chatwork';
+
+interface ImportPanelProps {
+  // ログイン中のみ取り込める
+  enabled: boolean;
+  // ルーム名の解決に使うルーム一覧
+  rooms: ChatworkRoom[];
+  // ルームの指定がない行の送信先 (選択中のルーム)
+  defaultRoomId: string;
+  // 1件送信に成功するごとに呼ばれるコールバック (送信履歴への記録などに使用)
+  onSent: (roomId: string, roomName: string, task: TaskRequest, taskIds: number[]) => void;
+}
+
+// ルームのメンバー一覧を取得する
+const fetchMembers = async (roomId: number, t: Translate): Promise<ChatworkMember[]> => {
+  const response = await fetch(`${PROXY_BASE_URL}/rooms/${roomId}/members`, {
+    method: 'GET',
+    headers: { 'Accept': 'application/json' }
+  });
+  if (!response.ok) {
+    throw new Error(await readApiError(t, response));
+  }
+  return response.json();
+};
+
+/**
+ * CSV や Markdown のチェックリストからタスクを一括で作成するパネル
+ * 読み込んだ行のルーム名・担当者名をIDに解決して表に表示し、問題のある行は送信前に理由を示します。
+ * 送信後は、行ごとのタスクIDまたはエラーを含む結果を CSV でダウンロードできます。
+ */
+export default function ImportPanel({ enabled, rooms, defaultRoomId, onSent }: ImportPanelProps) {
+  const { t } = useI18n();
+  const [fileName, setFileName] = useState<string>('');
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  // 行番号ごとの送信結果
+  const [results, setResults] = useState<Record<number, ImportResult>>({});
+  const [sending, setSending] = useState<boolean>(false);
+  // パネル内の操作結果・進捗のメッセージ
+  const [message, setMessage] = useState<{ text: string; type: 'success' | 'error' | '' } | null>(null);
+
+  // ファイルを読み込み、ルームのメンバーを取得して行を解決する
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // 同じファイルを続けて選んでも読み込めるようにする
+    if (!file) return;
+
+    setRows([]);
+    setResults({});
+    setFileName(file.name);
+    try {
+      const text = await file.text();
+      const raw = detectImportFormat(file.name, text) === 'csv' ? readImportCsv(text, t) : readImportMarkdown(text);
+      if (raw.length === 0) {
+        throw new Error(t('importPanel.noRows'));
+      }
+
+      // 担当者名を解決するため、送信先になるルームのメンバーを取得する
+      const defaultId = defaultRoomId ? parseInt(defaultRoomId, 10) : null;
+      const roomIds: number[] = [];
+      const now = new Date();
+      resolveImportRows(raw, rooms, {}, defaultId, now, t).forEach(row => {
+        if (row.roomId !== null && !roomIds.includes(row.roomId)) roomIds.push(row.roomId);
+      });
+      const membersByRoomId: Record<number, ChatworkMember[]> = {};
+      for (let index = 0; index < roomIds.length; index++) {
+        membersByRoomId[roomIds[index]] = await fetchMembers(roomIds[index], t);
+      }
+
+      const resolved = resolveImportRows(raw, rooms, membersByRoomId, defaultId, now, t);
+      setRows(resolved);
+      const invalidCount = resolved.filter(row => row.errors.length > 0).length;
+      setMessage(invalidCount > 0
+        ? { text: t('importPanel.hasInvalid', { total: resolved.length, invalid: invalidCount }), type: 'error' }
+        : { text: t('importPanel.loaded', { count: resolved.length }), type: 'success' });
+    } catch (err: any) {
+      setMessage({ text: t('importPanel.loadFailed', { detail: err.message }), type: 'error' });
+    }
+  };
+
+  const handleSend = async () => {
+    setSending(true);
+    try {
+      const next = await sendImportRows(
+        rows,
+        results,
+        async (roomId, task) => (await createTask(String(roomId), task)).task_ids,
+        {
+          onProgress: (done, total, row, result) => {
+            setResults(current => ({ ...current, [row.line]: result }));
+            setMessage({ text: t('importPanel.progress', { done, total }), type: '' });
+            if (result.ok) {
+              onSent(String(row.roomId), row.roomName, { body: row.body, toIds: row.assigneeIds, deadline: row.deadline }, result.taskIds);
+            }
+          },
+          t,
+        },
+      );
+      setResults(next);
+      const failedCount = rows.filter(row => next[row.line] && !next[row.line].ok).length;
+      const createdCount = rows.filter(row => next[row.line]?.ok).length;
+      setMessage(failedCount > 0
+        ? { text: t('importPanel.partlyFailed', { created: createdCount, failed: failedCount }), type: 'error' }
+        : { text: t('importPanel.sent', { count: createdCount }), type: 'success' });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  // 行ごとのタスクIDまたはエラーを CSV としてダウンロードする
+  const handleDownloadResult = () => {
+    const blob = new Blob([buildImportResultCsv(rows, results)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${fileName.replace(/\.[^.]+$/, '') || 'import'}-result.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  if (!enabled) return null;
+
+  const sendableCount = rows.filter(row => row.errors.length === 0 && !results[row.line]?.ok).length;
+
+  return (
+    <details id="importPanel" className="mt-6 border rounded px-3 py-2 text-sm">
+      <summary className="cursor-pointer font-medium">{t('importPanel.title')}</summary>
+
+      <p className="mt-2 text-xs text-gray-600">
+        {t('importPanel.csvHelp', { columns: IMPORT_CSV_COLUMNS.join(', ') })}
+        {' '}
+        {t('importPanel.markdownHelp')}
+      </p>
+      <label className="mt-2 inline-block text-emerald-700 underline cursor-pointer">
+        {t('importPanel.selectFile')}
+        <input type="file" accept=".csv,.md,.markdown,.txt,text/csv,text/markdown" className="hidden" onChange={handleFile} disabled={sending} />
+      </label>
+      {fileName && <span className="ml-2 text-xs text-gray-600">{fileName}</span>}
+
+      {rows.length > 0 && (
+        <>
+          <table className="mt-2 w-full text-xs border">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-1 py-1 text-left">{t('importPanel.column.line')}</th>
+                <th className="px-1 py-1 text-left">{t('importPanel.column.body')}</th>
+                <th className="px-1 py-1 text-left">{t('importPanel.column.room')}</th>
+                <th className="px-1 py-1 text-left">{t('importPanel.column.assignees')}</th>
+                <th className="px-1 py-1 text-left">{t('importPanel.column.deadline')}</th>
+                <th className="px-1 py-1 text-left">{t('importPanel.column.status')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => {
+                const result = results[row.line];
+                return (
+                  <tr key={row.line} className={`border-t align-top ${row.errors.length > 0 ? 'bg-red-50' : ''}`}>
+                    <td className="px-1 py-1">{row.line}</td>
+                    <td className="px-1 py-1 whitespace-pre-wrap break-words">{row.body}</td>
+                    <td className="px-1 py-1">{row.roomName}</td>
+                    <td className="px-1 py-1">{row.assigneeNames.join(t('importPanel.nameSeparator'))}</td>
+                    <td className="px-1 py-1">
+                      {row.deadline.limitType === 'none' ? t('importPanel.noDeadline') : `${row.deadline.date}${row.deadline.limitType === 'time' ? ` ${row.deadline.time}` : ''}`}
+                    </td>
+                    <td className={`px-1 py-1 ${row.errors.length > 0 || (result && !result.ok) ? 'text-red-600' : result ? 'text-green-700' : ''}`}>
+                      {row.errors.length > 0
+                        ? row.errors.join(' / ')
+                        : !result ? t('importPanel.notSent') : result.ok ? t('importPanel.created', { taskIds: result.taskIds.join(', ') }) : result.error}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          <div className="mt-2 flex gap-2">
+            <button
+              type="button"
+              className="bg-emerald-500 text-white px-3 py-1 rounded hover:bg-emerald-600 disabled:opacity-50"
+              onClick={handleSend}
+              disabled={sending || sendableCount === 0}
+            >
+              {sending ? t('importPanel.sending') : t('importPanel.send', { count: sendableCount })}
+            </button>
+            <button type="button" className="text-emerald-700 underline" onClick={handleDownloadResult} disabled={sending}>
+              {t('importPanel.downloadResult')}
+            </button>
+          </div>
+        </>
+      )}
+
+      {message && (
+        <p className={`mt-2 text-xs ${message.type === 'error' ? 'text-red-600' : message.type === 'success' ? 'text-green-700' : 'text-gray-600'}`}>{message.text}</p>
+      )}
+    </details>
+  );
+}
@@ -0,0 +1,57 @@
+// src/components/LocaleProvider.tsx
+
+'use client';
+
+import { createContext, ReactNode, useCallback, useContext, useMemo, useState } from 'react';
+import { DEFAULT_LOCALE, Locale, LOCALE_COOKIE_NAME, MessageKey, MessageParams, translate, Translate } from '../lib/i18n';
+
+// 表示言語を選んだことを覚えておく期間 (秒)
+const LOCALE_COOKIE_MAX_AGE = 365 * 24 * 60 * 60;
+
+interface I18nContextValue {
+  // 表示言語
+  locale: Locale;
+  // 表示言語を切り替える (Cookie に保存し、次に開いた時も同じ言語で表示する)
+  setLocale: (locale: Locale) => void;
+  // メッセージのキーから表示言語のメッセージを返す
+  t: Translate;
+}
+
+const I18nContext = createContext<I18nContextValue>({
+  locale: DEFAULT_LOCALE,
+  setLocale: () => {},
+  t: (key, params) => translate(DEFAULT_LOCALE, key, params),
+});
+
+interface LocaleProviderProps {
+  // サーバーが Cookie と Accept-Language から決めた表示言語
+  initialLocale: Locale;
+  children: ReactNode;
+}
+
+/**
+ * 画面全体に表示言語と翻訳関数を渡すコンポーネント (layout.tsx で使う)
+ * 表示言語を切り替えた場合は Cookie に保存し、<html lang> も切り替えます。
+ */
+export default function LocaleProvider({ initialLocale, children }: LocaleProviderProps) {
+  const [locale, setLocaleState] = useState<Locale>(initialLocale);
+
+  const setLocale = useCallback((next: Locale) => {
+    setLocaleState(next);
+    document.cookie = `${LOCALE_COOKIE_NAME}=${next}; path=/; max-age=${LOCALE_COOKIE_MAX_AGE}; samesite=lax`;
+    document.documentElement.lang = next;
+  }, []);
+
+  const value = useMemo<I18nContextValue>(() => ({
+    locale,
+    setLocale,
+    t: (key: MessageKey, params?: MessageParams) => translate(locale, key, params),
+  }), [locale, setLocale]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
+
+/**
+ * 表示言語・表示言語の切り替え・翻訳関数を返します。
+ */
+export const useI18n = () => useContext(I18nContext);
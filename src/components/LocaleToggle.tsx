@@ -0,0 +1,31 @@
+// src/components/LocaleToggle.tsx
+
+'use client';
+
+import { LOCALES } from '../lib/i18n';
+import { useI18n } from './LocaleProvider';
+
+/**
+ * 表示言語 (日本語・English) を切り替えるコンポーネント
+ * それぞれの言語の名前は、選んでいる言語に関わらずその言語で表示します。
+ */
+export default function LocaleToggle() {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <div id="localeToggle" className="flex justify-end gap-1 text-xs" role="group" aria-label={t('locale.label')}>
+      {LOCALES.map(option => (
+        <button
+          key={option}
+          type="button"
+          lang={option}
+          className={`rounded px-2 py-0.5 ${option === locale ? 'bg-emerald-600 text-white' : 'text-gray-600 hover:bg-gray-100'}`}
+          aria-pressed={option === locale}
+          onClick={() => setLocale(option)}
+        >
+          {t(`locale.${option}`)}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+// src/components/OutboxPanel.tsx
+
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import {
+  deleteOutboxItem,
+  failedAttempt,
+  listOutbox,
+  OutboxItem,
+  putOutboxItem,
+  subscribeOutbox,
+} from '../lib/outbox';
+import { createTask, postMessage, TaskCreateResult } from '../lib/taskClient';
+import { useI18n } from './LocaleProvider';
+
+interface OutboxPanelProps {
+  // ログイン中かどうか (未ログインの間は自動再送しない)
+  enabled: boolean;
+  // 使用中のプロフィールのID (他のプロフィールで追加した項目は表示も再送もしない)
+  profileId: string | null;
+  // 再送に成功した時に呼ばれるコールバック
+  onSent: (item: OutboxItem, result: TaskCreateResult) => void;
+}
+
+// 使用中のプロフィールで追加した項目かどうか (プロフィールに対応する前の項目は、どのプロフィールでも扱う)
+const belongsTo = (item: OutboxItem, profileId: string | null) => !item.profileId || item.profileId === profileId;
+
+/**
+ * 送信に失敗したタスクの一覧 (送信待ち) を表示するパネル
+ * オンラインに戻った時や再送時刻になった時に自動で再送し、項目ごとに手動の再送・破棄もできます。
+ */
+export default function OutboxPanel({ enabled, profileId, onSent }: OutboxPanelProps) {
+  const { t } = useI18n();
+  const [items, setItems] = useState<OutboxItem[]>([]);
+  // 再送処理を同時に複数走らせないためのフラグ
+  const processingRef = useRef<boolean>(false);
+  // 最新のログイン状態・プロフィール・コールバック・翻訳関数をタイマーやイベントから参照するためのref
+  const latestRef = useRef({ enabled, profileId, onSent, t });
+  latestRef.current = { enabled, profileId, onSent, t };
+
+  // 使用中のプロフィールの送信待ちを IndexedDB から読み込む
+  const listOwnItems = async () => (await listOutbox()).filter(item => belongsTo(item, latestRef.current.profileId));
+
+  // 送信待ちの一覧を読み込む
+  const reload = () => {
+    listOwnItems()
+      .then(setItems)
+      .catch(err => console.error('送信待ちの読み込みに失敗しました', err));
+  };
+
+  // 1件を再送します (メッセージを含む項目は、タスクの作成後にメッセージも投稿する)。
+  // 失敗した場合は試行回数を増やし、再送可能なエラーなら次の再送時刻を設定します。
+  const sendItem = async (item: OutboxItem) => {
+    const { onSent: handleSent } = latestRef.current;
+    let sending = item;
+    try {
+      // 最初の送信と同じ冪等キーを使うため、途中まで処理されていても重複作成・重複投稿されない
+      if (!sending.createdTaskIds) {
+        const created = await createTask(item.roomId, item.task, item.id);
+        sending = { ...item, createdTaskIds: created.task_ids };
+      }
+      if (sending.message) {
+        await postMessage(item.roomId, sending.message, item.id);
+      }
+      await deleteOutboxItem(item.id);
+      handleSent(item, { task_ids: sending.createdTaskIds ?? [] });
+    } catch (err) {
+      // タスクを作成できていれば、次の再送ではメッセージだけを投稿する
+      await putOutboxItem(failedAttempt(sending, err, latestRef.current.t));
+    }
+  };
+
+  // 再送時刻を過ぎた項目をまとめて再送します。
+  const processDue = async () => {
+    if (processingRef.current || !navigator.onLine || !latestRef.current.enabled) return;
+    processingRef.current = true;
+    try {
+      const now = Date.now();
+      const dueItems = (await listOwnItems()).filter(item => item.nextAttemptAt !== null && item.nextAttemptAt <= now);
+      for (let index = 0; index < dueItems.length; index++) {
+        await sendItem(dueItems[index]);
+      }
+    } finally {
+      processingRef.current = false;
+    }
+  };
+
+  // 初回読み込みと変更の購読 (プロフィールを切り替えた時も読み込み直す)
+  useEffect(() => {
+    reload();
+    return subscribeOutbox(reload);
+  }, [profileId]);
+
+  // オンラインに戻ったら、自動再送待ちの項目をすぐに再送する
+  useEffect(() => {
+    const handleOnline = async () => {
+      const waiting = (await listOwnItems()).filter(item => item.nextAttemptAt !== null);
+      for (let index = 0; index < waiting.length; index++) {
+        await putOutboxItem({ ...waiting[index], nextAttemptAt: Date.now() });
+      }
+      processDue();
+    };
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, []);
+
+  // 次の再送時刻にタイマーを設定する
+  useEffect(() => {
+    const times = items.map(item => item.nextAttemptAt).filter((time): time is number => time !== null);
+    if (times.length === 0) return;
+    const timer = setTimeout(processDue, Math.max(Math.min(...times) - Date.now(), 0));
+    return () => clearTimeout(timer);
+  }, [items]);
+
+  if (items.length === 0) {
+    return null;
+  }
+
+  return (
+    <div id="outboxPanel" className="mt-4 border rounded p-3 bg-amber-50">
+      <h2 className="text-sm font-bold text-amber-700 mb-2">{t('outbox.title', { count: items.length })}</h2>
+      <ul className="space-y-2">
+        {items.map(item => (
+          <li key={item.id} className="text-sm border-t pt-2 first:border-t-0 first:pt-0">
+            <p className="whitespace-pre-wrap truncate">{item.task.body}</p>
+            <p className="text-xs text-gray-600">
+              {t('outbox.attempts', { room: item.roomName, attempts: item.attempts })}
+              {item.message && (item.createdTaskIds ? t('outbox.messageOnly') : t('outbox.withMessage'))}
+              {item.nextAttemptAt !== null
+                ? t('outbox.nextAttempt', { time: new Date(item.nextAttemptAt).toLocaleTimeString() })
+                : t('outbox.noAutoRetry')}
+            </p>
+            {item.lastError && <p className="text-xs text-red-600 truncate">{item.lastError}</p>}
+            <div className="flex gap-2 mt-1">
+              <button
+                type="button"
+                className="bg-emerald-500 text-white px-2 py-1 rounded text-xs hover:bg-emerald-600"
+                onClick={() => sendItem(item)}
+              >
+                {t('outbox.retry')}
+              </button>
+              <button
+                type="button"
+                className="bg-gray-400 text-white px-2 py-1 rounded text-xs hover:bg-gray-500"
+                onClick={() => deleteOutboxItem(item.id)}
+              >
+                {t('outbox.discard')}
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+// src/components/ProfileSwitcher.tsx
+
+'use client';
+
+import { useI18n } from './LocaleProvider';
+import type { ChatworkProfile } from '../types/profile';
+
+interface ProfileSwitcherProps {
+  profiles: ChatworkProfile[];
+  activeProfileId: string | null;
+  // 切り替え中は操作できないようにする
+  switching: boolean;
+  onSwitch: (profileId: string) => void;
+  // 「アカウントを追加」がクリックされた時 (ログインフォームを表示する)
+  onAdd: () => void;
+  onLogout: () => void;
+}
+
+// プロフィール名と異なる場合はアカウント名も付けて表示する
+const labelOf = (profile: ChatworkProfile) =>
+  profile.name === profile.accountName ? profile.name : `${profile.name} (${profile.accountName})`;
+
+/**
+ * ヘッダーに表示する、使用中のプロフィール (Chatwork のアカウント) の切り替えとログアウトのコンポーネント
+ * プロフィール名と一緒にアカウント名を表示し、どのアカウントで送信するかを分かるようにします。
+ */
+export default function ProfileSwitcher({ profiles, activeProfileId, switching, onSwitch, onAdd, onLogout }: ProfileSwitcherProps) {
+  const { t } = useI18n();
+  const active = profiles.find(profile => profile.id === activeProfileId);
+
+  return (
+    <div id="profileSwitcher" className="mb-4 flex items-center gap-2 text-sm">
+      <label htmlFor="profileSelect" className="shrink-0">{t('profileSwitcher.loggedInAs')}</label>
+      {profiles.length > 1 ? (
+        <select
+          id="profileSelect"
+          className="min-w-0 flex-grow border rounded px-2 py-1"
+          value={activeProfileId ?? ''}
+          disabled={switching}
+          onChange={(e) => onSwitch(e.target.value)}
+        >
+          {profiles.map(profile => (
+            <option key={profile.id} value={profile.id}>
+              {labelOf(profile)}
+            </option>
+          ))}
+        </select>
+      ) : (
+        <span className="min-w-0 flex-grow truncate">
+          {active ? labelOf(active) : '...'}
+        </span>
+      )}
+      <button
+        type="button"
+        className="shrink-0 text-emerald-700 underline hover:text-emerald-900"
+        onClick={onAdd}
+      >
+        {t('profileSwitcher.add')}
+      </button>
+      <button
+        id="logoutButton"
+        type="button"
+        className="shrink-0 text-gray-600 underline hover:text-gray-800"
+        onClick={onLogout}
+      >
+        {t('profileSwitcher.logout')}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+// src/components/RoomPicker.tsx
+
+'use client';
+
+import { KeyboardEvent, useMemo, useState } from 'react';
+import { buildRoomSections, matchesRoom, normalizeForSearch } from '../lib/roomSearch';
+import { useI18n } from './LocaleProvider';
+import type { ChatworkRoom } from '../types/chatwork';
+
+interface RoomPickerProps {
+  // 選択肢として表示するルーム一覧
+  rooms: ChatworkRoom[];
+  // 選択中のルームID (未選択の場合は空文字列)
+  selectedRoomId: string;
+  // お気に入りのルームID (登録順)
+  favoriteIds: number[];
+  // 最近送信したルームID (新しい順)
+  recentIds: number[];
+  // ルーム一覧を読み込み中かどうか
+  loading: boolean;
+  // ルームが選択された時に呼ばれるコールバック
+  onSelect: (roomId: string) => void;
+  // お気に入りの☆がクリックされた時に呼ばれるコールバック
+  onToggleFavorite: (roomId: number) => void;
+}
+
+/**
+ * タスクを飛ばすルームを選ぶためのコンボボックス
+ * 入力した文字でルーム名を絞り込み (ひらがな・カタカナ・ローマ字のどれでも一致)、
+ * 「お気に入り」「最近送信したルーム」「マイチャット」「ダイレクトチャット」「グループチャット」に分けて表示します。
+ * ↑↓キーで候補を移動し、Enterで選択、Escで閉じます。
+ */
+export default function RoomPicker({
+  rooms,
+  selectedRoomId,
+  favoriteIds,
+  recentIds,
+  loading,
+  onSelect,
+  onToggleFavorite,
+}: RoomPickerProps) {
+  const { t } = useI18n();
+  // 入力中の検索語
+  const [query, setQuery] = useState<string>('');
+  // 候補の一覧を開いているかどうか
+  const [open, setOpen] = useState<boolean>(false);
+  // キーボードで選んでいる候補の位置 (表示順の通し番号)
+  const [activeIndex, setActiveIndex] = useState<number>(0);
+
+  // ルーム名は一覧が変わった時だけ検索用の形に変換する
+  const normalizedNames = useMemo(() => {
+    const names: Record<number, string> = {};
+    rooms.forEach(room => {
+      names[room.room_id] = normalizeForSearch(room.name);
+    });
+    return names;
+  }, [rooms]);
+
+  const sections = useMemo(
+    () => buildRoomSections(rooms.filter(room => matchesRoom(room, normalizedNames[room.room_id] ?? '', query)), favoriteIds, recentIds),
+    [rooms, normalizedNames, query, favoriteIds, recentIds],
+  );
+  // キーボード操作用に、表示順に並べた候補
+  const options = sections.reduce<ChatworkRoom[]>((all, section) => all.concat(section.rooms), []);
+  const selectedRoom = rooms.find(room => String(room.room_id) === selectedRoomId) ?? null;
+
+  const openList = () => {
+    setQuery('');
+    setActiveIndex(0);
+    setOpen(true);
+  };
+
+  const select = (room: ChatworkRoom) => {
+    onSelect(String(room.room_id));
+    setOpen(false);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (!open) {
+      if (e.key === 'ArrowDown' || e.key === 'Enter') {
+        e.preventDefault();
+        openList();
+      }
+      return;
+    }
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(index => Math.min(index + 1, options.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(index => Math.max(index - 1, 0));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      if (options[activeIndex]) select(options[activeIndex]);
+    } else if (e.key === 'Escape') {
+      setOpen(false);
+    }
+  };
+
+  if (rooms.length === 0) {
+    return (
+      <input
+        id="roomSelect"
+        className="w-full border rounded px-3 py-2 bg-gray-50 text-gray-500"
+        value={loading ? t('roomPicker.loading') : t('roomPicker.placeholder')}
+        disabled
+        readOnly
+      />
+    );
+  }
+
+  // 候補の通し番号 (キーボード操作の位置と対応させる)
+  let optionIndex = -1;
+
+  return (
+    <div className="relative">
+      <input
+        id="roomSelect"
+        role="combobox"
+        aria-expanded={open}
+        aria-controls="roomSelectList"
+        aria-autocomplete="list"
+        autoComplete="off"
+        className="w-full border rounded px-3 py-2 focus:ring focus:ring-emerald-300 focus:border-emerald-500"
+        placeholder={t('roomPicker.search')}
+        value={open ? query : selectedRoom?.name ?? ''}
+        onFocus={openList}
+        onBlur={() => setOpen(false)}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setActiveIndex(0);
+          setOpen(true);
+        }}
+        onKeyDown={handleKeyDown}
+      />
+      {open && (
+        <ul
+          id="roomSelectList"
+          role="listbox"
+          className="absolute z-10 mt-1 w-full max-h-72 overflow-y-auto bg-white border rounded shadow-lg text-sm"
+        >
+          {options.length === 0 && <li className="px-3 py-2 text-gray-500">{t('roomPicker.noMatch')}</li>}
+          {sections.map(section => (
+            <li key={section.key} role="group" aria-label={t(`roomPicker.section.${section.key}`)}>
+              <div className="px-3 pt-2 pb-1 text-xs font-medium text-gray-500">{t(`roomPicker.section.${section.key}`)}</div>
+              <ul>
+                {section.rooms.map(room => {
+                  optionIndex++;
+                  const index = optionIndex;
+                  const favorite = favoriteIds.includes(room.room_id);
+                  return (
+                    <li
+                      key={`${section.key}-${room.room_id}`}
+                      role="option"
+                      aria-selected={String(room.room_id) === selectedRoomId}
+                      className={`flex items-center gap-2 px-3 py-1.5 cursor-pointer ${index === activeIndex ? 'bg-emerald-50' : ''}`}
+                      // 入力欄のフォーカスが外れて一覧が閉じる前に選択できるよう、mousedown の既定動作を止める
+                      onMouseDown={(e) => e.preventDefault()}
+                      onMouseEnter={() => setActiveIndex(index)}
+                      onClick={() => select(room)}
+                    >
+                      {room.icon_path && <img src={room.icon_path} alt="" className="w-5 h-5 rounded" />}
+                      <span className="flex-grow truncate">{room.name}</span>
+                      {room.unread_num > 0 && (
+                        <span className="text-xs bg-red-500 text-white rounded-full px-1.5">{room.unread_num}</span>
+                      )}
+                      <button
+                        type="button"
+                        title={favorite ? t('roomPicker.removeFavorite') : t('roomPicker.addFavorite')}
+                        className={favorite ? 'text-yellow-500' : 'text-gray-300 hover:text-yellow-500'}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onToggleFavorite(room.room_id);
+                        }}
+                      >
+                        {favorite ? '★' : '☆'}
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
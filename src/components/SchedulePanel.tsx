@@ -0,0 +1,321 @@
+// src/components/SchedulePanel.tsx
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { describeApiError, readApiError } from '../lib/i18n';
+import { describeRecurrenceRule } from '../lib/recurrence';
+import { formatRelativeDeadline, parseRelativeDeadline } from '../lib/templates';
+import type { ChatworkRoom } from '../types/chatwork';
+import type { RecurrenceRule, Schedule } from '../types/schedule';
+import { useI18n } from './LocaleProvider';
+
+// 定期タスクのAPIルートのベースURL
+const SCHEDULES_API = '/api/schedules';
+
+// 曜日の選択肢 (日曜=0 〜 土曜=6)
+const WEEKDAYS = [0, 1, 2, 3, 4, 5, 6];
+
+// 繰り返しの種類の選択肢
+const RULE_KINDS: RecurrenceRule['kind'][] = ['daily', 'weekly', 'monthly', 'lastBusinessDay'];
+
+interface SchedulePanelProps {
+  // ログイン中のみ定期タスクを読み込む
+  enabled: boolean;
+  // 定期タスクとして登録する、現在のフォームの内容
+  current: { body: string; roomId: string; assigneeIds: number[] };
+  // ルーム名を表示するためのルーム一覧
+  rooms: ChatworkRoom[];
+}
+
+// 日時を「M/D HH:MM」の形式で表示する
+const formatDateTime = (time: number): string => {
+  const date = new Date(time);
+  return `${date.getMonth() + 1}/${date.getDate()} ${date.getHours().toString().padStart(2, '0')}:${date.getMinutes().toString().padStart(2, '0')}`;
+};
+
+/**
+ * 定期タスクを管理するパネル
+ * 現在のタスク内容・ルーム・担当者を、毎日・毎週・毎月などの繰り返しでChatworkに作成する定期タスクとして登録できます。
+ * 登録した定期タスクはサーバーで実行され、一覧で次回の実行時刻と前回の結果を確認できます。
+ */
+export default function SchedulePanel({ enabled, current, rooms }: SchedulePanelProps) {
+  const { t } = useI18n();
+  const [schedules, setSchedules] = useState<Schedule[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+  // 登録フォームの入力値
+  const [name, setName] = useState<string>('');
+  const [kind, setKind] = useState<RecurrenceRule['kind']>('weekly');
+  const [weekdays, setWeekdays] = useState<number[]>([1]);
+  const [day, setDay] = useState<number>(1);
+  const [time, setTime] = useState<string>('09:00');
+  const [deadlineText, setDeadlineText] = useState<string>('');
+  // パネル内の操作結果のメッセージ
+  const [message, setMessage] = useState<{ text: string; type: 'success' | 'error' } | null>(null);
+
+  // 定期タスクの一覧を読み込む
+  const loadSchedules = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch(SCHEDULES_API, { headers: { 'Accept': 'application/json' } });
+      if (!response.ok) {
+        throw new Error(await readApiError(t, response));
+      }
+      setSchedules(await response.json());
+    } catch (err: any) {
+      setMessage({ text: t('schedule.loadFailed', { detail: err.message }), type: 'error' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (enabled) {
+      loadSchedules();
+    } else {
+      setSchedules([]);
+    }
+  }, [enabled]);
+
+  // 一覧の1件を置き換える
+  const replaceSchedule = (updated: Schedule) => {
+    setSchedules(list => list.map(schedule => (schedule.id === updated.id ? updated : schedule)));
+  };
+
+  // 入力中の繰り返しのルール
+  const buildRule = (): RecurrenceRule => {
+    switch (kind) {
+      case 'weekly':
+        return { kind, weekdays, time };
+      case 'monthly':
+        return { kind, day, time };
+      default:
+        return { kind, time };
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!name.trim()) {
+      setMessage({ text: t('schedule.missingName'), type: 'error' });
+      return;
+    }
+    if (!current.roomId || !current.body.trim() || current.assigneeIds.length === 0) {
+      setMessage({ text: t('schedule.missingTask'), type: 'error' });
+      return;
+    }
+    if (kind === 'weekly' && weekdays.length === 0) {
+      setMessage({ text: t('schedule.missingWeekdays'), type: 'error' });
+      return;
+    }
+    const deadline = deadlineText.trim() ? parseRelativeDeadline(deadlineText) : null;
+    if (deadlineText.trim() && !deadline) {
+      setMessage({ text: t('schedule.invalidDeadline'), type: 'error' });
+      return;
+    }
+
+    try {
+      const response = await fetch(SCHEDULES_API, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Accept': 'application/json' },
+        body: JSON.stringify({
+          name: name.trim(),
+          roomId: parseInt(current.roomId, 10),
+          body: current.body,
+          assigneeIds: current.assigneeIds,
+          deadline,
+          rule: buildRule(),
+          enabled: true,
+        }),
+      });
+      if (!response.ok) {
+        throw new Error(await readApiError(t, response));
+      }
+      const created: Schedule = await response.json();
+      setSchedules(list => [...list, created]);
+      setName('');
+      setDeadlineText('');
+      setMessage({ text: t('schedule.created', { name: created.name }), type: 'success' });
+    } catch (err: any) {
+      setMessage({ text: t('schedule.createFailed', { detail: err.message }), type: 'error' });
+    }
+  };
+
+  // 有効/停止を切り替える
+  const handleToggle = async (schedule: Schedule) => {
+    try {
+      const response = await fetch(`${SCHEDULES_API}/${schedule.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', 'Accept': 'application/json' },
+        body: JSON.stringify({ enabled: !schedule.enabled }),
+      });
+      if (!response.ok) {
+        throw new Error(await readApiError(t, response));
+      }
+      replaceSchedule(await response.json());
+    } catch (err: any) {
+      setMessage({ text: t('schedule.updateFailed', { detail: err.message }), type: 'error' });
+    }
+  };
+
+  // 今すぐ1回実行する (次回の実行時刻は変わらない)
+  const handleRunNow = async (schedule: Schedule) => {
+    try {
+      const response = await fetch(`${SCHEDULES_API}/${schedule.id}/run`, { method: 'POST', headers: { 'Accept': 'application/json' } });
+      if (!response.ok) {
+        throw new Error(await readApiError(t, response));
+      }
+      const updated: Schedule = await response.json();
+      replaceSchedule(updated);
+      const run = updated.runs[0];
+      setMessage(run?.ok
+        ? { text: t('schedule.ran', { name: updated.name }), type: 'success' }
+        : { text: t('schedule.runFailedFor', { name: updated.name, detail: describeApiError(t, run, run?.status ?? 500) }), type: 'error' });
+    } catch (err: any) {
+      setMessage({ text: t('schedule.runFailed', { detail: err.message }), type: 'error' });
+    }
+  };
+
+  const handleDelete = async (schedule: Schedule) => {
+    if (!window.confirm(t('schedule.confirmDelete', { name: schedule.name }))) return;
+    try {
+      const response = await fetch(`${SCHEDULES_API}/${schedule.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error(await readApiError(t, response));
+      }
+      setSchedules(list => list.filter(s => s.id !== schedule.id));
+    } catch (err: any) {
+      setMessage({ text: t('schedule.deleteFailed', { detail: err.message }), type: 'error' });
+    }
+  };
+
+  if (!enabled) return null;
+
+  return (
+    <details id="schedulePanel" className="mt-6 border rounded px-3 py-2 text-sm">
+      <summary className="cursor-pointer font-medium">{t('schedule.title', { count: schedules.length })}</summary>
+
+      {/* 登録済みの定期タスク */}
+      {loading ? (
+        <p className="mt-2 text-gray-500">{t('schedule.loading')}</p>
+      ) : schedules.length === 0 ? (
+        <p className="mt-2 text-gray-500">{t('schedule.empty')}</p>
+      ) : (
+        <ul className="mt-2 divide-y">
+          {schedules.map(schedule => {
+            const lastRun = schedule.runs[0];
+            return (
+              <li key={schedule.id} className="py-2">
+                <div className="flex items-center justify-between gap-2">
+                  <span className={`font-medium truncate ${schedule.enabled ? '' : 'text-gray-400'}`}>{schedule.name}</span>
+                  <div className="flex gap-2 shrink-0 text-xs">
+                    <button type="button" className="text-emerald-700 underline" onClick={() => handleToggle(schedule)}>
+                      {schedule.enabled ? t('schedule.pause') : t('schedule.resume')}
+                    </button>
+                    <button type="button" className="text-emerald-700 underline" onClick={() => handleRunNow(schedule)}>
+                      {t('schedule.runNow')}
+                    </button>
+                    <button type="button" className="text-gray-600 underline" onClick={() => handleDelete(schedule)}>
+                      {t('schedule.delete')}
+                    </button>
+                  </div>
+                </div>
+                <p className="text-xs text-gray-600">
+                  {describeRecurrenceRule(schedule.rule, t)}
+                  {t('schedule.separator')}
+                  {t('schedule.room', { room: rooms.find(room => room.room_id === schedule.roomId)?.name ?? `ID:${schedule.roomId}` })}
+                  {t('schedule.separator')}
+                  {t('schedule.deadline', { deadline: schedule.deadline ? formatRelativeDeadline(schedule.deadline, t) : t('schedule.noDeadline') })}
+                </p>
+                <p className="text-xs text-gray-600">
+                  {t('schedule.nextRun', { time: schedule.nextRunAt ? formatDateTime(schedule.nextRunAt) : t('schedule.paused') })}
+                  {lastRun && (
+                    <span className={lastRun.ok ? 'text-green-700' : 'text-red-600'}>
+                      {t('schedule.separator')}
+                      {lastRun.ok
+                        ? t('schedule.lastRunOk', { time: formatDateTime(lastRun.at) })
+                        : t('schedule.lastRunFailed', { time: formatDateTime(lastRun.at), detail: describeApiError(t, lastRun, lastRun.status) })}
+                    </span>
+                  )}
+                </p>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {/* 現在の入力内容を定期タスクとして登録 */}
+      <div className="mt-3 border-t pt-2">
+        <p className="text-xs text-gray-600 mb-1">
+          {t('schedule.help')}
+        </p>
+        <div className="flex gap-2 mb-2">
+          <input
+            className="flex-grow border rounded px-2 py-1"
+            placeholder={t('schedule.namePlaceholder')}
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+          <input
+            className="w-36 border rounded px-2 py-1"
+            placeholder={t('schedule.deadlinePlaceholder')}
+            value={deadlineText}
+            onChange={(e) => setDeadlineText(e.target.value)}
+          />
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            className="border rounded px-2 py-1"
+            value={kind}
+            onChange={(e) => setKind(e.target.value as RecurrenceRule['kind'])}
+          >
+            {RULE_KINDS.map(option => (
+              <option key={option} value={option}>{t(`schedule.kind.${option}`)}</option>
+            ))}
+          </select>
+          {kind === 'weekly' && WEEKDAYS.map(index => (
+            <label key={index} className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={weekdays.includes(index)}
+                onChange={(e) => setWeekdays(e.target.checked
+                  ? [...weekdays, index].sort()
+                  : weekdays.filter(weekday => weekday !== index))}
+              />
+              {t(`weekday.${index}` as 'weekday.0')}
+            </label>
+          ))}
+          {kind === 'monthly' && (
+            <label className="flex items-center gap-1">
+              <input
+                type="number"
+                min={1}
+                max={31}
+                className="w-16 border rounded px-2 py-1"
+                value={day}
+                onChange={(e) => setDay(Math.min(31, Math.max(1, parseInt(e.target.value, 10) || 1)))}
+              />
+              {t('schedule.daySuffix')}
+            </label>
+          )}
+          <input
+            type="time"
+            className="border rounded px-2 py-1"
+            value={time}
+            onChange={(e) => setTime(e.target.value)}
+          />
+          <button
+            type="button"
+            className="bg-emerald-500 text-white px-3 py-1 rounded hover:bg-emerald-600 ml-auto"
+            onClick={handleCreate}
+          >
+            {t('schedule.create')}
+          </button>
+        </div>
+      </div>
+
+      {message && (
+        <p className={`mt-2 text-xs ${message.type === 'error' ? 'text-red-600' : 'text-green-700'}`}>{message.text}</p>
+      )}
+    </details>
+  );
+}
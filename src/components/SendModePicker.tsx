@@ -0,0 +1,82 @@
+// src/components/SendModePicker.tsx
+
+'use client';
+
+import { includesMessage, SEND_MODES, SendMode } from '../lib/chatworkMessage';
+import { useI18n } from './LocaleProvider';
+
+interface SendModePickerProps {
+  // 現在の送信方法
+  mode: SendMode;
+  onModeChange: (mode: SendMode) => void;
+  // メッセージを [info] で囲む場合のタイトル (囲まない場合は null)
+  info: { title: string } | null;
+  onInfoChange: (info: { title: string } | null) => void;
+  // 投稿されるメッセージのプレビュー (メッセージを送らない送信方法の場合は表示しない)
+  messagePreview: string;
+  // 一括モードなど、タスクしか送れない場合は true
+  disabled?: boolean;
+}
+
+/**
+ * 送信方法 (タスクのみ・メッセージのみ・タスク＋メッセージ) を選ぶコンポーネント
+ * メッセージを送る場合は、担当者への宛先 ([To:]) を付けた本文のプレビューと、[info] で囲むかどうかの指定を表示します。
+ */
+export default function SendModePicker({ mode, onModeChange, info, onInfoChange, messagePreview, disabled = false }: SendModePickerProps) {
+  const { t } = useI18n();
+
+  if (disabled) {
+    return <p className="text-xs text-gray-500">{t('sendMode.bulkOnlyTask')}</p>;
+  }
+
+  return (
+    <div id="sendModePicker" className="space-y-2">
+      {/* 送信方法 */}
+      <div className="flex gap-4 text-sm">
+        {SEND_MODES.map(option => (
+          <label key={option} className="flex items-center gap-1">
+            <input
+              type="radio"
+              name="sendMode"
+              className="accent-emerald-600"
+              checked={mode === option}
+              onChange={() => onModeChange(option)}
+            />
+            {t(`sendMode.${option}`)}
+          </label>
+        ))}
+      </div>
+
+      {includesMessage(mode) && (
+        <>
+          {/* [info] で囲むかどうかとタイトル */}
+          <div className="flex items-center gap-2 text-sm">
+            <label className="flex items-center gap-1 shrink-0">
+              <input
+                type="checkbox"
+                className="accent-emerald-600"
+                checked={info !== null}
+                onChange={(e) => onInfoChange(e.target.checked ? { title: '' } : null)}
+              />
+              {t('sendMode.wrapInInfo')}
+            </label>
+            {info && (
+              <input
+                type="text"
+                placeholder={t('sendMode.infoTitlePlaceholder')}
+                className="flex-grow border rounded px-2 py-1"
+                value={info.title}
+                onChange={(e) => onInfoChange({ title: e.target.value })}
+              />
+            )}
+          </div>
+
+          {/* 投稿されるメッセージのプレビュー */}
+          {messagePreview && (
+            <pre className="text-xs text-gray-600 bg-gray-50 border rounded p-2 whitespace-pre-wrap break-all">{messagePreview}</pre>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,20 @@
+// src/components/ServiceWorkerRegistration.tsx
+
+'use client';
+
+import { useEffect } from 'react';
+
+/**
+ * オフラインでも起動できるよう、Service Worker (public/sw.js) を登録するコンポーネント
+ * 何も表示しません。開発中は古いファイルがキャッシュから返らないよう、本番ビルドの時だけ登録します。
+ */
+export default function ServiceWorkerRegistration() {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return;
+    navigator.serviceWorker.register('/sw.js').catch(error => {
+      console.error('Service Worker の登録に失敗しました:', error);
+    });
+  }, []);
+
+  return null;
+}
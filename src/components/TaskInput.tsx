@@ -0,0 +1,205 @@
+// src/components/TaskInput.tsx
+
+'use client';
+
+import { RefObject } from 'react';
+import AssigneePicker from './AssigneePicker';
+import { useI18n } from './LocaleProvider';
+import type { ChatworkMember, LimitType } from '../types/chatwork';
+import type { TaskDraft } from '../lib/memoParser';
+
+/**
+ * 一括送信した1行分の結果
+ */
+export interface DraftResult {
+  ok: boolean;
+  // 送信に失敗して送信待ちに追加したかどうか (送信待ちから自動で再送するため、一括送信では送り直さない)
+  queued?: boolean;
+  // 成功時は作成されたタスクID、失敗時はエラー内容
+  message: string;
+  // 送信に使った冪等キー (失敗した行を再送信する時に同じキーを使う)。バリデーションで送信しなかった行にはない
+  idempotencyKey?: string;
+}
+
+interface TaskInputProps {
+  // メモの内容
+  value: string;
+  onChange: (value: string) => void;
+  // textarea要素への参照
+  textareaRef: RefObject<HTMLTextAreaElement>;
+  // 1行ごとに別タスクとして送信するかどうか
+  bulkMode: boolean;
+  onBulkModeChange: (bulkMode: boolean) => void;
+  // 一括送信の下書き (プレビュー作成前は null)
+  drafts: TaskDraft[] | null;
+  onDraftsChange: (drafts: TaskDraft[] | null) => void;
+  // プレビュー作成ボタンが押された時のコールバック
+  onPreview: () => void;
+  // 一括送信の結果 (キーは下書きの行番号)
+  results: Record<number, DraftResult>;
+  // 下書きの担当者選択に使うルームメンバー一覧
+  members: ChatworkMember[];
+  myAccountId: number | null;
+}
+
+// 下書きの期限の種類の選択肢 (表示名はメッセージのカタログの `taskInput.limitType.<種類>`)
+const LIMIT_TYPE_OPTIONS: LimitType[] = ['none', 'date', 'time'];
+
+/**
+ * タスク内容の入力欄
+ * 一括モードでは、メモの1行ごとに作られるタスクの下書きを編集可能な表で確認できます。
+ */
+export default function TaskInput({
+  value,
+  onChange,
+  textareaRef,
+  bulkMode,
+  onBulkModeChange,
+  drafts,
+  onDraftsChange,
+  onPreview,
+  results,
+  members,
+  myAccountId,
+}: TaskInputProps) {
+  const { t } = useI18n();
+
+  // 指定した行の下書きを部分的に書き換えます。
+  const updateDraft = (line: number, patch: Partial<TaskDraft>) => {
+    if (!drafts) return;
+    onDraftsChange(drafts.map(draft => (draft.line === line ? { ...draft, ...patch } : draft)));
+  };
+
+  // 担当者IDから表示名を求めます。
+  const memberName = (accountId: number) =>
+    members.find(member => member.account_id === accountId)?.name ?? `ID:${accountId}`;
+
+  return (
+    <div>
+      <textarea
+        id="memoText"
+        placeholder={bulkMode ? t('taskInput.bulkPlaceholder') : t('taskInput.placeholder')}
+        className="w-full border rounded px-3 py-2 focus:ring focus:ring-emerald-300 focus:border-emerald-500"
+        rows={bulkMode ? 8 : 4}
+        value={value} // stateと入力値を紐付け
+        onChange={(e) => {
+          onChange(e.target.value);
+          // メモが変わったら古いプレビューは破棄
+          if (drafts) onDraftsChange(null);
+        }}
+        ref={textareaRef}
+      ></textarea>
+
+      {/* 一括モードの切り替えとプレビュー作成 */}
+      <div className="flex items-center justify-between mt-1 text-sm">
+        <label className="flex items-center gap-1">
+          <input
+            id="bulkModeToggle"
+            type="checkbox"
+            className="accent-emerald-600"
+            checked={bulkMode}
+            onChange={(e) => {
+              onBulkModeChange(e.target.checked);
+              onDraftsChange(null);
+            }}
+          />
+          {t('taskInput.bulkMode')}
+        </label>
+        {bulkMode && (
+          <button
+            type="button"
+            className="bg-emerald-500 text-white px-3 py-1 rounded hover:bg-emerald-600"
+            onClick={onPreview}
+          >
+            {t('taskInput.preview')}
+          </button>
+        )}
+      </div>
+
+      {/* 一括送信の下書きプレビュー */}
+      {bulkMode && drafts && (
+        drafts.length === 0 ? (
+          <p className="text-sm text-gray-500 mt-2">{t('taskInput.noLines')}</p>
+        ) : (
+          <table id="draftPreview" className="w-full mt-2 text-sm border">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="p-1 text-left w-8">{t('taskInput.column.line')}</th>
+                <th className="p-1 text-left">{t('taskInput.column.body')}</th>
+                <th className="p-1 text-left">{t('taskInput.column.assignees')}</th>
+                <th className="p-1 text-left">{t('taskInput.column.deadline')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {drafts.map(draft => {
+                const result = results[draft.line];
+                return (
+                  <tr key={draft.line} className="border-t align-top">
+                    <td className="p-1 text-gray-500">{draft.line}</td>
+                    <td className="p-1">
+                      <input
+                        type="text"
+                        className="w-full border rounded px-1"
+                        value={draft.body}
+                        onChange={(e) => updateDraft(draft.line, { body: e.target.value })}
+                      />
+                      {draft.warnings.map(warning => (
+                        <p key={warning} className="text-xs text-amber-600">⚠ {warning}</p>
+                      ))}
+                      {result && (
+                        <p className={`text-xs ${result.ok ? 'text-emerald-700' : result.queued ? 'text-amber-600' : 'text-red-600'}`}>
+                          {result.ok ? '✅' : result.queued ? '⏳' : '❌'} {result.message}
+                        </p>
+                      )}
+                    </td>
+                    <td className="p-1">
+                      <details>
+                        <summary className="cursor-pointer">
+                          {draft.assigneeIds.length > 0 ? draft.assigneeIds.map(memberName).join(', ') : t('taskInput.noAssignee')}
+                        </summary>
+                        <AssigneePicker
+                          members={members}
+                          selectedIds={draft.assigneeIds}
+                          myAccountId={myAccountId}
+                          loading={false}
+                          onChange={(ids) => updateDraft(draft.line, { assigneeIds: ids })}
+                        />
+                      </details>
+                    </td>
+                    <td className="p-1 space-y-1">
+                      <select
+                        className="border rounded px-1"
+                        value={draft.deadline.limitType}
+                        onChange={(e) => updateDraft(draft.line, { deadline: { ...draft.deadline, limitType: e.target.value as LimitType } })}
+                      >
+                        {LIMIT_TYPE_OPTIONS.map(limitType => (
+                          <option key={limitType} value={limitType}>{t(`taskInput.limitType.${limitType}`)}</option>
+                        ))}
+                      </select>
+                      {draft.deadline.limitType !== 'none' && (
+                        <input
+                          type="date"
+                          className="border rounded px-1 block"
+                          value={draft.deadline.date}
+                          onChange={(e) => updateDraft(draft.line, { deadline: { ...draft.deadline, date: e.target.value } })}
+                        />
+                      )}
+                      {draft.deadline.limitType === 'time' && (
+                        <input
+                          type="time"
+                          className="border rounded px-1 block"
+                          value={draft.deadline.time}
+                          onChange={(e) => updateDraft(draft.line, { deadline: { ...draft.deadline, time: e.target.value } })}
+                        />
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+// src/components/TaskList.tsx
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useI18n } from './LocaleProvider';
+import type { ChatworkMember } from '../types/chatwork';
+import type { Task, TaskStatus } from '../types/task';
+import { formatDeadlineLabel } from '../lib/dueDate';
+import { readApiError } from '../lib/i18n';
+
+// Next.jsのAPIルートを呼び出すためのベースURL
+const PROXY_BASE_URL = '/api/chatwork';
+
+interface TaskListProps {
+  // タスクを表示するルームID
+  roomId: string;
+  // 担当者での絞り込みに使うルームメンバー一覧
+  members: ChatworkMember[];
+  // 値が変わるたびにタスク一覧を再取得する (タスク送信後の再読み込み用)
+  refreshKey: number;
+}
+
+/**
+ * 選択中のルームのタスク一覧を表示するコンポーネント
+ * 状態 (未完了/完了) と担当者で絞り込み、チェックボックスで完了状態を切り替えられます。
+ */
+export default function TaskList({ roomId, members, refreshKey }: TaskListProps) {
+  const { t } = useI18n();
+  // 取得したタスク一覧
+  const [tasks, setTasks] = useState<Task[]>([]);
+  // 状態での絞り込み条件
+  const [statusFilter, setStatusFilter] = useState<TaskStatus>('open');
+  // 担当者での絞り込み条件 (空文字列は全員)
+  const [assigneeFilter, setAssigneeFilter] = useState<string>('');
+  // 読み込み中かどうか
+  const [loading, setLoading] = useState<boolean>(false);
+  // エラーメッセージ
+  const [error, setError] = useState<string>('');
+
+  // ルームが変わった場合は担当者の絞り込みを解除
+  useEffect(() => {
+    setAssigneeFilter('');
+  }, [roomId]);
+
+  // --- タスク一覧の読み込み ---
+  // ルーム・絞り込み条件が変わるたびに、APIルート (/api/chatwork/rooms/[roomId]/tasks) から取得します。
+  useEffect(() => {
+    if (!roomId) {
+      setTasks([]);
+      return;
+    }
+
+    // 取得中に条件が変わった場合に、古い結果で上書きしないためのフラグ
+    let cancelled = false;
+    const query = new URLSearchParams({ status: statusFilter });
+    if (assigneeFilter) query.append('account_id', assigneeFilter);
+
+    setLoading(true);
+    setError('');
+    fetch(`${PROXY_BASE_URL}/rooms/${roomId}/tasks?${query.toString()}`, {
+      method: 'GET',
+      headers: {
+        'Accept': 'application/json'
+      }
+    })
+      .then(async response => {
+        if (!response.ok) {
+          throw new Error(await readApiError(t, response));
+        }
+        const data = await response.json();
+        if (!cancelled) setTasks(data);
+      })
+      .catch((err: any) => {
+        console.error('エラー:', err);
+        if (!cancelled) {
+          setTasks([]);
+          setError(t('taskList.loadFailed', { detail: err.message }));
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [roomId, statusFilter, assigneeFilter, refreshKey]);
+
+  // --- 完了状態の切り替え ---
+  // 切り替えたタスクは現在の絞り込み条件に合わなくなるため、成功したら一覧から取り除きます。
+  const handleToggle = async (task: Task) => {
+    const nextStatus: TaskStatus = task.status === 'open' ? 'done' : 'open';
+    try {
+      const response = await fetch(`${PROXY_BASE_URL}/rooms/${roomId}/tasks/${task.task_id}/status`, {
+        method: 'PUT',
+        headers: {
+            'Content-Type': 'application/x-www-form-urlencoded',
+          'Accept': 'application/json'
+        },
+        body: new URLSearchParams({ body: nextStatus }).toString()
+      });
+      if (!response.ok) {
+        throw new Error(await readApiError(t, response));
+      }
+      setTasks(current => current.filter(item => item.task_id !== task.task_id));
+    } catch (err: any) {
+      console.error('エラー:', err);
+      setError(t('taskList.updateFailed', { detail: err.message }));
+    }
+  };
+
+  if (!roomId) {
+    return null;
+  }
+
+  return (
+    <div id="taskList" className="mt-6 border-t pt-4">
+      <h2 className="text-lg font-bold text-emerald-600 mb-2">{t('taskList.title')}</h2>
+
+      {/* 絞り込み条件 */}
+      <div className="flex gap-2 mb-2 text-sm">
+        <select
+          className="border rounded px-2 py-1"
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value as TaskStatus)}
+        >
+          <option value="open">{t('taskList.open')}</option>
+          <option value="done">{t('taskList.done')}</option>
+        </select>
+        <select
+          className="border rounded px-2 py-1 flex-grow"
+          value={assigneeFilter}
+          onChange={(e) => setAssigneeFilter(e.target.value)}
+        >
+          <option value="">{t('taskList.allAssignees')}</option>
+          {members.map(member => (
+            <option key={member.account_id} value={member.account_id}>
+              {member.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {loading && <p className="text-sm text-gray-500">{t('taskList.loading')}</p>}
+      {error && <p className="text-sm p-2 rounded bg-red-100 text-red-700">❌ {error}</p>}
+      {!loading && !error && tasks.length === 0 && (
+        <p className="text-sm text-gray-500">{t('taskList.empty')}</p>
+      )}
+
+      {/* タスク一覧 */}
+      <ul className="divide-y">
+        {tasks.map(task => (
+          <li key={task.task_id} className="flex items-start gap-2 py-2 text-sm">
+            <input
+              type="checkbox"
+              className="mt-1 accent-emerald-600"
+              checked={task.status === 'done'}
+              onChange={() => handleToggle(task)}
+              aria-label={task.status === 'done' ? t('taskList.markOpen') : t('taskList.markDone')}
+            />
+            <div className="flex-grow">
+              <p className={`whitespace-pre-wrap ${task.status === 'done' ? 'line-through text-gray-400' : ''}`}>{task.body}</p>
+              <p className="text-xs text-gray-500">
+                {t('taskList.assignee', { name: task.account.name })}
+                {task.limit_type !== 'none' && task.limit_time > 0 &&
+                  t('taskList.deadline', { deadline: formatDeadlineLabel(new Date(task.limit_time * 1000), task.limit_type === 'time', t) })}
+              </p>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
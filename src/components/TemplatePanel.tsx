@@ -0,0 +1,294 @@
+// src/components/TemplatePanel.tsx
+
+'use client';
+
+import { ChangeEvent, useEffect, useState } from 'react';
+import { Deadline } from '../lib/dueDate';
+import {
+  defaultPlaceholderValue,
+  exportTemplates,
+  extractPlaceholders,
+  fillPlaceholders,
+  formatRelativeDeadline,
+  generateTemplateId,
+  loadTemplates,
+  mergeTemplates,
+  parseRelativeDeadline,
+  parseTemplatesJson,
+  resolveRelativeDeadline,
+  saveTemplates,
+} from '../lib/templates';
+import { useI18n } from './LocaleProvider';
+import type { ChatworkRoom } from '../types/chatwork';
+import type { TaskTemplate } from '../types/template';
+
+/**
+ * テンプレートを使った時にフォームへ反映する内容
+ * roomId・deadline が null の項目は、フォームの値をそのまま使います。
+ */
+export interface AppliedTemplate {
+  body: string;
+  roomId: number | null;
+  assigneeIds: number[];
+  deadline: Deadline | null;
+}
+
+interface TemplatePanelProps {
+  // テンプレートとして保存する、現在のフォームの内容
+  current: { body: string; roomId: string; assigneeIds: number[] };
+  // 既定のルーム名を表示するためのルーム一覧
+  rooms: ChatworkRoom[];
+  // テンプレートを使う時に呼ばれるコールバック (プレースホルダーは置き換え済み)
+  onApply: (applied: AppliedTemplate) => void;
+}
+
+/**
+ * タスクのテンプレートを管理するパネル
+ * テンプレートを選んで使うとプレースホルダーの値を尋ね、本文・ルーム・担当者・期限をフォームに反映します。
+ * 現在の入力内容をテンプレートとして保存でき、JSONファイルで書き出し・読み込みしてチームで共有できます。
+ */
+export default function TemplatePanel({ current, rooms, onApply }: TemplatePanelProps) {
+  const { t } = useI18n();
+  const [templates, setTemplates] = useState<TaskTemplate[]>([]);
+  // 選択中のテンプレートのID
+  const [selectedId, setSelectedId] = useState<string>('');
+  // プレースホルダーの値を入力中のテンプレートと、その入力値 (入力中でない場合は null)
+  const [filling, setFilling] = useState<{ template: TaskTemplate; values: Record<string, string> } | null>(null);
+  // 保存フォームの入力値
+  const [newName, setNewName] = useState<string>('');
+  const [newDeadline, setNewDeadline] = useState<string>('');
+  // パネル内の操作結果のメッセージ
+  const [message, setMessage] = useState<{ text: string; type: 'success' | 'error' } | null>(null);
+
+  // ローカルストレージからテンプレートを読み込む
+  useEffect(() => {
+    setTemplates(loadTemplates());
+  }, []);
+
+  // テンプレート一覧を更新し、ローカルストレージにも保存する
+  const updateTemplates = (next: TaskTemplate[]) => {
+    setTemplates(next);
+    saveTemplates(next);
+  };
+
+  const selected = templates.find(template => template.id === selectedId) ?? null;
+
+  // プレースホルダーを置き換えてフォームに反映する
+  const apply = (template: TaskTemplate, values: Record<string, string>) => {
+    onApply({
+      body: fillPlaceholders(template.body, values),
+      roomId: template.roomId,
+      assigneeIds: template.assigneeIds,
+      deadline: template.deadline ? resolveRelativeDeadline(template.deadline) : null,
+    });
+    setFilling(null);
+    setMessage({ text: t('template.applied', { name: template.name }), type: 'success' });
+  };
+
+  // 「使う」ボタン。プレースホルダーがあれば入力欄を表示し、なければすぐに反映する
+  const handleUse = () => {
+    if (!selected) return;
+    const names = extractPlaceholders(selected.body);
+    if (names.length === 0) {
+      apply(selected, {});
+      return;
+    }
+    const values: Record<string, string> = {};
+    names.forEach(name => {
+      values[name] = defaultPlaceholderValue(name);
+    });
+    setFilling({ template: selected, values });
+  };
+
+  // 現在のフォームの内容をテンプレートとして保存する
+  const handleSave = () => {
+    const name = newName.trim();
+    if (!name) {
+      setMessage({ text: t('template.nameRequired'), type: 'error' });
+      return;
+    }
+    if (!current.body.trim()) {
+      setMessage({ text: t('template.bodyRequired'), type: 'error' });
+      return;
+    }
+    // 期限が空欄の場合は、テンプレートでは期限を指定しない
+    const deadline = newDeadline.trim() ? parseRelativeDeadline(newDeadline) : null;
+    if (newDeadline.trim() && !deadline) {
+      setMessage({ text: t('template.invalidDeadline'), type: 'error' });
+      return;
+    }
+
+    const template: TaskTemplate = {
+      id: generateTemplateId(),
+      name,
+      body: current.body,
+      roomId: current.roomId ? parseInt(current.roomId, 10) : null,
+      assigneeIds: current.assigneeIds,
+      deadline,
+    };
+    updateTemplates([...templates, template]);
+    setSelectedId(template.id);
+    setNewName('');
+    setNewDeadline('');
+    setMessage({ text: t('template.saved', { name }), type: 'success' });
+  };
+
+  const handleDelete = () => {
+    if (!selected || !window.confirm(t('template.confirmDelete', { name: selected.name }))) return;
+    updateTemplates(templates.filter(template => template.id !== selected.id));
+    setSelectedId('');
+    setFilling(null);
+  };
+
+  // テンプレート一覧をJSONファイルとしてダウンロードする
+  const handleExport = () => {
+    const blob = new Blob([exportTemplates(templates)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'chatwork-task-templates.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // JSONファイルからテンプレートを読み込み、同じIDのものは置き換えて取り込む
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // 同じファイルを続けて選んでも読み込めるようにする
+    if (!file) return;
+    try {
+      const imported = parseTemplatesJson(await file.text(), t);
+      updateTemplates(mergeTemplates(templates, imported));
+      setMessage({ text: t('template.imported', { count: imported.length }), type: 'success' });
+    } catch (err: any) {
+      setMessage({ text: t('template.importFailed', { detail: err.message }), type: 'error' });
+    }
+  };
+
+  return (
+    <details id="templatePanel" className="mb-4 border rounded px-3 py-2 text-sm">
+      <summary className="cursor-pointer font-medium">{t('template.title', { count: templates.length })}</summary>
+
+      {/* テンプレートの選択 */}
+      <div className="mt-2 flex gap-2">
+        <select
+          className="flex-grow border rounded px-2 py-1"
+          value={selectedId}
+          onChange={(e) => {
+            setSelectedId(e.target.value);
+            setFilling(null);
+          }}
+        >
+          <option value="">{t('template.select')}</option>
+          {templates.map(template => (
+            <option key={template.id} value={template.id}>{template.name}</option>
+          ))}
+        </select>
+        <button
+          type="button"
+          className="bg-emerald-500 text-white px-3 py-1 rounded hover:bg-emerald-600 disabled:opacity-50"
+          onClick={handleUse}
+          disabled={!selected}
+        >
+          {t('template.use')}
+        </button>
+        <button
+          type="button"
+          className="bg-gray-400 text-white px-3 py-1 rounded hover:bg-gray-500 disabled:opacity-50"
+          onClick={handleDelete}
+          disabled={!selected}
+        >
+          {t('template.delete')}
+        </button>
+      </div>
+
+      {/* 選択中のテンプレートの既定値 */}
+      {selected && !filling && (
+        <p className="mt-1 text-xs text-gray-600">
+          {t('template.room', {
+            room: selected.roomId
+              ? rooms.find(room => room.room_id === selected.roomId)?.name ?? `ID:${selected.roomId}`
+              : t('template.notSpecified'),
+          })}
+          {t('template.assignees', {
+            assignees: selected.assigneeIds.length > 0
+              ? t('template.assigneeCount', { count: selected.assigneeIds.length })
+              : t('template.notSpecified'),
+          })}
+          {t('template.deadline', { deadline: selected.deadline ? formatRelativeDeadline(selected.deadline, t) : t('template.notSpecified') })}
+        </p>
+      )}
+
+      {/* プレースホルダーの入力 */}
+      {filling && (
+        <div className="mt-2 border rounded p-2 bg-gray-50">
+          {Object.keys(filling.values).map(name => (
+            <label key={name} className="flex items-center gap-2 py-1">
+              <span className="w-24 shrink-0 truncate">{name}</span>
+              <input
+                className="flex-grow border rounded px-2 py-1"
+                value={filling.values[name]}
+                onChange={(e) => setFilling({ ...filling, values: { ...filling.values, [name]: e.target.value } })}
+              />
+            </label>
+          ))}
+          <div className="flex gap-2 mt-1">
+            <button
+              type="button"
+              className="bg-emerald-500 text-white px-3 py-1 rounded hover:bg-emerald-600"
+              onClick={() => apply(filling.template, filling.values)}
+            >
+              {t('template.apply')}
+            </button>
+            <button type="button" className="text-gray-600 underline" onClick={() => setFilling(null)}>
+              {t('template.cancel')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* 現在の入力内容をテンプレートとして保存 */}
+      <div className="mt-3 border-t pt-2">
+        <p className="text-xs text-gray-600 mb-1">
+          {t('template.saveHelp', { example: '{{client}}' })}
+        </p>
+        <div className="flex gap-2">
+          <input
+            className="flex-grow border rounded px-2 py-1"
+            placeholder={t('template.namePlaceholder')}
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+          />
+          <input
+            className="w-36 border rounded px-2 py-1"
+            placeholder={t('template.deadlinePlaceholder')}
+            value={newDeadline}
+            onChange={(e) => setNewDeadline(e.target.value)}
+          />
+          <button
+            type="button"
+            className="bg-emerald-500 text-white px-3 py-1 rounded hover:bg-emerald-600"
+            onClick={handleSave}
+          >
+            {t('template.save')}
+          </button>
+        </div>
+      </div>
+
+      {/* 共有用のJSONファイルの書き出し・読み込み */}
+      <div className="mt-2 flex gap-3 text-xs">
+        <button type="button" className="text-emerald-700 underline disabled:opacity-50" onClick={handleExport} disabled={templates.length === 0}>
+          {t('template.export')}
+        </button>
+        <label className="text-emerald-700 underline cursor-pointer">
+          {t('template.import')}
+          <input type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+        </label>
+      </div>
+
+      {message && (
+        <p className={`mt-2 text-xs ${message.type === 'error' ? 'text-red-600' : 'text-green-700'}`}>{message.text}</p>
+      )}
+    </details>
+  );
+}
@@ -0,0 +1,124 @@
+// src/components/WebhookInbox.tsx
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { chatworkMessageUrl } from '../lib/chatworkLinks';
+import { applyTaskStatusEvent } from '../lib/taskHistory';
+import { useI18n } from './LocaleProvider';
+import type { ChatworkRoom } from '../types/chatwork';
+import type { WebhookEvent } from '../types/webhook';
+
+// WebhookのイベントのAPIルートのURL
+const EVENTS_API = '/api/chatwork/webhook/events';
+
+// イベントを取りに行く間隔
+const POLL_INTERVAL_MS = 1000 * 60;
+
+type MentionEvent = Extract<WebhookEvent, { kind: 'mention' }>;
+
+interface WebhookInboxProps {
+  // ログイン中のみイベントを取りに行く
+  enabled: boolean;
+  // ルーム名を表示するためのルーム一覧
+  rooms: ChatworkRoom[];
+  // 「メモに取り込む」を押した時に呼ばれるコールバック
+  onImport: (mention: MentionEvent) => void;
+}
+
+// イベントを反映済みとしてサーバーから削除する
+const acknowledge = (id: string) =>
+  fetch(`${EVENTS_API}/${encodeURIComponent(id)}`, { method: 'DELETE' })
+    .catch(err => console.error('Webhookのイベントの削除に失敗しました', err));
+
+/**
+ * ChatworkのWebhookで受け取った、自分宛てのメンションを表示するパネル
+ * メンションはメモの下書きとして取り込めます。タスクの完了の通知は送信履歴に反映し、パネルには表示しません。
+ * Webhookが設定されていないサーバーでは何も表示しません。
+ */
+export default function WebhookInbox({ enabled, rooms, onImport }: WebhookInboxProps) {
+  const { t } = useI18n();
+  const [mentions, setMentions] = useState<MentionEvent[]>([]);
+
+  useEffect(() => {
+    if (!enabled) {
+      setMentions([]);
+      return;
+    }
+
+    let cancelled = false;
+    const poll = async () => {
+      try {
+        const response = await fetch(EVENTS_API, { headers: { 'Accept': 'application/json' } });
+        if (!response.ok) {
+          throw new Error(`Webhookのイベントの取得に失敗しました: ${response.status}`);
+        }
+        const events: WebhookEvent[] = await response.json();
+        if (cancelled) return;
+
+        // タスクの完了・未完了は送信履歴に反映してから削除する
+        for (let index = 0; index < events.length; index++) {
+          const event = events[index];
+          if (event.kind !== 'taskStatus') continue;
+          await applyTaskStatusEvent(event);
+          await acknowledge(event.id);
+        }
+        setMentions(events.filter((event): event is MentionEvent => event.kind === 'mention'));
+      } catch (err) {
+        console.error('エラー:', err);
+      }
+    };
+
+    poll();
+    const timer = setInterval(poll, POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [enabled]);
+
+  const dismiss = (mention: MentionEvent) => {
+    setMentions(list => list.filter(m => m.id !== mention.id));
+    acknowledge(mention.id);
+  };
+
+  if (!enabled || mentions.length === 0) return null;
+
+  return (
+    <div id="webhookInbox" className="mb-4 border rounded px-3 py-2 text-sm bg-amber-50">
+      <p className="font-medium">{t('webhookInbox.title', { count: mentions.length })}</p>
+      <ul className="mt-1 divide-y">
+        {mentions.map(mention => (
+          <li key={mention.id} className="py-2">
+            <p className="whitespace-pre-wrap break-words">{mention.body}</p>
+            <p className="text-xs text-gray-600">
+              <a
+                href={chatworkMessageUrl(mention.roomId, mention.messageId)}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-emerald-700 underline"
+              >
+                {rooms.find(room => room.room_id === mention.roomId)?.name ?? `ID:${mention.roomId}`}
+              </a>
+            </p>
+            <div className="mt-1 flex gap-3 text-xs">
+              <button
+                type="button"
+                className="text-emerald-700 underline"
+                onClick={() => {
+                  onImport(mention);
+                  dismiss(mention);
+                }}
+              >
+                {t('webhookInbox.import')}
+              </button>
+              <button type="button" className="text-gray-600 underline" onClick={() => dismiss(mention)}>
+                {t('webhookInbox.dismiss')}
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
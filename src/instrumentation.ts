@@ -0,0 +1,14 @@
+// src/instrumentation.ts
+
+/**
+ * Next.jsのサーバー起動時に1回呼ばれます (next.config.js の instrumentationHook)。
+ * Node.jsのランタイムで、定期タスクのスケジューラーを起動します。
+ * 環境変数 SCHEDULER_ENABLED を false にすると起動しません (複数台で動かす場合に1台だけで実行するため)。
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs' || process.env.SCHEDULER_ENABLED === 'false') {
+    return;
+  }
+  const { startScheduler } = await import('./lib/scheduler');
+  startScheduler();
+}
@@ -0,0 +1,40 @@
+// src/lib/apiErrors.ts
+
+// APIルートのエラーレスポンスを組み立てるモジュールです。
+// エラーは `{ error: 英語の説明, code: エラーの種類 }` の形式で返し、画面はエラーの種類から利用者の言語のメッセージを表示します。
+
+import { NextResponse } from 'next/server';
+import type { ApiErrorCode } from '../types/apiError';
+
+/**
+ * エラーレスポンスを返します。
+ *
+ * @param code - エラーの種類 (画面の表示や判定に使う)
+ * @param error - 英語の説明
+ * @param status - HTTPステータス
+ */
+export const apiErrorJson = (code: ApiErrorCode, error: string, status: number): NextResponse =>
+  NextResponse.json({ error, code }, { status });
+
+/**
+ * Chatwork APIのエラーのステータスを、エラーの種類に変換します。
+ * 502〜504 は、接続できなかった場合と Chatwork 側の障害をまとめて chatwork_unreachable として扱います。
+ */
+export const chatworkErrorCode = (status: number): ApiErrorCode => {
+  switch (status) {
+    case 401:
+      return 'chatwork_unauthorized';
+    case 403:
+      return 'chatwork_forbidden';
+    case 404:
+      return 'chatwork_not_found';
+    case 429:
+      return 'chatwork_rate_limited';
+    case 502:
+    case 503:
+    case 504:
+      return 'chatwork_unreachable';
+    default:
+      return 'chatwork_error';
+  }
+};
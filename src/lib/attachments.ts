@@ -0,0 +1,76 @@
+// src/lib/attachments.ts
+
+// タスクに添付するファイルを扱うモジュールです。
+// Chatworkのファイルアップロードの上限 (5MB) の確認と、アップロードしたファイルのメッセージへのリンクをタスク本文に付ける処理をまとめています。
+
+import { chatworkMessageUrl } from './chatworkLinks';
+import { defaultTranslate, Translate } from './i18n';
+import type { ChatworkUploadedFile } from '../types/chatwork';
+
+/**
+ * Chatworkにアップロードできるファイルサイズの上限 (5MB)
+ */
+export const MAX_ATTACHMENT_SIZE = 5 * 1024 * 1024;
+
+/**
+ * タスクに添付するファイルの状態
+ * - pending: アップロード前
+ * - uploading: アップロード中
+ * - uploaded: アップロード済み (uploaded にChatworkの結果が入る)
+ * - error: アップロードできなかった (error に理由が入る)
+ */
+export interface Attachment {
+  id: string;
+  file: File;
+  status: 'pending' | 'uploading' | 'uploaded' | 'error';
+  uploaded: ChatworkUploadedFile | null;
+  // アップロードしたルームのID (送信先のルームを変えた場合はアップロードし直す)
+  roomId: string | null;
+  error: string | null;
+}
+
+/**
+ * ファイルサイズを「1.2MB」のような表示用の文字列にします。
+ */
+export const formatFileSize = (size: number): string => {
+  if (size < 1024) return `${size}B`;
+  if (size < 1024 * 1024) return `${(size / 1024).toFixed(1)}KB`;
+  return `${(size / 1024 / 1024).toFixed(1)}MB`;
+};
+
+/**
+ * アップロードできないファイルであれば理由を返します (問題がなければ null)。
+ * 理由は t で表示言語に合わせます (省略時は日本語)。
+ */
+export const validateAttachmentSize = (size: number, t: Translate = defaultTranslate): string | null => {
+  if (size === 0) return t('attachment.error.empty');
+  if (size > MAX_ATTACHMENT_SIZE) return t('attachment.error.tooLarge', { size: formatFileSize(MAX_ATTACHMENT_SIZE) });
+  return null;
+};
+
+/**
+ * 選択・ドロップされたファイルを、添付ファイルの一覧に加える形にします。
+ * サイズの上限を超えるファイルは、アップロードせずに最初からエラーにします。
+ */
+export const toAttachment = (file: File, t: Translate = defaultTranslate): Attachment => {
+  const error = validateAttachmentSize(file.size, t);
+  return {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`,
+    file,
+    status: error ? 'error' : 'pending',
+    uploaded: null,
+    roomId: null,
+    error,
+  };
+};
+
+/**
+ * タスク本文の末尾に、アップロードしたファイルのメッセージへのリンクを付けます。
+ * メッセージIDが取得できなかったファイルは、ファイル名だけを書きます。
+ */
+export const appendAttachmentLinks = (body: string, roomId: number | string, files: ChatworkUploadedFile[]): string => {
+  if (files.length === 0) return body;
+  const lines = files.map(file =>
+    file.message_id ? `📎 ${file.filename} ${chatworkMessageUrl(roomId, file.message_id)}` : `📎 ${file.filename}`);
+  return `${body}\n${lines.join('\n')}`;
+};
@@ -0,0 +1,220 @@
+// src/lib/broadcast.ts
+
+// 1つのタスクを複数のルームに一斉送信するサーバー側の処理です。
+// ルームごとに担当者のルール (全員・指定したメンバー・自分) を解決し、同時に送る数を絞ってタスク作成APIと同じ処理で作成します。
+// 一部のルームだけ失敗しても残りは送信を続け、ルームごとの結果を返します。
+
+import { LIMIT_TYPES, LimitType } from '../types/chatwork';
+import { chatworkErrorCode } from './apiErrors';
+import { buildChatworkTaskBody, createChatworkTask, validateTaskParams } from './chatworkTasks';
+import { callChatwork, ChatworkCredential, toChatworkErrorBody } from './chatworkClient';
+import { logger } from './logger';
+import type { ApiErrorCode } from '../types/apiError';
+import type { BroadcastAssigneeRule, BroadcastRequest, BroadcastRoomResult, BroadcastTarget } from '../types/broadcast';
+import type { ChatworkMe, ChatworkMember } from '../types/chatwork';
+
+// 一度に送信できるルームの最大数
+export const MAX_BROADCAST_ROOMS = 50;
+
+// 同時にChatworkへ送信するルームの数 (レート制限を使い切らないよう少なめにする)
+export const BROADCAST_CONCURRENCY = 3;
+
+// 受け取った値を担当者のルールとして検証する (問題がある場合は null)
+const parseAssigneeRule = (value: any): BroadcastAssigneeRule | null => {
+  if (!value || typeof value !== 'object') return null;
+  switch (value.type) {
+    case 'all':
+    case 'me':
+      return { type: value.type };
+    case 'members':
+      if (
+        !Array.isArray(value.accountIds) ||
+        value.accountIds.length === 0 ||
+        !value.accountIds.every((id: unknown) => typeof id === 'number' && Number.isInteger(id) && id > 0)
+      ) {
+        return null;
+      }
+      return { type: 'members', accountIds: value.accountIds };
+    default:
+      return null;
+  }
+};
+
+/**
+ * 一斉送信APIで受け取ったJSONを検証します。問題がある場合は error にメッセージを入れて返します。
+ * limit_type を省略した場合は期限なしとして扱います。
+ */
+export const parseBroadcastRequest = (
+  value: any,
+): { input: BroadcastRequest; error: null } | { input: null; error: string } => {
+  if (!value || typeof value !== 'object') {
+    return { input: null, error: 'Request body must be a JSON object.' };
+  }
+  if (typeof value.body !== 'string' || !value.body.trim()) {
+    return { input: null, error: "Field 'body' is required." };
+  }
+  const limitType: LimitType = value.limit_type ?? 'none';
+  if (!LIMIT_TYPES.includes(limitType)) {
+    return { input: null, error: `Field 'limit_type' must be one of: ${LIMIT_TYPES.join(', ')}.` };
+  }
+  const limit = value.limit ?? null;
+  if (limit !== null && (!Number.isInteger(limit) || limit < 0)) {
+    return { input: null, error: "Field 'limit' must be a Unix timestamp in seconds." };
+  }
+  if (limit === null && limitType !== 'none') {
+    return { input: null, error: `Field 'limit' is required when 'limit_type' is ${limitType}.` };
+  }
+  if (!Array.isArray(value.rooms) || value.rooms.length === 0) {
+    return { input: null, error: "Field 'rooms' must be a non-empty array." };
+  }
+  if (value.rooms.length > MAX_BROADCAST_ROOMS) {
+    return { input: null, error: `Field 'rooms' must not contain more than ${MAX_BROADCAST_ROOMS} rooms.` };
+  }
+
+  const rooms: BroadcastTarget[] = [];
+  for (let index = 0; index < value.rooms.length; index++) {
+    const room = value.rooms[index];
+    const roomId = typeof room?.roomId === 'string' ? parseInt(room.roomId, 10) : room?.roomId;
+    if (!Number.isInteger(roomId) || roomId <= 0) {
+      return { input: null, error: `rooms[${index}]: Field 'roomId' must be a room ID.` };
+    }
+    if (rooms.some(target => target.roomId === roomId)) {
+      return { input: null, error: `rooms[${index}]: Room ${roomId} is listed more than once.` };
+    }
+    const assignees = parseAssigneeRule(room.assignees);
+    if (!assignees) {
+      return { input: null, error: `rooms[${index}]: Field 'assignees' must be {type:'all'}, {type:'me'} or {type:'members', accountIds:[...]}.` };
+    }
+    rooms.push({ roomId, assignees });
+  }
+
+  return { input: { body: value.body, limit: limitType === 'none' ? null : limit, limit_type: limitType, rooms }, error: null };
+};
+
+/**
+ * items を最大 concurrency 件ずつ並行して処理し、items と同じ順番で結果を返します。
+ */
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  concurrency: number,
+  run: (item: T, index: number) => Promise<R>,
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await run(items[index], index);
+    }
+  };
+  const workers: Promise<void>[] = [];
+  for (let index = 0; index < Math.min(concurrency, items.length); index++) {
+    workers.push(worker());
+  }
+  await Promise.all(workers);
+  return results;
+};
+
+/**
+ * 1つのタスクを複数のルームに送信し、ルームごとの結果を返します。
+ * 担当者は送信の直前にルームごとに決めます (全員の場合はルームのメンバーを取得する)。
+ * レート制限 (429) を受けた場合は、それ以降のルームには送らずに 429 の結果を返すため、時間をおいて失敗したルームだけを再送できます。
+ *
+ * idempotencyKey を指定した場合、ルームごとに同じキーで作成済みのタスクがあれば前回の結果を返すため、
+ * 同じキーで全体を再送しても成功済みのルームにタスクが重複して作成されることはありません。
+ *
+ * @param credential - APIトークンまたはOAuthのアクセストークン
+ * @param request - parseBroadcastRequest で検証済みのリクエスト
+ * @param idempotencyKey - 重複作成を防ぐためのキー (省略可)
+ */
+export const broadcastTask = async (
+  credential: ChatworkCredential,
+  request: BroadcastRequest,
+  idempotencyKey: string | null = null,
+): Promise<BroadcastRoomResult[]> => {
+  // 「自分」のアカウントIDは、必要になった時に1回だけ取得する
+  let myAccountId: Promise<number> | null = null;
+  const getMyAccountId = () => {
+    if (!myAccountId) {
+      myAccountId = callChatwork<ChatworkMe>(credential, '/me').then(result => result.data.account_id);
+    }
+    return myAccountId;
+  };
+  // レート制限を受けた時の結果 (以降のルームには送らない)
+  let rateLimited: { error: string; code: ApiErrorCode; rateLimitReset?: number } | null = null;
+
+  const resolveAssignees = async (target: BroadcastTarget): Promise<number[]> => {
+    switch (target.assignees.type) {
+      case 'members':
+        return target.assignees.accountIds;
+      case 'me':
+        return [await getMyAccountId()];
+      case 'all': {
+        const { data: members } = await callChatwork<ChatworkMember[]>(credential, `/rooms/${target.roomId}/members`);
+        // 閲覧のみのメンバーはタスクの担当者にできない
+        return (members ?? []).filter(member => member.role !== 'readonly').map(member => member.account_id);
+      }
+    }
+  };
+
+  return mapWithConcurrency(request.rooms, BROADCAST_CONCURRENCY, async (target): Promise<BroadcastRoomResult> => {
+    const failed = (
+      status: number,
+      error: string,
+      code: ApiErrorCode,
+      assigneeIds: number[] = [],
+      rateLimitReset?: number,
+    ): BroadcastRoomResult => ({
+      roomId: target.roomId,
+      ok: false,
+      status,
+      assigneeIds,
+      taskIds: [],
+      error,
+      code,
+      ...(rateLimitReset !== undefined ? { rateLimitReset } : {}),
+    });
+    if (rateLimited) {
+      return failed(429, rateLimited.error, rateLimited.code, [], rateLimited.rateLimitReset);
+    }
+
+    let assigneeIds: number[];
+    try {
+      assigneeIds = await resolveAssignees(target);
+    } catch (error) {
+      const body = toChatworkErrorBody(error);
+      if (body.status === 429) rateLimited = { error: body.error, code: body.code, rateLimitReset: body.rateLimitReset };
+      logger.error('Broadcast Error: Failed to resolve assignees', { roomId: target.roomId, status: body.status, error: body.error });
+      return failed(body.status, body.error, body.code, [], body.rateLimitReset);
+    }
+
+    const taskParams = {
+      body: request.body,
+      to_ids: assigneeIds.join(','),
+      limit: request.limit !== null ? String(request.limit) : null,
+      limit_type: request.limit_type,
+    };
+    const validationError = validateTaskParams(taskParams);
+    if (validationError) {
+      logger.error(`Broadcast Error: ${validationError}`, { roomId: target.roomId });
+      return assigneeIds.length === 0
+        ? failed(400, 'No members can be assigned in this room.', 'no_assignable_members')
+        : failed(400, validationError, 'invalid_parameter');
+    }
+
+    const { response } = await createChatworkTask(
+      credential,
+      String(target.roomId),
+      buildChatworkTaskBody(taskParams),
+      idempotencyKey ? `broadcast:${idempotencyKey}` : null,
+    );
+    const body = response.body as { task_ids?: number[]; error?: string; code?: ApiErrorCode; rateLimitReset?: number } | null;
+    if (response.status < 200 || response.status >= 300) {
+      const error = body?.error ?? `HTTP ${response.status}`;
+      const code = body?.code ?? chatworkErrorCode(response.status);
+      if (response.status === 429) rateLimited = { error, code, rateLimitReset: body?.rateLimitReset };
+      return failed(response.status, error, code, assigneeIds, body?.rateLimitReset);
+    }
+    return { roomId: target.roomId, ok: true, status: response.status, assigneeIds, taskIds: body?.task_ids ?? [], error: null, code: null };
+  });
+};
@@ -0,0 +1,88 @@
+// src/lib/calendarFeedStore.ts
+
+// カレンダーアプリがタスクの iCalendar を購読するための、ユーザーごとの秘密のURL (フィード) を保存するサーバー側のストアです。
+// カレンダーアプリはAPIトークンのヘッダーやセッションCookieを送れないため、URLに含めた秘密の値で利用者を特定します。
+// 秘密の値そのものは保存せず、ハッシュ値を保存します。フィードの取得時は、発行したアカウントの保存済みの認証情報 (credentialStore) を使います。
+// 保存先は環境変数 CALENDAR_FEEDS_FILE で変更できます (既定: .data/calendar-feeds.json)。
+
+import crypto from 'crypto';
+import path from 'path';
+import type { Locale } from './i18n';
+import { createJsonFile, JsonFile } from './jsonFile';
+
+/**
+ * ストアに保存するフィード
+ */
+export interface CalendarFeed {
+  // 秘密の値のハッシュ値 (SHA-256、16進数)
+  id: string;
+  ownerAccountId: number;
+  // カレンダーの項目の言語 (発行した時の表示言語)。以前に発行したフィードにはないため、その場合は日本語にする
+  locale?: Locale;
+  createdAt: number;
+}
+
+/**
+ * 保存先のファイルパスを返します。環境変数 CALENDAR_FEEDS_FILE が設定されていればそれを使います。
+ */
+export const getCalendarFeedsFilePath = (): string =>
+  process.env.CALENDAR_FEEDS_FILE || path.join(process.cwd(), '.data', 'calendar-feeds.json');
+
+// 開発サーバーのホットリロードでも同じファイルに対して1つの読み書き口を使うよう、globalThisに保持する
+const globalFiles = globalThis as typeof globalThis & { __calendarFeedFiles?: Map<string, JsonFile<CalendarFeed[]>> };
+const files: Map<string, JsonFile<CalendarFeed[]>> = globalFiles.__calendarFeedFiles ?? (globalFiles.__calendarFeedFiles = new Map());
+
+const getFile = (): JsonFile<CalendarFeed[]> => {
+  const filePath = getCalendarFeedsFilePath();
+  let file = files.get(filePath);
+  if (!file) {
+    file = createJsonFile<CalendarFeed[]>(filePath, () => []);
+    files.set(filePath, file);
+  }
+  return file;
+};
+
+// 秘密の値のハッシュ値を返します。
+const hashSecret = (secret: string): string => crypto.createHash('sha256').update(secret).digest('hex');
+
+/**
+ * フィードを発行します。同じアカウントの既存のフィードは無効になります (URLの再発行)。
+ * @param ownerAccountId - 発行するアカウントのID
+ * @param locale - カレンダーの項目の言語
+ * @returns フィードのURLに含める秘密の値 (この時にしか取得できません)
+ */
+export const issueCalendarFeed = async (ownerAccountId: number, locale: Locale): Promise<string> => {
+  const secret = crypto.randomBytes(24).toString('base64url');
+  await getFile().update(feeds => {
+    const kept = feeds.filter(feed => feed.ownerAccountId !== ownerAccountId);
+    kept.push({ id: hashSecret(secret), ownerAccountId, locale, createdAt: Date.now() });
+    feeds.splice(0, feeds.length, ...kept);
+  });
+  return secret;
+};
+
+/**
+ * 秘密の値に対応するフィードを返します。ない場合は null を返します。
+ */
+export const findCalendarFeed = async (secret: string): Promise<CalendarFeed | null> => {
+  const id = hashSecret(secret);
+  return (await getFile().read()).find(feed => feed.id === id) ?? null;
+};
+
+/**
+ * アカウントのフィードを返します。発行していない場合は null を返します。
+ */
+export const findCalendarFeedByOwner = async (ownerAccountId: number): Promise<CalendarFeed | null> =>
+  (await getFile().read()).find(feed => feed.ownerAccountId === ownerAccountId) ?? null;
+
+/**
+ * アカウントのフィードを削除します (URLの停止)。
+ * @returns 削除できた場合は true
+ */
+export const deleteCalendarFeed = (ownerAccountId: number): Promise<boolean> =>
+  getFile().update(feeds => {
+    const index = feeds.findIndex(feed => feed.ownerAccountId === ownerAccountId);
+    if (index < 0) return false;
+    feeds.splice(index, 1);
+    return true;
+  });
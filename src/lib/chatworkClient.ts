@@ -0,0 +1,344 @@
+// src/lib/chatworkClient.ts
+
+// APIルートから Chatwork API を呼び出すためのサーバー側の共通クライアントです。
+// リクエストの送信、レスポンスのパース、レート制限 (x-ratelimit-*) の読み取り、
+// エラーの整形をここにまとめ、各APIルートはこのモジュールを経由して Chatwork API にアクセスします。
+
+import { NextResponse } from 'next/server';
+import { chatworkErrorCode } from './apiErrors';
+import { logger } from './logger';
+import type { ApiErrorCode } from '../types/apiError';
+
+// Chatwork APIのベースURL (環境変数 CHATWORK_API_BASE_URL が未設定の場合)
+export const DEFAULT_CHATWORK_API_BASE_URL = 'https://api.chatwork.com/v2';
+
+/**
+ * 呼び出し先の Chatwork API のベースURLを返します。
+ * 環境変数 CHATWORK_API_BASE_URL でローカルのモックサーバーなどに切り替えられます。
+ * テストで切り替えられるよう、呼び出しのたびに環境変数を読みます。
+ */
+export const getChatworkApiBaseUrl = (): string =>
+  (process.env.CHATWORK_API_BASE_URL || DEFAULT_CHATWORK_API_BASE_URL).replace(/\/+$/, '');
+
+// 429 (レート制限) を受けた時に、待ってから再試行する最大の待ち時間。これより長い場合は待たずにエラーを返す。
+const MAX_RATE_LIMIT_WAIT_MS = 1000 * 10;
+
+/**
+ * Chatwork APIの認証情報
+ * - token: 個人のAPIトークン (X-ChatWorkToken ヘッダーで送る)
+ * - oauth: OAuth 2.0 のアクセストークン (Authorization: Bearer ヘッダーで送る)
+ */
+export type ChatworkCredential =
+  | { type: 'token'; token: string }
+  | { type: 'oauth'; accessToken: string };
+
+/**
+ * Chatwork APIのレスポンスヘッダーから読み取ったレート制限の状態
+ * reset は制限がリセットされる時刻 (Unixタイムスタンプ秒)
+ */
+export interface RateLimitState {
+  limit: number | null;
+  remaining: number | null;
+  reset: number | null;
+}
+
+/**
+ * Chatwork API呼び出しのオプション
+ */
+export interface ChatworkRequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  // クエリパラメータ (値が空のものは送らない)
+  query?: Record<string, string | null | undefined>;
+  // application/x-www-form-urlencoded で送るリクエストボディ
+  form?: URLSearchParams;
+  // multipart/form-data で送るリクエストボディ (ファイルのアップロード)。Content-Type は fetch が境界文字列付きで設定する
+  multipart?: FormData;
+}
+
+/**
+ * Chatwork API呼び出しの成功結果
+ * 204 (No Content) の場合、data は null になります。
+ */
+export interface ChatworkResult<T> {
+  data: T;
+  status: number;
+  rateLimit: RateLimitState;
+}
+
+/**
+ * クライアントに返すエラーレスポンスのボディ
+ * どのAPIルートでもこの形式でエラーを返します。
+ */
+export interface ChatworkErrorBody {
+  error: string;
+  // エラーの種類 (画面はこれで利用者の言語のメッセージを表示する)
+  code: ApiErrorCode;
+  // Chatwork APIが返した `{ errors: [...] }` の内容
+  errors: string[];
+  // Chatwork APIが返したステータスコード (接続できなかった場合は 502)
+  status: number;
+  // 429の場合、レート制限がリセットされる時刻 (Unixタイムスタンプ秒)
+  rateLimitReset?: number;
+  // JSONではないレスポンスの一部など、補足情報
+  details?: string;
+}
+
+/**
+ * Chatwork APIがエラーを返した、または接続できなかったことを表すエラー
+ */
+export class ChatworkApiError extends Error {
+  status: number;
+  errors: string[];
+  rateLimit: RateLimitState | null;
+  details?: string;
+
+  constructor(message: string, status: number, errors: string[] = [], rateLimit: RateLimitState | null = null, details?: string) {
+    super(message);
+    this.name = 'ChatworkApiError';
+    this.status = status;
+    this.errors = errors;
+    this.rateLimit = rateLimit;
+    this.details = details;
+  }
+
+  /**
+   * クライアントに返すエラーレスポンスのボディに変換します。
+   */
+  toBody(): ChatworkErrorBody {
+    const body: ChatworkErrorBody = { error: this.message, code: chatworkErrorCode(this.status), errors: this.errors, status: this.status };
+    if (this.status === 429 && this.rateLimit?.reset) body.rateLimitReset = this.rateLimit.reset;
+    if (this.details) body.details = this.details;
+    return body;
+  }
+}
+
+// ヘッダーの値を数値として読み取ります。ない場合や数値でない場合は null。
+const readNumberHeader = (headers: Headers, name: string): number | null => {
+  const value = headers.get(name);
+  if (value === null || value.trim() === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+/**
+ * レスポンスヘッダーからレート制限の状態を読み取ります。
+ */
+export const readRateLimit = (headers: Headers): RateLimitState => ({
+  limit: readNumberHeader(headers, 'x-ratelimit-limit'),
+  remaining: readNumberHeader(headers, 'x-ratelimit-remaining'),
+  reset: readNumberHeader(headers, 'x-ratelimit-reset'),
+});
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * 最後に Chatwork API から受け取ったレート制限の状態
+ * observedAt は受け取った時刻 (Unixタイムスタンプ ミリ秒)
+ */
+export interface ObservedRateLimit extends RateLimitState {
+  observedAt: number;
+}
+
+// 開発サーバーのホットリロードでも値が消えないよう、globalThisに保持する
+const globalRateLimit = globalThis as typeof globalThis & { __chatworkLastRateLimit?: ObservedRateLimit };
+
+/**
+ * 最後に Chatwork API から受け取ったレート制限の状態を返します。まだ一度も呼び出していない場合は null です。
+ */
+export const getLastRateLimit = (): ObservedRateLimit | null => globalRateLimit.__chatworkLastRateLimit ?? null;
+
+// Chatwork APIにリクエストを1回送信します。
+const send = async (credential: ChatworkCredential, path: string, options: ChatworkRequestOptions): Promise<Response> => {
+  const query = new URLSearchParams();
+  Object.entries(options.query ?? {}).forEach(([key, value]) => {
+    if (value) query.append(key, value);
+  });
+  const url = `${getChatworkApiBaseUrl()}${path}${query.toString() ? `?${query.toString()}` : ''}`;
+
+  const headers: Record<string, string> = {
+    'Accept': 'application/json',
+  };
+  if (credential.type === 'oauth') {
+    headers['Authorization'] = `Bearer ${credential.accessToken}`;
+  } else {
+    headers['X-ChatWorkToken'] = credential.token;
+  }
+  if (options.form) {
+    headers['Content-Type'] = 'application/x-www-form-urlencoded'; // Chatwork APIはこれ
+  }
+
+  const method = options.method ?? 'GET';
+  const startedAt = Date.now();
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method,
+      headers,
+      body: options.multipart ?? options.form?.toString(),
+    });
+  } catch (error: any) {
+    // ネットワークエラーなど、Chatwork APIへのリクエスト自体が失敗した場合
+    logger.error('Failed to connect to Chatwork API', { method, path, durationMs: Date.now() - startedAt, error });
+    throw new ChatworkApiError('Failed to connect to Chatwork API.', 502, [], null, error.message);
+  }
+
+  // 呼び出し先の処理時間とステータスを記録する (クエリの値は記録しない)
+  const rateLimit = readRateLimit(response.headers);
+  if (rateLimit.remaining !== null || rateLimit.reset !== null) {
+    globalRateLimit.__chatworkLastRateLimit = { ...rateLimit, observedAt: Date.now() };
+  }
+  logger.info('Chatwork API responded', {
+    method,
+    path,
+    status: response.status,
+    durationMs: Date.now() - startedAt,
+    rateLimitRemaining: rateLimit.remaining,
+  });
+  return response;
+};
+
+/**
+ * Chatwork APIを呼び出し、JSONのレスポンスを返します。
+ * 429を受けた場合は、リセットまでの待ち時間が短ければ待ってから1回だけ再試行します。
+ * エラー時 (2xx以外、JSONではないレスポンス、接続失敗) は ChatworkApiError をthrowします。
+ *
+ * @param credential - APIトークンまたはOAuthのアクセストークン
+ * @param path - `/rooms` のような、ベースURLからのパス
+ * @param options - メソッド・クエリ・フォームボディ (またはmultipartのボディ)
+ */
+export const callChatwork = async <T>(
+  credential: ChatworkCredential,
+  path: string,
+  options: ChatworkRequestOptions = {},
+): Promise<ChatworkResult<T>> => {
+  let response = await send(credential, path, options);
+  let rateLimit = readRateLimit(response.headers);
+
+  if (response.status === 429) {
+    const waitMs = rateLimit.reset !== null ? rateLimit.reset * 1000 - Date.now() : null;
+    if (waitMs !== null && waitMs <= MAX_RATE_LIMIT_WAIT_MS) {
+      logger.warn('Chatwork API rate limit reached. Retrying after the reset.', { path, waitMs: Math.max(waitMs, 0) });
+      await sleep(Math.max(waitMs, 0));
+      response = await send(credential, path, options);
+      rateLimit = readRateLimit(response.headers);
+    }
+  }
+
+  // 該当データがない場合、Chatwork APIはボディなしの204を返す
+  if (response.status === 204) {
+    return { data: null as T, status: response.status, rateLimit };
+  }
+
+  // Chatwork APIからのレスポンスボディをテキストとして取得し、JSONとしてパースを試みる
+  const responseText = await response.text();
+  let data: any;
+  try {
+    data = JSON.parse(responseText);
+  } catch (parseError) {
+    // Chatwork APIがJSONではないレスポンス (例: HTML) を返した場合
+    logger.error('Chatwork API response is not valid JSON', { path, status: response.status, details: responseText.substring(0, 200) });
+    throw new ChatworkApiError(
+      'Chatwork API returned non-JSON response.',
+      response.ok ? 502 : response.status,
+      [],
+      rateLimit,
+      responseText.substring(0, 200) + (responseText.length > 200 ? '...' : ''), // 長すぎる場合は切り詰める
+    );
+  }
+
+  if (!response.ok) {
+    const errors: string[] = Array.isArray(data?.errors) ? data.errors.map(String) : [];
+    logger.error('Chatwork API returned an error', { path, status: response.status, errors });
+    throw new ChatworkApiError(
+      errors.length > 0 ? errors.join(' ') : `Chatwork API error: ${response.status}`,
+      response.status,
+      errors,
+      rateLimit,
+    );
+  }
+
+  return { data, status: response.status, rateLimit };
+};
+
+/**
+ * Chatwork API への接続を確認した結果
+ * status は返ってきたHTTPステータス (接続できなかった場合は null) です。
+ */
+export interface ChatworkProbeResult {
+  reachable: boolean;
+  status: number | null;
+  latencyMs: number;
+  error: string | null;
+}
+
+// 接続の確認を待つ最大の時間
+const PROBE_TIMEOUT_MS = 1000 * 5;
+
+/**
+ * Chatwork API に接続できるかどうかを確認します。認証情報は送らず、レート制限も消費しません。
+ * HTTPのレスポンスが返ってくれば (認証エラーの401でも) 接続できたものとします。
+ */
+export const probeChatwork = async (timeoutMs: number = PROBE_TIMEOUT_MS): Promise<ChatworkProbeResult> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  const startedAt = Date.now();
+  try {
+    const response = await fetch(`${getChatworkApiBaseUrl()}/me`, {
+      method: 'GET',
+      headers: { 'Accept': 'application/json' },
+      signal: controller.signal,
+    });
+    return { reachable: true, status: response.status, latencyMs: Date.now() - startedAt, error: null };
+  } catch (error: any) {
+    logger.warn('Chatwork API is not reachable', { durationMs: Date.now() - startedAt, error });
+    return {
+      reachable: false,
+      status: null,
+      latencyMs: Date.now() - startedAt,
+      error: error?.name === 'AbortError' ? `Timed out after ${timeoutMs}ms.` : String(error?.message ?? error),
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+/**
+ * レート制限の状態を、クライアントに返すレスポンスヘッダーに変換します (クライアントが残り回数やリセット時刻を知るため)。
+ */
+export const rateLimitHeaders = (rateLimit: RateLimitState | null): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  if (rateLimit?.remaining != null) headers['X-RateLimit-Remaining'] = String(rateLimit.remaining);
+  if (rateLimit?.reset != null) headers['X-RateLimit-Reset'] = String(rateLimit.reset);
+  return headers;
+};
+
+/**
+ * Chatwork API呼び出しの成功結果をクライアントに返すレスポンスに変換します。
+ * @param result - callChatwork の結果
+ * @param data - 返すボディ (省略時は result.data)
+ */
+export const chatworkJson = <T>(result: ChatworkResult<T>, data: unknown = result.data): NextResponse =>
+  NextResponse.json(data, { status: result.status, headers: rateLimitHeaders(result.rateLimit) });
+
+/**
+ * 例外をクライアントに返すエラーのステータスとボディに変換します。
+ * ChatworkApiError 以外の予期しない例外は 500 として扱います。
+ */
+export const toChatworkErrorBody = (error: unknown): ChatworkErrorBody => {
+  if (error instanceof ChatworkApiError) return error.toBody();
+  logger.error('Unexpected error in Chatwork API route', { error });
+  return { error: 'Internal server error.', code: 'internal_error', errors: [], status: 500 };
+};
+
+/**
+ * 例外をクライアントに返すエラーレスポンスに変換します。
+ * 429の場合は Retry-After ヘッダーも付けます。
+ */
+export const chatworkErrorJson = (error: unknown): NextResponse => {
+  const body = toChatworkErrorBody(error);
+  const headers = rateLimitHeaders(error instanceof ChatworkApiError ? error.rateLimit : null);
+  if (body.rateLimitReset) {
+    headers['Retry-After'] = String(Math.max(body.rateLimitReset - Math.floor(Date.now() / 1000), 0));
+  }
+  return NextResponse.json(body, { status: body.status, headers });
+};
@@ -0,0 +1,17 @@
+// src/lib/chatworkLinks.ts
+
+// Chatwork のWeb版のルームやメッセージを開くためのURLを組み立てます。
+
+// Chatwork のWeb版のURL
+const CHATWORK_WEB_URL = 'https://www.chatwork.com';
+
+/**
+ * Chatworkのルームへのリンクを返します。
+ */
+export const chatworkRoomUrl = (roomId: number | string): string => `${CHATWORK_WEB_URL}/#!rid${roomId}`;
+
+/**
+ * Chatworkのメッセージへのリンクを返します。
+ */
+export const chatworkMessageUrl = (roomId: number | string, messageId: string): string =>
+  `${chatworkRoomUrl(roomId)}-${messageId}`;
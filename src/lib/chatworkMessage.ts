@@ -0,0 +1,57 @@
+// src/lib/chatworkMessage.ts
+
+// Chatworkに投稿するメッセージの本文を組み立てるモジュールです。
+// 担当者への宛先 (`[To:account_id]名前さん`) と、本文を囲む `[info][title]…[/title]…[/info]` の記法を扱います。
+
+/**
+ * 送信方法
+ * - task: タスクのみ作成する
+ * - message: 担当者宛てのメッセージのみ投稿する
+ * - both: タスクを作成し、担当者宛てのメッセージも投稿する
+ */
+export type SendMode = 'task' | 'message' | 'both';
+
+/**
+ * 送信方法の選択肢 (表示名はメッセージのカタログの `sendMode.<mode>`)
+ */
+export const SEND_MODES: SendMode[] = ['task', 'message', 'both'];
+
+/**
+ * 送信方法にタスクの作成が含まれるかどうか
+ */
+export const includesTask = (mode: SendMode) => mode !== 'message';
+
+/**
+ * 送信方法にメッセージの投稿が含まれるかどうか
+ */
+export const includesMessage = (mode: SendMode) => mode !== 'task';
+
+/**
+ * 宛先の行 (`[To:1002]佐藤 花子さん`) を、担当者ごとに改行で区切って組み立てます。
+ */
+export const buildToHeader = (assignees: { account_id: number; name: string }[]): string =>
+  assignees.map(assignee => `[To:${assignee.account_id}]${assignee.name}さん`).join('\n');
+
+/**
+ * 本文を `[info]` で囲みます。タイトルが空の場合は `[title]` を付けません。
+ */
+export const wrapInInfo = (body: string, title: string): string =>
+  title.trim() ? `[info][title]${title.trim()}[/title]${body}[/info]` : `[info]${body}[/info]`;
+
+/**
+ * 投稿するメッセージの本文を組み立てます。
+ * 先頭に担当者への宛先を付け、info が指定されている場合は本文を `[info]` で囲みます。
+ *
+ * @param body - メッセージの本文
+ * @param assignees - 宛先にする担当者 (空の場合は宛先なし)
+ * @param info - `[info]` で囲む場合のタイトル (囲まない場合は null)
+ */
+export const buildMessageBody = (
+  body: string,
+  assignees: { account_id: number; name: string }[],
+  info: { title: string } | null,
+): string => {
+  const header = buildToHeader(assignees);
+  const content = info ? wrapInInfo(body, info.title) : body;
+  return header ? `${header}\n${content}` : content;
+};
@@ -0,0 +1,213 @@
+// src/lib/chatworkNotation.ts
+
+// Markdown で書いたメモを Chatwork のメッセージ記法に変換するモジュールです。
+// 見出しは `[info][title]…[/title]…[/info]`、コードブロックは `[code]`、引用は `[qt]`、水平線は `[hr]`、
+// `@名前` の宛先は `[To:account_id]名前さん` に変換します。
+// 変換した本文がChatworkでどう表示されるかを確認するため、記法を表示用のノードに分解する処理もここにまとめています。
+
+import type { ChatworkMember } from '../types/chatwork';
+import { resolveAssignee } from './memoParser';
+
+/**
+ * Markdown から変換した結果
+ */
+export interface ChatworkConversion {
+  // Chatwork の記法に変換した本文
+  body: string;
+  // `[To:]` に変換した宛先のアカウントID (重複なし、出現順)
+  mentionIds: number[];
+  // ルームメンバーに解決できず、そのまま残した `@名前`
+  unresolvedMentions: string[];
+}
+
+// コードブロックの開始・終了 (```lang または ~~~)
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+// 見出し (# 〜 ######)
+const HEADING_PATTERN = /^\s{0,3}#{1,6}\s+(.*?)\s*#*\s*$/;
+// 水平線 (---、***、___ を3つ以上)
+const HR_PATTERN = /^\s{0,3}([-*_])(?:\s*\1){2,}\s*$/;
+// 引用 (> で始まる行)
+const QUOTE_PATTERN = /^\s{0,3}>\s?(.*)$/;
+// 宛先 (行頭または空白の後の `@名前`)
+const MENTION_PATTERN = /(^|\s)[@＠](\S+)/g;
+
+/**
+ * Markdown で書いたメモを Chatwork の記法に変換します。
+ * コードブロックの中はそのまま `[code]` で囲み、宛先などの変換はしません。
+ * 見出しは、次の見出し・水平線・末尾までの内容を `[info]` で囲み、見出しの文字列をタイトルにします。
+ *
+ * @param text - メモの内容
+ * @param members - `@名前` の解決に使うルームメンバー一覧
+ * @param myAccountId - 自分のアカウントID (`@自分` の解決に使用)
+ */
+export const convertMarkdownToChatwork = (
+  text: string,
+  members: ChatworkMember[],
+  myAccountId: number | null,
+): ChatworkConversion => {
+  const mentionIds: number[] = [];
+  const unresolvedMentions: string[] = [];
+
+  // 1行の中の `@名前` を `[To:]` に変換する
+  const convertMentions = (line: string) => line.replace(MENTION_PATTERN, (whole, prefix: string, token: string) => {
+    const accountId = resolveAssignee(token, members, myAccountId);
+    const member = members.find(candidate => candidate.account_id === accountId);
+    if (accountId === null || !member) {
+      if (!unresolvedMentions.includes(token)) unresolvedMentions.push(token);
+      return whole;
+    }
+    if (!mentionIds.includes(accountId)) mentionIds.push(accountId);
+    return `${prefix}[To:${accountId}]${member.name}さん`;
+  });
+
+  const lines = text.split(/\r?\n/);
+  const output: string[] = [];
+  // 見出しで始めた [info] の中かどうか
+  let section: { title: string; lines: string[] } | null = null;
+  const emit = (line: string) => (section ? section.lines.push(line) : output.push(line));
+  const closeSection = () => {
+    if (!section) return;
+    // 見出しの直後や次の見出しの前の空行は、囲みの中に残さない
+    while (section.lines.length > 0 && !section.lines[section.lines.length - 1].trim()) section.lines.pop();
+    while (section.lines.length > 0 && !section.lines[0].trim()) section.lines.shift();
+    output.push(`[info][title]${section.title}[/title]${section.lines.join('\n')}[/info]`);
+    section = null;
+  };
+
+  let index = 0;
+  while (index < lines.length) {
+    const line = lines[index];
+
+    // コードブロック (閉じられていない場合は末尾まで)
+    const fence = line.match(FENCE_PATTERN);
+    if (fence) {
+      const code: string[] = [];
+      index++;
+      while (index < lines.length && !lines[index].trim().startsWith(fence[1])) {
+        code.push(lines[index]);
+        index++;
+      }
+      index++; // 閉じの ``` を読み飛ばす
+      emit(`[code]${code.join('\n')}[/code]`);
+      continue;
+    }
+
+    const heading = line.match(HEADING_PATTERN);
+    if (heading) {
+      closeSection();
+      section = { title: convertMentions(heading[1]), lines: [] };
+      index++;
+      continue;
+    }
+
+    if (HR_PATTERN.test(line)) {
+      closeSection();
+      output.push('[hr]');
+      index++;
+      continue;
+    }
+
+    // 続けて並んだ引用の行をまとめて [qt] で囲む
+    if (QUOTE_PATTERN.test(line)) {
+      const quoted: string[] = [];
+      while (index < lines.length && QUOTE_PATTERN.test(lines[index])) {
+        quoted.push(convertMentions(lines[index].replace(QUOTE_PATTERN, '$1')));
+        index++;
+      }
+      emit(`[qt]${quoted.join('\n')}[/qt]`);
+      continue;
+    }
+
+    emit(convertMentions(line));
+    index++;
+  }
+  closeSection();
+
+  return { body: output.join('\n'), mentionIds, unresolvedMentions };
+};
+
+/**
+ * Chatwork の記法を分解した、表示用のノード
+ */
+export type ChatworkNode =
+  | { type: 'text'; text: string }
+  | { type: 'to'; accountId: number }
+  | { type: 'hr' }
+  | { type: 'code'; text: string }
+  | { type: 'quote'; children: ChatworkNode[] }
+  | { type: 'title'; children: ChatworkNode[] }
+  | { type: 'info'; title: ChatworkNode[] | null; children: ChatworkNode[] };
+
+// 記法のタグ ([info] [/info] [title] [/title] [code] [/code] [qt] [/qt] [hr] [To:123])
+const TAG_PATTERN = /\[(\/?)(info|title|code|qt|hr|To:(\d+))\]/g;
+
+/**
+ * Chatwork の記法 (`[info]` `[title]` `[code]` `[qt]` `[hr]` `[To:]`) を表示用のノードに分解します。
+ * 対応していないタグや、閉じられていないタグは文字列のまま残します。
+ */
+export const parseChatworkNotation = (text: string): ChatworkNode[] => {
+  // 開いているタグと、その中に集めたノード
+  const stack: { tag: 'root' | 'info' | 'title' | 'qt'; nodes: ChatworkNode[]; source: string }[] = [{ tag: 'root', nodes: [], source: '' }];
+  const top = () => stack[stack.length - 1];
+  const pushText = (value: string) => {
+    if (!value) return;
+    const nodes = top().nodes;
+    const last = nodes[nodes.length - 1];
+    if (last && last.type === 'text') {
+      last.text += value;
+    } else {
+      nodes.push({ type: 'text', text: value });
+    }
+  };
+
+  let position = 0;
+  let match: RegExpExecArray | null;
+  TAG_PATTERN.lastIndex = 0;
+  while ((match = TAG_PATTERN.exec(text)) !== null) {
+    pushText(text.slice(position, match.index));
+    position = match.index + match[0].length;
+    const closing = match[1] === '/';
+    const name = match[3] ? 'To' : match[2];
+
+    if (name === 'To' && !closing) {
+      top().nodes.push({ type: 'to', accountId: parseInt(match[3], 10) });
+    } else if (name === 'hr' && !closing) {
+      top().nodes.push({ type: 'hr' });
+    } else if (name === 'code' && !closing) {
+      // [code] の中は記法として扱わない
+      const end = text.indexOf('[/code]', position);
+      if (end < 0) {
+        pushText(match[0]);
+        continue;
+      }
+      top().nodes.push({ type: 'code', text: text.slice(position, end) });
+      position = end + '[/code]'.length;
+      TAG_PATTERN.lastIndex = position;
+    } else if (!closing && (name === 'info' || name === 'title' || name === 'qt')) {
+      stack.push({ tag: name, nodes: [], source: match[0] });
+    } else if (closing && stack.length > 1 && top().tag === name) {
+      const { nodes } = stack.pop()!;
+      if (name === 'title') {
+        top().nodes.push({ type: 'title', children: nodes });
+      } else if (name === 'qt') {
+        top().nodes.push({ type: 'quote', children: nodes });
+      } else {
+        // [info] の先頭の [title] をタイトルにする
+        const first = nodes[0];
+        const title = first && first.type === 'title' ? first.children : null;
+        top().nodes.push({ type: 'info', title, children: title ? nodes.slice(1) : nodes });
+      }
+    } else {
+      pushText(match[0]);
+    }
+  }
+  pushText(text.slice(position));
+
+  // 閉じられていないタグは、開始タグを文字列として戻して中身を親に移す
+  while (stack.length > 1) {
+    const { nodes, source } = stack.pop()!;
+    pushText(source);
+    nodes.forEach(node => (node.type === 'text' ? pushText(node.text) : top().nodes.push(node)));
+  }
+  return stack[0].nodes;
+};
@@ -0,0 +1,116 @@
+// src/lib/chatworkTasks.ts
+
+// Chatworkにタスクを作成するサーバー側の処理です。
+// タスク作成APIルートと定期実行のスケジューラーの両方から、同じ検証・送信処理を使うために切り出しています。
+
+import { LIMIT_TYPES, LimitType } from '../types/chatwork';
+import { IdempotentResponse, runOnce, scopeIdempotencyKey } from './idempotencyStore';
+import { logger } from './logger';
+import {
+  callChatwork,
+  ChatworkApiError,
+  ChatworkCredential,
+  rateLimitHeaders,
+  toChatworkErrorBody,
+} from './chatworkClient';
+
+/**
+ * タスク作成のパラメータ (Chatwork APIの POST /rooms/{room_id}/tasks と同じ名前)
+ * 値がない項目は null です。
+ */
+export interface TaskParams {
+  body: string | null;
+  to_ids: string | null;
+  limit: string | null;
+  limit_type: string | null;
+}
+
+/**
+ * タスク作成のパラメータを検証します。問題がなければ null、あればエラーメッセージを返します。
+ */
+export const validateTaskParams = ({ body, to_ids, limit, limit_type }: TaskParams): string | null => {
+  // これらのパラメータがnullの場合、Chatwork APIへのリクエストを続行できない
+  if (!body) {
+    return "Parameter 'body' (message) is required.";
+  }
+  if (!to_ids) {
+    return "Parameter 'to_ids' is required.";
+  }
+  // limit_type は省略可能 (省略時はChatwork API側のデフォルト)。指定された場合は none/date/time のいずれかであること。
+  if (limit_type && !LIMIT_TYPES.includes(limit_type as LimitType)) {
+    return `Parameter 'limit_type' must be one of: ${LIMIT_TYPES.join(', ')}.`;
+  }
+  // limit は省略可能だが、期限ありの limit_type (date/time) を指定した場合は必須
+  if (!limit && (limit_type === 'date' || limit_type === 'time')) {
+    return `Parameter 'limit' is required when 'limit_type' is ${limit_type}.`;
+  }
+  // limit はUnixタイムスタンプ (秒) の整数であること
+  if (limit && !/^\d+$/.test(limit)) {
+    return "Parameter 'limit' must be a Unix timestamp in seconds.";
+  }
+  return null;
+};
+
+/**
+ * Chatwork APIへのリクエストボディを構築します (application/x-www-form-urlencoded 形式)。
+ * validateTaskParams で検証済みのパラメータを渡してください。期限なしの場合は limit を送りません。
+ */
+export const buildChatworkTaskBody = ({ body, to_ids, limit, limit_type }: TaskParams): URLSearchParams => {
+  const chatworkApiBody = new URLSearchParams();
+  chatworkApiBody.append('body', body ?? '');
+  chatworkApiBody.append('to_ids', to_ids ?? '');
+  if (limit && limit_type !== 'none') {
+    chatworkApiBody.append('limit', limit);
+  }
+  if (limit_type) {
+    chatworkApiBody.append('limit_type', limit_type);
+  }
+  return chatworkApiBody;
+};
+
+/**
+ * Chatworkにタスクを作成し、クライアントに返すステータスとボディを返します。
+ * Chatwork APIのエラーもthrowせず、ステータスコードを保ったまま共通のエラー形式のボディにして返します。
+ *
+ * idempotencyKey を指定した場合、同じキーで作成済みのタスクがあればChatworkには送らずに前回の結果を返し、replayed を true にします。
+ *
+ * @param credential - APIトークンまたはOAuthのアクセストークン
+ * @param roomId - タスクを作成するルームID
+ * @param chatworkApiBody - buildChatworkTaskBody で組み立てたリクエストボディ
+ * @param idempotencyKey - 重複作成を防ぐためのキー (省略可)
+ */
+export const createChatworkTask = async (
+  credential: ChatworkCredential,
+  roomId: string,
+  chatworkApiBody: URLSearchParams,
+  idempotencyKey: string | null = null,
+): Promise<{ response: IdempotentResponse; replayed: boolean }> => {
+  // Chatwork APIへのリクエスト内容をログに出力して確認 (タスク本文はロガーが伏せる)
+  logger.info('Creating Chatwork task', {
+    roomId,
+    body: chatworkApiBody.get('body'),
+    assigneeCount: (chatworkApiBody.get('to_ids') ?? '').split(',').filter(Boolean).length,
+    limitType: chatworkApiBody.get('limit_type'),
+  });
+
+  const send = async (): Promise<IdempotentResponse> => {
+    try {
+      const result = await callChatwork(credential, `/rooms/${roomId}/tasks`, { method: 'POST', form: chatworkApiBody });
+      logger.info('Created Chatwork task', { roomId, taskIds: (result.data as { task_ids?: number[] } | null)?.task_ids });
+      return { status: result.status, body: result.data, headers: rateLimitHeaders(result.rateLimit) };
+    } catch (error) {
+      const body = toChatworkErrorBody(error);
+      return { status: body.status, body, headers: rateLimitHeaders(error instanceof ChatworkApiError ? error.rateLimit : null) };
+    }
+  };
+
+  if (!idempotencyKey) {
+    return { response: await send(), replayed: false };
+  }
+  // キーは認証情報とルームごとに分ける
+  const result = await runOnce(scopeIdempotencyKey(credential, `${roomId}:${idempotencyKey}`), send);
+  if (result.replayed) {
+    logger.info('Replaying stored response for Idempotency-Key', { roomId, idempotencyKey });
+  }
+  return result;
+};
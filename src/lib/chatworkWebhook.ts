@@ -0,0 +1,108 @@
+// src/lib/chatworkWebhook.ts
+
+// ChatworkのWebhookを受け取るための処理です。
+// リクエストの署名 (X-ChatWorkWebhookSignature) の検証と、イベントの内容をこのアプリで扱う形に変換する処理をまとめています。
+
+import crypto from 'crypto';
+import type { TaskStatus } from '../types/task';
+import type { ChatworkWebhookPayload, WebhookEvent } from '../types/webhook';
+
+/**
+ * Webhookのトークンを返します (Chatworkの Webhook 設定画面に表示されるもの)。未設定の場合は null です。
+ */
+export const getWebhookToken = (): string | null => process.env.CHATWORK_WEBHOOK_TOKEN || null;
+
+/**
+ * Webhookの署名を検証します。
+ * 署名は、トークンをBase64デコードしたバイト列を鍵にした、リクエストボディのHMAC-SHA256をBase64エンコードしたものです。
+ *
+ * @param rawBody - 受け取ったままのリクエストボディ
+ * @param signature - X-ChatWorkWebhookSignature ヘッダー (またはクエリ chatwork_webhook_signature) の値
+ * @param token - Webhookのトークン
+ */
+export const verifyWebhookSignature = (rawBody: string, signature: string | null, token: string): boolean => {
+  if (!signature) return false;
+  const expected = crypto.createHmac('sha256', Buffer.from(token, 'base64')).update(rawBody, 'utf8').digest();
+  const actual = Buffer.from(signature, 'base64');
+  // 長さが違う場合 timingSafeEqual は例外になるため、先に確認する
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+};
+
+/**
+ * メッセージ本文から、宛先・返信・引用などのタグを取り除いて読みやすい文字列にします。
+ * [info][title] のような囲みのタグは、中身を残して取り除きます。
+ */
+export const stripChatworkTags = (body: string): string =>
+  body
+    // 宛先 ([To:123]山田さん) と返信 ([rp aid=123 to=456-789]山田さん) は、名前まで含めて1行取り除く
+    .replace(/\[(?:To:\d+|rp aid=\d+[^\]]*)\][^\n[]*\n?/g, '')
+    .replace(/\[toall\]\n?/g, '')
+    // 引用やアイコンなど、中身のないタグ
+    .replace(/\[piconname:\d+\]|\[picon:\d+\]|\[dtext:\w+\]|\[hr\]/g, '')
+    // 囲みのタグは中身を残す
+    .replace(/\[\/?(?:info|title|qt|code)\]|\[qtmeta[^\]]*\]/g, '')
+    .trim();
+
+/**
+ * メッセージ本文に含まれるタスクのタグ (`[task aid=123 st=done lt=0]本文[/task]`) を読み取ります。
+ * Chatworkはタスクの追加・完了をこのタグを含むメッセージとしてルームに投稿します。
+ */
+export const parseTaskTags = (body: string): { accountId: number; status: TaskStatus; body: string }[] => {
+  const tags: { accountId: number; status: TaskStatus; body: string }[] = [];
+  const pattern = /\[task aid=(\d+) st=(open|done)[^\]]*\]([\s\S]*?)\[\/task\]/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(body)) !== null) {
+    tags.push({ accountId: parseInt(match[1], 10), status: match[2] as TaskStatus, body: match[3].trim() });
+  }
+  return tags;
+};
+
+// 受け取ったJSONがWebhookのリクエストボディの形になっているかを確認します。
+const isWebhookPayload = (value: any): value is ChatworkWebhookPayload =>
+  !!value &&
+  typeof value.webhook_event_type === 'string' &&
+  !!value.webhook_event &&
+  typeof value.webhook_event.message_id === 'string' &&
+  typeof value.webhook_event.room_id === 'number' &&
+  typeof value.webhook_event.body === 'string';
+
+/**
+ * Webhookのリクエストボディを、サーバーに保存するイベントに変換します。
+ * mention_to_me はメンション1件に、message_created / message_updated はタスクのタグごとのイベントになります。
+ * このアプリで扱わないイベントの場合は空配列、形式が正しくない場合は null を返します。
+ *
+ * イベントのIDは、Chatworkが同じWebhookを再送しても重複しないよう、イベントの種類とメッセージから決めます。
+ */
+export const toWebhookEvents = (value: unknown, receivedAt: number): WebhookEvent[] | null => {
+  if (!isWebhookPayload(value)) return null;
+  const { webhook_event_type: type, webhook_event: event } = value;
+
+  if (type === 'mention_to_me') {
+    if (typeof event.from_account_id !== 'number' || typeof event.to_account_id !== 'number') return null;
+    return [{
+      id: `mention:${event.message_id}:${event.to_account_id}`,
+      kind: 'mention',
+      receivedAt,
+      roomId: event.room_id,
+      messageId: event.message_id,
+      fromAccountId: event.from_account_id,
+      toAccountId: event.to_account_id,
+      body: stripChatworkTags(event.body),
+    }];
+  }
+
+  if (type === 'message_created' || type === 'message_updated') {
+    return parseTaskTags(event.body).map((tag, index) => ({
+      id: `task:${event.message_id}:${event.update_time}:${index}`,
+      kind: 'taskStatus',
+      receivedAt,
+      roomId: event.room_id,
+      messageId: event.message_id,
+      accountId: tag.accountId,
+      status: tag.status,
+      body: tag.body,
+    }));
+  }
+
+  return [];
+};
@@ -0,0 +1,16 @@
+// src/lib/clock.ts
+
+// サーバー側で定期的に動く処理 (定期タスク・ダイジェスト) が使う時計です。
+// テストでは時刻を差し替えて、実行のタイミングを確認できます。
+
+/**
+ * 現在時刻の取得元
+ */
+export interface Clock {
+  now: () => Date;
+}
+
+/**
+ * システムの時計
+ */
+export const systemClock: Clock = { now: () => new Date() };
@@ -0,0 +1,177 @@
+// src/lib/credentialStore.ts
+
+// 定期タスク・ダイジェスト・カレンダーのフィードが、ブラウザを介さずに Chatwork API を呼ぶときに使う認証情報のサーバー側のストアです。
+// 認証情報はアカウントごとに1件だけ保存し、各ストアはアカウントIDでこれを参照します。
+// OAuth のリフレッシュトークンは更新のたびにローテーションされるため、セッションCookie・サーバー側の処理のどちらで更新しても
+// 結果をここに書き戻し、古いトークンを持つ側は新しいトークンを引き継ぎます。
+// 保存先は環境変数 CREDENTIALS_FILE で変更できます (既定: .data/credentials.json)。
+
+import crypto from 'crypto';
+import path from 'path';
+import type { ChatworkCredential } from './chatworkClient';
+import { createJsonFile, JsonFile } from './jsonFile';
+import { logger } from './logger';
+import { accessTokenNeedsRefresh, getOAuthConfig, refreshTokens } from './oauth';
+import { seal, unseal } from './sealing';
+import type { SessionData } from './session';
+
+// ローテーションで置き換えたリフレッシュトークンを覚えておく件数
+const MAX_RETIRED_TOKENS = 5;
+
+/**
+ * ストアに保存する認証情報
+ */
+export interface StoredCredential {
+  accountId: number;
+  // セッションCookieと同じ方式で暗号化した認証情報
+  sealedSession: string;
+  // 現在のリフレッシュトークンのハッシュ値 (SHA-256、16進数)。APIトークンの場合は null
+  tokenHash: string | null;
+  // ローテーションで置き換えたリフレッシュトークンのハッシュ値 (新しい順)。古いトークンを持つセッションCookieを見分けるために使う
+  retiredTokenHashes: string[];
+  updatedAt: number;
+}
+
+/**
+ * OAuth でログインした場合のセッション
+ */
+export type OAuthSession = Extract<SessionData, { kind: 'oauth' }>;
+
+/**
+ * 保存先のファイルパスを返します。環境変数 CREDENTIALS_FILE が設定されていればそれを使います。
+ */
+export const getCredentialsFilePath = (): string =>
+  process.env.CREDENTIALS_FILE || path.join(process.cwd(), '.data', 'credentials.json');
+
+// 開発サーバーのホットリロードでも同じファイルに対して1つの読み書き口を使うよう、globalThisに保持する
+const globalFiles = globalThis as typeof globalThis & {
+  __credentialFiles?: Map<string, JsonFile<StoredCredential[]>>;
+  __credentialRefreshQueue?: Promise<unknown>;
+};
+const files: Map<string, JsonFile<StoredCredential[]>> = globalFiles.__credentialFiles ?? (globalFiles.__credentialFiles = new Map());
+
+const getFile = (): JsonFile<StoredCredential[]> => {
+  const filePath = getCredentialsFilePath();
+  let file = files.get(filePath);
+  if (!file) {
+    file = createJsonFile<StoredCredential[]>(filePath, () => []);
+    files.set(filePath, file);
+  }
+  return file;
+};
+
+// リフレッシュトークンのハッシュ値を返します。
+const hashToken = (token: string): string => crypto.createHash('sha256').update(token).digest('hex');
+
+// 保存する認証情報を作ります。
+const toRecord = (accountId: number, session: SessionData, retiredTokenHashes: string[]): StoredCredential => {
+  const tokenHash = session.kind === 'oauth' ? hashToken(session.refreshToken) : null;
+  return {
+    accountId,
+    sealedSession: seal(session),
+    tokenHash,
+    retiredTokenHashes: retiredTokenHashes.filter(hash => hash !== tokenHash).slice(0, MAX_RETIRED_TOKENS),
+    updatedAt: Date.now(),
+  };
+};
+
+// リフレッシュトークン (現在のもの、またはローテーションで置き換えたもの) を使っている認証情報を探します。
+const findByRefreshToken = async (refreshToken: string): Promise<StoredCredential | null> => {
+  const hash = hashToken(refreshToken);
+  return (await getFile().read()).find(record => record.tokenHash === hash || record.retiredTokenHashes.includes(hash)) ?? null;
+};
+
+/**
+ * アカウントの認証情報を保存します (定期タスク・ダイジェスト・カレンダーのフィードを設定した時)。保存済みの認証情報は置き換えます。
+ * ただし、保存済みの認証情報がすでにローテーションした後の古いリフレッシュトークンの場合は、保存済みの新しいものを残します。
+ */
+export const saveCredential = (accountId: number, session: SessionData): Promise<void> =>
+  getFile().update(records => {
+    const index = records.findIndex(record => record.accountId === accountId);
+    if (index >= 0 && session.kind === 'oauth' && records[index].retiredTokenHashes.includes(hashToken(session.refreshToken))) {
+      return;
+    }
+    const record = toRecord(accountId, session, []);
+    if (index >= 0) {
+      records[index] = record;
+    } else {
+      records.push(record);
+    }
+  });
+
+// 更新の処理を1つずつ順番に行います。同じトークンの系列を同時に更新して、ローテーション済みの古いトークンを使うのを防ぐ
+const serializeRefresh = <R>(task: () => Promise<R>): Promise<R> => {
+  const result = (globalFiles.__credentialRefreshQueue ?? Promise.resolve()).then(task, task);
+  globalFiles.__credentialRefreshQueue = result.catch(() => undefined);
+  return result;
+};
+
+/**
+ * OAuth のアクセストークンをリフレッシュトークンで更新し、更新後のセッションを返します。更新に失敗した場合は null を返します。
+ * セッションのトークンが保存済みの認証情報と同じものであれば、更新後のトークンを保存済みの認証情報にも書き戻します。
+ * 保存済みの認証情報が先に更新されていた (セッションのトークンがローテーション済みの) 場合は、保存済みの新しいトークンを引き継ぎます。
+ * セッション自体の有効期限 (expiresAt) は変えません。
+ */
+export const refreshOAuthSession = (session: OAuthSession): Promise<OAuthSession | null> =>
+  serializeRefresh(async () => {
+    const record = await findByRefreshToken(session.refreshToken);
+    let current = session;
+    if (record && record.tokenHash !== hashToken(session.refreshToken)) {
+      const latest = unseal<SessionData>(record.sealedSession);
+      if (latest && latest.kind === 'oauth') {
+        current = { ...session, accessToken: latest.accessToken, refreshToken: latest.refreshToken, accessTokenExpiresAt: latest.accessTokenExpiresAt };
+        if (!accessTokenNeedsRefresh(current.accessTokenExpiresAt)) return current;
+      }
+    }
+
+    const config = getOAuthConfig();
+    if (!config) {
+      logger.error('OAuth session found but OAuth is not configured.');
+      return null;
+    }
+    let refreshed: OAuthSession;
+    try {
+      refreshed = { ...current, ...(await refreshTokens(config, current.refreshToken)) };
+    } catch (error) {
+      // リフレッシュトークンが無効になっている場合は、再ログインが必要
+      logger.error('Failed to refresh OAuth access token', { error });
+      return null;
+    }
+
+    if (record) {
+      const previousHash = hashToken(current.refreshToken);
+      await getFile().update(records => {
+        // 更新中に別の認証情報で保存し直されていた場合は書き戻さない
+        const index = records.findIndex(candidate => candidate.accountId === record.accountId && candidate.tokenHash === previousHash);
+        if (index >= 0) {
+          records[index] = toRecord(record.accountId, refreshed, [previousHash, ...records[index].retiredTokenHashes]);
+        }
+      });
+    }
+    return refreshed;
+  });
+
+/**
+ * アカウントの保存済みの認証情報から、Chatwork API の認証情報を返します。
+ * OAuth のアクセストークンの期限が迫っていれば更新して保存し直します。保存していない場合や更新に失敗した場合は null を返します。
+ */
+export const getAccountCredential = async (accountId: number): Promise<ChatworkCredential | null> => {
+  const record = (await getFile().read()).find(candidate => candidate.accountId === accountId);
+  const session = record ? unseal<SessionData>(record.sealedSession) : null;
+  if (!session) return null;
+  if (session.kind === 'token') {
+    return { type: 'token', token: session.token };
+  }
+  if (!accessTokenNeedsRefresh(session.accessTokenExpiresAt)) {
+    return { type: 'oauth', accessToken: session.accessToken };
+  }
+  const refreshed = await refreshOAuthSession(session);
+  return refreshed ? { type: 'oauth', accessToken: refreshed.accessToken } : null;
+};
+
+/**
+ * リフレッシュトークンが保存済みの認証情報に使われているかどうかを返します (ローテーションで置き換えたものを含む)。
+ * ログアウト時に、定期タスクなどが使い続けるトークンを失効させないために使います。
+ */
+export const isStoredRefreshToken = async (refreshToken: string): Promise<boolean> =>
+  (await findByRefreshToken(refreshToken)) !== null;
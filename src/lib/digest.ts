@@ -0,0 +1,192 @@
+// src/lib/digest.ts
+
+// 自分が担当者の未完了のタスクを毎朝まとめて、自分のマイチャットに投稿するダイジェストです。
+// タスクを「期限切れ」「今日まで」「今週中」「来週以降」「期限なし」に分け、Chatwork の [info] 記法で整形します。
+// 本文は送信設定を保存した時の表示言語で作ります。
+// 日付の区切りはサーバーのタイムゾーンによらず、アプリのタイムゾーン (Asia/Tokyo) で判断します。
+
+import { callChatwork, ChatworkApiError, ChatworkCredential } from './chatworkClient';
+import { stripChatworkTags } from './chatworkWebhook';
+import { Clock, systemClock } from './clock';
+import { getAccountCredential } from './credentialStore';
+import { getDigest, listDigests, putDigest, StoredDigest } from './digestStore';
+import { createTranslate, DEFAULT_LOCALE, defaultTranslate, MessageKey, Translate } from './i18n';
+import { logger } from './logger';
+import { nextOccurrence } from './recurrence';
+import { fromZonedParts, toZonedParts, ZonedParts } from './timeZone';
+import type { ApiErrorCode } from '../types/apiError';
+import type { ChatworkRoom } from '../types/chatwork';
+import type { DigestPreview, DigestRun } from '../types/digest';
+import type { RecurrenceRule } from '../types/schedule';
+import type { MyTask } from '../types/task';
+
+/**
+ * ダイジェストの区分
+ */
+export type DigestGroup = 'overdue' | 'today' | 'thisWeek' | 'later' | 'noDeadline';
+
+// 区分の表示順
+const GROUPS: DigestGroup[] = ['overdue', 'today', 'thisWeek', 'later', 'noDeadline'];
+
+// 数字を2桁にゼロ埋めするヘルパー
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+// 指定日からの日数 (offset) だけずらした日の、アプリのタイムゾーンでの 0:00 の Date を返します。
+const startOfDay = (date: Date, offset = 0) => {
+  const parts = toZonedParts(date);
+  return fromZonedParts(parts.year, parts.month, parts.day + offset);
+};
+
+/**
+ * タスクの区分を返します。
+ * 日付のみの期限はその日の終わりまで、日時指定の期限はその時刻までを期限内とします。週は月曜始まりです。
+ */
+export const classifyDigestTask = (task: MyTask, now: Date): DigestGroup => {
+  if (task.limit_type === 'none' || task.limit_time <= 0) return 'noDeadline';
+
+  const limit = new Date(task.limit_time * 1000);
+  const today = startOfDay(now);
+  const tomorrow = startOfDay(now, 1);
+  // 来週の月曜日 0:00
+  const nextMonday = startOfDay(now, 7 - (toZonedParts(now).weekday + 6) % 7);
+
+  if (task.limit_type === 'date' ? startOfDay(limit) < today : limit < now) return 'overdue';
+  if (limit < tomorrow) return 'today';
+  if (limit < nextMonday) return 'thisWeek';
+  return 'later';
+};
+
+// 日付を「10/20(火)」の形式にします。
+const formatDate = (parts: ZonedParts, t: Translate): string =>
+  `${parts.month + 1}/${parts.day}(${t(`weekday.${parts.weekday}` as MessageKey)})`;
+
+// 期限を「10/20(火)」「10/20(火) 17:00」の形式にします。
+const formatLimit = (task: MyTask, t: Translate): string => {
+  const limit = toZonedParts(new Date(task.limit_time * 1000));
+  const date = formatDate(limit, t);
+  return task.limit_type === 'time' ? `${date} ${pad(limit.hours)}:${pad(limit.minutes)}` : date;
+};
+
+/**
+ * タスクの一覧をダイジェストの本文にします。
+ * 区分ごとに期限の早い順で並べ、タスクのない区分は省きます。
+ *
+ * @param tasks - 自分が担当者の未完了のタスク (GET /my/tasks のレスポンス)
+ * @param now - 基準の時刻
+ * @param t - 本文の言語の翻訳関数
+ */
+export const formatDigest = (tasks: MyTask[], now: Date, t: Translate = defaultTranslate): string => {
+  const today = toZonedParts(now);
+  const title = t('digestBody.title', {
+    date: `${today.month + 1}/${today.day}`,
+    weekday: t(`weekday.${today.weekday}` as MessageKey),
+    count: tasks.length,
+  });
+  if (tasks.length === 0) {
+    return `[info][title]${title}[/title]${t('digestBody.empty')}[/info]`;
+  }
+
+  const sorted = tasks.slice().sort((a, b) => (a.limit_time || Infinity) - (b.limit_time || Infinity));
+  const sections = GROUPS
+    .map(group => {
+      const items = sorted.filter(task => classifyDigestTask(task, now) === group);
+      if (items.length === 0) return null;
+      const lines = items.map(task => {
+        const summary = stripChatworkTags(task.body).split('\n')[0];
+        const limit = group === 'noDeadline' ? '' : ` (${formatLimit(task, t)})`;
+        return `・${summary}${limit} - ${task.room.name}`;
+      });
+      const label = t(`digestBody.group.${group}` as MessageKey);
+      return [t('digestBody.section', { label, count: items.length }), ...lines].join('\n');
+    })
+    .filter((section): section is string => section !== null);
+
+  return `[info][title]${title}[/title]${sections.join('\n[hr]')}[/info]`;
+};
+
+/**
+ * ダイジェストの送信時刻の繰り返しのルールを返します。時刻はアプリのタイムゾーンです。
+ */
+export const digestRule = (digest: Pick<StoredDigest, 'time' | 'weekdaysOnly'>): RecurrenceRule =>
+  digest.weekdaysOnly ? { kind: 'weekly', weekdays: [1, 2, 3, 4, 5], time: digest.time } : { kind: 'daily', time: digest.time };
+
+/**
+ * Chatworkから自分の未完了のタスクとマイチャットを取得し、ダイジェストの本文を作ります。
+ * マイチャットが見つからない場合は null を返します。
+ *
+ * @param credential - Chatwork API の認証情報
+ * @param now - 基準の時刻
+ * @param t - 本文の言語の翻訳関数
+ */
+export const buildDigest = async (credential: ChatworkCredential, now: Date, t: Translate = defaultTranslate): Promise<DigestPreview | null> => {
+  const { data: rooms } = await callChatwork<ChatworkRoom[]>(credential, '/rooms');
+  const myChat = rooms.find(room => room.type === 'my');
+  if (!myChat) return null;
+  // 該当するタスクがない場合、Chatwork APIはボディなしの204を返す
+  const { data: tasks } = await callChatwork<MyTask[] | null>(credential, '/my/tasks', { query: { status: 'open' } });
+  return { roomId: myChat.room_id, body: formatDigest(tasks ?? [], now, t), taskCount: (tasks ?? []).length };
+};
+
+/**
+ * ダイジェストをマイチャットに投稿します。
+ * @returns 投稿したメッセージのID
+ */
+export const postDigest = async (credential: ChatworkCredential, digest: DigestPreview): Promise<string> => {
+  const { data } = await callChatwork<{ message_id: string }>(credential, `/rooms/${digest.roomId}/messages`, {
+    method: 'POST',
+    form: new URLSearchParams({ body: digest.body }),
+  });
+  return data.message_id;
+};
+
+// 送信設定をしたアカウントの保存済みの認証情報でダイジェストを作って投稿し、結果を返します。
+// 失敗した場合の表示は画面で表示言語にするため、結果にはエラーの種類 (code) と英語の説明を記録します。
+const executeDigest = async (digest: StoredDigest, now: Date): Promise<DigestRun> => {
+  const failed = (code: ApiErrorCode, error: string): DigestRun =>
+    ({ at: now.getTime(), ok: false, taskCount: 0, messageId: null, error, code });
+
+  const credential = await getAccountCredential(digest.ownerAccountId);
+  if (!credential) {
+    logger.error('Scheduler Error: Credential for digest is invalid.', { ownerAccountId: digest.ownerAccountId });
+    return failed('credential_invalid', 'Saved Chatwork credential is invalid.');
+  }
+
+  try {
+    const preview = await buildDigest(credential, now, createTranslate(digest.locale ?? DEFAULT_LOCALE));
+    if (!preview) return failed('my_chat_not_found', 'My chat room not found.');
+    const messageId = await postDigest(credential, preview);
+    return { at: now.getTime(), ok: true, taskCount: preview.taskCount, messageId, error: null, code: null };
+  } catch (error: any) {
+    logger.error('Scheduler Error: Failed to send digest', { ownerAccountId: digest.ownerAccountId, error });
+    return error instanceof ChatworkApiError
+      ? failed(error.toBody().code, error.message)
+      : failed('internal_error', 'Internal server error.');
+  }
+};
+
+/**
+ * 送信時刻を過ぎたダイジェストをすべて送信し、結果と次回の送信時刻を記録します。
+ * サーバーが止まっていて複数回分の送信時刻を過ぎていた場合も、送信は1回だけにします。
+ *
+ * @returns 送信したアカウントのIDと結果
+ */
+export const runDueDigests = async (clock: Clock = systemClock): Promise<{ ownerAccountId: number; run: DigestRun }[]> => {
+  const now = clock.now().getTime();
+  const due = (await listDigests()).filter(digest => digest.enabled && digest.nextRunAt !== null && digest.nextRunAt <= now);
+
+  const results: { ownerAccountId: number; run: DigestRun }[] = [];
+  for (let index = 0; index < due.length; index++) {
+    const run = await executeDigest(due[index], clock.now());
+    // 送信中に設定が変更されている場合に備えて、最新の設定に結果だけを反映する
+    const latest = await getDigest(due[index].ownerAccountId);
+    if (latest) {
+      await putDigest({
+        ...latest,
+        lastRun: run,
+        nextRunAt: latest.enabled ? nextOccurrence(digestRule(latest), clock.now()).getTime() : null,
+      });
+    }
+    results.push({ ownerAccountId: due[index].ownerAccountId, run });
+  }
+  return results;
+};
@@ -0,0 +1,74 @@
+// src/lib/digestStore.ts
+
+// 毎日のダイジェストの送信設定を保存するサーバー側のファイルストアです。アカウントごとに1件保存します。
+// 送信時に使う認証情報は、アカウントの保存済みの認証情報 (credentialStore) を使うため、ここには保存しません。
+// 保存先は環境変数 DIGESTS_FILE で変更できます (既定: .data/digests.json)。
+
+import path from 'path';
+import type { Locale } from './i18n';
+import { createJsonFile, JsonFile } from './jsonFile';
+import type { DigestSettings } from '../types/digest';
+
+/**
+ * ストアに保存する送信設定
+ */
+export interface StoredDigest extends DigestSettings {
+  // ダイジェストの本文の言語 (設定を保存した時の表示言語)。以前に保存した設定にはないため、その場合は日本語にする
+  locale?: Locale;
+}
+
+/**
+ * 保存先のファイルパスを返します。環境変数 DIGESTS_FILE が設定されていればそれを使います。
+ */
+export const getDigestsFilePath = (): string =>
+  process.env.DIGESTS_FILE || path.join(process.cwd(), '.data', 'digests.json');
+
+// 開発サーバーのホットリロードでも同じファイルに対して1つの読み書き口を使うよう、globalThisに保持する
+const globalFiles = globalThis as typeof globalThis & { __digestFiles?: Map<string, JsonFile<StoredDigest[]>> };
+const files: Map<string, JsonFile<StoredDigest[]>> = globalFiles.__digestFiles ?? (globalFiles.__digestFiles = new Map());
+
+const getFile = (): JsonFile<StoredDigest[]> => {
+  const filePath = getDigestsFilePath();
+  let file = files.get(filePath);
+  if (!file) {
+    file = createJsonFile<StoredDigest[]>(filePath, () => []);
+    files.set(filePath, file);
+  }
+  return file;
+};
+
+/**
+ * すべてのアカウントの送信設定を返します。
+ */
+export const listDigests = (): Promise<StoredDigest[]> => getFile().read();
+
+/**
+ * アカウントの送信設定を返します。設定していない場合は null を返します。
+ */
+export const getDigest = async (ownerAccountId: number): Promise<StoredDigest | null> =>
+  (await getFile().read()).find(digest => digest.ownerAccountId === ownerAccountId) ?? null;
+
+/**
+ * 送信設定を保存します。同じアカウントの設定があれば置き換えます。
+ */
+export const putDigest = (digest: StoredDigest): Promise<void> =>
+  getFile().update(digests => {
+    const index = digests.findIndex(d => d.ownerAccountId === digest.ownerAccountId);
+    if (index >= 0) {
+      digests[index] = digest;
+    } else {
+      digests.push(digest);
+    }
+  });
+
+/**
+ * クライアントに返す形式にします。
+ */
+export const toPublicDigest = (digest: StoredDigest): DigestSettings => ({
+  ownerAccountId: digest.ownerAccountId,
+  enabled: digest.enabled,
+  time: digest.time,
+  weekdaysOnly: digest.weekdaysOnly,
+  nextRunAt: digest.nextRunAt,
+  lastRun: digest.lastRun,
+});
@@ -0,0 +1,179 @@
+// src/lib/dueDate.ts
+
+// タスク期限の日付計算と、日本語の自然文による期限指定 (「明日17時」「来週金曜」「3日後」など) の解釈を行うモジュールです。
+
+import { defaultTranslate, Translate } from './i18n';
+import type { LimitType } from '../types/chatwork';
+
+/**
+ * フォームで扱う期限の入力値
+ * date は YYYY-MM-DD、time は HH:MM 形式の文字列 (input[type=date] / input[type=time] の値) です。
+ */
+export interface Deadline {
+  limitType: LimitType;
+  date: string;
+  time: string;
+}
+
+/**
+ * 自然文から解釈した期限
+ * hasTime が false の場合は日付のみの指定で、date の時刻部分は 0:00 になります。
+ */
+export interface ParsedDueDate {
+  date: Date;
+  hasTime: boolean;
+}
+
+// 曜日の表記と Date#getDay() の値の対応 (日曜=0)
+const WEEKDAYS: Record<string, number> = { 日: 0, 月: 1, 火: 2, 水: 3, 木: 4, 金: 5, 土: 6 };
+
+// 数字を2桁にゼロ埋めするヘルパー
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+// 全角数字・全角記号を半角に変換し、連続する空白を1つにまとめます。
+// 空白は「10/31 9:30」のように日付と時刻の区切りになるため、ここでは取り除きません。
+const normalize = (text: string) =>
+  text
+    .replace(/[０-９：／－]/g, ch => String.fromCharCode(ch.charCodeAt(0) - 0xfee0))
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// 指定日の 0:00 の Date を返します。
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+// 指定日に日数を加算した Date を返します (時刻は 0:00)。
+const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+/**
+ * Date を input[type=date] 用の YYYY-MM-DD 文字列に変換します。
+ */
+export const formatDateInput = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+/**
+ * Date を input[type=time] 用の HH:MM 文字列に変換します。
+ */
+export const formatTimeInput = (date: Date) => `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+
+/**
+ * 期限の初期値 (現在時刻の1週間後、日時指定) を返します。
+ */
+export const defaultDeadline = (now: Date = new Date()): Deadline => {
+  const oneWeekLater = new Date(now.getTime() + 1000 * 60 * 60 * 24 * 7);
+  return { limitType: 'time', date: formatDateInput(oneWeekLater), time: formatTimeInput(oneWeekLater) };
+};
+
+/**
+ * 日付部分の表現を解釈し、該当日の 0:00 を返します。解釈できない場合は null を返します。
+ * @param text - 正規化済みの日付表現 (時刻部分を除いたもの)
+ * @param today - 基準日 (0:00)
+ */
+const parseDatePart = (text: string, today: Date): Date | null => {
+  // 日付の指定がない場合 (「17時」のみなど) は今日とみなす
+  if (text === '' || text === '今日' || text === '本日') return today;
+  if (text === '明日') return addDays(today, 1);
+  if (text === '明後日' || text === 'あさって') return addDays(today, 2);
+
+  // 「3日後」「2週間後」
+  let match = text.match(/^(\d+)日後$/);
+  if (match) return addDays(today, parseInt(match[1], 10));
+  match = text.match(/^(\d+)週間?後$/);
+  if (match) return addDays(today, parseInt(match[1], 10) * 7);
+
+  // 「今月末」「来月末」
+  if (text === '月末' || text === '今月末') return new Date(today.getFullYear(), today.getMonth() + 1, 0);
+  if (text === '来月末') return new Date(today.getFullYear(), today.getMonth() + 2, 0);
+
+  // 「来週金曜」「今週金曜日」「再来週月曜」「金曜」
+  match = text.match(/^(今週|来週|再来週)?([日月火水木金土])曜?日?$/);
+  if (match) {
+    const target = WEEKDAYS[match[2]];
+    if (!match[1]) {
+      // 週の指定がない場合は、今日以降で最初にその曜日になる日
+      return addDays(today, (target - today.getDay() + 7) % 7);
+    }
+    // 週は月曜始まりとして扱う (月曜=0 … 日曜=6)
+    const mondayOffset = (today.getDay() + 6) % 7;
+    const weekOffset = { 今週: 0, 来週: 1, 再来週: 2 }[match[1] as '今週' | '来週' | '再来週'];
+    const monday = addDays(today, -mondayOffset + weekOffset * 7);
+    return addDays(monday, (target + 6) % 7);
+  }
+
+  // 「2026-10-31」「2026/10/31」「2026年10月31日」
+  match = text.match(/^(\d{4})[-/年](\d{1,2})[-/月](\d{1,2})日?$/);
+  if (match) {
+    const date = new Date(parseInt(match[1], 10), parseInt(match[2], 10) - 1, parseInt(match[3], 10));
+    return date.getMonth() === parseInt(match[2], 10) - 1 ? date : null;
+  }
+
+  // 「10/31」「10月31日」(過ぎている場合は翌年)
+  match = text.match(/^(\d{1,2})[/月](\d{1,2})日?$/);
+  if (match) {
+    const month = parseInt(match[1], 10) - 1;
+    const day = parseInt(match[2], 10);
+    let date = new Date(today.getFullYear(), month, day);
+    if (date.getMonth() !== month) return null;
+    if (date < today) date = new Date(today.getFullYear() + 1, month, day);
+    return date;
+  }
+
+  return null;
+};
+
+/**
+ * 日本語の自然文による期限指定を解釈します。
+ * 「明日17時」「来週金曜」「3日後」「10/31 9:30」「午後3時半」などに対応します。
+ *
+ * @param input - ユーザーが入力した期限の文字列
+ * @param now - 基準となる現在時刻 (省略時は現在時刻)
+ * @returns 解釈した期限。解釈できない場合は null。
+ */
+export const parseJapaneseDueDate = (input: string, now: Date = new Date()): ParsedDueDate | null => {
+  const text = normalize(input);
+  if (!text) return null;
+
+  // 末尾の時刻表現 (「17時」「17時30分」「5時半」「17:30」、先頭に「午前」「午後」が付く場合もある) を切り出す
+  const timeMatch = text.match(/(午前|午後)?(\d{1,2})(?:時(?:(\d{1,2})分|(半))?|:(\d{2}))(まで)?$/);
+  let datePart = text.replace(/まで$/, '').replace(/\s/g, '');
+  let hours = 0;
+  let minutes = 0;
+  if (timeMatch) {
+    datePart = text.slice(0, timeMatch.index).replace(/\s/g, '').replace(/の$/, '');
+    hours = parseInt(timeMatch[2], 10);
+    minutes = timeMatch[4] ? 30 : parseInt(timeMatch[3] || timeMatch[5] || '0', 10);
+    if (timeMatch[1] === '午後' && hours < 12) hours += 12;
+    if (timeMatch[1] === '午前' && hours === 12) hours = 0;
+    if (hours > 23 || minutes > 59) return null;
+  }
+
+  const date = parseDatePart(datePart, startOfDay(now));
+  if (!date) return null;
+  // 時刻も日付も指定のない表現 (空文字列) は期限として扱わない
+  if (!timeMatch && datePart === '') return null;
+
+  date.setHours(hours, minutes, 0, 0);
+  return { date, hasTime: !!timeMatch };
+};
+
+/**
+ * 期限の入力値を Chatwork API の limit パラメータ (Unixタイムスタンプ秒) に変換します。
+ * 期限なしの場合や日付が未入力の場合は null を返します。
+ */
+export const deadlineToUnix = (deadline: Deadline): number | null => {
+  if (deadline.limitType === 'none' || !deadline.date) return null;
+  const [year, month, day] = deadline.date.split('-').map(n => parseInt(n, 10));
+  const [hours, minutes] = deadline.limitType === 'time' && deadline.time
+    ? deadline.time.split(':').map(n => parseInt(n, 10))
+    : [0, 0];
+  const date = new Date(year, month - 1, day, hours, minutes);
+  return isNaN(date.getTime()) ? null : Math.floor(date.getTime() / 1000);
+};
+
+/**
+ * 期限をプレビュー表示用の文字列 (例: 2026/10/23(金) 17:00) に整形します。
+ * 曜日は t で表示言語に合わせます (省略時は日本語)。
+ */
+export const formatDeadlineLabel = (date: Date, hasTime: boolean, t: Translate = defaultTranslate) => {
+  const weekday = t(`weekday.${date.getDay()}` as 'weekday.0');
+  const label = `${date.getFullYear()}/${pad(date.getMonth() + 1)}/${pad(date.getDate())}(${weekday})`;
+  return hasTime ? `${label} ${formatTimeInput(date)}` : label;
+};
@@ -0,0 +1,138 @@
+// src/lib/i18n.ts
+
+// 画面の表示言語 (日本語・英語) を扱うモジュールです。
+// 表示言語は、利用者が画面で選んだ言語 (locale Cookie) を優先し、選んでいない場合はブラウザの Accept-Language から決めます。
+// メッセージは src/locales の言語ごとのカタログから取り出し、`{name}` の部分を値に置き換えて表示します。
+// サーバー (layout.tsx) とクライアントの両方から使うため、Next.js やブラウザの機能には依存しません。
+
+import en from '../locales/en';
+import ja, { MessageKey } from '../locales/ja';
+import { API_ERROR_CODES, ApiErrorCode } from '../types/apiError';
+
+export type { MessageKey };
+
+/**
+ * 表示言語
+ */
+export type Locale = 'ja' | 'en';
+
+export const LOCALES: Locale[] = ['ja', 'en'];
+
+// どの言語にも当てはまらない場合の表示言語
+export const DEFAULT_LOCALE: Locale = 'ja';
+
+/**
+ * 画面で選んだ表示言語を保存するCookie (サーバーが <html lang> を決めるため、localStorage ではなくCookieに保存する)
+ */
+export const LOCALE_COOKIE_NAME = 'locale';
+
+/**
+ * メッセージの `{name}` に埋め込む値
+ */
+export type MessageParams = Record<string, string | number>;
+
+/**
+ * メッセージのキーから、表示言語のメッセージを返す関数 (useI18n の t)
+ */
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+const CATALOGS: Record<Locale, Record<MessageKey, string>> = { ja, en };
+
+/**
+ * 値が対応している表示言語かどうか
+ */
+export const isLocale = (value: unknown): value is Locale => LOCALES.indexOf(value as Locale) >= 0;
+
+/**
+ * Accept-Language ヘッダーから表示言語を決めます。
+ * 品質値 (q) の高い順に、対応している言語 (地域の指定は無視する) を探し、見つからない場合は日本語にします。
+ *
+ * @param acceptLanguage - Accept-Language ヘッダーの値 (例: `en-US,en;q=0.9,ja;q=0.8`)
+ */
+export const negotiateLocale = (acceptLanguage: string | null | undefined): Locale => {
+  if (!acceptLanguage) return DEFAULT_LOCALE;
+  const ranges = acceptLanguage.split(',').map((part, index) => {
+    const [tag, ...options] = part.trim().split(';');
+    const quality = options.map(option => option.trim()).filter(option => option.startsWith('q='))[0];
+    const q = quality ? parseFloat(quality.substring(2)) : 1;
+    return { language: tag.trim().toLowerCase().split('-')[0], q: isNaN(q) ? 0 : q, index };
+  });
+  // 品質値が同じ場合は、ヘッダーに書かれた順にする
+  ranges.sort((a, b) => b.q - a.q || a.index - b.index);
+  for (let index = 0; index < ranges.length; index++) {
+    if (ranges[index].q > 0 && isLocale(ranges[index].language)) return ranges[index].language as Locale;
+  }
+  return DEFAULT_LOCALE;
+};
+
+/**
+ * 画面で選んだ表示言語 (Cookie) を優先し、選んでいない場合は Accept-Language から表示言語を決めます。
+ */
+export const resolveLocale = (cookieValue: string | null | undefined, acceptLanguage: string | null | undefined): Locale =>
+  isLocale(cookieValue) ? cookieValue : negotiateLocale(acceptLanguage);
+
+/**
+ * 表示言語のメッセージを返します。
+ * カタログにないキーは日本語のメッセージ、それもない場合はキーそのものを返します。
+ * `{name}` の部分は params の値に置き換えます (params にない名前はそのまま残す)。
+ */
+export const translate = (locale: Locale, key: MessageKey, params?: MessageParams): string => {
+  const template = CATALOGS[locale][key] ?? ja[key] ?? key;
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (whole, name: string) => (name in params ? String(params[name]) : whole));
+};
+
+/**
+ * 表示言語を固定した翻訳関数を返します。
+ * サーバーで、画面を開いていない利用者に向けた文字列 (ダイジェストの本文など) を、保存した表示言語で作るときに使います。
+ */
+export const createTranslate = (locale: Locale): Translate => (key, params) => translate(locale, key, params);
+
+/**
+ * 表示言語を指定せずに使う場合の翻訳関数 (日本語)
+ * 表示用の文字列を返すライブラリの関数で、翻訳関数を省略した場合に使います。
+ */
+export const defaultTranslate: Translate = createTranslate(DEFAULT_LOCALE);
+
+/**
+ * APIルートのエラーレスポンス (またはその一部) の内容
+ */
+export interface ApiErrorLike {
+  error?: string | null;
+  code?: string | null;
+  rateLimitReset?: number | null;
+}
+
+/**
+ * 値が APIルートのエラーの種類かどうか
+ */
+export const isApiErrorCode = (value: unknown): value is ApiErrorCode =>
+  API_ERROR_CODES.indexOf(value as ApiErrorCode) >= 0;
+
+/**
+ * APIルートのエラーレスポンスを、表示言語のメッセージにします。
+ * エラーの種類 (code) が分かる場合はそのメッセージを、分からない場合 (古いサーバーなど) は英語の説明をそのまま表示します。
+ * status が null の場合は、APIルートまで届かなかった通信エラーとして扱います。
+ *
+ * @param t - 翻訳関数
+ * @param body - エラーレスポンスのボディ
+ * @param status - HTTPステータス
+ */
+export const describeApiError = (t: Translate, body: ApiErrorLike | null | undefined, status: number | null): string => {
+  const detail = body?.error ?? '';
+  if (status === null) return t('apiError.network', { detail });
+  const code = body?.code;
+  if (code === 'chatwork_rate_limited' && body?.rateLimitReset) {
+    return t('apiError.rateLimitedUntil', { time: new Date(body.rateLimitReset * 1000).toLocaleTimeString() });
+  }
+  if (isApiErrorCode(code)) return t(`apiError.${code}` as MessageKey, { detail });
+  return detail ? t('apiError.unknown', { status, detail }) : t('apiError.http', { status });
+};
+
+/**
+ * fetch したAPIルートのエラーレスポンスを読み取り、表示言語のメッセージにします (ボディがJSONでない場合も扱う)。
+ */
+export const readApiError = async (t: Translate, response: Response): Promise<string> => {
+  const body = await response.json().catch(() => null);
+  return describeApiError(t, body, response.status);
+};
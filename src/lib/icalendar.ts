@@ -0,0 +1,154 @@
+// src/lib/icalendar.ts
+
+// 自分が担当者のタスクを、カレンダーアプリで購読できる iCalendar (RFC 5545) 形式に変換するモジュールです。
+// 日時指定の期限のタスクは期限 (DUE) 付きの VTODO、日付のみの期限のタスクは終日の VEVENT、期限なしのタスクは期限のない VTODO にします。
+// 日時は Chatwork の表示と揃えて Asia/Tokyo で表します。説明やカレンダーの名前は、フィードを発行した時の表示言語で作ります。
+
+import { chatworkMessageUrl } from './chatworkLinks';
+import { stripChatworkTags } from './chatworkWebhook';
+import { defaultTranslate, Translate } from './i18n';
+import { APP_TIMEZONE, toZonedParts } from './timeZone';
+import type { MyTask } from '../types/task';
+
+// カレンダーのタイムゾーン (アプリのタイムゾーンと同じ)
+export const CALENDAR_TIMEZONE = APP_TIMEZONE;
+
+// カレンダーを作成した製品の識別子
+const PRODUCT_ID = '-//chatwork-task-memo//Chatwork Tasks//JA';
+
+// 1行の最大長 (オクテット)。超える場合は折り返す
+const MAX_LINE_OCTETS = 75;
+
+// Asia/Tokyo のタイムゾーン定義 (1951年以降、夏時間なし)
+const TOKYO_VTIMEZONE = [
+  'BEGIN:VTIMEZONE',
+  `TZID:${CALENDAR_TIMEZONE}`,
+  'BEGIN:STANDARD',
+  'DTSTART:19510908T000000',
+  'TZOFFSETFROM:+0900',
+  'TZOFFSETTO:+0900',
+  'TZNAME:JST',
+  'END:STANDARD',
+  'END:VTIMEZONE',
+];
+
+// 数字を指定の桁数にゼロ埋めするヘルパー
+const pad = (n: number, width = 2) => n.toString().padStart(width, '0');
+
+/**
+ * テキストの値をエスケープします (バックスラッシュ・セミコロン・カンマ・改行)。
+ */
+export const escapeText = (value: string): string =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+/**
+ * 75オクテットを超える行を、CRLFと空白1文字で折り返します。マルチバイト文字の途中では折り返しません。
+ */
+export const foldLine = (line: string): string => {
+  let folded = '';
+  let octets = 0;
+  for (let index = 0; index < line.length; index++) {
+    const code = line.charCodeAt(index);
+    // サロゲートペアは2つで1文字 (4オクテット)
+    const isPair = code >= 0xd800 && code <= 0xdbff && index + 1 < line.length;
+    const ch = isPair ? line.substr(index, 2) : line.charAt(index);
+    const size = isPair ? 4 : code < 0x80 ? 1 : code < 0x800 ? 2 : 3;
+    if (octets + size > MAX_LINE_OCTETS) {
+      folded += '\r\n ';
+      // 折り返した行は先頭の空白を含めて数える
+      octets = 1;
+    }
+    folded += ch;
+    octets += size;
+    if (isPair) index++;
+  }
+  return folded;
+};
+
+// Unixタイムスタンプ (秒) を Asia/Tokyo の日付・時刻の各要素にします。
+const toTokyoParts = (unix: number) => {
+  const parts = toZonedParts(new Date(unix * 1000));
+  return {
+    date: `${parts.year}${pad(parts.month + 1)}${pad(parts.day)}`,
+    time: `${pad(parts.hours)}${pad(parts.minutes)}${pad(parts.seconds)}`,
+  };
+};
+
+/**
+ * Date を UTC の日時 (例: 20261019T010000Z) にします (DTSTAMP などに使用)。
+ */
+export const formatUtcDateTime = (date: Date): string =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T` +
+  `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+
+// 日付 (YYYYMMDD) の翌日を返します (終日の予定の DTEND に使用)。
+const nextDay = (date: string): string => {
+  const next = new Date(Date.UTC(parseInt(date.slice(0, 4), 10), parseInt(date.slice(4, 6), 10) - 1, parseInt(date.slice(6, 8), 10) + 1));
+  return `${next.getUTCFullYear()}${pad(next.getUTCMonth() + 1)}${pad(next.getUTCDate())}`;
+};
+
+/**
+ * タスクのIDから、カレンダーの項目のUIDを作ります。同じタスクは何度取得しても同じUIDになります。
+ */
+export const taskUid = (taskId: number): string => `chatwork-task-${taskId}@chatwork-task-memo`;
+
+// タスク1件分の VTODO / VEVENT の行
+const taskComponent = (task: MyTask, stamp: string, t: Translate): string[] => {
+  const text = stripChatworkTags(task.body);
+  const summary = text.split('\n')[0] || text;
+  const description = [
+    t('calendarBody.room', { name: task.room.name }),
+    t('calendarBody.assignedBy', { name: task.assigned_by_account.name }),
+    '',
+    text,
+  ].join('\n');
+  const common = [
+    `UID:${taskUid(task.task_id)}`,
+    `DTSTAMP:${stamp}`,
+    `SUMMARY:${escapeText(summary)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    `URL:${chatworkMessageUrl(task.room.room_id, task.message_id)}`,
+    `CATEGORIES:${escapeText(task.room.name)}`,
+  ];
+
+  // 日付のみの期限は、期限日の終日の予定にする
+  if (task.limit_type === 'date' && task.limit_time > 0) {
+    const { date } = toTokyoParts(task.limit_time);
+    return ['BEGIN:VEVENT', ...common, `DTSTART;VALUE=DATE:${date}`, `DTEND;VALUE=DATE:${nextDay(date)}`, 'TRANSP:TRANSPARENT', 'END:VEVENT'];
+  }
+
+  const due: string[] = [];
+  if (task.limit_type === 'time' && task.limit_time > 0) {
+    const { date, time } = toTokyoParts(task.limit_time);
+    due.push(`DUE;TZID=${CALENDAR_TIMEZONE}:${date}T${time}`);
+  }
+  return ['BEGIN:VTODO', ...common, ...due, 'STATUS:NEEDS-ACTION', 'END:VTODO'];
+};
+
+/**
+ * タスクの一覧を iCalendar の文字列にします。行はCRLFで区切り、75オクテットを超える行は折り返します。
+ *
+ * @param tasks - 自分が担当者の未完了のタスク (GET /my/tasks のレスポンス)
+ * @param now - DTSTAMP に使う時刻
+ * @param t - 説明やカレンダーの名前の言語の翻訳関数
+ */
+export const buildTasksCalendar = (tasks: MyTask[], now: Date = new Date(), t: Translate = defaultTranslate): string => {
+  const stamp = formatUtcDateTime(now);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(t('calendarBody.name'))}`,
+    `X-WR-TIMEZONE:${CALENDAR_TIMEZONE}`,
+    ...TOKYO_VTIMEZONE,
+  ];
+  tasks.forEach(task => lines.push(...taskComponent(task, stamp, t)));
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
@@ -0,0 +1,85 @@
+// src/lib/idempotencyStore.ts
+
+// タスク作成APIルートで `Idempotency-Key` ヘッダーを扱うためのサーバー側のインメモリストアです。
+// タイムアウト後の再送などで同じキーのリクエストが再び届いた場合、Chatworkには送らずに前回の結果を返します。
+// キーはクライアントが決めるため、認証情報ごとに分けて保存し、他の利用者の結果を返さないようにします。
+
+import crypto from 'crypto';
+import type { ChatworkCredential } from './chatworkClient';
+
+// 結果を保持する期間 (24時間)
+const ENTRY_TTL_MS = 1000 * 60 * 60 * 24;
+
+/**
+ * キーに対応して保存されるレスポンスの内容
+ */
+export interface IdempotentResponse {
+  status: number;
+  body: unknown;
+  // レスポンスに付けるヘッダー (レート制限の状態など)
+  headers?: Record<string, string>;
+}
+
+interface Entry {
+  // 処理中のリクエストの結果 (処理中に同じキーが届いた場合はこれを待つ)
+  promise: Promise<IdempotentResponse>;
+  expiresAt: number;
+}
+
+// 開発サーバーのホットリロードでストアが消えないよう、globalThisに保持する
+const globalStore = globalThis as typeof globalThis & { __idempotencyStore?: Map<string, Entry> };
+const store: Map<string, Entry> = globalStore.__idempotencyStore ?? (globalStore.__idempotencyStore = new Map());
+
+// 期限切れのエントリを削除します。
+const sweep = (now: number) => {
+  store.forEach((entry, key) => {
+    if (entry.expiresAt <= now) store.delete(key);
+  });
+};
+
+/**
+ * クライアントから送られたキーを、認証情報ごとのキーにします (トークンのSHA-256ハッシュ値を前に付ける)。
+ * 別の利用者がたまたま同じキーを送っても、その利用者の結果を返したり、処理を省いたりしないようにするために使います。
+ * OAuth の場合はアクセストークンを更新すると別のキーとして扱うため、更新をまたいだ再送は重複を防げません。
+ *
+ * @param credential - リクエストの認証情報
+ * @param key - クライアントから送られた Idempotency-Key (必要に応じてルームIDなどを含めたもの)
+ */
+export const scopeIdempotencyKey = (credential: ChatworkCredential, key: string): string => {
+  const token = credential.type === 'token' ? credential.token : credential.accessToken;
+  return `${crypto.createHash('sha256').update(token).digest('hex')}:${key}`;
+};
+
+/**
+ * キーに対して一度だけ処理を実行します。
+ * 同じキーで呼ばれた場合は、前回 (または処理中) の結果を返し、replayed を true にします。
+ * 2xx以外の結果は保存しないため、失敗したリクエストは同じキーで再試行できます。
+ *
+ * @param key - scopeIdempotencyKey で認証情報ごとに分けたキー
+ * @param run - 実際の処理 (Chatwork APIへのリクエスト)
+ */
+export const runOnce = async (
+  key: string,
+  run: () => Promise<IdempotentResponse>,
+): Promise<{ response: IdempotentResponse; replayed: boolean }> => {
+  const now = Date.now();
+  sweep(now);
+
+  const existing = store.get(key);
+  if (existing) {
+    return { response: await existing.promise, replayed: true };
+  }
+
+  const promise = run();
+  store.set(key, { promise, expiresAt: now + ENTRY_TTL_MS });
+  try {
+    const response = await promise;
+    if (response.status < 200 || response.status >= 300) {
+      store.delete(key);
+    }
+    return { response, replayed: false };
+  } catch (error) {
+    store.delete(key);
+    throw error;
+  }
+};
@@ -0,0 +1,50 @@
+// src/lib/indexedDb.ts
+
+// ブラウザの IndexedDB にアクセスするための共通処理です。
+// 送信待ちキュー (outbox) と送信履歴 (history) は、同じデータベースの別のストアに保存します。
+
+// IndexedDBのデータベース名・バージョン
+// バージョン2で送信履歴のストアを追加
+const DB_NAME = 'chatworkTaskMemo';
+const DB_VERSION = 2;
+
+/**
+ * ストア名
+ */
+export const OUTBOX_STORE = 'outbox';
+export const HISTORY_STORE = 'history';
+
+// データベースを開きます (初回やバージョンが上がった時は、足りないストアを作成)。
+const openDb = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      [OUTBOX_STORE, HISTORY_STORE].forEach(name => {
+        if (!request.result.objectStoreNames.contains(name)) {
+          request.result.createObjectStore(name, { keyPath: 'id' });
+        }
+      });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * ストアに対して1回の操作を行い、その結果を返します。
+ */
+export const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> => {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = operation(db.transaction(storeName, mode).objectStore(storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
@@ -0,0 +1,61 @@
+// src/lib/jsonFile.ts
+
+// サーバー側で小さなデータをJSONファイルに保存するための共通処理です (定期タスク・Webhookで受け取ったイベントなど)。
+// 読み書きは1つずつ順番に行い、同時に届いた変更が互いを上書きしないようにします。
+// 書き込み中にプロセスが止まってもファイルが壊れないよう、一時ファイルに書いてから置き換えます。
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * JSONファイルに保存したデータ
+ */
+export interface JsonFile<T> {
+  // 現在の内容を読み込む (ファイルがまだない場合は初期値)
+  read: () => Promise<T>;
+  // 内容を読み込んで変更し、書き戻す。mutate の戻り値をそのまま返す
+  update: <R>(mutate: (data: T) => R) => Promise<R>;
+}
+
+/**
+ * JSONファイルに保存するデータを作ります。
+ * @param filePath - 保存先のファイルパス (ディレクトリがなければ作成する)
+ * @param initial - ファイルがまだない場合の初期値を返す関数
+ */
+export const createJsonFile = <T>(filePath: string, initial: () => T): JsonFile<T> => {
+  // 処理待ちの読み書きの末尾
+  let queue: Promise<unknown> = Promise.resolve();
+  const serialize = <R>(task: () => Promise<R>): Promise<R> => {
+    const result = queue.then(task, task);
+    queue = result.catch(() => undefined);
+    return result;
+  };
+
+  const read = async (): Promise<T> => {
+    try {
+      return JSON.parse(await fs.readFile(filePath, 'utf8'));
+    } catch (error: any) {
+      // まだ1度も保存していない場合
+      if (error.code === 'ENOENT') return initial();
+      throw error;
+    }
+  };
+
+  const write = async (data: T) => {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    const tmpPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(data, null, 2), 'utf8');
+    await fs.rename(tmpPath, filePath);
+  };
+
+  return {
+    read: () => serialize(read),
+    update: mutate =>
+      serialize(async () => {
+        const data = await read();
+        const result = mutate(data);
+        await write(data);
+        return result;
+      }),
+  };
+};
@@ -0,0 +1,153 @@
+// src/lib/logger.ts
+
+// サーバー側の構造化ログを出力するモジュールです。
+// ログは1件ずつ1行のJSONで出力し、APIルートの処理中に出したログにはリクエストIDを付けます。
+// タスク本文やトークンなどの機密情報は、既定で [REDACTED] に置き換えてから出力します。
+
+import { AsyncLocalStorage } from 'async_hooks';
+import crypto from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * ログのレベル (環境変数 LOG_LEVEL で、これより低いレベルのログを出さないようにできる。既定は info)
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+/**
+ * リクエストIDを受け渡すヘッダー
+ * クライアントが指定した場合はその値を使い、レスポンスにも同じ値を返します。
+ */
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+// クライアントが指定したリクエストIDとして受け付ける形式 (ログを壊す値や長すぎる値は使わない)
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._-]{1,128}$/;
+
+// 置き換え後の値
+const REDACTED = '[REDACTED]';
+
+// 常に伏せる項目 (認証情報)。小文字で比較する
+const SECRET_KEYS = [
+  'token',
+  'access_token',
+  'accesstoken',
+  'refresh_token',
+  'refreshtoken',
+  'authorization',
+  'x-chatworktoken',
+  'cookie',
+  'set-cookie',
+  'client_secret',
+  'code',
+  'secret',
+  'key',
+  'sealedsession',
+];
+
+// タスク本文・メッセージなど、利用者が書いた内容の項目。環境変数 LOG_TASK_BODIES を true にした場合だけそのまま出す
+const CONTENT_KEYS = ['body', 'message', 'text', 'details'];
+
+// 処理中のリクエストの情報 (APIルートの処理から呼ばれた関数でも、引数で受け渡さずにリクエストIDを付けるため)
+const requestContext = new AsyncLocalStorage<{ requestId: string }>();
+
+const minimumLevel = (): LogLevel => {
+  const level = process.env.LOG_LEVEL as LogLevel;
+  return LOG_LEVELS.includes(level) ? level : 'info';
+};
+
+/**
+ * ログに出す値から機密情報を伏せます。オブジェクトや配列は中の項目も伏せた新しい値を返します。
+ * Error は名前とメッセージに変換します。
+ */
+export const redact = (value: unknown, key: string | null = null, depth = 0): unknown => {
+  const lowerKey = key?.toLowerCase() ?? null;
+  if (lowerKey !== null && SECRET_KEYS.includes(lowerKey)) {
+    return value == null ? value : REDACTED;
+  }
+  if (lowerKey !== null && CONTENT_KEYS.includes(lowerKey) && process.env.LOG_TASK_BODIES !== 'true') {
+    return typeof value === 'string' ? `${REDACTED} (${value.length} chars)` : value == null ? value : REDACTED;
+  }
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message };
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  // 循環参照や深すぎる値で止まらないよう、深さを制限する
+  if (depth >= 5) {
+    return '[Object]';
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redact(item, null, depth + 1));
+  }
+  const result: Record<string, unknown> = {};
+  Object.keys(value).forEach(name => {
+    result[name] = redact((value as Record<string, unknown>)[name], name, depth + 1);
+  });
+  return result;
+};
+
+// 1件のログを1行のJSONとして出力する
+const write = (level: LogLevel, event: string, fields: Record<string, unknown> = {}) => {
+  if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(minimumLevel())) return;
+  const entry = {
+    time: new Date().toISOString(),
+    level,
+    event,
+    requestId: requestContext.getStore()?.requestId,
+    ...(redact(fields) as Record<string, unknown>),
+  };
+  const line = JSON.stringify(entry);
+  if (level === 'error') {
+    console.error(line);
+  } else if (level === 'warn') {
+    console.warn(line);
+  } else {
+    console.log(line);
+  }
+};
+
+/**
+ * サーバー側の共通のロガー
+ * event はログの内容を表す短い文、fields は一緒に記録する値です (機密情報は自動的に伏せる)。
+ */
+export const logger = {
+  debug: (event: string, fields?: Record<string, unknown>) => write('debug', event, fields),
+  info: (event: string, fields?: Record<string, unknown>) => write('info', event, fields),
+  warn: (event: string, fields?: Record<string, unknown>) => write('warn', event, fields),
+  error: (event: string, fields?: Record<string, unknown>) => write('error', event, fields),
+};
+
+/**
+ * 処理中のリクエストのIDを返します。APIルートの処理の外から呼ばれた場合は null です。
+ */
+export const currentRequestId = (): string | null => requestContext.getStore()?.requestId ?? null;
+
+/**
+ * APIルートのハンドラーを包み、リクエストIDを付けて処理します。
+ * 処理の完了時にメソッド・パス・ステータス・処理時間を記録し、レスポンスの X-Request-Id ヘッダーでリクエストIDを返します。
+ * ハンドラーが予期しない例外をthrowした場合は記録して 500 を返します。
+ */
+export const withRequestLogging = <A extends unknown[]>(
+  handler: (request: NextRequest, ...args: A) => Promise<Response>,
+) => async (request: NextRequest, ...args: A): Promise<Response> => {
+  const given = request.headers.get(REQUEST_ID_HEADER);
+  const requestId = given && REQUEST_ID_PATTERN.test(given) ? given : crypto.randomUUID();
+  const startedAt = Date.now();
+  // クエリにはカレンダーのURLの鍵などが含まれるため、パスだけを記録する
+  const route = { method: request.method, path: request.nextUrl.pathname };
+
+  return requestContext.run({ requestId }, async () => {
+    let response: Response;
+    try {
+      response = await handler(request, ...args);
+    } catch (error) {
+      logger.error('Unhandled error in API route', { ...route, error });
+      response = NextResponse.json({ error: 'Internal server error.', code: 'internal_error', requestId }, { status: 500 });
+    }
+    response.headers.set(REQUEST_ID_HEADER, requestId);
+    logger.info('Request completed', { ...route, status: response.status, durationMs: Date.now() - startedAt });
+    return response;
+  });
+};
@@ -0,0 +1,155 @@
+// src/lib/memoParser.ts
+
+// 複数行のメモを1行ごとのタスク下書きに分解するモジュールです。
+// 各行では `@山田` で担当者、`!明日` や `!2026-10-31` で期限を指定できます。
+
+import type { ChatworkMember } from '../types/chatwork';
+import { Deadline, formatDateInput, formatTimeInput, parseJapaneseDueDate } from './dueDate';
+import { defaultTranslate, Translate } from './i18n';
+
+/**
+ * 1行分のタスク下書き
+ */
+export interface TaskDraft {
+  // 下書きの識別子 (メモ内の行番号、1始まり)
+  line: number;
+  // タスク内容 (担当者・期限のトークンを取り除いたもの)
+  body: string;
+  // 担当者のアカウントID
+  assigneeIds: number[];
+  // 期限
+  deadline: Deadline;
+  // 解釈できなかったトークン (例: 該当者のいない `@佐藤`)
+  warnings: string[];
+}
+
+// チェックリストや箇条書きの行頭記号 (`- [ ]`, `* [ ]`, `-`, `*`, `・`, `1.`)
+const BULLET_PATTERN = /^\s*(?:[-*+]\s*\[\s\]\s*|[-*+・]\s*|\d+[.)]\s*)/;
+// 完了済みのチェックリスト項目 (`- [x]`)。タスクにはしない。
+const DONE_ITEM_PATTERN = /^\s*[-*+]\s*\[[xX]\]/;
+// 担当者トークン (`@山田`) と期限トークン (`!明日`、全角の `！` も可)
+const ASSIGNEE_TOKEN_PATTERN = /(^|\s)[@＠](\S+)/g;
+const DUE_TOKEN_PATTERN = /(^|\s)[!！](\S+)/g;
+
+/**
+ * 1行から取り出した担当者・期限のトークン
+ */
+export interface LineTokens {
+  // トークンを取り除いた本文 (連続する空白は1つにまとめる)
+  body: string;
+  // 担当者トークンの値 (`@` を除いたもの、出てきた順)
+  assignees: string[];
+  // 期限トークンの値 (`!` を除いたもの、出てきた順)
+  dues: string[];
+}
+
+/**
+ * 1行から担当者トークン (`@山田`) と期限トークン (`!明日`) を取り出します。
+ * トークンは行頭か空白の後にあるものだけを扱うため、メールアドレスなどの途中の `@` はそのまま本文に残ります。
+ * Markdown のチェックリストの取り込み (taskImport) でも同じ書き方を使えるよう、ここで解釈を共通にしています。
+ */
+export const extractLineTokens = (line: string): LineTokens => {
+  const assignees: string[] = [];
+  const dues: string[] = [];
+  const body = line
+    .replace(ASSIGNEE_TOKEN_PATTERN, (_, prefix: string, token: string) => {
+      assignees.push(token);
+      return prefix;
+    })
+    .replace(DUE_TOKEN_PATTERN, (_, prefix: string, token: string) => {
+      dues.push(token);
+      return prefix;
+    })
+    .replace(/\s+/g, ' ')
+    .trim();
+  return { body, assignees, dues };
+};
+
+// 名前の比較用に空白を取り除きます。
+const normalizeName = (name: string) => name.replace(/[\s　]+/g, '');
+
+/**
+ * 担当者トークンをルームメンバーに解決します。
+ * アカウントIDとの完全一致、名前の前方一致、名前の部分一致の順に探し、候補が1人に絞れた場合のみ解決します。
+ */
+export const resolveAssignee = (token: string, members: ChatworkMember[], myAccountId: number | null): number | null => {
+  if ((token === '自分' || token === 'me') && myAccountId !== null) return myAccountId;
+  if (/^\d+$/.test(token)) {
+    const byId = members.find(member => member.account_id === parseInt(token, 10));
+    if (byId) return byId.account_id;
+  }
+  const target = normalizeName(token);
+  for (const matches of [
+    (name: string) => name.startsWith(target),
+    (name: string) => name.includes(target),
+  ]) {
+    const candidates = members.filter(member => matches(normalizeName(member.name)));
+    if (candidates.length === 1) return candidates[0].account_id;
+    if (candidates.length > 1) return null;
+  }
+  return null;
+};
+
+/**
+ * 複数行のメモをタスク下書きの一覧に分解します。
+ * 空行と完了済みのチェックリスト項目は無視します。担当者・期限のトークンがない行には、フォームで選択中の値を使います。
+ *
+ * @param text - メモの内容
+ * @param members - 担当者トークンの解決に使うルームメンバー一覧
+ * @param defaults - トークンがない場合に使う担当者と期限
+ * @param myAccountId - 自分のアカウントID (`@自分` の解決に使用)
+ * @param t - 警告の表示に使う翻訳関数 (省略時は日本語)
+ */
+export const parseMemoLines = (
+  text: string,
+  members: ChatworkMember[],
+  defaults: { assigneeIds: number[]; deadline: Deadline },
+  myAccountId: number | null,
+  t: Translate = defaultTranslate,
+): TaskDraft[] => {
+  const drafts: TaskDraft[] = [];
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    if (!rawLine.trim() || DONE_ITEM_PATTERN.test(rawLine)) return;
+
+    const warnings: string[] = [];
+    const { body, assignees, dues } = extractLineTokens(rawLine.replace(BULLET_PATTERN, ''));
+    if (!body) return;
+
+    // 担当者トークンをルームメンバーに解決する
+    const assigneeIds: number[] = [];
+    assignees.forEach(token => {
+      const accountId = resolveAssignee(token, members, myAccountId);
+      if (accountId === null) {
+        warnings.push(t('memo.unknownAssignee', { token }));
+      } else if (!assigneeIds.includes(accountId)) {
+        assigneeIds.push(accountId);
+      }
+    });
+
+    // 期限トークンを解釈する (複数ある場合は最後のものを使う)
+    let deadline: Deadline | null = null;
+    dues.forEach(token => {
+      const parsed = parseJapaneseDueDate(token);
+      if (parsed) {
+        deadline = {
+          limitType: parsed.hasTime ? 'time' : 'date',
+          date: formatDateInput(parsed.date),
+          time: parsed.hasTime ? formatTimeInput(parsed.date) : defaults.deadline.time,
+        };
+      } else {
+        warnings.push(t('memo.unparsableDue', { token }));
+      }
+    });
+
+    drafts.push({
+      line: index + 1,
+      body,
+      assigneeIds: assigneeIds.length > 0 ? assigneeIds : [...defaults.assigneeIds],
+      deadline: deadline ?? { ...defaults.deadline },
+      warnings,
+    });
+  });
+
+  return drafts;
+};
@@ -0,0 +1,215 @@
+// src/lib/oauth.ts
+
+// Chatwork の OAuth 2.0 (認可コードフロー + PKCE) を扱うサーバー側のモジュールです。
+// 認可URLの組み立て、認可コードとトークンの交換、リフレッシュトークンによる更新、ログアウト時のトークン失効を行います。
+// 接続先は環境変数で切り替えられるため、ローカルの偽の認可サーバーに向けてテストできます。
+
+import crypto from 'crypto';
+import { logger } from './logger';
+
+// Chatwork の OAuth エンドポイントの既定値
+const DEFAULT_AUTHORIZE_URL = 'https://www.chatwork.com/packages/oauth2/login.php';
+const DEFAULT_TOKEN_URL = 'https://oauth.chatwork.com/token';
+// 既定で要求するスコープ (ルームの読み書きと自分の情報の参照)
+const DEFAULT_SCOPE = 'rooms.all:read_write users.profile.me:read';
+
+// アクセストークンの有効期限がこの秒数以内に迫っていたら、リフレッシュトークンで更新する
+const ACCESS_TOKEN_REFRESH_MARGIN_SEC = 60;
+
+/**
+ * OAuth クライアントの設定
+ */
+export interface OAuthConfig {
+  clientId: string;
+  clientSecret: string;
+  redirectUri: string;
+  authorizeUrl: string;
+  tokenUrl: string;
+  // トークン失効エンドポイント (RFC 7009)。未設定の場合、ログアウト時はCookieの削除のみ行う
+  revokeUrl: string | null;
+  scope: string;
+}
+
+/**
+ * トークンエンドポイントから受け取ったトークン
+ */
+export interface OAuthTokens {
+  accessToken: string;
+  refreshToken: string;
+  // アクセストークンの有効期限 (Unixタイムスタンプ秒)
+  accessTokenExpiresAt: number;
+}
+
+/**
+ * 認可サーバーとのやり取りに失敗したことを表すエラー
+ */
+export class OAuthError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'OAuthError';
+    this.status = status;
+  }
+}
+
+/**
+ * 環境変数から OAuth の設定を読み込みます。
+ * クライアントID・シークレット・リダイレクトURIのいずれかが未設定の場合は、OAuth ログインを無効として null を返します。
+ */
+export const getOAuthConfig = (): OAuthConfig | null => {
+  const clientId = process.env.CHATWORK_OAUTH_CLIENT_ID;
+  const clientSecret = process.env.CHATWORK_OAUTH_CLIENT_SECRET;
+  const redirectUri = process.env.CHATWORK_OAUTH_REDIRECT_URI;
+  if (!clientId || !clientSecret || !redirectUri) return null;
+  return {
+    clientId,
+    clientSecret,
+    redirectUri,
+    authorizeUrl: process.env.CHATWORK_OAUTH_AUTHORIZE_URL || DEFAULT_AUTHORIZE_URL,
+    tokenUrl: process.env.CHATWORK_OAUTH_TOKEN_URL || DEFAULT_TOKEN_URL,
+    revokeUrl: process.env.CHATWORK_OAUTH_REVOKE_URL || null,
+    scope: process.env.CHATWORK_OAUTH_SCOPE || DEFAULT_SCOPE,
+  };
+};
+
+/**
+ * PKCE の code_verifier と code_challenge (S256) を生成します。
+ */
+export const createPkcePair = (): { verifier: string; challenge: string } => {
+  const verifier = crypto.randomBytes(32).toString('base64url');
+  const challenge = crypto.createHash('sha256').update(verifier).digest('base64url');
+  return { verifier, challenge };
+};
+
+/**
+ * CSRF対策の state パラメータに使うランダムな文字列を生成します。
+ */
+export const createState = (): string => crypto.randomBytes(16).toString('base64url');
+
+/**
+ * 認可エンドポイントへのリダイレクト先URLを組み立てます。
+ */
+export const buildAuthorizeUrl = (config: OAuthConfig, state: string, codeChallenge: string): string => {
+  const url = new URL(config.authorizeUrl);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', config.clientId);
+  url.searchParams.set('redirect_uri', config.redirectUri);
+  url.searchParams.set('scope', config.scope);
+  url.searchParams.set('state', state);
+  url.searchParams.set('code_challenge', codeChallenge);
+  url.searchParams.set('code_challenge_method', 'S256');
+  return url.toString();
+};
+
+// クライアント認証 (Basic認証) のヘッダー値
+const basicAuth = (config: OAuthConfig) =>
+  `Basic ${Buffer.from(`${config.clientId}:${config.clientSecret}`).toString('base64')}`;
+
+// トークンエンドポイントにリクエストを送り、トークンを受け取ります。
+const requestTokens = async (config: OAuthConfig, params: URLSearchParams): Promise<OAuthTokens> => {
+  let response: Response;
+  try {
+    response = await fetch(config.tokenUrl, {
+      method: 'POST',
+      headers: {
+        'Authorization': basicAuth(config),
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'Accept': 'application/json',
+      },
+      body: params.toString(),
+    });
+  } catch (error: any) {
+    logger.error('Error calling OAuth token endpoint', { error });
+    throw new OAuthError('Failed to connect to the authorization server.', 502);
+  }
+
+  let data: any;
+  try {
+    data = await response.json();
+  } catch (parseError) {
+    throw new OAuthError('Authorization server returned non-JSON response.', 502);
+  }
+  if (!response.ok || typeof data.access_token !== 'string') {
+    logger.error('OAuth token endpoint returned an error', { status: response.status, oauthError: data?.error });
+    throw new OAuthError(data?.error_description || data?.error || 'Token request failed.', response.ok ? 502 : response.status);
+  }
+
+  return {
+    accessToken: data.access_token,
+    // リフレッシュトークンが返されなかった場合は、送ったものを使い続ける
+    refreshToken: data.refresh_token ?? params.get('refresh_token') ?? '',
+    accessTokenExpiresAt: Math.floor(Date.now() / 1000) + (Number(data.expires_in) || 0),
+  };
+};
+
+/**
+ * 認可コードをトークンと交換します。
+ * @param code - コールバックで受け取った認可コード
+ * @param codeVerifier - ログイン開始時に生成した PKCE の code_verifier
+ */
+export const exchangeCode = (config: OAuthConfig, code: string, codeVerifier: string): Promise<OAuthTokens> =>
+  requestTokens(config, new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: config.redirectUri,
+    code_verifier: codeVerifier,
+  }));
+
+// 同じリフレッシュトークンでの更新を1回にまとめるための記録。
+// ブラウザから同時に複数のリクエストが届いた場合、ローテーション済みの古いリフレッシュトークンで更新しようとして失敗するのを防ぐ。
+const REFRESH_RESULT_TTL_MS = 1000 * 60;
+const globalRefresh = globalThis as typeof globalThis & {
+  __oauthRefreshes?: Map<string, { promise: Promise<OAuthTokens>; expiresAt: number }>;
+};
+const refreshes = globalRefresh.__oauthRefreshes ?? (globalRefresh.__oauthRefreshes = new Map());
+
+/**
+ * リフレッシュトークンを使ってアクセストークンを更新します。
+ * 認可サーバーがリフレッシュトークンをローテーションする場合は、新しいリフレッシュトークンが返ります。
+ */
+export const refreshTokens = (config: OAuthConfig, refreshToken: string): Promise<OAuthTokens> => {
+  const now = Date.now();
+  refreshes.forEach((entry, key) => {
+    if (entry.expiresAt <= now) refreshes.delete(key);
+  });
+
+  const existing = refreshes.get(refreshToken);
+  if (existing) return existing.promise;
+
+  const promise = requestTokens(config, new URLSearchParams({ grant_type: 'refresh_token', refresh_token: refreshToken }));
+  refreshes.set(refreshToken, { promise, expiresAt: now + REFRESH_RESULT_TTL_MS });
+  // 失敗した結果は残さない
+  promise.catch(() => refreshes.delete(refreshToken));
+  return promise;
+};
+
+/**
+ * アクセストークンの有効期限が迫っていて、リフレッシュトークンで更新すべきかどうかを返します。
+ * @param accessTokenExpiresAt - アクセストークンの有効期限 (Unixタイムスタンプ秒)
+ */
+export const accessTokenNeedsRefresh = (accessTokenExpiresAt: number): boolean =>
+  accessTokenExpiresAt - Math.floor(Date.now() / 1000) <= ACCESS_TOKEN_REFRESH_MARGIN_SEC;
+
+/**
+ * トークンを失効させます (RFC 7009)。失効エンドポイントが未設定の場合は何もしません。
+ * ログアウト自体は失効の成否にかかわらず続けるため、失敗はログに残すだけにします。
+ */
+export const revokeToken = async (config: OAuthConfig, token: string, tokenTypeHint: 'access_token' | 'refresh_token') => {
+  if (!config.revokeUrl) return;
+  try {
+    const response = await fetch(config.revokeUrl, {
+      method: 'POST',
+      headers: {
+        'Authorization': basicAuth(config),
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({ token, token_type_hint: tokenTypeHint }).toString(),
+    });
+    if (!response.ok) {
+      logger.error('OAuth revocation failed', { status: response.status });
+    }
+  } catch (error) {
+    logger.error('Error calling OAuth revocation endpoint', { error });
+  }
+};
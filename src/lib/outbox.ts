@@ -0,0 +1,130 @@
+// src/lib/outbox.ts
+
+// 送信に失敗したタスクを IndexedDB に保存しておき、後から再送するための送信待ちキュー (アウトボックス) です。
+// タスクとメッセージの両方を送る場合は、メッセージも項目に含めて、タスクの作成後に投稿します。
+// 各項目は冪等キー (Idempotency-Key) を持ち、タイムアウト後の再送でタスクが重複作成されないようにします。
+
+import { defaultTranslate, Translate } from './i18n';
+import { OUTBOX_STORE, withStore } from './indexedDb';
+import { describeSendError, isRetryableSendError, TaskRequest, TaskSendError } from './taskClient';
+
+// 再送間隔 (指数バックオフ): 5秒から始めて倍々に延ばし、最大10分
+const RETRY_BASE_DELAY_MS = 1000 * 5;
+const RETRY_MAX_DELAY_MS = 1000 * 60 * 10;
+
+/**
+ * 送信待ちのタスク
+ */
+export interface OutboxItem {
+  // 項目のID。Idempotency-Key としても使う
+  id: string;
+  roomId: string;
+  // 表示用のルーム名
+  roomName: string;
+  task: TaskRequest;
+  // これまでの送信試行回数
+  attempts: number;
+  // 次に自動再送する時刻 (ミリ秒)。自動再送しない場合は null
+  nextAttemptAt: number | null;
+  // 最後の失敗内容
+  lastError: string;
+  createdAt: number;
+  // 送信したプロフィールのID (別のアカウントで再送しないため)。プロフィールに対応する前の項目にはない
+  profileId?: string | null;
+  // タスクの作成後に投稿するメッセージ (宛先を付けた本文)。タスクのみを送る場合や、メッセージに対応する前の項目にはない
+  message?: string | null;
+  // 作成済みのタスクのID。タスクは作成できたがメッセージの投稿に失敗した場合に設定し、再送ではメッセージだけを投稿する
+  createdTaskIds?: number[] | null;
+}
+
+// 変更を通知するリスナー (送信待ちパネルの再描画に使用)
+const listeners = new Set<() => void>();
+
+/**
+ * 送信待ちキューの変更を購読します。戻り値の関数を呼ぶと購読を解除します。
+ */
+export const subscribeOutbox = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const notify = () => listeners.forEach(listener => listener());
+
+/**
+ * 冪等キーとして使う一意なIDを生成します。
+ */
+export const generateIdempotencyKey = (): string => {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+};
+
+/**
+ * 試行回数から次の自動再送までの待ち時間 (ミリ秒) を求めます。
+ */
+export const retryDelay = (attempts: number) => Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_DELAY_MS);
+
+/**
+ * 再送に失敗した項目の、次の状態を返します。
+ * 試行回数を増やし、再送可能なエラーなら次の自動再送時刻を設定します (再送しても成功しないエラーは自動再送しない)。
+ * レート制限の場合は、バックオフより制限解除時刻を優先します。
+ *
+ * @param item - 再送した項目
+ * @param err - 再送の失敗 (createTask がthrowしたエラー)
+ * @param t - 失敗内容の翻訳関数
+ * @param now - 現在時刻 (ミリ秒)
+ */
+export const failedAttempt = (item: OutboxItem, err: unknown, t: Translate = defaultTranslate, now = Date.now()): OutboxItem => {
+  const attempts = item.attempts + 1;
+  const retryable = isRetryableSendError(err);
+  const rateLimitReset = err instanceof TaskSendError && err.rateLimitReset ? err.rateLimitReset * 1000 : 0;
+  return {
+    ...item,
+    attempts,
+    nextAttemptAt: retryable ? Math.max(now + retryDelay(attempts), rateLimitReset) : null,
+    lastError: describeSendError(err, t),
+  };
+};
+
+/**
+ * 最初の送信に失敗したタスクから、送信待ちに追加する項目を作ります。
+ * 最初の送信を1回目の試行として数え、次の自動再送時刻は failedAttempt と同じ規則で決めます。
+ *
+ * @param fields - 項目の内容 (id には最初の送信に使った冪等キーを指定する)
+ * @param err - 最初の送信の失敗 (createTask がthrowしたエラー)
+ * @param t - 失敗内容の翻訳関数
+ * @param now - 現在時刻 (ミリ秒)
+ */
+export const createOutboxItem = (
+  fields: Pick<OutboxItem, 'id' | 'roomId' | 'roomName' | 'task' | 'profileId' | 'message'>,
+  err: unknown,
+  t: Translate = defaultTranslate,
+  now = Date.now(),
+): OutboxItem => failedAttempt({ ...fields, attempts: 0, nextAttemptAt: null, lastError: '', createdAt: now }, err, t, now);
+
+/**
+ * 送信待ちのタスクをすべて作成日時の順に返します。
+ */
+export const listOutbox = async (): Promise<OutboxItem[]> => {
+  const items = await withStore<OutboxItem[]>(OUTBOX_STORE, 'readonly', store => store.getAll());
+  return items.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+/**
+ * 送信待ちのタスクを追加または更新します。
+ */
+export const putOutboxItem = async (item: OutboxItem): Promise<void> => {
+  await withStore(OUTBOX_STORE, 'readwrite', store => store.put(item));
+  notify();
+};
+
+/**
+ * 送信待ちのタスクを削除します (送信成功時・破棄時)。
+ */
+export const deleteOutboxItem = async (id: string): Promise<void> => {
+  await withStore(OUTBOX_STORE, 'readwrite', store => store.delete(id));
+  notify();
+};
@@ -0,0 +1,48 @@
+// src/lib/profileStorage.ts
+
+// ルーム一覧のキャッシュやお気に入りなど、アカウントごとに異なる内容をプロフィールごとに分けてローカルストレージに保存するモジュールです。
+// キーの末尾にプロフィールのIDを付けて保存し、別のアカウントの内容が混ざらないようにします。
+// 使用中のプロフィールがない場合 (null) は、読み込んでも何も返さず、保存もしません。
+
+/**
+ * プロフィールごとの保存先のキーを返します。
+ */
+export const profileStorageKey = (key: string, profileId: string) => `${key}:${profileId}`;
+
+/**
+ * 使用中のプロフィールの値を読み込みます。プロフィールがない場合や値がない場合は null を返します。
+ */
+export const readProfileItem = (profileId: string | null, key: string): string | null =>
+  profileId ? localStorage.getItem(profileStorageKey(key, profileId)) : null;
+
+/**
+ * 使用中のプロフィールの値を保存します。プロフィールがない場合は保存しません。
+ */
+export const writeProfileItem = (profileId: string | null, key: string, value: string) => {
+  if (profileId) localStorage.setItem(profileStorageKey(key, profileId), value);
+};
+
+/**
+ * プロフィールの値を削除します。
+ */
+export const removeProfileItems = (profileId: string | null, keys: string[]) => {
+  if (!profileId) return;
+  keys.forEach(key => localStorage.removeItem(profileStorageKey(key, profileId)));
+};
+
+/**
+ * プロフィールに対応する前に保存した内容を、指定したプロフィールに移します。
+ * movableKeys (お気に入りなど) は、プロフィールにまだ値がない場合だけ移します。
+ * discardKeys (ルーム一覧のキャッシュなど) は、どのアカウントのものか分からないため移さずに削除します。
+ */
+export const migrateLegacyItems = (profileId: string, movableKeys: string[], discardKeys: string[]) => {
+  movableKeys.forEach(key => {
+    const value = localStorage.getItem(key);
+    if (value === null) return;
+    if (localStorage.getItem(profileStorageKey(key, profileId)) === null) {
+      localStorage.setItem(profileStorageKey(key, profileId), value);
+    }
+    localStorage.removeItem(key);
+  });
+  discardKeys.forEach(key => localStorage.removeItem(key));
+};
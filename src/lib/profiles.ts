@@ -0,0 +1,182 @@
+// src/lib/profiles.ts
+
+// 複数の Chatwork アカウントをプロフィールとして保存し、切り替えて使うためのモジュールです。
+// 使用中のプロフィールの認証情報はこれまでどおりセッションCookieに保存し、他のAPIルートはそのまま使います。
+// 使用中でないプロフィールの認証情報は、プロフィールの一覧と一緒に暗号化してプロフィール用のCookieに保存し、
+// 切り替える時にセッションCookieと入れ替えます。
+
+import crypto from 'crypto';
+import type { NextRequest, NextResponse } from 'next/server';
+import type { ChatworkProfile } from '../types/profile';
+import { seal, unseal } from './sealing';
+import { getSession, sessionExpiry, SessionData } from './session';
+
+// プロフィールを保存するCookieの名前
+export const PROFILES_COOKIE_NAME = 'cw_profiles';
+
+// 保存できるプロフィールの最大数 (Cookieの大きさの上限 4KB に収めるため)
+export const MAX_PROFILES = 5;
+
+// プロフィール名の最大文字数
+export const MAX_PROFILE_NAME_LENGTH = 40;
+
+/**
+ * プロフィール用のCookieに保存する内容
+ * sessions には使用中でないプロフィールの認証情報だけを入れます (使用中のプロフィールの認証情報はセッションCookieにある)。
+ */
+export interface ProfileVault {
+  activeId: string | null;
+  profiles: ChatworkProfile[];
+  sessions: Record<string, SessionData>;
+}
+
+const emptyVault = (): ProfileVault => ({ activeId: null, profiles: [], sessions: {} });
+
+// 変更用にコピーする (リクエストから読んだ内容を書き換えない)
+const cloneVault = (vault: ProfileVault): ProfileVault => ({
+  activeId: vault.activeId,
+  profiles: vault.profiles.slice(),
+  sessions: { ...vault.sessions },
+});
+
+// 使用中のプロフィールの認証情報 (最新のセッションCookieの内容) を、使用中でないプロフィールの認証情報に移す
+const stashActiveSession = (vault: ProfileVault, current: SessionData | null) => {
+  if (vault.activeId && current) {
+    vault.sessions[vault.activeId] = current;
+  }
+};
+
+/**
+ * リクエストのCookieからプロフィールの一覧を読み取ります。Cookieがない場合や改ざんされている場合は空の一覧を返します。
+ * 認証情報の期限が切れたプロフィールは除きます。使用中のプロフィールは、セッションCookieが有効な場合だけ残します。
+ */
+export const getProfileVault = (request: NextRequest): ProfileVault => {
+  const sealed = request.cookies.get(PROFILES_COOKIE_NAME)?.value;
+  const data = sealed ? unseal<Partial<ProfileVault>>(sealed) : null;
+  if (!data || !Array.isArray(data.profiles)) {
+    return emptyVault();
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const activeSession = getSession(request);
+  const sessions: Record<string, SessionData> = {};
+  const profiles = data.profiles.filter(profile => {
+    if (profile.id === data.activeId) return activeSession !== null;
+    const session = data.sessions?.[profile.id];
+    if (!session || !(session.expiresAt > now)) return false;
+    sessions[profile.id] = session;
+    return true;
+  });
+  const activeId = profiles.some(profile => profile.id === data.activeId) ? data.activeId ?? null : null;
+  return { activeId, profiles, sessions };
+};
+
+/**
+ * プロフィールを追加して使用中にします。同じアカウントのプロフィールが既にある場合は、それを使用中にします
+ * (name を指定した場合は名前も変更する)。新しいプロフィールの認証情報は、呼び出し側でセッションCookieに保存してください。
+ * 保存できる数を超える場合は null を返します。
+ *
+ * @param vault - getProfileVault で読み取ったプロフィールの一覧
+ * @param current - 現在のセッションCookieの内容 (使用中のプロフィールの認証情報として保存し直す)
+ * @param account - 新しい認証情報で /me から取得したアカウント
+ * @param name - プロフィール名 (省略した場合はアカウント名)
+ */
+export const addProfile = (
+  vault: ProfileVault,
+  current: SessionData | null,
+  account: { account_id: number; name: string },
+  name: string | null,
+): { vault: ProfileVault; profile: ChatworkProfile } | null => {
+  const next = cloneVault(vault);
+  stashActiveSession(next, current);
+
+  const trimmedName = name?.trim().slice(0, MAX_PROFILE_NAME_LENGTH) || null;
+  const index = next.profiles.findIndex(profile => profile.accountId === account.account_id);
+  let profile: ChatworkProfile;
+  if (index >= 0) {
+    profile = { ...next.profiles[index], accountName: account.name, ...(trimmedName ? { name: trimmedName } : {}) };
+    next.profiles[index] = profile;
+  } else {
+    if (next.profiles.length >= MAX_PROFILES) return null;
+    profile = { id: crypto.randomUUID(), name: trimmedName ?? account.name, accountId: account.account_id, accountName: account.name };
+    next.profiles.push(profile);
+  }
+
+  delete next.sessions[profile.id];
+  next.activeId = profile.id;
+  return { vault: next, profile };
+};
+
+/**
+ * 使用中のプロフィールを切り替えます。切り替え先の認証情報を session に入れて返すので、呼び出し側でセッションCookieに保存してください。
+ * 切り替え先のプロフィールがない場合は null を返します。
+ */
+export const switchProfile = (
+  vault: ProfileVault,
+  current: SessionData | null,
+  profileId: string,
+): { vault: ProfileVault; session: SessionData } | null => {
+  if (profileId === vault.activeId && current) {
+    return { vault, session: current };
+  }
+  const session = vault.sessions[profileId];
+  if (!session) return null;
+
+  const next = cloneVault(vault);
+  stashActiveSession(next, current);
+  delete next.sessions[profileId];
+  next.activeId = profileId;
+  return { vault: next, session };
+};
+
+/**
+ * 使用中のプロフィールの認証情報を使用中でないプロフィールの認証情報に移し、使用中のプロフィールをなしにします。
+ * OAuth ログインの開始時に使います。認可サーバーからのコールバックには SameSite=Strict のCookieが送られず、
+ * コールバックではプロフィールを読めないため、ログイン後のセッションは次の GET /api/session でプロフィールにします。
+ */
+export const detachActiveProfile = (vault: ProfileVault, current: SessionData | null): ProfileVault => {
+  const next = cloneVault(vault);
+  stashActiveSession(next, current);
+  next.activeId = null;
+  return next;
+};
+
+/**
+ * 使用中のプロフィールを削除します (ログアウト時)。
+ * 他のプロフィールが残っている場合は最初のものを使用中にし、その認証情報を session に入れて返します (残っていない場合は null)。
+ */
+export const removeActiveProfile = (vault: ProfileVault): { vault: ProfileVault; session: SessionData | null } => {
+  const next = cloneVault(vault);
+  next.profiles = next.profiles.filter(profile => profile.id !== vault.activeId);
+  next.activeId = null;
+  const fallback = next.profiles[0];
+  if (!fallback) {
+    return { vault: next, session: null };
+  }
+  const session = next.sessions[fallback.id];
+  delete next.sessions[fallback.id];
+  next.activeId = fallback.id;
+  return { vault: next, session };
+};
+
+/**
+ * クライアントに返すプロフィールの一覧 (認証情報は含めない)
+ */
+export const profileStatus = (vault: ProfileVault) => ({
+  profiles: vault.profiles,
+  activeProfileId: vault.activeId,
+});
+
+/**
+ * レスポンスにプロフィール用のCookieを設定します。プロフィールが1つもない場合はCookieを削除します。
+ */
+export const setProfilesCookie = (response: NextResponse, vault: ProfileVault) => {
+  const empty = vault.profiles.length === 0;
+  response.cookies.set(PROFILES_COOKIE_NAME, empty ? '' : seal(vault), {
+    httpOnly: true,
+    sameSite: 'strict',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: empty ? 0 : sessionExpiry() - Math.floor(Date.now() / 1000),
+  });
+};
@@ -0,0 +1,117 @@
+// src/lib/recurrence.ts
+
+// 定期タスクの繰り返しのルール (毎日・毎週・毎月N日・毎月の最終営業日) から、次の実行時刻を求めるモジュールです。
+// 日付の計算は、サーバーのタイムゾーンによらずアプリのタイムゾーン (Asia/Tokyo) で行います。
+// 現在時刻は引数で受け取るため、テストでは任意の時刻を基準にして確認できます。
+
+import type { RecurrenceRule } from '../types/schedule';
+import { defaultTranslate, Translate } from './i18n';
+import { fromZonedParts, toZonedParts } from './timeZone';
+
+// 次の実行日を探す最大の日数 (どのルールでも2か月以内に必ず該当日がある)
+const MAX_SEARCH_DAYS = 400;
+
+// アプリのタイムゾーンでの日付 (month は 0 始まり、weekday は日曜=0)
+interface CalendarDay {
+  year: number;
+  month: number;
+  day: number;
+  weekday: number;
+}
+
+// 年・月・日から日付を作ります。範囲外の日や月は繰り上げ・繰り下げます。
+const calendarDay = (year: number, month: number, day: number): CalendarDay => {
+  // 日付だけの計算なので、UTC の暦をそのまま使う
+  const date = new Date(Date.UTC(year, month, day));
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth(), day: date.getUTCDate(), weekday: date.getUTCDay() };
+};
+
+// 指定した月の末日 (日にち) を返します。
+const lastDayOfMonth = (date: CalendarDay) => calendarDay(date.year, date.month + 1, 0).day;
+
+// 指定した月の最終営業日 (土日を除いた最後の日) の日にちを返します。祝日は考慮しません。
+const lastBusinessDayOfMonth = (date: CalendarDay) => {
+  let last = calendarDay(date.year, date.month, lastDayOfMonth(date));
+  while (last.weekday === 0 || last.weekday === 6) {
+    last = calendarDay(last.year, last.month, last.day - 1);
+  }
+  return last.day;
+};
+
+// その日がルールの実行日に当たるかどうかを返します。
+const isRunDay = (rule: RecurrenceRule, date: CalendarDay): boolean => {
+  switch (rule.kind) {
+    case 'daily':
+      return true;
+    case 'weekly':
+      return rule.weekdays.includes(date.weekday);
+    case 'monthly':
+      return date.day === Math.min(rule.day, lastDayOfMonth(date));
+    case 'lastBusinessDay':
+      return date.day === lastBusinessDayOfMonth(date);
+  }
+};
+
+/**
+ * 繰り返しのルールとして正しい値かどうかを確認し、正しければルールを返します。正しくない場合は null を返します。
+ * クライアントから受け取った値の検証に使います。
+ */
+export const parseRecurrenceRule = (value: any): RecurrenceRule | null => {
+  if (!value || typeof value.time !== 'string' || !/^([01]\d|2[0-3]):[0-5]\d$/.test(value.time)) {
+    return null;
+  }
+  const { time } = value;
+  switch (value.kind) {
+    case 'daily':
+    case 'lastBusinessDay':
+      return { kind: value.kind, time };
+    case 'weekly': {
+      if (!Array.isArray(value.weekdays)) return null;
+      const weekdays = value.weekdays.filter((day: unknown) => typeof day === 'number' && Number.isInteger(day) && day >= 0 && day <= 6);
+      if (weekdays.length === 0 || weekdays.length !== value.weekdays.length) return null;
+      return { kind: 'weekly', weekdays: weekdays.filter((day: number, index: number) => weekdays.indexOf(day) === index).sort((a: number, b: number) => a - b), time };
+    }
+    case 'monthly':
+      if (!Number.isInteger(value.day) || value.day < 1 || value.day > 31) return null;
+      return { kind: 'monthly', day: value.day, time };
+    default:
+      return null;
+  }
+};
+
+/**
+ * 基準時刻より後で、ルールに当てはまる最初の実行時刻を返します (基準時刻ちょうどは含みません)。
+ * ルールの時刻はアプリのタイムゾーンでの時刻です。
+ * @param rule - 繰り返しのルール (parseRecurrenceRule で検証済みのもの)
+ * @param after - 基準時刻
+ */
+export const nextOccurrence = (rule: RecurrenceRule, after: Date): Date => {
+  const [hours, minutes] = rule.time.split(':').map(part => parseInt(part, 10));
+  const base = toZonedParts(after);
+  for (let offset = 0; offset <= MAX_SEARCH_DAYS; offset++) {
+    const day = calendarDay(base.year, base.month, base.day + offset);
+    const candidate = fromZonedParts(day.year, day.month, day.day, hours, minutes);
+    if (candidate.getTime() > after.getTime() && isRunDay(rule, day)) {
+      return candidate;
+    }
+  }
+  throw new Error(`No occurrence found for recurrence rule: ${JSON.stringify(rule)}`);
+};
+
+/**
+ * 繰り返しのルールを「毎週 月・木 9:00」のような表示用の文字列にします。
+ */
+export const describeRecurrenceRule = (rule: RecurrenceRule, t: Translate = defaultTranslate): string => {
+  switch (rule.kind) {
+    case 'daily':
+      return t('recurrence.daily', { time: rule.time });
+    case 'weekly': {
+      const weekdays = rule.weekdays.map(day => t(`weekday.${day}` as 'weekday.0')).join(t('recurrence.weekdaySeparator'));
+      return t('recurrence.weekly', { weekdays, time: rule.time });
+    }
+    case 'monthly':
+      return t('recurrence.monthly', { day: rule.day, time: rule.time });
+    case 'lastBusinessDay':
+      return t('recurrence.lastBusinessDay', { time: rule.time });
+  }
+};
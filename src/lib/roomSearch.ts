@@ -0,0 +1,208 @@
+// src/lib/roomSearch.ts
+
+// ルーム選択のコンボボックスで使う、ルーム名の検索と一覧の組み立てを行うモジュールです。
+// 「かいはつ」「カイハツ」「kaihatu」「kaihatsu」のように、ひらがな・カタカナ・ローマ字のどれで入力しても同じ名前に一致させるため、
+// ルーム名と入力の両方をヘボン式のローマ字にそろえてから比較します。
+// 漢字の読みは分からないため、漢字のルーム名は漢字そのものでの入力にだけ一致します。
+
+import type { ChatworkRoom, RoomType } from '../types/chatwork';
+
+// ひらがなとローマ字 (ヘボン式) の対応表。2文字の拗音を先に並べ、1文字ずつ変換する際は長い方から探します。
+// 同じローマ字に複数のかなが対応する場合 (じ/ぢ、ず/づ、お/を) は、先に書いた方をローマ字からの変換に使います。
+const KANA_ROMAJI: [string, string][] = [
+  ['きゃ', 'kya'], ['きゅ', 'kyu'], ['きょ', 'kyo'], ['ぎゃ', 'gya'], ['ぎゅ', 'gyu'], ['ぎょ', 'gyo'],
+  ['しゃ', 'sha'], ['しゅ', 'shu'], ['しょ', 'sho'], ['しぇ', 'she'], ['じゃ', 'ja'], ['じゅ', 'ju'], ['じょ', 'jo'], ['じぇ', 'je'],
+  ['ちゃ', 'cha'], ['ちゅ', 'chu'], ['ちょ', 'cho'], ['ちぇ', 'che'], ['ぢゃ', 'ja'], ['ぢゅ', 'ju'], ['ぢょ', 'jo'],
+  ['にゃ', 'nya'], ['にゅ', 'nyu'], ['にょ', 'nyo'], ['ひゃ', 'hya'], ['ひゅ', 'hyu'], ['ひょ', 'hyo'],
+  ['びゃ', 'bya'], ['びゅ', 'byu'], ['びょ', 'byo'], ['ぴゃ', 'pya'], ['ぴゅ', 'pyu'], ['ぴょ', 'pyo'],
+  ['みゃ', 'mya'], ['みゅ', 'myu'], ['みょ', 'myo'], ['りゃ', 'rya'], ['りゅ', 'ryu'], ['りょ', 'ryo'],
+  ['ふぁ', 'fa'], ['ふぃ', 'fi'], ['ふぇ', 'fe'], ['ふぉ', 'fo'], ['うぃ', 'wi'], ['うぇ', 'we'],
+  ['あ', 'a'], ['い', 'i'], ['う', 'u'], ['え', 'e'], ['お', 'o'],
+  ['か', 'ka'], ['き', 'ki'], ['く', 'ku'], ['け', 'ke'], ['こ', 'ko'],
+  ['が', 'ga'], ['ぎ', 'gi'], ['ぐ', 'gu'], ['げ', 'ge'], ['ご', 'go'],
+  ['さ', 'sa'], ['し', 'shi'], ['す', 'su'], ['せ', 'se'], ['そ', 'so'],
+  ['ざ', 'za'], ['じ', 'ji'], ['ず', 'zu'], ['ぜ', 'ze'], ['ぞ', 'zo'],
+  ['た', 'ta'], ['ち', 'chi'], ['つ', 'tsu'], ['て', 'te'], ['と', 'to'],
+  ['だ', 'da'], ['ぢ', 'ji'], ['づ', 'zu'], ['で', 'de'], ['ど', 'do'],
+  ['な', 'na'], ['に', 'ni'], ['ぬ', 'nu'], ['ね', 'ne'], ['の', 'no'],
+  ['は', 'ha'], ['ひ', 'hi'], ['ふ', 'fu'], ['へ', 'he'], ['ほ', 'ho'],
+  ['ば', 'ba'], ['び', 'bi'], ['ぶ', 'bu'], ['べ', 'be'], ['ぼ', 'bo'],
+  ['ぱ', 'pa'], ['ぴ', 'pi'], ['ぷ', 'pu'], ['ぺ', 'pe'], ['ぽ', 'po'],
+  ['ま', 'ma'], ['み', 'mi'], ['む', 'mu'], ['め', 'me'], ['も', 'mo'],
+  ['や', 'ya'], ['ゆ', 'yu'], ['よ', 'yo'],
+  ['ら', 'ra'], ['り', 'ri'], ['る', 'ru'], ['れ', 're'], ['ろ', 'ro'],
+  ['わ', 'wa'], ['を', 'o'], ['ん', 'n'], ['ゔ', 'vu'],
+  ['ぁ', 'a'], ['ぃ', 'i'], ['ぅ', 'u'], ['ぇ', 'e'], ['ぉ', 'o'], ['ゃ', 'ya'], ['ゅ', 'yu'], ['ょ', 'yo'],
+];
+
+// 訓令式などヘボン式以外のローマ字入力 (si, tu, zya など) を受け付けるための追加の対応
+const ROMAJI_ALIASES: [string, string][] = [
+  ['si', 'し'], ['ti', 'ち'], ['tu', 'つ'], ['hu', 'ふ'], ['zi', 'じ'], ['di', 'ぢ'], ['du', 'づ'], ['wo', 'を'],
+  ['sya', 'しゃ'], ['syu', 'しゅ'], ['syo', 'しょ'], ['zya', 'じゃ'], ['zyu', 'じゅ'], ['zyo', 'じょ'],
+  ['jya', 'じゃ'], ['jyu', 'じゅ'], ['jyo', 'じょ'], ['tya', 'ちゃ'], ['tyu', 'ちゅ'], ['tyo', 'ちょ'],
+  ['cya', 'ちゃ'], ['cyu', 'ちゅ'], ['cyo', 'ちょ'], ['ltu', 'っ'], ['xtu', 'っ'],
+];
+
+const kanaToRomajiMap: Record<string, string> = {};
+const romajiToKanaMap: Record<string, string> = {};
+KANA_ROMAJI.forEach(([kana, romaji]) => {
+  kanaToRomajiMap[kana] = romaji;
+  // 小書きのかな (ぁ・ゃ など) はローマ字からの変換には使わない
+  if (!(romaji in romajiToKanaMap) && !'ぁぃぅぇぉゃゅょ'.includes(kana)) {
+    romajiToKanaMap[romaji] = kana;
+  }
+});
+ROMAJI_ALIASES.forEach(([romaji, kana]) => {
+  romajiToKanaMap[romaji] = kana;
+});
+
+// 母音かどうか (文字列の末尾を越えた '' は母音ではない)
+const isVowel = (char: string) => char !== '' && 'aeiou'.includes(char);
+
+// カタカナをひらがなに変換します (ァ〜ヶ の範囲)。
+const katakanaToHiragana = (text: string) =>
+  text.replace(/[ァ-ヶ]/g, char => String.fromCharCode(char.charCodeAt(0) - 0x60));
+
+// ローマ字の部分をひらがなに変換します。かなにならない部分 (入力途中の子音や英字の名前) はそのまま残します。
+const romajiToKana = (text: string) => {
+  let result = '';
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+    const next = text[i + 1] ?? '';
+
+    if (!/[a-z]/.test(char)) {
+      result += char === '-' ? 'ー' : char;
+      i++;
+      continue;
+    }
+
+    // 「n」は、続く文字が母音・y以外なら「ん」 (nn・n' も「ん」)。末尾の n は入力途中として残す
+    if (char === 'n' && (next === "'" || (next === 'n' && !isVowel(text[i + 2] ?? '') && text[i + 2] !== 'y'))) {
+      result += 'ん';
+      i += 2;
+      continue;
+    }
+    if (char === 'n' && next && !isVowel(next) && next !== 'y') {
+      result += 'ん';
+      i++;
+      continue;
+    }
+
+    // 同じ子音が続く場合は促音 (kk → っk)
+    if (char === next && !isVowel(char)) {
+      result += 'っ';
+      i++;
+      continue;
+    }
+
+    let matched = false;
+    for (let length = 3; length >= 1; length--) {
+      const kana = romajiToKanaMap[text.substr(i, length)];
+      if (kana) {
+        result += kana;
+        i += length;
+        matched = true;
+        break;
+      }
+    }
+    if (!matched) {
+      result += char;
+      i++;
+    }
+  }
+  return result;
+};
+
+// ひらがなの部分をローマ字 (ヘボン式) に変換します。長音符は読みの揺れ (ちーむ/ちむ) を吸収するため落とします。
+const kanaToRomaji = (text: string) => {
+  let result = '';
+  let i = 0;
+  let doubleNext = false;
+  while (i < text.length) {
+    const char = text[i];
+    if (char === 'ー') {
+      i++;
+      continue;
+    }
+    if (char === 'っ') {
+      doubleNext = true;
+      i++;
+      continue;
+    }
+
+    const pair = kanaToRomajiMap[text.substr(i, 2)];
+    const romaji = pair ?? kanaToRomajiMap[char] ?? char;
+    i += pair ? 2 : 1;
+
+    // 促音は次の子音を重ねる (ch の場合は tch)
+    if (doubleNext && /^[a-z]/.test(romaji) && !isVowel(romaji[0])) {
+      result += romaji.startsWith('ch') ? 't' : romaji[0];
+    }
+    doubleNext = false;
+    result += romaji;
+  }
+  return result;
+};
+
+/**
+ * 検索で比較するための形に文字列をそろえます。
+ * 全角/半角・大文字/小文字・空白の違いをなくし、ひらがな・カタカナ・ローマ字をヘボン式のローマ字にそろえます。
+ */
+export const normalizeForSearch = (text: string): string =>
+  kanaToRomaji(romajiToKana(katakanaToHiragana(text.normalize('NFKC').toLowerCase().replace(/\s+/g, ''))));
+
+/**
+ * ルームが検索語に一致するかどうかを返します。検索語が空の場合はすべて一致します。
+ * ルーム名のほか、ルームIDそのものでも探せます。
+ * @param normalizedName - normalizeForSearch でそろえたルーム名 (一覧の表示ごとに変換し直さないよう、呼び出し側で保持する)
+ */
+export const matchesRoom = (room: ChatworkRoom, normalizedName: string, query: string): boolean => {
+  const trimmed = query.trim();
+  if (!trimmed) return true;
+  return normalizedName.includes(normalizeForSearch(trimmed)) || String(room.room_id) === trimmed;
+};
+
+/**
+ * コンボボックスに表示するルームのまとまり
+ */
+export interface RoomSection {
+  // まとまりの種類 (見出しはメッセージのカタログの `roomPicker.section.<key>`)
+  key: 'favorites' | 'recents' | RoomType;
+  rooms: ChatworkRoom[];
+}
+
+// ルームの種類ごとのまとまり (表示順)
+const ROOM_TYPE_SECTIONS: RoomType[] = ['my', 'direct', 'group'];
+
+/**
+ * 絞り込んだルームを「お気に入り」「最近送信したルーム」「種類ごと」のまとまりに分けます。
+ * 1つのルームは最初に当てはまったまとまりにだけ表示し、空のまとまりは返しません。
+ * 種類ごとのまとまりでは、Chatwork側でピン留めされたルームを先に並べます。
+ *
+ * @param rooms - 検索語で絞り込んだルーム一覧 (Chatwork APIの並び順)
+ * @param favoriteIds - お気に入りのルームID (登録順)
+ * @param recentIds - 最近送信したルームID (新しい順)
+ */
+export const buildRoomSections = (rooms: ChatworkRoom[], favoriteIds: number[], recentIds: number[]): RoomSection[] => {
+  const byId: Record<number, ChatworkRoom> = {};
+  rooms.forEach(room => {
+    byId[room.room_id] = room;
+  });
+  const shown: Record<number, boolean> = {};
+  const pick = (ids: number[]) =>
+    ids.filter(id => byId[id] && !shown[id]).map(id => {
+      shown[id] = true;
+      return byId[id];
+    });
+
+  const sections: RoomSection[] = [
+    { key: 'favorites', rooms: pick(favoriteIds) },
+    { key: 'recents', rooms: pick(recentIds) },
+  ];
+  ROOM_TYPE_SECTIONS.forEach(type => {
+    const ofType = rooms.filter(room => room.type === type && !shown[room.room_id]);
+    sections.push({ key: type, rooms: ofType.filter(room => room.sticky).concat(ofType.filter(room => !room.sticky)) });
+  });
+  return sections.filter(section => section.rooms.length > 0);
+};
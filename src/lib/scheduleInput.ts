@@ -0,0 +1,95 @@
+// src/lib/scheduleInput.ts
+
+// 定期タスクの登録・変更APIで受け取ったJSONを検証するモジュールです。
+
+import { parseRecurrenceRule } from './recurrence';
+import { isRelativeDeadline } from './templates';
+import type { Schedule } from '../types/schedule';
+
+/**
+ * クライアントが指定できる定期タスクの項目
+ */
+export type ScheduleInput = Pick<Schedule, 'name' | 'roomId' | 'body' | 'assigneeIds' | 'deadline' | 'rule' | 'enabled'>;
+
+/**
+ * 検証の結果。問題がある場合は input が null で、error にメッセージが入ります。
+ */
+export type ScheduleInputResult<T> = { input: T; error: null } | { input: null; error: string };
+
+// 受け取ったJSONを検証し、定期タスクの項目を返します。partial が true の場合は、指定された項目だけを検証して返します。
+const parseFields = (value: any, partial: boolean): ScheduleInputResult<Partial<ScheduleInput>> => {
+  if (!value || typeof value !== 'object') {
+    return { input: null, error: 'Request body must be a JSON object.' };
+  }
+  const input: Partial<ScheduleInput> = {};
+  // partial の場合、指定されていない項目は検証しない
+  const has = (key: keyof ScheduleInput) => !partial || value[key] !== undefined;
+
+  if (has('name')) {
+    if (typeof value.name !== 'string' || !value.name.trim()) return { input: null, error: "Field 'name' is required." };
+    input.name = value.name.trim();
+  }
+  if (has('roomId')) {
+    const roomId = typeof value.roomId === 'string' ? parseInt(value.roomId, 10) : value.roomId;
+    if (!Number.isInteger(roomId) || roomId <= 0) return { input: null, error: "Field 'roomId' must be a room ID." };
+    input.roomId = roomId;
+  }
+  if (has('body')) {
+    if (typeof value.body !== 'string' || !value.body.trim()) return { input: null, error: "Field 'body' is required." };
+    input.body = value.body;
+  }
+  if (has('assigneeIds')) {
+    if (
+      !Array.isArray(value.assigneeIds) ||
+      value.assigneeIds.length === 0 ||
+      !value.assigneeIds.every((id: unknown) => typeof id === 'number' && Number.isInteger(id))
+    ) {
+      return { input: null, error: "Field 'assigneeIds' must be a non-empty array of account IDs." };
+    }
+    input.assigneeIds = value.assigneeIds;
+  }
+  if (has('deadline')) {
+    // 期限は省略可能 (null または未指定で期限なし)
+    if (value.deadline != null && !isRelativeDeadline(value.deadline)) {
+      return { input: null, error: "Field 'deadline' must be a relative deadline or null." };
+    }
+    input.deadline = value.deadline ?? null;
+  }
+  if (has('rule')) {
+    const rule = parseRecurrenceRule(value.rule);
+    if (!rule) return { input: null, error: "Field 'rule' must be a valid recurrence rule." };
+    input.rule = rule;
+  }
+  if (has('enabled')) {
+    // 登録時に省略した場合は有効にする
+    if (value.enabled !== undefined && typeof value.enabled !== 'boolean') {
+      return { input: null, error: "Field 'enabled' must be a boolean." };
+    }
+    input.enabled = value.enabled ?? true;
+  }
+  return { input, error: null };
+};
+
+// 登録に必要な項目がすべてそろっているかどうかを返します。
+const isCompleteInput = (input: Partial<ScheduleInput>): input is ScheduleInput =>
+  input.name !== undefined &&
+  input.roomId !== undefined &&
+  input.body !== undefined &&
+  input.assigneeIds !== undefined &&
+  input.deadline !== undefined &&
+  input.rule !== undefined &&
+  input.enabled !== undefined;
+
+/**
+ * 登録時に受け取ったJSONを検証し、定期タスクの項目を返します。問題がある場合は error にメッセージを入れて返します。
+ */
+export const parseScheduleInput = (value: any): ScheduleInputResult<ScheduleInput> => {
+  const result = parseFields(value, false);
+  if (!result.input) return result;
+  return isCompleteInput(result.input) ? { input: result.input, error: null } : { input: null, error: 'Required fields are missing.' };
+};
+
+/**
+ * 変更時に受け取ったJSONを検証し、指定された項目だけを返します。問題がある場合は error にメッセージを入れて返します。
+ */
+export const parseScheduleUpdate = (value: any): ScheduleInputResult<Partial<ScheduleInput>> => parseFields(value, true);
@@ -0,0 +1,95 @@
+// src/lib/scheduleStore.ts
+
+// 定期タスクを保存するサーバー側のファイルストアです。
+// 定期タスクの一覧を1つのJSONファイルに保存します。保存先は環境変数 SCHEDULES_FILE で変更できます (既定: .data/schedules.json)。
+// 実行時に使う認証情報は、登録したアカウントの保存済みの認証情報 (credentialStore) を使うため、ここには保存しません。
+
+import path from 'path';
+import { createJsonFile } from './jsonFile';
+import type { Schedule } from '../types/schedule';
+
+/**
+ * ストアに保存する定期タスク
+ */
+export type StoredSchedule = Schedule;
+
+/**
+ * 定期タスクのストア
+ */
+export interface ScheduleStore {
+  list: () => Promise<StoredSchedule[]>;
+  get: (id: string) => Promise<StoredSchedule | null>;
+  // 同じIDがあれば置き換え、なければ追加する
+  put: (schedule: StoredSchedule) => Promise<void>;
+  // 削除できた場合は true を返す
+  delete: (id: string) => Promise<boolean>;
+}
+
+/**
+ * 保存先のファイルパスを返します。環境変数 SCHEDULES_FILE が設定されていればそれを使います。
+ */
+export const getSchedulesFilePath = (): string =>
+  process.env.SCHEDULES_FILE || path.join(process.cwd(), '.data', 'schedules.json');
+
+/**
+ * JSONファイルに保存するストアを作ります。
+ */
+export const createFileScheduleStore = (filePath: string): ScheduleStore => {
+  const file = createJsonFile<StoredSchedule[]>(filePath, () => []);
+
+  return {
+    list: () => file.read(),
+    get: async id => (await file.read()).find(schedule => schedule.id === id) ?? null,
+    put: schedule =>
+      file.update(schedules => {
+        const index = schedules.findIndex(s => s.id === schedule.id);
+        if (index >= 0) {
+          schedules[index] = schedule;
+        } else {
+          schedules.push(schedule);
+        }
+      }),
+    delete: id =>
+      file.update(schedules => {
+        const index = schedules.findIndex(schedule => schedule.id === id);
+        if (index < 0) return false;
+        schedules.splice(index, 1);
+        return true;
+      }),
+  };
+};
+
+// 開発サーバーのホットリロードでも同じファイルに対して1つのストアを使うよう、globalThisに保持する
+const globalStores = globalThis as typeof globalThis & { __scheduleStores?: Map<string, ScheduleStore> };
+const stores: Map<string, ScheduleStore> = globalStores.__scheduleStores ?? (globalStores.__scheduleStores = new Map());
+
+/**
+ * 現在の保存先 (SCHEDULES_FILE) のストアを返します。
+ */
+export const getScheduleStore = (): ScheduleStore => {
+  const filePath = getSchedulesFilePath();
+  let store = stores.get(filePath);
+  if (!store) {
+    store = createFileScheduleStore(filePath);
+    stores.set(filePath, store);
+  }
+  return store;
+};
+
+/**
+ * クライアントに返す形式に変換します。
+ */
+export const toPublicSchedule = (schedule: StoredSchedule): Schedule => ({
+  id: schedule.id,
+  name: schedule.name,
+  roomId: schedule.roomId,
+  body: schedule.body,
+  assigneeIds: schedule.assigneeIds,
+  deadline: schedule.deadline,
+  rule: schedule.rule,
+  enabled: schedule.enabled,
+  ownerAccountId: schedule.ownerAccountId,
+  nextRunAt: schedule.nextRunAt,
+  runs: schedule.runs,
+  createdAt: schedule.createdAt,
+});
@@ -0,0 +1,192 @@
+// src/lib/scheduler.ts
+
+// 定期タスクを実行するサーバー側のスケジューラーです。
+// 一定間隔で保存済みの定期タスクを確認し、実行時刻を過ぎたものをタスク作成APIルートと同じ処理でChatworkに作成して、結果を記録します。
+// 同じ間隔で、送信時刻を過ぎた毎日のダイジェストも送信します。
+// 現在時刻は Clock から取得するため、テストでは時刻を差し替えて実行のタイミングを確認できます。
+
+import { chatworkErrorCode } from './apiErrors';
+import { Deadline } from './dueDate';
+import { buildChatworkTaskBody, createChatworkTask, validateTaskParams } from './chatworkTasks';
+import { Clock, systemClock } from './clock';
+import { getAccountCredential } from './credentialStore';
+import { runDueDigests } from './digest';
+import { logger } from './logger';
+import { nextOccurrence } from './recurrence';
+import { getScheduleStore, ScheduleStore, StoredSchedule } from './scheduleStore';
+import { resolveRelativeDeadline } from './templates';
+import { fromZonedParts, toZonedParts } from './timeZone';
+import type { ApiErrorCode } from '../types/apiError';
+import type { ScheduleRun } from '../types/schedule';
+
+// 実行結果の履歴を残す件数
+const MAX_RUN_HISTORY = 20;
+
+// 実行時刻を確認する間隔 (1分)
+const SCHEDULER_INTERVAL_MS = 1000 * 60;
+
+// フォームの期限を、アプリのタイムゾーンでの日時として Unix タイムスタンプ (秒) にします。期限なしの場合は null を返します。
+const deadlineToZonedUnix = (deadline: Deadline): number | null => {
+  if (deadline.limitType === 'none' || !deadline.date) return null;
+  const [year, month, day] = deadline.date.split('-').map(n => parseInt(n, 10));
+  const [hours, minutes] = deadline.limitType === 'time' && deadline.time
+    ? deadline.time.split(':').map(n => parseInt(n, 10))
+    : [0, 0];
+  return Math.floor(fromZonedParts(year, month - 1, day, hours, minutes).getTime() / 1000);
+};
+
+/**
+ * 定期タスクを1回実行し、Chatworkにタスクを作成します。ストアへの記録は行いません。
+ * 期限は実行した日を基準に決めます。
+ * 失敗した場合の表示は画面で表示言語にするため、結果にはエラーの種類 (code) と英語の説明を記録します。
+ *
+ * @param schedule - 実行する定期タスク
+ * @param clock - 現在時刻の取得元
+ * @param runKey - この実行を識別する値。同じ値で2回呼ばれても、タスクは重複して作成されない
+ * @returns 実行結果
+ */
+export const executeSchedule = async (schedule: StoredSchedule, clock: Clock, runKey: string): Promise<ScheduleRun> => {
+  const now = clock.now();
+  const failed = (status: number, code: ApiErrorCode, error: string): ScheduleRun =>
+    ({ at: now.getTime(), ok: false, status, taskIds: [], error, code });
+
+  // 登録したアカウントの保存済みの認証情報を使う
+  const credential = await getAccountCredential(schedule.ownerAccountId);
+  if (!credential) {
+    logger.error('Scheduler Error: Credential for schedule is invalid.', { scheduleId: schedule.id });
+    return failed(401, 'credential_invalid', 'Saved Chatwork credential is invalid.');
+  }
+
+  // 期限も実行時刻と同じくアプリのタイムゾーンの日付から数える
+  const today = toZonedParts(now);
+  const deadline: Deadline = schedule.deadline
+    ? resolveRelativeDeadline(schedule.deadline, new Date(today.year, today.month, today.day))
+    : { limitType: 'none', date: '', time: '' };
+  const limit = deadlineToZonedUnix(deadline);
+  const taskParams = {
+    body: schedule.body,
+    to_ids: schedule.assigneeIds.join(','),
+    limit: limit !== null ? limit.toString() : null,
+    limit_type: deadline.limitType,
+  };
+  const validationError = validateTaskParams(taskParams);
+  if (validationError) {
+    logger.error(`Scheduler Error: ${validationError}`, { scheduleId: schedule.id });
+    return failed(400, 'invalid_parameter', validationError);
+  }
+
+  const { response } = await createChatworkTask(
+    credential,
+    String(schedule.roomId),
+    buildChatworkTaskBody(taskParams),
+    `schedule:${schedule.id}:${runKey}`,
+  );
+  const body = response.body as { task_ids?: number[]; error?: string; code?: ApiErrorCode } | null;
+  const ok = response.status >= 200 && response.status < 300;
+  return {
+    at: now.getTime(),
+    ok,
+    status: response.status,
+    taskIds: ok ? body?.task_ids ?? [] : [],
+    error: ok ? null : body?.error ?? `HTTP ${response.status}`,
+    code: ok ? null : body?.code ?? chatworkErrorCode(response.status),
+  };
+};
+
+// 実行結果をストアに記録します。実行中に定期タスクが変更・削除されている場合に備えて、最新の内容に結果だけを反映します。
+const recordRun = async (
+  store: ScheduleStore,
+  id: string,
+  run: ScheduleRun,
+  nextRunAt: (latest: StoredSchedule) => number | null,
+): Promise<StoredSchedule | null> => {
+  const latest = await store.get(id);
+  if (!latest) return null;
+  const updated: StoredSchedule = {
+    ...latest,
+    runs: [run, ...latest.runs].slice(0, MAX_RUN_HISTORY),
+    nextRunAt: nextRunAt(latest),
+  };
+  await store.put(updated);
+  return updated;
+};
+
+/**
+ * 実行時刻を過ぎた定期タスクをすべて実行し、結果と次回の実行時刻を記録します。
+ * サーバーが止まっていて複数回分の実行時刻を過ぎていた場合も、実行は1回だけにします。
+ *
+ * @returns 実行した定期タスクのIDと実行結果
+ */
+export const runDueSchedules = async (
+  clock: Clock = systemClock,
+  store: ScheduleStore = getScheduleStore(),
+): Promise<{ id: string; run: ScheduleRun }[]> => {
+  const now = clock.now().getTime();
+  const due = (await store.list()).filter(schedule => schedule.enabled && schedule.nextRunAt !== null && schedule.nextRunAt <= now);
+
+  const results: { id: string; run: ScheduleRun }[] = [];
+  for (let index = 0; index < due.length; index++) {
+    const schedule = due[index];
+    const run = await executeSchedule(schedule, clock, String(schedule.nextRunAt));
+    await recordRun(store, schedule.id, run, latest =>
+      latest.enabled ? nextOccurrence(latest.rule, clock.now()).getTime() : null);
+    results.push({ id: schedule.id, run });
+  }
+  return results;
+};
+
+/**
+ * 定期タスクを今すぐ1回実行し、結果を記録します (次回の実行時刻は変えません)。
+ * @returns 結果を記録した定期タスク。定期タスクが見つからない場合は null
+ */
+export const runScheduleNow = async (
+  schedule: StoredSchedule,
+  clock: Clock = systemClock,
+  store: ScheduleStore = getScheduleStore(),
+): Promise<StoredSchedule | null> => {
+  const run = await executeSchedule(schedule, clock, `manual:${clock.now().getTime()}`);
+  return recordRun(store, schedule.id, run, latest => latest.nextRunAt);
+};
+
+// 開発サーバーのホットリロードでスケジューラーが二重に起動しないよう、globalThisに保持する
+const globalScheduler = globalThis as typeof globalThis & { __schedulerTimer?: ReturnType<typeof setInterval> };
+
+/**
+ * スケジューラーを起動し、一定間隔で runDueSchedules と runDueDigests を呼び出します。すでに起動している場合は何もしません。
+ * 前回の確認が終わっていない間は、次の確認を行いません。
+ */
+export const startScheduler = (clock: Clock = systemClock, intervalMs = SCHEDULER_INTERVAL_MS) => {
+  if (globalScheduler.__schedulerTimer) return;
+
+  let running = false;
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const results = await runDueSchedules(clock);
+      results.forEach(({ id, run }) => {
+        logger.info('Scheduler ran a schedule', { scheduleId: id, ok: run.ok, status: run.status, error: run.error });
+      });
+      const digests = await runDueDigests(clock);
+      digests.forEach(({ ownerAccountId, run }) => {
+        logger.info('Scheduler sent a digest', { ownerAccountId, ok: run.ok, error: run.error });
+      });
+    } catch (error) {
+      logger.error('Scheduler Error', { error });
+    } finally {
+      running = false;
+    }
+  };
+  globalScheduler.__schedulerTimer = setInterval(tick, intervalMs);
+  logger.info('Scheduler started', { intervalMs });
+};
+
+/**
+ * スケジューラーを止めます。
+ */
+export const stopScheduler = () => {
+  if (globalScheduler.__schedulerTimer) {
+    clearInterval(globalScheduler.__schedulerTimer);
+    globalScheduler.__schedulerTimer = undefined;
+  }
+};
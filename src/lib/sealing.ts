@@ -0,0 +1,58 @@
+// src/lib/sealing.ts
+
+// サーバー側で保存する秘密の値 (セッションCookie・保存した認証情報・OAuth ログイン中の state など) を暗号化するモジュールです。
+// AES-256-GCM で暗号化し、暗号鍵は環境変数 SESSION_SECRET から作ります。
+
+import crypto from 'crypto';
+import { logger } from './logger';
+
+// AES-256-GCMの初期化ベクトルと認証タグの長さ (バイト)
+const IV_LENGTH = 12;
+const AUTH_TAG_LENGTH = 16;
+
+// SESSION_SECRET が未設定の開発環境で使う、プロセスごとの一時的な鍵
+const globalSecret = globalThis as typeof globalThis & { __devSessionSecret?: string };
+
+// 暗号鍵を返します。本番環境で SESSION_SECRET が未設定の場合はエラーにします。
+const getKey = (): Buffer => {
+  let secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('SESSION_SECRET is not set.');
+    }
+    if (!globalSecret.__devSessionSecret) {
+      logger.warn('SESSION_SECRET is not set. Using a temporary secret; sessions will not survive a server restart.');
+      globalSecret.__devSessionSecret = crypto.randomBytes(32).toString('hex');
+    }
+    secret = globalSecret.__devSessionSecret;
+  }
+  return crypto.createHash('sha256').update(secret).digest();
+};
+
+/**
+ * 値を暗号化し、Cookieに保存できる文字列 (base64url) にします。
+ * セッションのほか、OAuth ログイン中の state や code_verifier の保存にも使います。
+ */
+export const seal = (data: object): string => {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv('aes-256-gcm', getKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(JSON.stringify(data), 'utf8'), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString('base64url');
+};
+
+/**
+ * seal で暗号化した文字列を復号します。改ざんされている場合は null を返します。
+ */
+export const unseal = <T>(sealed: string): T | null => {
+  try {
+    const raw = Buffer.from(sealed, 'base64url');
+    const iv = raw.subarray(0, IV_LENGTH);
+    const authTag = raw.subarray(IV_LENGTH, IV_LENGTH + AUTH_TAG_LENGTH);
+    const encrypted = raw.subarray(IV_LENGTH + AUTH_TAG_LENGTH);
+    const decipher = crypto.createDecipheriv('aes-256-gcm', getKey(), iv);
+    decipher.setAuthTag(authTag);
+    return JSON.parse(Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8'));
+  } catch (error) {
+    return null;
+  }
+};
@@ -0,0 +1,210 @@
+// src/lib/session.ts
+
+// Chatwork APIの認証情報 (個人のAPIトークン、または OAuth のトークン) をサーバー側のセッションとして扱うためのモジュールです。
+// 認証情報は AES-256-GCM で暗号化して httpOnly・SameSite=Strict のCookieに保存し、ブラウザのJavaScriptからは読めないようにします。
+// 暗号化は sealing.ts で行います。
+
+import type { NextRequest, NextResponse } from 'next/server';
+import type { ChatworkCredential } from './chatworkClient';
+import { refreshOAuthSession } from './credentialStore';
+import { accessTokenNeedsRefresh } from './oauth';
+import { seal, unseal } from './sealing';
+
+// セッションCookieの名前
+export const SESSION_COOKIE_NAME = 'cw_session';
+
+// セッションの有効期間 (7日間)
+const SESSION_MAX_AGE_SEC = 60 * 60 * 24 * 7;
+
+/**
+ * セッションに保存する内容
+ * - token: 個人のAPIトークンでログインした場合
+ * - oauth: OAuth でログインした場合 (アクセストークンとリフレッシュトークン)
+ * expiresAt はセッション自体の有効期限 (Unixタイムスタンプ秒) です。
+ */
+export type SessionData =
+  | { kind: 'token'; token: string; expiresAt: number }
+  | { kind: 'oauth'; accessToken: string; refreshToken: string; accessTokenExpiresAt: number; expiresAt: number };
+
+/**
+ * APIルートで使う認証情報
+ * applyTo は、アクセストークンを更新した場合に新しいセッションCookieをレスポンスに設定します。
+ * 更新後のリフレッシュトークンを失わないよう、認証情報を取得した後のレスポンスは必ず applyTo を通して返します。
+ * session は、サーバー側に保存して後から使える形の認証情報です (更新した場合は更新後のもの)。
+ * Authorization ヘッダーのアクセストークンは、リフレッシュトークンがなく期限切れ後に使えなくなるため null になります。
+ */
+export interface CredentialContext {
+  credential: ChatworkCredential;
+  session: SessionData | null;
+  applyTo: (response: NextResponse) => NextResponse;
+}
+
+/**
+ * Cookieの文字列を復号してセッションの内容を返します。
+ * 改ざんされている場合や有効期限切れの場合は null を返します。
+ */
+export const openSession = (sealed: string): SessionData | null => {
+  const data = unseal<Partial<SessionData> & { token?: string }>(sealed);
+  if (!data || typeof data.expiresAt !== 'number' || data.expiresAt <= Math.floor(Date.now() / 1000)) {
+    return null;
+  }
+  // OAuth 対応前のセッション ({ token, expiresAt }) はAPIトークンのセッションとして扱う
+  if (!data.kind && typeof data.token === 'string') {
+    return { kind: 'token', token: data.token, expiresAt: data.expiresAt };
+  }
+  return data.kind === 'token' || data.kind === 'oauth' ? (data as SessionData) : null;
+};
+
+/**
+ * リクエストのセッションCookieを読み取ります。
+ */
+export const getSession = (request: NextRequest): SessionData | null => {
+  const sealed = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+  return sealed ? openSession(sealed) : null;
+};
+
+/**
+ * セッションの内容から Chatwork API の認証情報を返します。
+ * OAuth のアクセストークンの期限が迫っていればリフレッシュトークンで更新し、更新後のセッションを refreshed に入れて返します
+ * (更新しなかった場合、refreshed は null)。更新に失敗した場合は再ログインが必要なため null を返します。
+ * リクエストを介さずに使う保存済みの認証情報は、credentialStore の getAccountCredential で扱います。
+ */
+export const resolveSession = async (
+  session: SessionData,
+): Promise<{ credential: ChatworkCredential; refreshed: SessionData | null } | null> => {
+  if (session.kind === 'token') {
+    return { credential: { type: 'token', token: session.token }, refreshed: null };
+  }
+
+  if (!accessTokenNeedsRefresh(session.accessTokenExpiresAt)) {
+    return { credential: { type: 'oauth', accessToken: session.accessToken }, refreshed: null };
+  }
+
+  // アクセストークンの期限が迫っているため、リフレッシュトークンで更新する (保存済みの認証情報と同じトークンなら、そちらにも書き戻す)
+  const refreshed = await refreshOAuthSession(session);
+  return refreshed ? { credential: { type: 'oauth', accessToken: refreshed.accessToken }, refreshed } : null;
+};
+
+// 何も変更せずにレスポンスを返す (Cookieを更新しない場合の applyTo)
+const unchanged = (response: NextResponse) => response;
+
+/**
+ * APIルートで使う Chatwork API の認証情報を返します。認証情報がない場合は null を返します。
+ * ブラウザからはセッションCookieの認証情報を使い、OAuth のアクセストークンの期限が迫っていれば更新します。
+ * スクリプトやテストなどCookieを持たないクライアント向けに、X-ChatWorkToken ヘッダー (APIトークン) と
+ * Authorization: Bearer ヘッダー (OAuth のアクセストークン) も受け付けます。
+ */
+export const getCredential = async (request: NextRequest): Promise<CredentialContext | null> => {
+  const session = getSession(request);
+  if (session) {
+    const resolved = await resolveSession(session);
+    if (!resolved) return null;
+    const { credential, refreshed } = resolved;
+    return {
+      credential,
+      session: refreshed ?? session,
+      applyTo: refreshed
+        ? response => {
+          setSessionCookie(response, refreshed);
+          return response;
+        }
+        : unchanged,
+    };
+  }
+
+  const apiToken = request.headers.get('X-ChatWorkToken');
+  if (apiToken) {
+    return { credential: { type: 'token', token: apiToken }, session: { kind: 'token', token: apiToken, expiresAt: sessionExpiry() }, applyTo: unchanged };
+  }
+  const bearer = request.headers.get('Authorization')?.match(/^Bearer\s+(.+)$/i)?.[1];
+  if (bearer) {
+    return { credential: { type: 'oauth', accessToken: bearer }, session: null, applyTo: unchanged };
+  }
+  return null;
+};
+
+/**
+ * セッションの有効期限 (現在から SESSION_MAX_AGE_SEC 後) を返します。
+ */
+export const sessionExpiry = () => Math.floor(Date.now() / 1000) + SESSION_MAX_AGE_SEC;
+
+/**
+ * レスポンスにセッションCookieを設定します (ログイン時・トークン更新時)。
+ */
+export const setSessionCookie = (response: NextResponse, data: SessionData) => {
+  response.cookies.set(SESSION_COOKIE_NAME, seal(data), {
+    httpOnly: true,
+    sameSite: 'strict',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: Math.max(data.expiresAt - Math.floor(Date.now() / 1000), 0),
+  });
+};
+
+/**
+ * レスポンスでセッションCookieを削除します (ログアウト時)。
+ */
+export const clearSessionCookie = (response: NextResponse) => {
+  response.cookies.set(SESSION_COOKIE_NAME, '', {
+    httpOnly: true,
+    sameSite: 'strict',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: 0,
+  });
+};
+
+// OAuth ログイン中の state と code_verifier を保存するCookieの名前
+export const OAUTH_PENDING_COOKIE_NAME = 'cw_oauth';
+
+// OAuth ログインを開始してからコールバックまでの有効期間 (10分間)
+const OAUTH_PENDING_MAX_AGE_SEC = 60 * 10;
+
+/**
+ * OAuth ログイン開始時に保存し、コールバックで照合する内容
+ */
+export interface OAuthPending {
+  state: string;
+  codeVerifier: string;
+  expiresAt: number;
+}
+
+/**
+ * リクエストのCookieから OAuth ログイン中の内容を取り出します。ない場合や期限切れの場合は null を返します。
+ */
+export const getOAuthPending = (request: NextRequest): OAuthPending | null => {
+  const sealed = request.cookies.get(OAUTH_PENDING_COOKIE_NAME)?.value;
+  const pending = sealed ? unseal<OAuthPending>(sealed) : null;
+  if (!pending || !(pending.expiresAt > Math.floor(Date.now() / 1000))) {
+    return null;
+  }
+  return pending;
+};
+
+/**
+ * OAuth ログイン中の内容をCookieに保存します。
+ * 認可サーバーからのリダイレクト (別サイトからの遷移) で送られるよう、SameSite=Lax にします。
+ */
+export const setOAuthPendingCookie = (response: NextResponse, state: string, codeVerifier: string) => {
+  const pending: OAuthPending = { state, codeVerifier, expiresAt: Math.floor(Date.now() / 1000) + OAUTH_PENDING_MAX_AGE_SEC };
+  response.cookies.set(OAUTH_PENDING_COOKIE_NAME, seal(pending), {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/api/auth/chatwork',
+    maxAge: OAUTH_PENDING_MAX_AGE_SEC,
+  });
+};
+
+/**
+ * OAuth ログイン中の内容を保存したCookieを削除します (コールバックの処理後)。
+ */
+export const clearOAuthPendingCookie = (response: NextResponse) => {
+  response.cookies.set(OAUTH_PENDING_COOKIE_NAME, '', {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/api/auth/chatwork',
+    maxAge: 0,
+  });
+};
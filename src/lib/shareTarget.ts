@@ -0,0 +1,50 @@
+// src/lib/shareTarget.ts
+
+// 他のアプリから共有 (Web Share Target) された内容を、メモの入力欄に入れる文字列にまとめるモジュールです。
+// 共有元のアプリによって、タイトル・本文・URL のどこに何が入るかが異なるため、重複を省いて1つにまとめます。
+
+/**
+ * 共有画面から受け取る値 (マニフェストの share_target.params で指定した名前)
+ */
+export interface SharedContent {
+  title?: string | null;
+  text?: string | null;
+  url?: string | null;
+}
+
+// メモに入れる共有内容の最大文字数 (URL に載せてトップページに渡すため、長すぎる内容は切り詰める)
+export const MAX_SHARED_MEMO_LENGTH = 4000;
+
+// 共有内容をトップページに渡すクエリパラメーターの名前
+export const SHARED_MEMO_PARAM = 'shared';
+
+/**
+ * 共有された内容をメモの文字列にまとめます。
+ * タイトル・本文・URL の順に1行ずつ並べ、本文に含まれているタイトルや URL は省きます。
+ * 何も共有されていない場合は空文字列を返します。
+ */
+export const buildSharedMemo = ({ title, text, url }: SharedContent): string => {
+  const cleanTitle = title?.trim() ?? '';
+  const cleanText = text?.trim() ?? '';
+  const cleanUrl = url?.trim() ?? '';
+
+  const lines: string[] = [];
+  if (cleanTitle && !cleanText.includes(cleanTitle)) lines.push(cleanTitle);
+  if (cleanText) lines.push(cleanText);
+  if (cleanUrl && !cleanText.includes(cleanUrl)) lines.push(cleanUrl);
+
+  return lines.join('\n').slice(0, MAX_SHARED_MEMO_LENGTH);
+};
+
+/**
+ * ページのURLから共有された内容を取り出します。共有されていない場合は null を返します。
+ * 通常は /share が内容をまとめて `?shared=` でトップページに渡しますが、
+ * オフラインで Service Worker がアプリの画面を返した場合は /share?title=…&text=…&url=… のまま開かれるため、その形式も読み取ります。
+ */
+export const readSharedMemo = (pathname: string, search: string): string | null => {
+  const params = new URLSearchParams(search);
+  const memo = pathname === '/share'
+    ? buildSharedMemo({ title: params.get('title'), text: params.get('text'), url: params.get('url') })
+    : params.get(SHARED_MEMO_PARAM)?.trim() ?? '';
+  return memo ? memo : null;
+};
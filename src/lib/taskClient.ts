@@ -0,0 +1,216 @@
+// src/lib/taskClient.ts
+
+// クライアントからNext.jsのAPIルート経由でChatworkにタスクを作成する (またはメッセージを投稿する) ための関数です。
+// 単体送信と一括送信で同じ処理を使うため、page.tsx から切り出しています。
+
+import { Deadline, deadlineToUnix } from './dueDate';
+import { defaultTranslate, describeApiError, isApiErrorCode, Translate } from './i18n';
+import type { ApiErrorCode } from '../types/apiError';
+import type { BroadcastResponse, BroadcastTarget } from '../types/broadcast';
+import type { ChatworkUploadedFile } from '../types/chatwork';
+
+// Next.jsのAPIルートを呼び出すためのベースURL
+const PROXY_BASE_URL = '/api/chatwork';
+
+/**
+ * 作成するタスクの内容
+ */
+export interface TaskRequest {
+  // タスク内容
+  body: string;
+  // 担当者のアカウントID
+  toIds: number[];
+  // 期限
+  deadline: Deadline;
+}
+
+/**
+ * タスク作成APIの成功レスポンス
+ */
+export interface TaskCreateResult {
+  task_ids: number[];
+}
+
+/**
+ * メッセージ投稿APIの成功レスポンス
+ */
+export interface MessagePostResult {
+  message_id: string;
+}
+
+/**
+ * タスク作成 (またはメッセージ投稿) に失敗した時にthrowされるエラー
+ * message はAPIルートが返した英語の説明 (通信自体が失敗した場合はその理由) です。画面には describeSendError で表示言語のメッセージにして表示します。
+ * status はAPIルートが返したHTTPステータス。通信自体が失敗した場合は null です。
+ * rateLimitReset はレート制限 (429) の場合の制限解除時刻 (Unixタイムスタンプ秒) です。
+ * code はAPIルートが返したエラーの種類です (分からない場合は null)。
+ */
+export class TaskSendError extends Error {
+  status: number | null;
+  rateLimitReset: number | null;
+  code: ApiErrorCode | null;
+
+  constructor(message: string, status: number | null, rateLimitReset: number | null = null, code: ApiErrorCode | null = null) {
+    super(message);
+    this.name = 'TaskSendError';
+    this.status = status;
+    this.rateLimitReset = rateLimitReset;
+    this.code = code;
+  }
+
+  /**
+   * 時間をおいて再送すれば成功する見込みがあるエラーかどうか
+   * (ネットワークエラー、Chatworkの5xx、レート制限の429)
+   */
+  get retryable(): boolean {
+    return this.status === null || this.status >= 500 || this.status === 429;
+  }
+}
+
+/**
+ * 送信待ちに回して後で再送すれば成功する見込みがある失敗かどうかを返します (TaskSendError の retryable を参照)。
+ *
+ * @param err - catch した例外
+ */
+export const isRetryableSendError = (err: unknown): err is TaskSendError => err instanceof TaskSendError && err.retryable;
+
+/**
+ * タスク作成APIに送るフォームデータを組み立てます。期限なしの場合は limit を含めません。
+ */
+export const buildTaskParams = (task: TaskRequest): URLSearchParams => {
+  const params = new URLSearchParams({
+    body: task.body, // タスク内容
+    to_ids: task.toIds.join(','), // 担当者ID (カンマ区切りの文字列)
+    limit_type: task.deadline.limitType, // 期限の種類 (none/date/time)
+  });
+  const limit = deadlineToUnix(task.deadline);
+  if (limit !== null) {
+    params.append('limit', limit.toString()); // タスクの期限 (Unixタイムスタンプ、文字列に変換)
+  }
+  return params;
+};
+
+// APIルートにフォームデータをPOSTし、JSONのレスポンスを返します。
+// FormData の場合は multipart/form-data で送ります (Content-Type はブラウザが境界文字列付きで設定する)。
+// それ以外のオブジェクトは JSON で送ります。
+// 失敗した場合はステータスコードとレスポンス内容を含む TaskSendError をthrowします。
+const postForm = async <T>(path: string, params: URLSearchParams | FormData | object, idempotencyKey?: string): Promise<T> => {
+  const headers: Record<string, string> = {
+    'Accept': 'application/json'
+  };
+  if (params instanceof URLSearchParams) {
+    // APIルートがformData()で受け取るため、application/x-www-form-urlencodedで送信
+    headers['Content-Type'] = 'application/x-www-form-urlencoded';
+  } else if (!(params instanceof FormData)) {
+    headers['Content-Type'] = 'application/json';
+  }
+  if (idempotencyKey) {
+    headers['Idempotency-Key'] = idempotencyKey;
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(`${PROXY_BASE_URL}${path}`, {
+      method: 'POST',
+      headers,
+      body: params instanceof URLSearchParams ? params.toString() : params instanceof FormData ? params : JSON.stringify(params)
+    });
+  } catch (err: any) {
+    // オフラインなど、APIルートまで届かなかった場合
+    throw new TaskSendError(err.message, null);
+  }
+
+  let data: any;
+  try {
+    data = await response.json();
+  } catch (err) {
+    throw new TaskSendError('API route returned non-JSON response.', response.status);
+  }
+  if (!response.ok) {
+    throw new TaskSendError(
+      typeof data?.error === 'string' ? data.error : JSON.stringify(data),
+      response.status,
+      // レート制限の場合は、いつ再試行できるかを伝えるため制限解除時刻を持たせる
+      typeof data?.rateLimitReset === 'number' ? data.rateLimitReset : null,
+      isApiErrorCode(data?.code) ? data.code : null,
+    );
+  }
+  return data;
+};
+
+/**
+ * 送信に失敗した時の例外を、表示言語のメッセージにします。
+ * TaskSendError はエラーの種類から、それ以外の例外はメッセージをそのまま表示します。
+ *
+ * @param err - catch した例外
+ * @param t - 翻訳関数 (省略時は日本語)
+ */
+export const describeSendError = (err: unknown, t: Translate = defaultTranslate): string => {
+  if (err instanceof TaskSendError) {
+    return describeApiError(t, { error: err.message, code: err.code, rateLimitReset: err.rateLimitReset }, err.status);
+  }
+  return err instanceof Error ? err.message : String(err);
+};
+
+/**
+ * APIルート (/api/chatwork/rooms/[roomId]/tasks) を呼び出してタスクを作成します。
+ * 失敗した場合はステータスコードとレスポンス内容を含む TaskSendError をthrowします。
+ *
+ * APIトークンはセッションCookieとして自動的に送られます。
+ *
+ * @param roomId - タスクを作成するルームID
+ * @param task - 作成するタスクの内容
+ * @param idempotencyKey - 再送時に同じタスクが重複作成されるのを防ぐためのキー (省略可)
+ */
+export const createTask = (
+  roomId: string,
+  task: TaskRequest,
+  idempotencyKey?: string,
+): Promise<TaskCreateResult> => postForm<TaskCreateResult>(`/rooms/${roomId}/tasks`, buildTaskParams(task), idempotencyKey);
+
+/**
+ * APIルート (/api/chatwork/rooms/[roomId]/messages) を呼び出してメッセージを投稿します。
+ * 失敗した場合はステータスコードとレスポンス内容を含む TaskSendError をthrowします。
+ *
+ * @param roomId - メッセージを投稿するルームID
+ * @param body - メッセージの本文 ([To:] や [info] の記法を含めたもの)
+ * @param idempotencyKey - 再送時に同じメッセージが重複投稿されるのを防ぐためのキー (省略可)
+ */
+export const postMessage = (
+  roomId: string,
+  body: string,
+  idempotencyKey?: string,
+): Promise<MessagePostResult> => postForm<MessagePostResult>(`/rooms/${roomId}/messages`, new URLSearchParams({ body }), idempotencyKey);
+
+/**
+ * APIルート (/api/chatwork/rooms/[roomId]/files) を呼び出してファイルをアップロードします。
+ * ファイルはルームにメッセージとして投稿され、そのメッセージIDを含むファイル情報を返します。
+ * 失敗した場合はステータスコードとレスポンス内容を含む TaskSendError をthrowします。
+ *
+ * @param roomId - アップロード先のルームID
+ * @param file - アップロードするファイル (5MBまで)
+ */
+export const uploadFile = (roomId: string, file: File): Promise<ChatworkUploadedFile> => {
+  const formData = new FormData();
+  formData.append('file', file, file.name);
+  return postForm<ChatworkUploadedFile>(`/rooms/${roomId}/files`, formData);
+};
+
+/**
+ * APIルート (/api/chatwork/tasks/batch) を呼び出して、1つのタスクを複数のルームに一斉送信します。
+ * 一部のルームだけ失敗した場合はthrowせず、ルームごとの結果を返します (全体が失敗した場合は TaskSendError をthrow)。
+ *
+ * @param task - 送信するタスクの内容と期限 (担当者はルームごとのルールで決まるため使わない)
+ * @param rooms - 送信先のルームと担当者のルール
+ * @param idempotencyKey - 失敗したルームを再送する時に、成功済みのルームに重複して作成しないためのキー (省略可)
+ */
+export const broadcastTask = (
+  task: Omit<TaskRequest, 'toIds'>,
+  rooms: BroadcastTarget[],
+  idempotencyKey?: string,
+): Promise<BroadcastResponse> => postForm<BroadcastResponse>('/tasks/batch', {
+  body: task.body,
+  limit: deadlineToUnix(task.deadline),
+  limit_type: task.deadline.limitType,
+  rooms,
+}, idempotencyKey);
@@ -0,0 +1,112 @@
+// src/lib/taskHistory.ts
+
+// 送信したタスクの履歴を IndexedDB に保存するモジュールです。
+// タスク作成APIが返したタスクIDも残し、後からChatworkで現在の状態を確認したり、同じ内容で送り直したりできるようにします。
+
+import { Deadline } from './dueDate';
+import { generateIdempotencyKey } from './outbox';
+import { HISTORY_STORE, withStore } from './indexedDb';
+import { normalizeForSearch } from './roomSearch';
+import type { WebhookEvent } from '../types/webhook';
+
+// 保存しておく履歴の最大件数 (超えた分は古いものから削除)
+const MAX_HISTORY_ENTRIES = 500;
+
+/**
+ * 送信履歴の1件
+ */
+export interface HistoryEntry {
+  id: string;
+  roomId: string;
+  // 送信時のルーム名
+  roomName: string;
+  body: string;
+  // 送信時の担当者 (名前は送信時のもの)
+  assignees: { account_id: number; name: string }[];
+  deadline: Deadline;
+  // 作成されたタスクのID (担当者ごとに1つ)
+  taskIds: number[];
+  // 送信した時刻 (ミリ秒)
+  sentAt: number;
+  // Webhookでタスクの完了を受け取った担当者のアカウントID
+  doneAccountIds?: number[];
+  // 送信したプロフィールのID (他のアカウントの履歴を表示しないため)。プロフィールに対応する前の履歴にはない
+  profileId?: string | null;
+}
+
+// 変更を通知するリスナー (履歴パネルの再描画に使用)
+const listeners = new Set<() => void>();
+
+/**
+ * 送信履歴の変更を購読します。戻り値の関数を呼ぶと購読を解除します。
+ */
+export const subscribeHistory = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const notify = () => listeners.forEach(listener => listener());
+
+/**
+ * 送信履歴をすべて新しい順に返します。
+ */
+export const listHistory = async (): Promise<HistoryEntry[]> => {
+  const entries = await withStore<HistoryEntry[]>(HISTORY_STORE, 'readonly', store => store.getAll());
+  return entries.sort((a, b) => b.sentAt - a.sentAt);
+};
+
+/**
+ * 送信履歴に1件追加します。最大件数を超えた場合は古いものから削除します。
+ */
+export const addHistoryEntry = async (entry: Omit<HistoryEntry, 'id'>): Promise<HistoryEntry> => {
+  const saved: HistoryEntry = { ...entry, id: generateIdempotencyKey() };
+  await withStore(HISTORY_STORE, 'readwrite', store => store.put(saved));
+  const overflow = (await listHistory()).slice(MAX_HISTORY_ENTRIES);
+  for (let index = 0; index < overflow.length; index++) {
+    await withStore(HISTORY_STORE, 'readwrite', store => store.delete(overflow[index].id));
+  }
+  notify();
+  return saved;
+};
+
+/**
+ * 送信履歴から1件削除します。
+ */
+export const deleteHistoryEntry = async (id: string): Promise<void> => {
+  await withStore(HISTORY_STORE, 'readwrite', store => store.delete(id));
+  notify();
+};
+
+/**
+ * Webhookで受け取ったタスクの完了・未完了を、対応する送信履歴に反映します。
+ * ルーム・本文・担当者が一致する履歴のうち、最も新しいものを更新します。
+ * @returns 反映した履歴 (一致する履歴がない場合は null)
+ */
+export const applyTaskStatusEvent = async (event: Extract<WebhookEvent, { kind: 'taskStatus' }>): Promise<HistoryEntry | null> => {
+  const entry = (await listHistory()).find(candidate =>
+    candidate.roomId === String(event.roomId) &&
+    candidate.body.trim() === event.body &&
+    candidate.assignees.some(assignee => assignee.account_id === event.accountId));
+  if (!entry) return null;
+
+  const others = (entry.doneAccountIds ?? []).filter(id => id !== event.accountId);
+  const updated: HistoryEntry = { ...entry, doneAccountIds: event.status === 'done' ? [...others, event.accountId] : others };
+  await withStore(HISTORY_STORE, 'readwrite', store => store.put(updated));
+  notify();
+  return updated;
+};
+
+/**
+ * 送信履歴をキーワードで絞り込みます。本文・ルーム名・担当者名のいずれかに含まれるものを返します。
+ * 空白で区切った複数の語はすべてを含むものに絞り込みます。全角/半角・かな/ローマ字・大文字/小文字の違いは区別しません。
+ */
+export const searchHistory = (entries: HistoryEntry[], query: string): HistoryEntry[] => {
+  const words = query.split(/\s+/).map(normalizeForSearch).filter(Boolean);
+  if (words.length === 0) return entries;
+  return entries.filter(entry => {
+    const text = normalizeForSearch([entry.body, entry.roomName, ...entry.assignees.map(a => a.name)].join(' '));
+    return words.every(word => text.includes(word));
+  });
+};
@@ -0,0 +1,382 @@
+// src/lib/taskImport.ts
+
+// CSV や Markdown のチェックリストからタスクを一括で取り込むためのモジュールです。
+// 取り込んだ行はルーム名・担当者名をIDに解決し、送信前に問題のある行を表示できるよう行ごとのエラーを持たせます。
+// 送信結果は、行ごとに作成されたタスクIDまたはエラーを含む CSV として書き出せます。
+
+import type { ChatworkMember, ChatworkRoom, LimitType } from '../types/chatwork';
+import { LIMIT_TYPES } from '../types/chatwork';
+import { Deadline, deadlineToUnix, formatDateInput, formatTimeInput, parseJapaneseDueDate } from './dueDate';
+import { defaultTranslate, Translate } from './i18n';
+import { extractLineTokens, resolveAssignee } from './memoParser';
+import { normalizeForSearch } from './roomSearch';
+import { describeSendError, TaskRequest, TaskSendError } from './taskClient';
+
+/**
+ * 取り込むファイルの形式
+ */
+export type ImportFormat = 'csv' | 'markdown';
+
+/**
+ * ファイルから読み取ったままの1行 (ルーム・担当者・期限はまだ文字列)
+ */
+export interface RawImportRow {
+  // 元のファイルでの行番号 (1始まり)
+  line: number;
+  body: string;
+  // ルーム名またはルームID。空の場合は選択中のルームに送る
+  room: string;
+  // 担当者の名前またはアカウントID (複数の場合は「,」「、」「;」区切り)
+  assignee: string;
+  // 期限 (「2026-10-31」「2026/10/31 17:00」「明日17時」など)
+  due: string;
+  // 期限の種類 (none / date / time)。空の場合は期限の書き方から判断する
+  limitType: string;
+}
+
+/**
+ * ルームと担当者をIDに解決した取り込み行
+ * errors が空でない行は送信しません。
+ */
+export interface ImportRow {
+  line: number;
+  body: string;
+  // 送信先のルームID (解決できなかった場合は null)
+  roomId: number | null;
+  // 表示用のルーム名
+  roomName: string;
+  assigneeIds: number[];
+  // 表示用の担当者名
+  assigneeNames: string[];
+  deadline: Deadline;
+  errors: string[];
+}
+
+/**
+ * 1行の送信結果
+ */
+export type ImportResult = { ok: true; taskIds: number[] } | { ok: false; error: string };
+
+// CSV の列名 (1行目)。この順で並んでいなくても列名で対応付ける
+export const IMPORT_CSV_COLUMNS = ['body', 'room', 'assignee', 'due', 'limit_type'] as const;
+
+// Chatworkはタスクの作成をルームごとに10秒あたり10件までに制限しているため、1件ずつ間隔をあけて送る
+export const IMPORT_SEND_INTERVAL_MS = 1000 * 1.1;
+// レート制限 (429) を受けた場合に、制限の解除を待って送り直す回数
+const MAX_RATE_LIMIT_RETRIES = 3;
+
+// 送信結果の CSV の列名
+const RESULT_CSV_COLUMNS = ['line', 'body', 'room', 'room_id', 'assignee', 'due', 'limit_type', 'status', 'task_ids', 'error'];
+
+// Markdown のチェックリストの未完了の項目 (`- [ ] 本文`)。完了済みの `- [x]` は取り込まない
+const CHECKLIST_ITEM_PATTERN = /^\s*[-*+]\s*\[\s\]\s*(.*)$/;
+// Markdown の見出し (`## ルーム名`)。以降の項目の送信先ルームになる
+const HEADING_PATTERN = /^\s*#{1,6}\s+(.+?)\s*#*\s*$/;
+// CSV を表計算ソフトで開いた時に数式として扱われる先頭の文字 (CSV インジェクション対策で、先頭に ' を付けて文字列にする)
+const FORMULA_PREFIX_PATTERN = /^[=+\-@\t\r]/;
+
+/**
+ * CSV の文字列を行・列の二次元配列に分解します (RFC 4180)。
+ * ダブルクォートで囲んだ列では、カンマ・改行・2重のダブルクォート ("") を扱えます。先頭のBOMは取り除きます。
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const source = text.replace(/^\uFEFF/, '');
+
+  for (let index = 0; index < source.length; index++) {
+    const ch = source.charAt(index);
+    if (quoted) {
+      if (ch === '"' && source.charAt(index + 1) === '"') {
+        field += '"';
+        index++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && source.charAt(index + 1) === '\n') index++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
+
+// CSV の1列分の文字列を作ります。カンマ・ダブルクォート・改行を含む場合はダブルクォートで囲みます。
+// = + - @ やタブ・CR で始まる値は、表計算ソフトで数式として実行されないよう先頭に ' を付けます。
+const toCsvField = (value: string): string => {
+  const text = FORMULA_PREFIX_PATTERN.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * 二次元配列を CSV の文字列にします。Excel で文字化けしないよう、先頭にBOMを付けます。
+ * = + - @ やタブ・CR で始まる値は、数式として実行されないよう先頭に ' を付けます。
+ */
+export const toCsv = (rows: string[][]): string =>
+  '\uFEFF' + rows.map(row => row.map(toCsvField).join(',')).join('\r\n') + '\r\n';
+
+/**
+ * ファイル名と内容から形式を判断します。拡張子が .csv なら CSV、.md なら Markdown、
+ * それ以外は Markdown のチェックリストの項目があるかどうかで判断します。
+ */
+export const detectImportFormat = (fileName: string, text: string): ImportFormat => {
+  if (/\.csv$/i.test(fileName)) return 'csv';
+  if (/\.(md|markdown)$/i.test(fileName)) return 'markdown';
+  return text.split(/\r?\n/).some(line => CHECKLIST_ITEM_PATTERN.test(line)) ? 'markdown' : 'csv';
+};
+
+/**
+ * CSV を取り込み行に分解します。1行目は列名 (body, room, assignee, due, limit_type) です。
+ * 空行は無視します。body の列がない場合は例外をthrowします。
+ */
+export const readImportCsv = (text: string, t: Translate = defaultTranslate): RawImportRow[] => {
+  const [header, ...records] = parseCsv(text);
+  const columns = (header ?? []).map(name => name.trim().toLowerCase());
+  if (!columns.includes('body')) {
+    throw new Error(t('import.error.missingHeader', { columns: IMPORT_CSV_COLUMNS.join(', ') }));
+  }
+  const column = (record: string[], name: string) => {
+    const index = columns.indexOf(name);
+    return index >= 0 ? (record[index] ?? '').trim() : '';
+  };
+
+  const rows: RawImportRow[] = [];
+  records.forEach((record, index) => {
+    if (record.every(value => !value.trim())) return;
+    rows.push({
+      // 列名の行が1行目なので、データは2行目から
+      line: index + 2,
+      body: column(record, 'body'),
+      room: column(record, 'room'),
+      assignee: column(record, 'assignee'),
+      due: column(record, 'due'),
+      limitType: column(record, 'limit_type'),
+    });
+  });
+  return rows;
+};
+
+/**
+ * Markdown のチェックリストを取り込み行に分解します。
+ * 未完了の項目 (`- [ ] 本文 @担当者 !期限`) を1行のタスクとし、見出し (`## ルーム名`) を以降の項目の送信先ルームとします。
+ * 担当者・期限のトークンは、複数行のメモ (memoParser) と同じ書き方です。期限のトークンが複数ある場合は最後のものを使います。
+ */
+export const readImportMarkdown = (text: string): RawImportRow[] => {
+  const rows: RawImportRow[] = [];
+  let room = '';
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const heading = rawLine.match(HEADING_PATTERN);
+    if (heading) {
+      room = heading[1];
+      return;
+    }
+    const item = rawLine.match(CHECKLIST_ITEM_PATTERN);
+    if (!item) return;
+
+    const { body, assignees, dues } = extractLineTokens(item[1]);
+    const due = dues.length > 0 ? dues[dues.length - 1] : '';
+    rows.push({ line: index + 1, body, room, assignee: assignees.join(','), due, limitType: '' });
+  });
+  return rows;
+};
+
+/**
+ * 取り込み行のルーム名・ルームIDを、取得済みのルーム一覧のルームに解決します。
+ * ルームIDとの完全一致、ルーム名の一致 (全角/半角・大文字/小文字は区別しない) の順に探し、1件に絞れた場合のみ解決します。
+ */
+export const resolveImportRoom = (room: string, rooms: ChatworkRoom[]): ChatworkRoom | null => {
+  if (/^\d+$/.test(room)) {
+    const byId = rooms.find(candidate => candidate.room_id === parseInt(room, 10));
+    if (byId) return byId;
+  }
+  const target = normalizeForSearch(room);
+  const candidates = rooms.filter(candidate => normalizeForSearch(candidate.name) === target);
+  return candidates.length === 1 ? candidates[0] : null;
+};
+
+// 期限の列を解釈します。期限の種類の指定がない場合は、時刻があれば日時指定、なければ日付指定にします。
+const resolveDeadline = (row: RawImportRow, now: Date, errors: string[], t: Translate): Deadline => {
+  const none: Deadline = { limitType: 'none', date: '', time: '' };
+  const limitType = row.limitType.toLowerCase();
+  if (limitType && !LIMIT_TYPES.includes(limitType as LimitType)) {
+    errors.push(t('import.error.invalidLimitType', { limitType: row.limitType }));
+    return none;
+  }
+  if (limitType === 'none' || (!limitType && !row.due)) return none;
+  if (!row.due) {
+    errors.push(t('import.error.missingDue'));
+    return none;
+  }
+
+  const parsed = parseJapaneseDueDate(row.due, now);
+  if (!parsed) {
+    errors.push(t('import.error.unparsableDue', { due: row.due }));
+    return none;
+  }
+  const hasTime = limitType ? limitType === 'time' : parsed.hasTime;
+  return {
+    limitType: hasTime ? 'time' : 'date',
+    date: formatDateInput(parsed.date),
+    time: hasTime ? formatTimeInput(parsed.date) : '',
+  };
+};
+
+/**
+ * 取り込み行のルーム・担当者・期限を解決し、送信できない行にはエラーを付けます。
+ *
+ * @param rows - ファイルから読み取った行
+ * @param rooms - 取得済みのルーム一覧 (ルーム名の解決に使用)
+ * @param membersByRoomId - ルームIDごとのメンバー一覧 (担当者名の解決に使用)
+ * @param defaultRoomId - ルームの指定がない行の送信先 (選択中のルーム)
+ * @param now - 相対的な期限 (「明日」など) の基準時刻
+ * @param t - エラーの表示に使う翻訳関数 (省略時は日本語)
+ */
+export const resolveImportRows = (
+  rows: RawImportRow[],
+  rooms: ChatworkRoom[],
+  membersByRoomId: Record<number, ChatworkMember[]>,
+  defaultRoomId: number | null,
+  now: Date = new Date(),
+  t: Translate = defaultTranslate,
+): ImportRow[] => rows.map(row => {
+  const errors: string[] = [];
+  if (!row.body) errors.push(t('import.error.emptyBody'));
+
+  // ルーム
+  let room: ChatworkRoom | null = null;
+  if (row.room) {
+    room = resolveImportRoom(row.room, rooms);
+    if (!room) errors.push(t('import.error.roomNotFound', { room: row.room }));
+  } else {
+    room = rooms.find(candidate => candidate.room_id === defaultRoomId) ?? null;
+    if (!room) errors.push(t('import.error.noRoom'));
+  }
+
+  // 担当者 (ルームのメンバーから探す)
+  const members = room ? membersByRoomId[room.room_id] ?? [] : [];
+  const assigneeIds: number[] = [];
+  const tokens = row.assignee.split(/[,、;；]/).map(token => token.trim()).filter(Boolean);
+  tokens.forEach(token => {
+    const accountId = resolveAssignee(token.replace(/^[@＠]/, ''), members, null);
+    if (accountId === null) {
+      if (room) errors.push(t('import.error.notMember', { assignee: token }));
+    } else if (!assigneeIds.includes(accountId)) {
+      assigneeIds.push(accountId);
+    }
+  });
+  if (tokens.length === 0) errors.push(t('import.error.noAssignee'));
+
+  const deadline = resolveDeadline(row, now, errors, t);
+  if (deadline.limitType !== 'none' && (deadlineToUnix(deadline) ?? 0) * 1000 < now.getTime()) {
+    errors.push(t('import.error.pastDue'));
+  }
+
+  return {
+    line: row.line,
+    body: row.body,
+    roomId: room ? room.room_id : null,
+    roomName: room ? room.name : row.room,
+    assigneeIds,
+    assigneeNames: assigneeIds.map(id => members.find(member => member.account_id === id)?.name ?? String(id)),
+    deadline,
+    errors,
+  };
+});
+
+/**
+ * 送信結果の CSV を作ります。取り込んだ行ごとに、作成されたタスクIDまたはエラーを書き出します。
+ * 送信しなかった行 (エラーのある行) は status を skipped とし、エラーの内容を書き出します。
+ *
+ * @param rows - 取り込み行
+ * @param results - 行番号ごとの送信結果
+ */
+export const buildImportResultCsv = (rows: ImportRow[], results: Record<number, ImportResult>): string =>
+  toCsv([
+    RESULT_CSV_COLUMNS,
+    ...rows.map(row => {
+      const result = results[row.line];
+      const status = result ? (result.ok ? 'created' : 'failed') : row.errors.length > 0 ? 'skipped' : 'pending';
+      const error = result && !result.ok ? result.error : row.errors.join(' / ');
+      return [
+        String(row.line),
+        row.body,
+        row.roomName,
+        row.roomId !== null ? String(row.roomId) : '',
+        row.assigneeNames.join(','),
+        row.deadline.limitType === 'none' ? '' : `${row.deadline.date}${row.deadline.limitType === 'time' ? ` ${row.deadline.time}` : ''}`,
+        row.deadline.limitType,
+        status,
+        result && result.ok ? result.taskIds.join(',') : '',
+        error,
+      ];
+    }),
+  ]);
+
+/**
+ * 取り込み行を上から順に1件ずつ送信します。エラーのある行と、すでに送信に成功した行は送りません。
+ * レート制限にかからないよう間隔をあけて送り、それでも429を受けた場合は制限の解除を待ってから同じ行を送り直します。
+ *
+ * @param rows - 取り込み行
+ * @param previous - 前回までの送信結果 (再送信の時に成功した行を飛ばすために使用)
+ * @param send - 1件のタスクを作成し、作成されたタスクIDを返す関数
+ * @param options.onProgress - 1件送るごとに呼ばれるコールバック
+ * @param options.sleep - 待機に使う関数 (テストで差し替える)
+ * @param options.t - 送信エラーの表示に使う翻訳関数 (省略時は日本語)
+ * @returns 行番号ごとの送信結果 (前回までの結果を含む)
+ */
+export const sendImportRows = async (
+  rows: ImportRow[],
+  previous: Record<number, ImportResult>,
+  send: (roomId: number, task: TaskRequest) => Promise<number[]>,
+  options: {
+    onProgress?: (done: number, total: number, row: ImportRow, result: ImportResult) => void;
+    sleep?: (ms: number) => Promise<void>;
+    t?: Translate;
+  } = {},
+): Promise<Record<number, ImportResult>> => {
+  const sleep = options.sleep ?? ((ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms)));
+  const results: Record<number, ImportResult> = { ...previous };
+  const pending = rows.filter(row => row.errors.length === 0 && row.roomId !== null && !results[row.line]?.ok);
+
+  for (let index = 0; index < pending.length; index++) {
+    const row = pending[index];
+    if (index > 0) await sleep(IMPORT_SEND_INTERVAL_MS);
+
+    let result: ImportResult | null = null;
+    for (let attempt = 0; !result; attempt++) {
+      try {
+        const taskIds = await send(row.roomId as number, { body: row.body, toIds: row.assigneeIds, deadline: row.deadline });
+        result = { ok: true, taskIds };
+      } catch (err: any) {
+        if (err instanceof TaskSendError && err.status === 429 && err.rateLimitReset && attempt < MAX_RATE_LIMIT_RETRIES) {
+          // 制限が解除されるまで待ってから同じ行を送り直す
+          await sleep(Math.max(err.rateLimitReset * 1000 - Date.now(), 0) + 1000);
+          continue;
+        }
+        result = { ok: false, error: describeSendError(err, options.t) };
+      }
+    }
+    results[row.line] = result;
+    options.onProgress?.(index + 1, pending.length, row, result);
+  }
+  return results;
+};
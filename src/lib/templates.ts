@@ -0,0 +1,205 @@
+// src/lib/templates.ts
+
+// タスクのテンプレートを扱うモジュールです。
+// テンプレートはブラウザのローカルストレージに保存し、チームで共有できるようJSONファイルとして書き出し・読み込みできます。
+// 本文の `{{client}}` のようなプレースホルダーの抽出・置き換えと、「3営業日後」のような相対的な期限の解釈も行います。
+
+import { Deadline, formatDateInput } from './dueDate';
+import { defaultTranslate, Translate } from './i18n';
+import { LIMIT_TYPES } from '../types/chatwork';
+import type { RelativeDeadline, TaskTemplate } from '../types/template';
+
+// テンプレートを保存するローカルストレージのキー
+const STORAGE_KEY_TEMPLATES = 'chatworkTaskTemplates';
+
+// 書き出すJSONの形式のバージョン
+const EXPORT_VERSION = 1;
+
+// プレースホルダー (`{{name}}`) に一致する正規表現
+const PLACEHOLDER_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+/**
+ * テンプレートのIDを生成します。
+ */
+export const generateTemplateId = (): string => {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+};
+
+/**
+ * 本文に含まれるプレースホルダーの名前を、出てきた順に重複なく返します。
+ */
+export const extractPlaceholders = (body: string): string[] => {
+  const names: string[] = [];
+  body.replace(PLACEHOLDER_PATTERN, (_, name: string) => {
+    if (!names.includes(name)) names.push(name);
+    return '';
+  });
+  return names;
+};
+
+/**
+ * 本文のプレースホルダーを入力値で置き換えます。値がないプレースホルダーはそのまま残します。
+ */
+export const fillPlaceholders = (body: string, values: Record<string, string>): string =>
+  body.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => (values[name] ? values[name] : placeholder));
+
+/**
+ * プレースホルダーの入力欄に最初から入れておく値を返します。
+ * `{{date}}` には今日の日付 (M/D) を入れ、それ以外は空にします。
+ */
+export const defaultPlaceholderValue = (name: string, now: Date = new Date()): string =>
+  name === 'date' ? `${now.getMonth() + 1}/${now.getDate()}` : '';
+
+/**
+ * 「3営業日後 17:00」「+3 business days」のような相対的な期限の表記を解釈します。
+ * 空欄・「なし」・none は期限なしです。解釈できない場合は null を返します。
+ */
+export const parseRelativeDeadline = (input: string): RelativeDeadline | null => {
+  const text = input
+    .replace(/[０-９：＋]/g, ch => String.fromCharCode(ch.charCodeAt(0) - 0xfee0))
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+  if (text === '' || text === 'なし' || text === 'none') {
+    return { limitType: 'none', offset: 0, unit: 'day', time: '' };
+  }
+
+  // 末尾の時刻 (17:00 / 17時 / 17時30分)
+  let rest = text;
+  let time = '';
+  const timeMatch = rest.match(/\s*(?:at\s+)?(\d{1,2})(?::(\d{2})|時(?:(\d{1,2})分)?)$/);
+  if (timeMatch) {
+    const hours = parseInt(timeMatch[1], 10);
+    const minutes = parseInt(timeMatch[2] ?? timeMatch[3] ?? '0', 10);
+    if (hours > 23 || minutes > 59) return null;
+    time = `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`;
+    rest = rest.slice(0, timeMatch.index).trim();
+  }
+
+  let offset: number;
+  let unit: RelativeDeadline['unit'];
+  let match = rest.match(/^\+?\s*(\d+)\s*(business\s*days?|days?|weeks?)$/);
+  if (match) {
+    offset = parseInt(match[1], 10);
+    unit = match[2].startsWith('business') ? 'businessDay' : match[2].startsWith('week') ? 'week' : 'day';
+  } else if ((match = rest.match(/^(\d+)(営業日後|日後|週間後)$/))) {
+    offset = parseInt(match[1], 10);
+    unit = match[2] === '営業日後' ? 'businessDay' : match[2] === '週間後' ? 'week' : 'day';
+  } else {
+    return null;
+  }
+
+  return { limitType: time ? 'time' : 'date', offset, unit, time };
+};
+
+/**
+ * 相対的な期限を「3営業日後 17:00」(英語では「+3 business days 17:00」) の形式で表記します (parseRelativeDeadline で読み戻せる形式)。
+ */
+export const formatRelativeDeadline = (deadline: RelativeDeadline, t: Translate = defaultTranslate): string => {
+  if (deadline.limitType === 'none') return t('relativeDeadline.none');
+  const label = t(`relativeDeadline.${deadline.unit}`, { offset: deadline.offset });
+  return deadline.limitType === 'time' ? `${label} ${deadline.time}` : label;
+};
+
+/**
+ * 相対的な期限を、基準日から数えたフォームの期限に変換します。
+ * 営業日は土日を除いて数えます (祝日は考慮しません)。
+ */
+export const resolveRelativeDeadline = (deadline: RelativeDeadline, now: Date = new Date()): Deadline => {
+  const date = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  if (deadline.unit === 'businessDay') {
+    let remaining = deadline.offset;
+    while (remaining > 0) {
+      date.setDate(date.getDate() + 1);
+      if (date.getDay() !== 0 && date.getDay() !== 6) remaining--;
+    }
+  } else {
+    date.setDate(date.getDate() + deadline.offset * (deadline.unit === 'week' ? 7 : 1));
+  }
+  return { limitType: deadline.limitType, date: formatDateInput(date), time: deadline.time || '17:00' };
+};
+
+/**
+ * 値が相対的な期限の形式になっているかを確認します (JSONから読み込んだ値やAPIで受け取った値の検証用)。
+ */
+export const isRelativeDeadline = (value: any): value is RelativeDeadline =>
+  !!value &&
+  LIMIT_TYPES.includes(value.limitType) &&
+  typeof value.offset === 'number' &&
+  ['day', 'businessDay', 'week'].includes(value.unit) &&
+  typeof value.time === 'string';
+
+// 読み込んだ値をテンプレートに変換します。必須の項目が欠けている場合は null を返します。
+const toTemplate = (value: any): TaskTemplate | null => {
+  if (!value || typeof value.name !== 'string' || !value.name.trim() || typeof value.body !== 'string') {
+    return null;
+  }
+  return {
+    id: typeof value.id === 'string' && value.id ? value.id : generateTemplateId(),
+    name: value.name.trim(),
+    body: value.body,
+    roomId: typeof value.roomId === 'number' ? value.roomId : null,
+    assigneeIds: Array.isArray(value.assigneeIds) ? value.assigneeIds.filter((id: unknown) => typeof id === 'number') : [],
+    deadline: isRelativeDeadline(value.deadline) ? value.deadline : null,
+  };
+};
+
+/**
+ * ローカルストレージからテンプレート一覧を読み込みます。保存されていない場合や壊れている場合は空配列を返します。
+ */
+export const loadTemplates = (): TaskTemplate[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY_TEMPLATES) || '[]');
+    return Array.isArray(stored) ? stored.map(toTemplate).filter((t): t is TaskTemplate => t !== null) : [];
+  } catch (e) {
+    console.error('Stored templates are corrupted.', e);
+    return [];
+  }
+};
+
+/**
+ * テンプレート一覧をローカルストレージに保存します。
+ */
+export const saveTemplates = (templates: TaskTemplate[]) => {
+  localStorage.setItem(STORAGE_KEY_TEMPLATES, JSON.stringify(templates));
+};
+
+/**
+ * テンプレート一覧を共有用のJSON文字列にします。
+ */
+export const exportTemplates = (templates: TaskTemplate[]): string =>
+  JSON.stringify({ version: EXPORT_VERSION, templates }, null, 2);
+
+/**
+ * 共有用のJSON文字列からテンプレートを読み込みます。
+ * `{ version, templates: [...] }` の形式のほか、テンプレートの配列だけのJSONも受け付けます。
+ * JSONとして読めない場合や、テンプレートが1件も含まれていない場合は、t で表示言語に合わせたメッセージのエラーをthrowします。
+ */
+export const parseTemplatesJson = (json: string, t: Translate = defaultTranslate): TaskTemplate[] => {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch (e) {
+    throw new Error(t('template.error.invalidJson'));
+  }
+  const list = Array.isArray(data) ? data : data?.templates;
+  if (!Array.isArray(list)) {
+    throw new Error(t('template.error.noList'));
+  }
+  const templates = list.map(toTemplate).filter((template): template is TaskTemplate => template !== null);
+  if (templates.length === 0) {
+    throw new Error(t('template.error.empty'));
+  }
+  return templates;
+};
+
+/**
+ * 読み込んだテンプレートを既存の一覧に取り込みます。同じIDのテンプレートは読み込んだ内容で置き換えます。
+ */
+export const mergeTemplates = (current: TaskTemplate[], imported: TaskTemplate[]): TaskTemplate[] => {
+  const importedIds = imported.map(template => template.id);
+  return current.filter(template => !importedIds.includes(template.id)).concat(imported);
+};
@@ -0,0 +1,48 @@
+// src/lib/timeZone.ts
+
+// サーバー側で日付・時刻を計算するときのタイムゾーンです。
+// 定期タスク・ダイジェスト・カレンダーの日付の区切りは、サーバーのタイムゾーンによらず Chatwork の表示と同じ Asia/Tokyo で判断します。
+
+/**
+ * アプリのタイムゾーン
+ */
+export const APP_TIMEZONE = 'Asia/Tokyo';
+
+// Asia/Tokyo のUTCからのずれ (夏時間はない)
+const APP_TIMEZONE_OFFSET_MS = 1000 * 60 * 60 * 9;
+
+/**
+ * アプリのタイムゾーンでの日付・時刻の各要素 (month は Date と同じく 0 始まり、weekday は日曜=0)
+ */
+export interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hours: number;
+  minutes: number;
+  seconds: number;
+  weekday: number;
+}
+
+/**
+ * 時刻をアプリのタイムゾーンでの日付・時刻の各要素にします。
+ */
+export const toZonedParts = (date: Date): ZonedParts => {
+  const shifted = new Date(date.getTime() + APP_TIMEZONE_OFFSET_MS);
+  return {
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth(),
+    day: shifted.getUTCDate(),
+    hours: shifted.getUTCHours(),
+    minutes: shifted.getUTCMinutes(),
+    seconds: shifted.getUTCSeconds(),
+    weekday: shifted.getUTCDay(),
+  };
+};
+
+/**
+ * アプリのタイムゾーンでの日付・時刻から Date を作ります。
+ * new Date(year, month, day, ...) と同じく、範囲外の日や月は繰り上げ・繰り下げます。
+ */
+export const fromZonedParts = (year: number, month: number, day: number, hours = 0, minutes = 0): Date =>
+  new Date(Date.UTC(year, month, day, hours, minutes) - APP_TIMEZONE_OFFSET_MS);
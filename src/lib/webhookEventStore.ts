@@ -0,0 +1,95 @@
+// src/lib/webhookEventStore.ts
+
+// Webhookで受け取ったイベントを、クライアントが取りに来るまで保存しておくサーバー側のストアです。
+// 保存先は環境変数 WEBHOOK_EVENTS_FILE で変更できます (既定: .data/webhook-events.json)。
+// 自分宛てのメンションは、クライアントが反映し終えたら削除します。
+// タスクの追加・完了はルームのメンバー全員に返すため削除せず、反映し終えたアカウントを記録して、そのアカウントにだけ返さないようにします。
+// 古いイベントは件数の上限を超えた分から捨てます。
+
+import path from 'path';
+import { createJsonFile, JsonFile } from './jsonFile';
+import type { WebhookEvent } from '../types/webhook';
+
+// 保存しておくイベントの最大件数
+const MAX_EVENTS = 500;
+
+/**
+ * ストアに保存するイベント
+ */
+export type StoredWebhookEvent = WebhookEvent & {
+  // 反映済みにしたアカウントのID (タスクの追加・完了のみ)
+  acknowledgedBy?: number[];
+};
+
+/**
+ * 保存先のファイルパスを返します。環境変数 WEBHOOK_EVENTS_FILE が設定されていればそれを使います。
+ */
+export const getWebhookEventsFilePath = (): string =>
+  process.env.WEBHOOK_EVENTS_FILE || path.join(process.cwd(), '.data', 'webhook-events.json');
+
+// 開発サーバーのホットリロードでも同じファイルに対して1つの読み書き口を使うよう、globalThisに保持する
+const globalFiles = globalThis as typeof globalThis & { __webhookEventFiles?: Map<string, JsonFile<StoredWebhookEvent[]>> };
+const files: Map<string, JsonFile<StoredWebhookEvent[]>> = globalFiles.__webhookEventFiles ?? (globalFiles.__webhookEventFiles = new Map());
+
+const getFile = (): JsonFile<StoredWebhookEvent[]> => {
+  const filePath = getWebhookEventsFilePath();
+  let file = files.get(filePath);
+  if (!file) {
+    file = createJsonFile<StoredWebhookEvent[]>(filePath, () => []);
+    files.set(filePath, file);
+  }
+  return file;
+};
+
+/**
+ * イベントを保存します。同じIDのイベント (Chatworkからの再送) は保存しません。
+ * @returns 新しく保存したイベントの件数
+ */
+export const addWebhookEvents = (events: WebhookEvent[]): Promise<number> =>
+  getFile().update(stored => {
+    const added = events.filter(event => !stored.some(existing => existing.id === event.id));
+    stored.push(...added);
+    stored.splice(0, Math.max(stored.length - MAX_EVENTS, 0));
+    return added.length;
+  });
+
+/**
+ * 保存しているイベントを受け取った順に返します。
+ */
+export const listWebhookEvents = (): Promise<StoredWebhookEvent[]> => getFile().read();
+
+/**
+ * アカウントがイベントを反映済みにしたかどうかを返します。
+ */
+export const isAcknowledgedBy = (event: StoredWebhookEvent, accountId: number): boolean =>
+  (event.acknowledgedBy ?? []).includes(accountId);
+
+/**
+ * イベントを反映済みにします (クライアントが反映し終えた時)。
+ * メンションは宛先のアカウントしか受け取らないため削除し、タスクの追加・完了は反映済みにしたアカウントを記録します。
+ *
+ * @param id - イベントのID
+ * @param accountId - 反映し終えたアカウントのID
+ * @returns 反映済みにできた場合は true (イベントがない場合や、すでに反映済みの場合は false)
+ */
+export const acknowledgeWebhookEvent = (id: string, accountId: number): Promise<boolean> =>
+  getFile().update(stored => {
+    const index = stored.findIndex(event => event.id === id);
+    if (index < 0) return false;
+    const event = stored[index];
+    if (event.kind === 'mention') {
+      stored.splice(index, 1);
+      return true;
+    }
+    if (isAcknowledgedBy(event, accountId)) return false;
+    stored[index] = { ...event, acknowledgedBy: (event.acknowledgedBy ?? []).concat(accountId) };
+    return true;
+  });
+
+/**
+ * クライアントに返す形式にします (反映済みにしたアカウントは返さない)。
+ */
+export const toPublicWebhookEvent = (event: StoredWebhookEvent): WebhookEvent => {
+  const { acknowledgedBy, ...rest } = event;
+  return rest as WebhookEvent;
+};
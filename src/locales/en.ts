@@ -0,0 +1,451 @@
+// src/locales/en.ts
+
+// 英語のメッセージのカタログ
+// ja.ts と同じキーをすべて定義します (足りないキーは型エラーになります)。
+
+import type { MessageKey } from './ja';
+
+const en: Record<MessageKey, string> = {
+  // 表示言語の切り替え
+  'locale.label': 'Language',
+  'locale.ja': '日本語',
+  'locale.en': 'English',
+
+  // 曜日 (Date#getDay の順)
+  'weekday.0': 'Sun',
+  'weekday.1': 'Mon',
+  'weekday.2': 'Tue',
+  'weekday.3': 'Wed',
+  'weekday.4': 'Thu',
+  'weekday.5': 'Fri',
+  'weekday.6': 'Sat',
+
+  // APIルートのエラー
+  'apiError.token_missing': 'You are not logged in. Please log in again with your API token.',
+  'apiError.invalid_body': 'The request is malformed.',
+  'apiError.invalid_path': 'The room ID or task ID is invalid.',
+  'apiError.invalid_parameter': 'Some input is invalid ({detail})',
+  'apiError.file_too_large': "The file exceeds Chatwork's 5MB limit.",
+  'apiError.length_required': 'The upload size is unknown, so the file cannot be uploaded.',
+  'apiError.credential_invalid': 'The saved Chatwork credential is no longer valid. Save the settings again.',
+  'apiError.profile_limit_reached': 'You have reached the maximum number of saved profiles. Log out of a profile you no longer use.',
+  'apiError.no_assignable_members': 'No members in this room can be assigned.',
+  'apiError.profile_not_found': 'Profile not found.',
+  'apiError.schedule_not_found': 'Recurring task not found.',
+  'apiError.calendar_feed_not_found': 'Calendar URL not found.',
+  'apiError.webhook_event_not_found': 'Webhook event not found.',
+  'apiError.my_chat_not_found': 'My Chat not found.',
+  'apiError.oauth_not_configured': 'Login with a Chatwork account is not configured.',
+  'apiError.webhook_not_configured': 'The webhook is not configured.',
+  'apiError.invalid_webhook_signature': 'The webhook signature is invalid.',
+  'apiError.invalid_webhook_payload': 'The webhook payload is invalid.',
+  'apiError.storage_failed': 'Failed to save the data.',
+  'apiError.chatwork_unauthorized': 'Chatwork rejected the credentials. Please check your API token.',
+  'apiError.chatwork_forbidden': 'You do not have permission to do this.',
+  'apiError.chatwork_not_found': 'The room or task was not found.',
+  'apiError.chatwork_rate_limited': 'The Chatwork API rate limit has been reached. Please try again later.',
+  'apiError.chatwork_unreachable': 'Could not reach Chatwork. Please try again later.',
+  'apiError.chatwork_error': 'Chatwork API error: {detail}',
+  'apiError.internal_error': 'An error occurred on the server.',
+  'apiError.rateLimitedUntil': 'The Chatwork API rate limit has been reached. Please try again after {time}.',
+  'apiError.network': 'Network error: {detail}',
+  'apiError.unknown': 'An error occurred (HTTP {status}): {detail}',
+  'apiError.http': 'An error occurred (HTTP {status})',
+
+  // 送信方法 (SendModePicker)
+  'sendMode.task': 'Task',
+  'sendMode.message': 'Message',
+  'sendMode.both': 'Task + message',
+  'sendMode.bulkOnlyTask': 'Bulk mode sends tasks only.',
+  'sendMode.wrapInInfo': 'Wrap in [info]',
+  'sendMode.infoTitlePlaceholder': 'Title (optional)',
+
+  // プロフィールの切り替え (ProfileSwitcher)
+  'profileSwitcher.loggedInAs': 'Logged in as:',
+  'profileSwitcher.add': 'Add account',
+  'profileSwitcher.logout': 'Log out',
+
+  // 送信される本文のプレビュー (ChatworkPreview)
+  'preview.raw': 'Send Markdown as is without converting',
+  'preview.body': 'Body to be sent',
+  'preview.rendered': 'How it looks in Chatwork',
+  'preview.unresolvedMentions': '⚠ {names} could not be found among the room members, so they will be sent as plain text instead of mentions.',
+  'preview.mentionSeparator': ', ',
+
+  // ルームの選択 (RoomPicker)
+  'roomPicker.loading': 'Loading rooms...',
+  'roomPicker.placeholder': '-- Select a room --',
+  'roomPicker.search': 'Search by room name (kana or romaji also work)',
+  'roomPicker.noMatch': 'No matching rooms.',
+  'roomPicker.addFavorite': 'Add to favorites',
+  'roomPicker.removeFavorite': 'Remove from favorites',
+  'roomPicker.section.favorites': 'Favorites',
+  'roomPicker.section.recents': 'Recently used',
+  'roomPicker.section.my': 'My Chat',
+  'roomPicker.section.direct': 'Direct chats',
+  'roomPicker.section.group': 'Group chats',
+
+  // 担当者の選択 (AssigneePicker)
+  'assigneePicker.loading': 'Loading members...',
+  'assigneePicker.empty': 'Select a room to see its members.',
+  'assigneePicker.me': '(me)',
+
+  // 期限の指定 (DeadlinePicker)
+  'deadline.none': 'No deadline',
+  'deadline.date': 'Date only',
+  'deadline.time': 'Date and time',
+  'deadline.enterDate': 'Please enter a date',
+  'deadline.shortcutPlaceholder': 'e.g. 明日17時, 来週金曜, 3日後 (Japanese)',
+  'deadline.apply': 'Apply',
+  'deadline.unparsable': 'Could not understand this as a deadline',
+  'deadline.preview': 'Deadline to be sent: {deadline}',
+
+  // メモの1行ごとの下書きの警告 (memoParser)
+  'memo.unknownAssignee': 'Cannot identify assignee "@{token}"',
+  'memo.unparsableDue': 'Cannot understand deadline "!{token}"',
+
+  // 取り込み行のエラー (taskImport)
+  'import.error.missingHeader': 'Put the column names ({columns}) on the first line of the CSV.',
+  'import.error.invalidLimitType': 'Deadline type "{limitType}" must be none, date or time',
+  'import.error.missingDue': 'A deadline type is given but the deadline is missing',
+  'import.error.unparsableDue': 'Cannot understand deadline "{due}"',
+  'import.error.emptyBody': 'The task is empty',
+  'import.error.roomNotFound': 'Room "{room}" not found',
+  'import.error.noRoom': 'No room is specified',
+  'import.error.notMember': 'Assignee "{assignee}" is not a member of the room',
+  'import.error.noAssignee': 'No assignee is specified',
+  'import.error.pastDue': 'The deadline is in the past',
+
+  // タスク内容の入力欄 (TaskInput)
+  'taskInput.bulkPlaceholder': 'One task per line (e.g. - [ ] Prepare slides @Yamada !明日17時)',
+  'taskInput.placeholder': 'Enter the task',
+  'taskInput.bulkMode': 'Make each line a separate task',
+  'taskInput.preview': 'Preview',
+  'taskInput.noLines': 'No lines will become tasks.',
+  'taskInput.column.line': 'Line',
+  'taskInput.column.body': 'Task',
+  'taskInput.column.assignees': 'Assignees',
+  'taskInput.column.deadline': 'Deadline',
+  'taskInput.noAssignee': 'None',
+  'taskInput.limitType.none': 'No deadline',
+  'taskInput.limitType.date': 'Date',
+  'taskInput.limitType.time': 'Date and time',
+
+  // 添付ファイル (AttachmentDropZone・attachments)
+  'attachment.status.pending': 'Uploaded when sent',
+  'attachment.status.uploading': 'Uploading...',
+  'attachment.status.uploaded': 'Uploaded',
+  'attachment.status.error': 'Error',
+  'attachment.disabled': 'Files cannot be attached in bulk mode.',
+  'attachment.add': 'Attach files (drag and drop also works, up to {size} each)',
+  'attachment.remove': 'Remove',
+  'attachment.error.empty': 'Empty files cannot be uploaded.',
+  'attachment.error.tooLarge': 'The file exceeds the size limit ({size}).',
+
+  // 送信待ち (OutboxPanel)
+  'outbox.title': 'Pending tasks ({count})',
+  'outbox.attempts': '{room} / {attempts} attempts',
+  'outbox.nextAttempt': ' / Next automatic retry: {time}',
+  'outbox.noAutoRetry': ' / Will not retry automatically',
+  'outbox.withMessage': ' / With message',
+  'outbox.messageOnly': ' / Task created; message not posted yet',
+  'outbox.retry': 'Retry',
+  'outbox.discard': 'Discard',
+
+  // ルームのタスク一覧 (TaskList)
+  'taskList.title': 'Tasks in this room',
+  'taskList.open': 'Open',
+  'taskList.done': 'Done',
+  'taskList.allAssignees': 'Assignee: everyone',
+  'taskList.loading': 'Loading tasks...',
+  'taskList.empty': 'No matching tasks.',
+  'taskList.markOpen': 'Mark as open',
+  'taskList.markDone': 'Mark as done',
+  'taskList.assignee': 'Assignee: {name}',
+  'taskList.deadline': ' / Due: {deadline}',
+  'taskList.loadFailed': 'Failed to load tasks: {detail}',
+  'taskList.updateFailed': 'Failed to update the task: {detail}',
+
+  // 自分宛てのメンション (WebhookInbox)
+  'webhookInbox.title': 'Mentions for you ({count})',
+  'webhookInbox.import': 'Add to memo',
+  'webhookInbox.dismiss': 'Dismiss',
+
+  // 送信履歴 (HistoryPanel)
+  'history.status.open': 'open',
+  'history.status.done': 'done',
+  'history.status.loading': 'checking...',
+  'history.status.error': 'unavailable',
+  'history.noDeadline': 'No deadline',
+  'history.confirmResend': 'Send this task to "{room}" again?',
+  'history.resent': 'Sent to "{room}" again.',
+  'history.resendFailed': 'Could not send again: {detail}',
+  'history.deleteFailed': 'Failed to delete the history entry: {detail}',
+  'history.title': 'Sent tasks ({count})',
+  'history.search': 'Search by task, room or assignee',
+  'history.empty': 'You have not sent any tasks yet.',
+  'history.noMatch': 'No matching history.',
+  'history.assignees': ' / Assignees: {names}',
+  'history.nameSeparator': ', ',
+  'history.deadline': ' / Due: {deadline}',
+  'history.taskIds': 'Task IDs: ',
+  'history.checkStatus': 'Check status',
+  'history.resend': 'Send again',
+  'history.copy': 'Copy to another room',
+  'history.delete': 'Delete from history',
+  'history.copyTarget': '-- Select a room to copy to --',
+  'history.more': 'Show more',
+
+  // テンプレート (TemplatePanel・templates)
+  'template.applied': 'Applied template "{name}".',
+  'template.nameRequired': 'Please enter a template name.',
+  'template.bodyRequired': 'The task is empty. Enter a task before saving.',
+  'template.invalidDeadline': 'Enter the deadline like "+2 days", "3営業日後" or "1週間後 17:00".',
+  'template.saved': 'Saved template "{name}".',
+  'template.confirmDelete': 'Delete template "{name}"?',
+  'template.imported': 'Imported {count} templates.',
+  'template.importFailed': 'Failed to import templates: {detail}',
+  'template.title': 'Templates ({count})',
+  'template.select': '-- Select a template --',
+  'template.use': 'Use',
+  'template.delete': 'Delete',
+  'template.notSpecified': 'not set',
+  'template.room': 'Room: {room}',
+  'template.assignees': ' / Assignees: {assignees}',
+  'template.assigneeCount': '{count} people',
+  'template.deadline': ' / Due: {deadline}',
+  'template.apply': 'Apply',
+  'template.cancel': 'Cancel',
+  'template.saveHelp': 'Saves the current task, room and assignees as a template. The task can contain placeholders such as {example}.',
+  'template.namePlaceholder': 'Template name',
+  'template.deadlinePlaceholder': 'Deadline (e.g. +3 days)',
+  'template.save': 'Save',
+  'template.export': 'Export as JSON',
+  'template.import': 'Import from JSON',
+  'template.error.invalidJson': 'The file is not valid JSON.',
+  'template.error.noList': 'No template list was found.',
+  'template.error.empty': 'No templates could be imported.',
+
+  // 相対的な期限の表記 (templates の parseRelativeDeadline で読み戻せる形式)
+  'relativeDeadline.none': 'none',
+  'relativeDeadline.day': '+{offset} days',
+  'relativeDeadline.businessDay': '+{offset} business days',
+  'relativeDeadline.week': '+{offset} weeks',
+
+  // CSV / Markdown からの一括作成 (ImportPanel)
+  'importPanel.noRows': 'There are no tasks to import.',
+  'importPanel.hasInvalid': '{invalid} of {total} rows have problems. Those rows will not be sent.',
+  'importPanel.loaded': 'Loaded {count} tasks. Review them and send.',
+  'importPanel.loadFailed': 'Failed to read the file: {detail}',
+  'importPanel.progress': 'Sending tasks... ({done}/{total})',
+  'importPanel.partlyFailed': 'Sent {created}, {failed} failed. Check the result CSV for details.',
+  'importPanel.sent': '✅ Sent {count} tasks!',
+  'importPanel.title': 'Create tasks from CSV / Markdown',
+  'importPanel.csvHelp': 'Put the column names ({columns}) on the first line of the CSV. room is a room name or room ID, and assignee is a name or account ID (separate several with ",").',
+  'importPanel.markdownHelp': 'Markdown imports "- [ ] task @assignee !deadline" checklist items and sends them to the room named by the heading (## room name). Rows without a room go to the selected room.',
+  'importPanel.selectFile': 'Choose file',
+  'importPanel.column.line': 'Line',
+  'importPanel.column.body': 'Task',
+  'importPanel.column.room': 'Room',
+  'importPanel.column.assignees': 'Assignees',
+  'importPanel.column.deadline': 'Deadline',
+  'importPanel.column.status': 'Status',
+  'importPanel.nameSeparator': ', ',
+  'importPanel.noDeadline': 'none',
+  'importPanel.notSent': 'Not sent',
+  'importPanel.created': 'Created (task IDs: {taskIds})',
+  'importPanel.sending': 'Sending...',
+  'importPanel.send': 'Send {count}',
+  'importPanel.downloadResult': 'Download results as CSV',
+
+  // 複数のルームへの一斉送信 (BroadcastPanel)
+  'broadcast.rule.all': 'Everyone',
+  'broadcast.rule.members': 'Choose members',
+  'broadcast.rule.me': 'Me',
+  'broadcast.created': 'Created (task IDs: {taskIds})',
+  'broadcast.rateLimited': 'Not sent due to the rate limit. Retry after {time}.',
+  'broadcast.failed': 'Failed ({status}): {detail}',
+  'broadcast.membersFailed': 'Failed to load the members of "{room}": {detail}',
+  'broadcast.partlyFailed': 'Sent to {sent} rooms, {failed} failed.',
+  'broadcast.sent': '✅ Sent the task to {count} rooms!',
+  'broadcast.sendFailed': 'Broadcast failed: {detail}',
+  'broadcast.emptyBody': 'Enter the task before sending.',
+  'broadcast.missingDeadline': 'Enter the deadline date.',
+  'broadcast.missingAssignees': 'Choose assignees for "{room}".',
+  'broadcast.confirm': 'Send the task to {count} rooms?',
+  'broadcast.title': 'Send to multiple rooms',
+  'broadcast.help': 'Creates the current task with its deadline in every selected room. Assignees can be chosen per room.',
+  'broadcast.filterPlaceholder': 'Filter by room name',
+  'broadcast.loadingMembers': 'Loading members...',
+  'broadcast.sending': 'Sending...',
+  'broadcast.send': 'Send to {count} rooms',
+  'broadcast.retryFailed': 'Retry {count} failed',
+
+  // カレンダーへの配信 (CalendarFeedPanel)
+  'calendarFeed.confirmReissue': 'Reissuing the URL disables the previous one. Reissue it?',
+  'calendarFeed.issued': "URL issued. Paste it into your calendar app's \"Add by URL\".",
+  'calendarFeed.issueFailed': 'Failed to issue the URL: {detail}',
+  'calendarFeed.confirmStop': 'Stop publishing to your calendar?',
+  'calendarFeed.stopped': 'Stopped publishing to your calendar.',
+  'calendarFeed.stopFailed': 'Failed to stop: {detail}',
+  'calendarFeed.copied': 'URL copied.',
+  'calendarFeed.copyFailed': 'Failed to copy: {detail}',
+  'calendarFeed.title': 'Show in calendar',
+  'calendarFeed.help': 'Issues a URL for subscribing to your open tasks in a calendar app such as Google Calendar. Anyone with the URL can see the tasks, so do not share it.',
+  'calendarFeed.copy': 'Copy',
+  'calendarFeed.openInCalendar': 'Open in calendar',
+  'calendarFeed.active': 'Publishing with the URL issued on {date}. Reissue it to see the URL.',
+  'calendarFeed.reissue': 'Reissue URL',
+  'calendarFeed.issue': 'Issue URL',
+  'calendarFeed.stop': 'Stop publishing',
+
+  // 毎日のダイジェスト (DigestPanel)
+  'digest.loadFailed': 'Failed to load the digest settings: {detail}',
+  'digest.started': 'The digest will be posted to My Chat every day at {time}.',
+  'digest.stopped': 'Stopped sending the digest.',
+  'digest.saveFailed': 'Failed to save the digest settings: {detail}',
+  'digest.posted': 'Posted a summary of {count} tasks to My Chat.',
+  'digest.runFailed': 'Failed to create the digest: {detail}',
+  'digest.title': 'Daily digest ({state})',
+  'digest.state.scheduled': 'sent at {time}',
+  'digest.state.stopped': 'stopped',
+  'digest.help': 'Posts your open tasks to My Chat, grouped into overdue, due today, this week, later and no deadline.',
+  'digest.weekdaysOnly': 'Weekdays only',
+  'digest.save': 'Save settings',
+  'digest.start': 'Start sending',
+  'digest.stop': 'Stop',
+  'digest.nextRun': 'Next: {time}',
+  'digest.lastRunSeparator': ' / ',
+  'digest.lastRunOk': 'Last: {time} sent {count}',
+  'digest.lastRunFailed': 'Last: {time} failed ({detail})',
+  'digest.preview': 'Preview',
+  'digest.runNow': 'Send now',
+
+  // 繰り返しのルール (recurrence.ts の describeRecurrenceRule)
+  'recurrence.daily': 'Daily {time}',
+  'recurrence.weekly': 'Weekly on {weekdays} {time}',
+  'recurrence.weekdaySeparator': ', ',
+  'recurrence.monthly': 'Monthly on day {day} {time}',
+  'recurrence.lastBusinessDay': 'Last business day of every month {time}',
+
+  // 定期タスク (SchedulePanel)
+  'schedule.kind.daily': 'Daily',
+  'schedule.kind.weekly': 'Weekly',
+  'schedule.kind.monthly': 'Monthly (by date)',
+  'schedule.kind.lastBusinessDay': 'Last business day of the month',
+  'schedule.loadFailed': 'Failed to load the recurring tasks: {detail}',
+  'schedule.missingName': 'Enter a name for the recurring task.',
+  'schedule.missingTask': 'Enter the room, assignees and task before registering.',
+  'schedule.missingWeekdays': 'Choose at least one weekday.',
+  'schedule.invalidDeadline': 'Enter the deadline like "+3 business days", "+1 weeks 17:00" or "3営業日後".',
+  'schedule.created': 'Registered the recurring task "{name}".',
+  'schedule.createFailed': 'Failed to register the recurring task: {detail}',
+  'schedule.updateFailed': 'Failed to update the recurring task: {detail}',
+  'schedule.ran': 'Ran the recurring task "{name}".',
+  'schedule.runFailedFor': 'The recurring task "{name}" failed: {detail}',
+  'schedule.runFailed': 'Failed to run the recurring task: {detail}',
+  'schedule.confirmDelete': 'Delete the recurring task "{name}"?',
+  'schedule.deleteFailed': 'Failed to delete the recurring task: {detail}',
+  'schedule.title': 'Recurring tasks ({count})',
+  'schedule.loading': 'Loading...',
+  'schedule.empty': 'No recurring tasks yet.',
+  'schedule.pause': 'Pause',
+  'schedule.resume': 'Resume',
+  'schedule.runNow': 'Run now',
+  'schedule.delete': 'Delete',
+  'schedule.separator': ' / ',
+  'schedule.room': 'Room: {room}',
+  'schedule.deadline': 'Deadline: {deadline}',
+  'schedule.noDeadline': 'none',
+  'schedule.nextRun': 'Next: {time}',
+  'schedule.paused': 'paused',
+  'schedule.lastRunOk': 'Last: {time} succeeded',
+  'schedule.lastRunFailed': 'Last: {time} failed ({detail})',
+  'schedule.help': 'Creates the current task, room and assignees in Chatwork on the chosen schedule. Deadlines are counted from the run date.',
+  'schedule.namePlaceholder': 'Recurring task name',
+  'schedule.deadlinePlaceholder': 'Deadline (e.g. +3 business days)',
+  'schedule.daySuffix': 'day of the month',
+  'schedule.create': 'Register',
+
+  // メイン画面 (page.tsx)
+  'page.title': 'Chatwork Task Memo',
+  'page.roomsFromCache': 'Loaded the room list from the cache.',
+  'page.roomsCacheExpired': 'The room list cache has expired. Updating...',
+  'page.fetchingRooms': 'Fetching the room list from the Chatwork API...',
+  'page.roomsFetched': 'Room list loaded.',
+  'page.roomsFailed': 'Failed to load the room list: {detail}',
+  'page.meFailed': 'Failed to load your account: {detail}',
+  'page.membersFailed': 'Failed to load the members: {detail}',
+  'page.sharedMemo': 'Filled the memo with the shared content.',
+  'page.oauthFailed': 'Chatwork login failed: {detail}',
+  'page.loginPrompt': 'Enter your Chatwork API token to log in.',
+  'page.sessionFailed': 'Failed to check the login status: {detail}',
+  'page.tokenRequired': 'Enter your API token.',
+  'page.loggingIn': 'Logging in...',
+  'page.loginFailed': 'Login failed: {detail}',
+  'page.logoutFailed': 'Logout failed: {detail}',
+  'page.loggedOut': 'Logged out.',
+  'page.loggedOutSwitched': 'Logged out and switched to a remaining account.',
+  'page.switchingProfile': 'Switching accounts...',
+  'page.switchFailed': 'Failed to switch accounts: {detail}',
+  'page.notLoggedIn': 'You are not logged in. Log in with your API token first.',
+  'page.previewFirst': 'Create a preview and check it before sending.',
+  'page.noDrafts': 'There are no tasks to send.',
+  'page.sendingProgress': 'Sending tasks... ({done}/{total})',
+  'page.draft.emptyBody': 'The task is empty.',
+  'page.draft.noAssignees': 'No assignees are selected.',
+  'page.draft.created': 'Sent (task IDs: {taskIds})',
+  'page.draft.queued': 'Sending failed, so it was added to the outbox. It will be resent automatically when you are back online.',
+  'page.missingDeadline': 'Enter the deadline date.',
+  'page.draftsSent': '✅ Sent {count} tasks!',
+  'page.draftsQueued': 'Sent {sent}. {queued} that failed were added to the outbox and will be resent automatically when you are back online.',
+  'page.draftsPartlyFailed': 'Sent {sent}, {failed} failed. Fix the failed rows and send again.',
+  'page.roomRequired': 'Choose a room to send the task to.',
+  'page.memoRequired': 'The memo is empty. Enter something.',
+  'page.assigneeRequired': 'Choose at least one assignee.',
+  'page.sendingTask': 'Sending the task...',
+  'page.sendingMessage': 'Sending the message...',
+  'page.uploadFailed': 'Sending was cancelled because some files could not be uploaded. Check the attachment list.',
+  'page.messageNotPosted': ' (the message was not posted)',
+  'page.messageQueued': ' (the message will be posted along with the task)',
+  'page.queuedToOutbox': 'Sending failed, so the task was added to the outbox. It will be resent automatically when you are back online.{note}',
+  'page.taskFailed': '❌ Failed to send the task: {detail}',
+  'page.messageFailedAfterTask': 'The task was sent, but posting the message failed: {detail}',
+  'page.messageFailed': '❌ Failed to post the message: {detail}',
+  'page.sent.both': '✅ Sent the task and the message!',
+  'page.sent.task': '✅ Sent the task!',
+  'page.sent.message': '✅ Sent the message!',
+  'page.tokenLabel': 'Chatwork API token:',
+  'page.tokenPlaceholder': 'Enter your API token',
+  'page.profileNamePlaceholder': 'Profile name (defaults to the account name)',
+  'page.oauthLogin': 'Log in with Chatwork',
+  'page.login': 'Log in and load rooms',
+  'page.refreshRooms': 'Refresh rooms',
+  'page.mentionImported': 'Imported the mention into the memo. Check the assignees and deadline, then send.',
+  'page.roomLabel': 'Room to send the task to:',
+  'page.assigneeLabel': 'Assignees:',
+  'page.deadlineLabel': 'Deadline:',
+  'page.sendModeLabel': 'Send as:',
+  'page.memoLabel': 'Task:',
+  'page.send.task': 'Send to Chatwork as a task',
+  'page.send.message': 'Send to Chatwork as a message',
+  'page.send.both': 'Send a task and a message to Chatwork',
+  'page.outboxSent': '✅ Sent the queued task to "{room}"!',
+  'page.outboxSentWithMessage': '✅ Sent the queued task and message to "{room}"!',
+  'page.historyCopied': 'Filled in the history entry for "{room}". Check the assignees and deadline, then send.',
+
+  // ダイジェスト・カレンダーの本文 (サーバーで作る)
+  'digestBody.title': 'Open tasks for {date} ({weekday}): {count}',
+  'digestBody.empty': 'You have no open tasks.',
+  'digestBody.section': '■ {label} ({count})',
+  'digestBody.group.overdue': 'Overdue',
+  'digestBody.group.today': 'Due today',
+  'digestBody.group.thisWeek': 'Due this week',
+  'digestBody.group.later': 'Due next week or later',
+  'digestBody.group.noDeadline': 'No deadline',
+  'calendarBody.name': 'Chatwork tasks',
+  'calendarBody.room': 'Room: {name}',
+  'calendarBody.assignedBy': 'Assigned by: {name}',
+};
+
+export default en;
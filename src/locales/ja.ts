@@ -0,0 +1,452 @@
+// src/locales/ja.ts
+
+// 日本語のメッセージのカタログ (画面の既定の言語)
+// キーは「画面・コンポーネント名.内容」の形式で、`{name}` の部分は表示する時に値に置き換えます。
+// キーを追加した場合は en.ts にも同じキーを追加してください (足りない場合は型エラーになります)。
+
+const ja = {
+  // 表示言語の切り替え
+  'locale.label': '表示言語',
+  'locale.ja': '日本語',
+  'locale.en': 'English',
+
+  // 曜日 (Date#getDay の順)
+  'weekday.0': '日',
+  'weekday.1': '月',
+  'weekday.2': '火',
+  'weekday.3': '水',
+  'weekday.4': '木',
+  'weekday.5': '金',
+  'weekday.6': '土',
+
+  // APIルートのエラー (エラーの種類ごと。{detail} はサーバーが返した英語の説明)
+  'apiError.token_missing': 'ログインしていません。APIトークンでログインし直してください。',
+  'apiError.invalid_body': 'リクエストの形式が正しくありません。',
+  'apiError.invalid_path': 'ルームIDまたはタスクIDが正しくありません。',
+  'apiError.invalid_parameter': '入力内容に誤りがあります ({detail})',
+  'apiError.file_too_large': 'ファイルがChatworkの上限 (5MB) を超えています。',
+  'apiError.length_required': 'ファイルの大きさが分からないため、アップロードできません。',
+  'apiError.credential_invalid': '保存したChatworkの認証情報が無効です。設定を保存し直してください。',
+  'apiError.profile_limit_reached': '保存できるプロフィールの数の上限に達しています。使わないプロフィールからログアウトしてください。',
+  'apiError.no_assignable_members': 'このルームには担当者にできるメンバーがいません。',
+  'apiError.profile_not_found': 'プロフィールが見つかりません。',
+  'apiError.schedule_not_found': '定期タスクが見つかりません。',
+  'apiError.calendar_feed_not_found': 'カレンダーのURLが見つかりません。',
+  'apiError.webhook_event_not_found': 'Webhookのイベントが見つかりません。',
+  'apiError.my_chat_not_found': 'マイチャットが見つかりません。',
+  'apiError.oauth_not_configured': 'Chatworkアカウントでのログインは設定されていません。',
+  'apiError.webhook_not_configured': 'Webhookは設定されていません。',
+  'apiError.invalid_webhook_signature': 'Webhookの署名が正しくありません。',
+  'apiError.invalid_webhook_payload': 'Webhookの内容が正しくありません。',
+  'apiError.storage_failed': 'データの保存に失敗しました。',
+  'apiError.chatwork_unauthorized': 'Chatworkの認証に失敗しました。APIトークンを確認してください。',
+  'apiError.chatwork_forbidden': 'この操作を行う権限がありません。',
+  'apiError.chatwork_not_found': 'ルームまたはタスクが見つかりません。',
+  'apiError.chatwork_rate_limited': 'Chatwork APIのレート制限中です。しばらくしてから再試行してください。',
+  'apiError.chatwork_unreachable': 'Chatworkに接続できませんでした。時間をおいて再試行してください。',
+  'apiError.chatwork_error': 'Chatwork APIエラー: {detail}',
+  'apiError.internal_error': 'サーバーでエラーが発生しました。',
+  'apiError.rateLimitedUntil': 'Chatwork APIのレート制限中です。{time} 以降に再試行してください。',
+  'apiError.network': '通信エラー: {detail}',
+  'apiError.unknown': 'エラーが発生しました (HTTP {status}): {detail}',
+  'apiError.http': 'エラーが発生しました (HTTP {status})',
+
+  // 送信方法 (SendModePicker)
+  'sendMode.task': 'タスク',
+  'sendMode.message': 'メッセージ',
+  'sendMode.both': 'タスク＋メッセージ',
+  'sendMode.bulkOnlyTask': '一括モードではタスクのみ送信します。',
+  'sendMode.wrapInInfo': '[info]で囲む',
+  'sendMode.infoTitlePlaceholder': 'タイトル (省略可)',
+
+  // プロフィールの切り替え (ProfileSwitcher)
+  'profileSwitcher.loggedInAs': 'ログイン中：',
+  'profileSwitcher.add': 'アカウントを追加',
+  'profileSwitcher.logout': 'ログアウト',
+
+  // 送信される本文のプレビュー (ChatworkPreview)
+  'preview.raw': 'Markdown を変換せずにそのまま送る',
+  'preview.body': '送信される本文',
+  'preview.rendered': 'Chatworkでの表示',
+  'preview.unresolvedMentions': '⚠ {names} はルームのメンバーに見つからないため、宛先にせずそのまま送ります。',
+  'preview.mentionSeparator': '、',
+
+  // ルームの選択 (RoomPicker)
+  'roomPicker.loading': 'ルーム一覧を読み込み中...',
+  'roomPicker.placeholder': '-- ルームを選択 --',
+  'roomPicker.search': 'ルーム名で検索 (ひらがな・ローマ字でも可)',
+  'roomPicker.noMatch': '一致するルームがありません。',
+  'roomPicker.addFavorite': 'お気に入りに追加',
+  'roomPicker.removeFavorite': 'お気に入りから外す',
+  'roomPicker.section.favorites': 'お気に入り',
+  'roomPicker.section.recents': '最近送信したルーム',
+  'roomPicker.section.my': 'マイチャット',
+  'roomPicker.section.direct': 'ダイレクトチャット',
+  'roomPicker.section.group': 'グループチャット',
+
+  // 担当者の選択 (AssigneePicker)
+  'assigneePicker.loading': 'メンバー一覧を読み込み中...',
+  'assigneePicker.empty': 'ルームを選択するとメンバーが表示されます。',
+  'assigneePicker.me': '(自分)',
+
+  // 期限の指定 (DeadlinePicker)
+  'deadline.none': '期限なし',
+  'deadline.date': '日付のみ',
+  'deadline.time': '日付と時刻',
+  'deadline.enterDate': '日付を入力してください',
+  'deadline.shortcutPlaceholder': '例: 明日17時、来週金曜、3日後',
+  'deadline.apply': '反映',
+  'deadline.unparsable': '期限として解釈できませんでした',
+  'deadline.preview': '送信される期限：{deadline}',
+
+  // メモの1行ごとの下書きの警告 (memoParser)
+  'memo.unknownAssignee': '担当者「@{token}」を特定できません',
+  'memo.unparsableDue': '期限「!{token}」を解釈できません',
+
+  // 取り込み行のエラー (taskImport)
+  'import.error.missingHeader': 'CSVの1行目に列名 ({columns}) を入れてください。',
+  'import.error.invalidLimitType': '期限の種類「{limitType}」は none / date / time のいずれかにしてください',
+  'import.error.missingDue': '期限の種類が指定されていますが、期限がありません',
+  'import.error.unparsableDue': '期限「{due}」を解釈できません',
+  'import.error.emptyBody': 'タスク内容が空です',
+  'import.error.roomNotFound': 'ルーム「{room}」が見つかりません',
+  'import.error.noRoom': 'ルームが指定されていません',
+  'import.error.notMember': '担当者「{assignee}」はルームのメンバーにいません',
+  'import.error.noAssignee': '担当者が指定されていません',
+  'import.error.pastDue': '期限が過去の日時です',
+
+  // タスク内容の入力欄 (TaskInput)
+  'taskInput.bulkPlaceholder': '1行につき1タスク (例: - [ ] 資料作成 @山田 !明日17時)',
+  'taskInput.placeholder': 'タスク内容を入力',
+  'taskInput.bulkMode': '1行ごとに別タスクにする',
+  'taskInput.preview': 'プレビューを作成',
+  'taskInput.noLines': 'タスクになる行がありません。',
+  'taskInput.column.line': '行',
+  'taskInput.column.body': 'タスク内容',
+  'taskInput.column.assignees': '担当者',
+  'taskInput.column.deadline': '期限',
+  'taskInput.noAssignee': '未選択',
+  'taskInput.limitType.none': '期限なし',
+  'taskInput.limitType.date': '日付',
+  'taskInput.limitType.time': '日時',
+
+  // 添付ファイル (AttachmentDropZone・attachments)
+  'attachment.status.pending': '送信時にアップロード',
+  'attachment.status.uploading': 'アップロード中...',
+  'attachment.status.uploaded': 'アップロード済み',
+  'attachment.status.error': 'エラー',
+  'attachment.disabled': '一括モードではファイルを添付できません。',
+  'attachment.add': 'ファイルを添付 (ドラッグ＆ドロップも可、1ファイル{size}まで)',
+  'attachment.remove': '外す',
+  'attachment.error.empty': '空のファイルはアップロードできません。',
+  'attachment.error.tooLarge': 'ファイルサイズが上限 ({size}) を超えています。',
+
+  // 送信待ち (OutboxPanel)
+  'outbox.title': '送信待ちのタスク ({count}件)',
+  'outbox.attempts': '{room} ／ 試行 {attempts}回',
+  'outbox.nextAttempt': ' ／ 次回の自動再送: {time}',
+  'outbox.noAutoRetry': ' ／ 自動再送しません',
+  'outbox.withMessage': ' ／ メッセージも投稿',
+  'outbox.messageOnly': ' ／ タスクは作成済み (メッセージのみ未投稿)',
+  'outbox.retry': '再送',
+  'outbox.discard': '破棄',
+
+  // ルームのタスク一覧 (TaskList)
+  'taskList.title': 'ルームのタスク',
+  'taskList.open': '未完了',
+  'taskList.done': '完了',
+  'taskList.allAssignees': '担当者: 全員',
+  'taskList.loading': 'タスク一覧を読み込み中...',
+  'taskList.empty': '該当するタスクはありません。',
+  'taskList.markOpen': '未完了に戻す',
+  'taskList.markDone': '完了にする',
+  'taskList.assignee': '担当: {name}',
+  'taskList.deadline': ' ／ 期限: {deadline}',
+  'taskList.loadFailed': 'タスク一覧の取得に失敗しました: {detail}',
+  'taskList.updateFailed': 'タスクの状態変更に失敗しました: {detail}',
+
+  // 自分宛てのメンション (WebhookInbox)
+  'webhookInbox.title': '自分宛てのメンション ({count}件)',
+  'webhookInbox.import': 'メモに取り込む',
+  'webhookInbox.dismiss': '閉じる',
+
+  // 送信履歴 (HistoryPanel)
+  'history.status.open': '未完了',
+  'history.status.done': '完了',
+  'history.status.loading': '確認中...',
+  'history.status.error': '取得できません',
+  'history.noDeadline': '期限なし',
+  'history.confirmResend': '「{room}」にもう一度送信しますか？',
+  'history.resent': '「{room}」にもう一度送信しました。',
+  'history.resendFailed': 'もう一度送信できませんでした: {detail}',
+  'history.deleteFailed': '履歴の削除に失敗しました: {detail}',
+  'history.title': '送信履歴 ({count}件)',
+  'history.search': '本文・ルーム名・担当者で検索',
+  'history.empty': 'まだ送信したタスクはありません。',
+  'history.noMatch': '該当する履歴はありません。',
+  'history.assignees': ' ／ 担当: {names}',
+  'history.nameSeparator': '、',
+  'history.deadline': ' ／ 期限: {deadline}',
+  'history.taskIds': 'タスクID: ',
+  'history.checkStatus': '状態を確認',
+  'history.resend': 'もう一度送信',
+  'history.copy': '別のルームにコピー',
+  'history.delete': '履歴から削除',
+  'history.copyTarget': '-- コピー先のルームを選択 --',
+  'history.more': 'さらに表示',
+
+  // テンプレート (TemplatePanel・templates)
+  'template.applied': 'テンプレート「{name}」を反映しました。',
+  'template.nameRequired': 'テンプレート名を入力してください。',
+  'template.bodyRequired': 'タスク内容が空です。本文を入力してから保存してください。',
+  'template.invalidDeadline': '期限は「3営業日後」「1週間後 17:00」「+2 days」のように入力してください。',
+  'template.saved': 'テンプレート「{name}」を保存しました。',
+  'template.confirmDelete': 'テンプレート「{name}」を削除しますか？',
+  'template.imported': '{count}件のテンプレートを読み込みました。',
+  'template.importFailed': 'テンプレートの読み込みに失敗しました: {detail}',
+  'template.title': 'テンプレート ({count}件)',
+  'template.select': '-- テンプレートを選択 --',
+  'template.use': '使う',
+  'template.delete': '削除',
+  'template.notSpecified': '指定なし',
+  'template.room': 'ルーム: {room}',
+  'template.assignees': ' ／ 担当者: {assignees}',
+  'template.assigneeCount': '{count}人',
+  'template.deadline': ' ／ 期限: {deadline}',
+  'template.apply': '反映',
+  'template.cancel': 'キャンセル',
+  'template.saveHelp': '現在のタスク内容・ルーム・担当者をテンプレートとして保存します。本文には {example} のようなプレースホルダーを書けます。',
+  'template.namePlaceholder': 'テンプレート名',
+  'template.deadlinePlaceholder': '期限 (例: 3営業日後)',
+  'template.save': '保存',
+  'template.export': 'JSONで書き出す',
+  'template.import': 'JSONから読み込む',
+  'template.error.invalidJson': 'JSONとして読み込めませんでした。',
+  'template.error.noList': 'テンプレートの一覧が見つかりませんでした。',
+  'template.error.empty': '読み込めるテンプレートがありませんでした。',
+
+  // 相対的な期限の表記 (templates の parseRelativeDeadline で読み戻せる形式)
+  'relativeDeadline.none': 'なし',
+  'relativeDeadline.day': '{offset}日後',
+  'relativeDeadline.businessDay': '{offset}営業日後',
+  'relativeDeadline.week': '{offset}週間後',
+
+  // CSV / Markdown からの一括作成 (ImportPanel)
+  'importPanel.noRows': '取り込むタスクがありません。',
+  'importPanel.hasInvalid': '{total}件中{invalid}件に問題があります。問題のある行は送信されません。',
+  'importPanel.loaded': '{count}件のタスクを読み込みました。内容を確認して送信してください。',
+  'importPanel.loadFailed': 'ファイルの読み込みに失敗しました: {detail}',
+  'importPanel.progress': 'タスクを送信中... ({done}/{total})',
+  'importPanel.partlyFailed': '{created}件を送信、{failed}件が失敗しました。結果のCSVで内容を確認してください。',
+  'importPanel.sent': '✅ {count}件のタスクを送信しました！',
+  'importPanel.title': 'CSV / Markdown から一括作成',
+  'importPanel.csvHelp': 'CSVは1行目に列名 ({columns}) を入れてください。room はルーム名またはルームID、assignee は名前またはアカウントID (複数の場合は「,」区切り) です。',
+  'importPanel.markdownHelp': 'Markdownは「- [ ] 本文 @担当者 !期限」のチェックリストを取り込み、見出し (## ルーム名) を送信先ルームにします。ルームの指定がない行は選択中のルームに送ります。',
+  'importPanel.selectFile': 'ファイルを選択',
+  'importPanel.column.line': '行',
+  'importPanel.column.body': 'タスク内容',
+  'importPanel.column.room': 'ルーム',
+  'importPanel.column.assignees': '担当者',
+  'importPanel.column.deadline': '期限',
+  'importPanel.column.status': '状態',
+  'importPanel.nameSeparator': '、',
+  'importPanel.noDeadline': 'なし',
+  'importPanel.notSent': '未送信',
+  'importPanel.created': '作成済み (タスクID: {taskIds})',
+  'importPanel.sending': '送信中...',
+  'importPanel.send': '{count}件を送信',
+  'importPanel.downloadResult': '結果をCSVでダウンロード',
+
+  // 複数のルームへの一斉送信 (BroadcastPanel)
+  'broadcast.rule.all': '全員',
+  'broadcast.rule.members': 'メンバーを指定',
+  'broadcast.rule.me': '自分',
+  'broadcast.created': '作成済み (タスクID: {taskIds})',
+  'broadcast.rateLimited': 'レート制限のため未送信。{time} 以降に再送してください。',
+  'broadcast.failed': '失敗 ({status}): {detail}',
+  'broadcast.membersFailed': '「{room}」のメンバー一覧の取得に失敗しました: {detail}',
+  'broadcast.partlyFailed': '{sent}件のルームに送信、{failed}件が失敗しました。',
+  'broadcast.sent': '✅ {count}件のルームにタスクを送信しました！',
+  'broadcast.sendFailed': '一斉送信に失敗しました: {detail}',
+  'broadcast.emptyBody': 'タスク内容を入力してから送信してください。',
+  'broadcast.missingDeadline': '期限の日付を入力してください。',
+  'broadcast.missingAssignees': '「{room}」の担当者を選んでください。',
+  'broadcast.confirm': '{count}件のルームにタスクを送信しますか？',
+  'broadcast.title': '複数のルームに一斉送信',
+  'broadcast.help': '現在のタスク内容と期限で、選んだルームにまとめてタスクを作成します。担当者はルームごとに選べます。',
+  'broadcast.filterPlaceholder': 'ルーム名で絞り込み',
+  'broadcast.loadingMembers': 'メンバーを読み込み中...',
+  'broadcast.sending': '送信中...',
+  'broadcast.send': '{count}件のルームに送信',
+  'broadcast.retryFailed': '失敗した{count}件を再送',
+
+  // カレンダーへの配信 (CalendarFeedPanel)
+  'calendarFeed.confirmReissue': 'URLを再発行すると、以前のURLは使えなくなります。再発行しますか？',
+  'calendarFeed.issued': 'URLを発行しました。カレンダーアプリの「URLで追加」に貼り付けてください。',
+  'calendarFeed.issueFailed': 'URLの発行に失敗しました: {detail}',
+  'calendarFeed.confirmStop': 'カレンダーへの配信を停止しますか？',
+  'calendarFeed.stopped': 'カレンダーへの配信を停止しました。',
+  'calendarFeed.stopFailed': '停止に失敗しました: {detail}',
+  'calendarFeed.copied': 'URLをコピーしました。',
+  'calendarFeed.copyFailed': 'コピーに失敗しました: {detail}',
+  'calendarFeed.title': 'カレンダーに表示',
+  'calendarFeed.help': '自分が担当者の未完了のタスクを、Googleカレンダーなどのカレンダーアプリで購読できるURLを発行します。URLを知っている人は誰でもタスクを見られるため、他の人と共有しないでください。',
+  'calendarFeed.copy': 'コピー',
+  'calendarFeed.openInCalendar': 'カレンダーで開く',
+  'calendarFeed.active': '{date} に発行したURLで配信中です。URLを確認するには再発行してください。',
+  'calendarFeed.reissue': 'URLを再発行',
+  'calendarFeed.issue': 'URLを発行',
+  'calendarFeed.stop': '配信を停止',
+
+  // 毎日のダイジェスト (DigestPanel)
+  'digest.loadFailed': 'ダイジェストの設定の取得に失敗しました: {detail}',
+  'digest.started': '毎日 {time} にマイチャットへ送信します。',
+  'digest.stopped': 'ダイジェストの送信を停止しました。',
+  'digest.saveFailed': 'ダイジェストの設定の保存に失敗しました: {detail}',
+  'digest.posted': '{count}件のタスクのまとめをマイチャットに投稿しました。',
+  'digest.runFailed': 'ダイジェストの作成に失敗しました: {detail}',
+  'digest.title': '毎日のダイジェスト ({state})',
+  'digest.state.scheduled': '{time} に送信',
+  'digest.state.stopped': '停止中',
+  'digest.help': '自分が担当者の未完了のタスクを、期限切れ・今日まで・今週中・来週以降・期限なしに分けてマイチャットに投稿します。',
+  'digest.weekdaysOnly': '平日のみ',
+  'digest.save': '設定を保存',
+  'digest.start': '送信を開始',
+  'digest.stop': '停止',
+  'digest.nextRun': '次回: {time}',
+  'digest.lastRunSeparator': ' ／ ',
+  'digest.lastRunOk': '前回: {time} {count}件を送信',
+  'digest.lastRunFailed': '前回: {time} 失敗 ({detail})',
+  'digest.preview': 'プレビュー',
+  'digest.runNow': '今すぐ送信',
+
+  // 繰り返しのルール (recurrence.ts の describeRecurrenceRule)
+  'recurrence.daily': '毎日 {time}',
+  'recurrence.weekly': '毎週 {weekdays} {time}',
+  'recurrence.weekdaySeparator': '・',
+  'recurrence.monthly': '毎月 {day}日 {time}',
+  'recurrence.lastBusinessDay': '毎月 最終営業日 {time}',
+
+  // 定期タスク (SchedulePanel)
+  'schedule.kind.daily': '毎日',
+  'schedule.kind.weekly': '毎週',
+  'schedule.kind.monthly': '毎月 (日付指定)',
+  'schedule.kind.lastBusinessDay': '毎月 最終営業日',
+  'schedule.loadFailed': '定期タスクの取得に失敗しました: {detail}',
+  'schedule.missingName': '定期タスクの名前を入力してください。',
+  'schedule.missingTask': 'ルーム・担当者・タスク内容を入力してから登録してください。',
+  'schedule.missingWeekdays': '曜日を1つ以上選んでください。',
+  'schedule.invalidDeadline': '期限は「3営業日後」「1週間後 17:00」「+2 days」のように入力してください。',
+  'schedule.created': '定期タスク「{name}」を登録しました。',
+  'schedule.createFailed': '定期タスクの登録に失敗しました: {detail}',
+  'schedule.updateFailed': '定期タスクの変更に失敗しました: {detail}',
+  'schedule.ran': '定期タスク「{name}」を実行しました。',
+  'schedule.runFailedFor': '定期タスク「{name}」の実行に失敗しました: {detail}',
+  'schedule.runFailed': '定期タスクの実行に失敗しました: {detail}',
+  'schedule.confirmDelete': '定期タスク「{name}」を削除しますか？',
+  'schedule.deleteFailed': '定期タスクの削除に失敗しました: {detail}',
+  'schedule.title': '定期タスク ({count}件)',
+  'schedule.loading': '読み込み中...',
+  'schedule.empty': '定期タスクはまだありません。',
+  'schedule.pause': '停止',
+  'schedule.resume': '再開',
+  'schedule.runNow': '今すぐ実行',
+  'schedule.delete': '削除',
+  'schedule.separator': ' ／ ',
+  'schedule.room': 'ルーム: {room}',
+  'schedule.deadline': '期限: {deadline}',
+  'schedule.noDeadline': 'なし',
+  'schedule.nextRun': '次回: {time}',
+  'schedule.paused': '停止中',
+  'schedule.lastRunOk': '前回: {time} 成功',
+  'schedule.lastRunFailed': '前回: {time} 失敗 ({detail})',
+  'schedule.help': '現在のタスク内容・ルーム・担当者を、指定した繰り返しでChatworkに作成します。期限は実行日を基準にします。',
+  'schedule.namePlaceholder': '定期タスク名',
+  'schedule.deadlinePlaceholder': '期限 (例: 3営業日後)',
+  'schedule.daySuffix': '日',
+  'schedule.create': '登録',
+
+  // メイン画面 (page.tsx)
+  'page.title': 'Chatworkタスクメモ',
+  'page.roomsFromCache': 'キャッシュからルーム一覧を読み込みました。',
+  'page.roomsCacheExpired': 'ルーム一覧のキャッシュが期限切れです。更新中...',
+  'page.fetchingRooms': 'ルーム一覧をChatwork APIから取得中...',
+  'page.roomsFetched': 'ルーム一覧の取得が完了しました。',
+  'page.roomsFailed': 'ルーム一覧の取得に失敗しました: {detail}',
+  'page.meFailed': '自分の情報の取得に失敗しました: {detail}',
+  'page.membersFailed': 'メンバー一覧の取得に失敗しました: {detail}',
+  'page.sharedMemo': '共有された内容をメモに入力しました。',
+  'page.oauthFailed': 'Chatworkでのログインに失敗しました: {detail}',
+  'page.loginPrompt': 'Chatwork APIトークンを入力してログインしてください。',
+  'page.sessionFailed': 'ログイン状態の確認に失敗しました: {detail}',
+  'page.tokenRequired': 'APIトークンを入力してください。',
+  'page.loggingIn': 'ログイン中...',
+  'page.loginFailed': 'ログインに失敗しました: {detail}',
+  'page.logoutFailed': 'ログアウトに失敗しました: {detail}',
+  'page.loggedOut': 'ログアウトしました。',
+  'page.loggedOutSwitched': 'ログアウトし、残っているアカウントに切り替えました。',
+  'page.switchingProfile': 'アカウントを切り替え中...',
+  'page.switchFailed': 'アカウントの切り替えに失敗しました: {detail}',
+  'page.notLoggedIn': 'ログインしていません。先にAPIトークンでログインしてください。',
+  'page.previewFirst': '送信前にプレビューを作成して内容を確認してください。',
+  'page.noDrafts': '送信するタスクがありません。',
+  'page.sendingProgress': 'タスクを送信中... ({done}/{total})',
+  'page.draft.emptyBody': 'タスク内容が空です。',
+  'page.draft.noAssignees': '担当者が選択されていません。',
+  'page.draft.created': '送信しました (タスクID: {taskIds})',
+  'page.draft.queued': '送信に失敗したため送信待ちに追加しました。オンラインに戻ると自動で再送します。',
+  'page.missingDeadline': '期限の日付を入力してください。',
+  'page.draftsSent': '✅ {count}件のタスクを送信しました！',
+  'page.draftsQueued': '{sent}件を送信し、送信に失敗した{queued}件を送信待ちに追加しました。オンラインに戻ると自動で再送します。',
+  'page.draftsPartlyFailed': '{sent}件を送信、{failed}件が失敗しました。失敗した行を修正して再送信してください。',
+  'page.roomRequired': 'タスクを飛ばすルームを選択してください。',
+  'page.memoRequired': 'メモが空です。何か入力してください。',
+  'page.assigneeRequired': '担当者を1人以上選択してください。',
+  'page.sendingTask': 'タスクを送信中...',
+  'page.sendingMessage': 'メッセージを送信中...',
+  'page.uploadFailed': 'アップロードできなかったファイルがあるため、送信を中止しました。添付ファイルの一覧を確認してください。',
+  'page.messageNotPosted': ' (メッセージは投稿していません)',
+  'page.messageQueued': ' (メッセージもタスクと一緒に送信します)',
+  'page.queuedToOutbox': '送信に失敗したため送信待ちに追加しました。オンラインに戻ると自動で再送します。{note}',
+  'page.taskFailed': '❌ タスク送信に失敗しました: {detail}',
+  'page.messageFailedAfterTask': 'タスクは送信しましたが、メッセージの投稿に失敗しました: {detail}',
+  'page.messageFailed': '❌ メッセージの投稿に失敗しました: {detail}',
+  'page.sent.both': '✅ タスクとメッセージを送信しました！',
+  'page.sent.task': '✅ タスクを送信しました！',
+  'page.sent.message': '✅ メッセージを送信しました！',
+  'page.tokenLabel': 'Chatwork APIトークン：',
+  'page.tokenPlaceholder': 'APIトークンを入力',
+  'page.profileNamePlaceholder': 'プロフィール名（省略するとアカウント名）',
+  'page.oauthLogin': 'Chatworkでログイン',
+  'page.login': 'ログインしてルーム一覧を取得',
+  'page.refreshRooms': 'ルーム一覧を更新',
+  'page.mentionImported': 'メンションの内容をメモに取り込みました。担当者と期限を確認して送信してください。',
+  'page.roomLabel': 'タスクを飛ばすルームを選択：',
+  'page.assigneeLabel': '担当者を選択：',
+  'page.deadlineLabel': '期限：',
+  'page.sendModeLabel': '送信方法：',
+  'page.memoLabel': 'タスク内容を入力：',
+  'page.send.task': 'Chatworkにタスクとして送信',
+  'page.send.message': 'Chatworkにメッセージとして送信',
+  'page.send.both': 'Chatworkにタスクとメッセージを送信',
+  'page.outboxSent': '✅ 送信待ちのタスクを「{room}」に送信しました！',
+  'page.outboxSentWithMessage': '✅ 送信待ちのタスクとメッセージを「{room}」に送信しました！',
+  'page.historyCopied': '履歴の内容を「{room}」宛てに入力しました。担当者と期限を確認して送信してください。',
+
+  // ダイジェスト・カレンダーの本文 (サーバーで作る)
+  'digestBody.title': '{date}({weekday}) の未完了タスク {count}件',
+  'digestBody.empty': '未完了のタスクはありません。',
+  'digestBody.section': '■ {label} ({count}件)',
+  'digestBody.group.overdue': '期限切れ',
+  'digestBody.group.today': '今日まで',
+  'digestBody.group.thisWeek': '今週中',
+  'digestBody.group.later': '来週以降',
+  'digestBody.group.noDeadline': '期限なし',
+  'calendarBody.name': 'Chatworkのタスク',
+  'calendarBody.room': 'ルーム: {name}',
+  'calendarBody.assignedBy': '依頼者: {name}',
+};
+
+export type MessageKey = keyof typeof ja;
+
+export default ja;
@@ -0,0 +1,639 @@
+// src/mock/chatworkMockServer.ts
+
+// Chatwork API (/v2) のインメモリのモックサーバーです。
+// 本物のAPIトークンがなくてもアプリを動かせるよう、環境変数 CHATWORK_API_BASE_URL をこのサーバーに向けて使います。
+// APIルートのテストでも、このサーバーを起動してルートハンドラーからの呼び出し先にしています。
+// OAuth ログインを試せるよう、/oauth/authorize・/oauth/token・/oauth/revoke の偽の認可サーバーも兼ねています。
+
+import crypto from 'crypto';
+import http from 'http';
+import type { AddressInfo } from 'net';
+
+/**
+ * モックが保持するルーム
+ */
+export interface MockRoom {
+  room_id: number;
+  name: string;
+  type: 'my' | 'direct' | 'group';
+  role: 'admin' | 'member' | 'readonly';
+  sticky: boolean;
+  unread_num: number;
+  mention_num: number;
+  mytask_num: number;
+  message_num: number;
+  file_num: number;
+  task_num: number;
+  icon_path: string;
+  last_update_time: number;
+}
+
+/**
+ * モックが保持するアカウント (ルームメンバー・自分自身)
+ */
+export interface MockAccount {
+  account_id: number;
+  name: string;
+  chatwork_id: string;
+  organization_id: number;
+  organization_name: string;
+  department: string;
+  avatar_image_url: string;
+}
+
+/**
+ * モックが保持するタスク
+ */
+export interface MockTask {
+  task_id: number;
+  room_id: number;
+  account_id: number;
+  assigned_by_account_id: number;
+  message_id: string;
+  body: string;
+  limit_time: number;
+  status: 'open' | 'done';
+  limit_type: 'none' | 'date' | 'time';
+}
+
+/**
+ * モックが保持するメッセージ
+ */
+export interface MockMessage {
+  message_id: string;
+  room_id: number;
+  account_id: number;
+  body: string;
+  send_time: number;
+}
+
+/**
+ * モックが保持するアップロードされたファイル
+ */
+export interface MockFile {
+  file_id: number;
+  room_id: number;
+  account_id: number;
+  message_id: string;
+  filename: string;
+  filesize: number;
+  upload_time: number;
+}
+
+/**
+ * 次のリクエストに返す異常系のレスポンス (非JSON・5xxなどの再現用)
+ */
+export interface MockFault {
+  status: number;
+  body: string;
+  contentType?: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * 偽の認可サーバーが発行したトークンの組
+ */
+export interface MockOAuthGrant {
+  accessToken: string;
+  refreshToken: string;
+  // アクセストークンの有効期限 (Unixタイムスタンプ秒)
+  accessTokenExpiresAt: number;
+}
+
+/**
+ * 偽の認可サーバーの状態
+ */
+export interface MockOAuthState {
+  clientId: string;
+  clientSecret: string;
+  // 発行するアクセストークンの有効期間 (秒)
+  accessTokenTtlSec: number;
+  // 発行済みでまだ使われていない認可コード
+  codes: { code: string; codeChallenge: string; redirectUri: string }[];
+  // 有効なトークンの組。リフレッシュすると古い組は削除される (ローテーション)
+  grants: MockOAuthGrant[];
+  // 失効させられたトークン (テストでの確認用)
+  revoked: string[];
+}
+
+/**
+ * モックサーバーの状態 (テストから直接読み書きできる)
+ */
+export interface MockState {
+  // 有効なAPIトークン。これ以外のトークンは401になる
+  tokens: string[];
+  me: MockAccount;
+  rooms: MockRoom[];
+  // ルームIDごとのメンバーのアカウントID
+  members: Record<number, number[]>;
+  accounts: MockAccount[];
+  tasks: MockTask[];
+  messages: MockMessage[];
+  files: MockFile[];
+  // レート制限の上限と残り回数 (0になると429を返す)
+  rateLimit: { limit: number; remaining: number; reset: number };
+  // 受け付けたリクエストの記録 (テストでの確認用)
+  requests: { method: string; path: string; body: string }[];
+  // 次のリクエストから順に返す異常系のレスポンス
+  faults: MockFault[];
+  oauth: MockOAuthState;
+}
+
+/**
+ * 起動したモックサーバー
+ */
+export interface ChatworkMockServer {
+  // ベースURL (例: http://127.0.0.1:54321/v2)
+  url: string;
+  // サーバーのオリジン (例: http://127.0.0.1:54321)。偽の認可サーバーのURLはこれに /oauth/... を付けたもの
+  origin: string;
+  state: MockState;
+  close: () => Promise<void>;
+}
+
+// レート制限の既定値 (Chatwork APIは5分あたり300回)
+const RATE_LIMIT = 300;
+const RATE_LIMIT_WINDOW_SEC = 300;
+
+const account = (account_id: number, name: string, chatwork_id: string): MockAccount => ({
+  account_id,
+  name,
+  chatwork_id,
+  organization_id: 1,
+  organization_name: 'サンプル株式会社',
+  department: '',
+  avatar_image_url: `https://example.com/avatar/${account_id}.png`,
+});
+
+const room = (room_id: number, name: string, type: MockRoom['type']): MockRoom => ({
+  room_id,
+  name,
+  type,
+  role: 'admin',
+  sticky: false,
+  unread_num: 0,
+  mention_num: 0,
+  mytask_num: 0,
+  message_num: 0,
+  file_num: 0,
+  task_num: 0,
+  icon_path: `https://example.com/icon/${room_id}.png`,
+  last_update_time: 0,
+});
+
+/**
+ * モックの初期データを作ります。
+ * @param token - 有効なAPIトークン
+ */
+export const createInitialState = (token = 'mock-token'): MockState => {
+  const me = account(1001, '山田 太郎', 'yamada');
+  const accounts = [me, account(1002, '佐藤 花子', 'sato'), account(1003, '鈴木 一郎', 'suzuki')];
+  return {
+    tokens: [token],
+    me,
+    rooms: [room(1, 'マイチャット', 'my'), room(2, '佐藤 花子', 'direct'), room(3, '開発チーム', 'group')],
+    members: { 1: [1001], 2: [1001, 1002], 3: [1001, 1002, 1003] },
+    accounts,
+    tasks: [],
+    messages: [],
+    files: [],
+    rateLimit: { limit: RATE_LIMIT, remaining: RATE_LIMIT, reset: Math.floor(Date.now() / 1000) + RATE_LIMIT_WINDOW_SEC },
+    requests: [],
+    faults: [],
+    oauth: {
+      clientId: 'mock-client-id',
+      clientSecret: 'mock-client-secret',
+      accessTokenTtlSec: 60 * 30,
+      codes: [],
+      grants: [],
+      revoked: [],
+    },
+  };
+};
+
+// JSONのレスポンスを返します。
+const sendJson = (res: http.ServerResponse, status: number, body: unknown) => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+  res.end(JSON.stringify(body));
+};
+
+// Chatwork API形式のエラー (`{ errors: [...] }`) を返します。
+const sendErrors = (res: http.ServerResponse, status: number, ...errors: string[]) => sendJson(res, status, { errors });
+
+// リクエストボディを読み取ります (ファイルのアップロードを受け取れるよう、バイナリのまま返します)。
+const readBody = (req: http.IncomingMessage): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+
+// OAuth のエラー (`{ error: ... }`) を返します。
+const sendOAuthError = (res: http.ServerResponse, status: number, error: string) => sendJson(res, status, { error });
+
+// 新しいトークンの組を発行します。
+const issueGrant = (state: MockState): MockOAuthGrant => {
+  const grant = {
+    accessToken: `mock-access-${crypto.randomBytes(8).toString('hex')}`,
+    refreshToken: `mock-refresh-${crypto.randomBytes(8).toString('hex')}`,
+    accessTokenExpiresAt: Math.floor(Date.now() / 1000) + state.oauth.accessTokenTtlSec,
+  };
+  state.oauth.grants.push(grant);
+  return grant;
+};
+
+// 偽の認可サーバーのリクエストを処理します。
+const handleOAuth = (state: MockState, req: http.IncomingMessage, res: http.ServerResponse, url: URL, form: URLSearchParams) => {
+  const { oauth } = state;
+
+  // 認可エンドポイント: ログイン画面は出さずに、すぐに認可コードを付けてリダイレクトする
+  if (req.method === 'GET' && url.pathname === '/oauth/authorize') {
+    const redirectUri = url.searchParams.get('redirect_uri');
+    const codeChallenge = url.searchParams.get('code_challenge');
+    if (url.searchParams.get('client_id') !== oauth.clientId || !redirectUri) {
+      sendOAuthError(res, 400, 'invalid_client');
+      return;
+    }
+    if (url.searchParams.get('response_type') !== 'code' || url.searchParams.get('code_challenge_method') !== 'S256' || !codeChallenge) {
+      sendOAuthError(res, 400, 'invalid_request');
+      return;
+    }
+    const code = crypto.randomBytes(8).toString('hex');
+    oauth.codes.push({ code, codeChallenge, redirectUri });
+    const location = new URL(redirectUri);
+    location.searchParams.set('code', code);
+    location.searchParams.set('state', url.searchParams.get('state') ?? '');
+    res.statusCode = 302;
+    res.setHeader('Location', location.toString());
+    res.end();
+    return;
+  }
+
+  // トークン・失効エンドポイントはクライアント認証 (Basic認証) が必要
+  const expectedAuth = `Basic ${Buffer.from(`${oauth.clientId}:${oauth.clientSecret}`).toString('base64')}`;
+  if (req.method !== 'POST' || req.headers.authorization !== expectedAuth) {
+    sendOAuthError(res, 401, 'invalid_client');
+    return;
+  }
+
+  if (url.pathname === '/oauth/token') {
+    const grantType = form.get('grant_type');
+    let grant: MockOAuthGrant;
+
+    if (grantType === 'authorization_code') {
+      // 認可コードは1回だけ使える。code_verifier のハッシュが code_challenge と一致すること (PKCE)
+      const index = oauth.codes.findIndex(c => c.code === form.get('code'));
+      const entry = index >= 0 ? oauth.codes.splice(index, 1)[0] : null;
+      const challenge = crypto.createHash('sha256').update(form.get('code_verifier') ?? '').digest('base64url');
+      if (!entry || entry.redirectUri !== form.get('redirect_uri') || entry.codeChallenge !== challenge) {
+        sendOAuthError(res, 400, 'invalid_grant');
+        return;
+      }
+      grant = issueGrant(state);
+    } else if (grantType === 'refresh_token') {
+      // リフレッシュトークンはローテーションし、使った古い組は無効にする
+      const index = oauth.grants.findIndex(g => g.refreshToken === form.get('refresh_token'));
+      if (index < 0) {
+        sendOAuthError(res, 400, 'invalid_grant');
+        return;
+      }
+      oauth.grants.splice(index, 1);
+      grant = issueGrant(state);
+    } else {
+      sendOAuthError(res, 400, 'unsupported_grant_type');
+      return;
+    }
+
+    sendJson(res, 200, {
+      access_token: grant.accessToken,
+      token_type: 'Bearer',
+      expires_in: oauth.accessTokenTtlSec,
+      refresh_token: grant.refreshToken,
+    });
+    return;
+  }
+
+  if (url.pathname === '/oauth/revoke') {
+    // 失効エンドポイントは、未知のトークンでも 200 を返す (RFC 7009)
+    const token = form.get('token') ?? '';
+    oauth.revoked.push(token);
+    oauth.grants = oauth.grants.filter(g => g.accessToken !== token && g.refreshToken !== token);
+    res.statusCode = 200;
+    res.end();
+    return;
+  }
+
+  sendOAuthError(res, 404, 'not_found');
+};
+
+// APIトークン (X-ChatWorkToken) または OAuth のアクセストークン (Authorization: Bearer) が有効かどうかを返します。
+const isAuthorized = (state: MockState, req: http.IncomingMessage) => {
+  const token = req.headers['x-chatworktoken'];
+  if (typeof token === 'string') {
+    return state.tokens.includes(token);
+  }
+  const bearer = req.headers.authorization?.match(/^Bearer\s+(.+)$/i)?.[1];
+  const now = Math.floor(Date.now() / 1000);
+  return !!bearer && state.oauth.grants.some(g => g.accessToken === bearer && g.accessTokenExpiresAt > now);
+};
+
+// タスクをChatwork APIのレスポンス形式に変換します。
+const toTaskResponse = (state: MockState, task: MockTask) => {
+  const find = (accountId: number) => state.accounts.find(a => a.account_id === accountId) ?? account(accountId, `ID:${accountId}`, '');
+  const brief = (a: MockAccount) => ({ account_id: a.account_id, name: a.name, avatar_image_url: a.avatar_image_url });
+  return {
+    task_id: task.task_id,
+    account: brief(find(task.account_id)),
+    assigned_by_account: brief(find(task.assigned_by_account_id)),
+    message_id: task.message_id,
+    body: task.body,
+    limit_time: task.limit_time,
+    status: task.status,
+    limit_type: task.limit_type,
+  };
+};
+
+// リクエストを処理します。
+const handle = async (state: MockState, req: http.IncomingMessage, res: http.ServerResponse) => {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  const path = url.pathname.replace(/^\/v2/, '');
+  const rawBody = await readBody(req);
+  const body = rawBody.toString('utf8');
+  const form = new URLSearchParams(body);
+  state.requests.push({ method: req.method ?? 'GET', path: `${path}${url.search}`, body });
+
+  if (url.pathname.startsWith('/oauth/')) {
+    handleOAuth(state, req, res, url, form);
+    return;
+  }
+
+  // レート制限のヘッダーは認証の成否にかかわらず付ける
+  const now = Math.floor(Date.now() / 1000);
+  if (state.rateLimit.reset <= now) {
+    state.rateLimit.remaining = state.rateLimit.limit;
+    state.rateLimit.reset = now + RATE_LIMIT_WINDOW_SEC;
+  }
+  res.setHeader('x-ratelimit-limit', String(state.rateLimit.limit));
+  res.setHeader('x-ratelimit-reset', String(state.rateLimit.reset));
+
+  // 異常系のレスポンスが登録されていれば、それを返す
+  const fault = state.faults.shift();
+  if (fault) {
+    res.setHeader('x-ratelimit-remaining', String(state.rateLimit.remaining));
+    Object.entries(fault.headers ?? {}).forEach(([name, value]) => res.setHeader(name, value));
+    res.statusCode = fault.status;
+    res.setHeader('Content-Type', fault.contentType ?? 'text/html; charset=utf-8');
+    res.end(fault.body);
+    return;
+  }
+
+  if (!isAuthorized(state, req)) {
+    res.setHeader('x-ratelimit-remaining', String(state.rateLimit.remaining));
+    sendErrors(res, 401, 'Invalid API token');
+    return;
+  }
+
+  if (state.rateLimit.remaining <= 0) {
+    res.setHeader('x-ratelimit-remaining', '0');
+    sendErrors(res, 429, 'Rate limit exceeded');
+    return;
+  }
+  state.rateLimit.remaining -= 1;
+  res.setHeader('x-ratelimit-remaining', String(state.rateLimit.remaining));
+
+  const method = req.method ?? 'GET';
+  let match: RegExpMatchArray | null;
+
+  if (method === 'GET' && path === '/me') {
+    sendJson(res, 200, { ...state.me, room_id: state.rooms.find(r => r.type === 'my')?.room_id ?? 0 });
+    return;
+  }
+
+  if (method === 'GET' && path === '/rooms') {
+    sendJson(res, 200, state.rooms);
+    return;
+  }
+
+  if (method === 'GET' && path === '/my/tasks') {
+    // 自分が担当者のタスク (assigned_by_account_id で依頼者を絞り込める)
+    const status = url.searchParams.get('status') ?? 'open';
+    const assignedBy = url.searchParams.get('assigned_by_account_id');
+    const tasks = state.tasks.filter(t =>
+      t.account_id === state.me.account_id &&
+      t.status === status &&
+      (!assignedBy || t.assigned_by_account_id === parseInt(assignedBy, 10)));
+    if (tasks.length === 0) {
+      // 該当するタスクがない場合、Chatwork APIはボディなしの204を返す
+      res.statusCode = 204;
+      res.end();
+      return;
+    }
+    sendJson(res, 200, tasks.map(t => {
+      const { account, ...task } = toTaskResponse(state, t);
+      const taskRoom = state.rooms.find(r => r.room_id === t.room_id);
+      return { ...task, room: { room_id: t.room_id, name: taskRoom?.name ?? '', icon_path: taskRoom?.icon_path ?? '' } };
+    }));
+    return;
+  }
+
+  // 以降はルーム単位のエンドポイント
+  match = path.match(/^\/rooms\/(\d+)(\/.*)?$/);
+  const targetRoom = match ? state.rooms.find(r => r.room_id === parseInt(match![1], 10)) : undefined;
+  if (!match || !targetRoom) {
+    sendErrors(res, 404, 'Resource not found');
+    return;
+  }
+  const roomPath = match[2] ?? '';
+
+  if (method === 'GET' && roomPath === '/members') {
+    const memberIds = state.members[targetRoom.room_id] ?? [];
+    sendJson(res, 200, state.accounts
+      .filter(a => memberIds.includes(a.account_id))
+      .map(a => ({ ...a, role: a.account_id === state.me.account_id ? 'admin' : 'member' })));
+    return;
+  }
+
+  if (method === 'GET' && roomPath === '/tasks') {
+    const status = url.searchParams.get('status') ?? 'open';
+    const accountId = url.searchParams.get('account_id');
+    const tasks = state.tasks.filter(t =>
+      t.room_id === targetRoom.room_id &&
+      t.status === status &&
+      (!accountId || t.account_id === parseInt(accountId, 10)));
+    if (tasks.length === 0) {
+      // 該当するタスクがない場合、Chatwork APIはボディなしの204を返す
+      res.statusCode = 204;
+      res.end();
+      return;
+    }
+    sendJson(res, 200, tasks.map(t => toTaskResponse(state, t)));
+    return;
+  }
+
+  if (method === 'POST' && roomPath === '/tasks') {
+    const taskBody = form.get('body');
+    const toIds = (form.get('to_ids') ?? '').split(',').filter(Boolean).map(id => parseInt(id, 10));
+    if (!taskBody || toIds.length === 0) {
+      sendErrors(res, 400, "Parameter 'body' and 'to_ids' are required");
+      return;
+    }
+    const limitType = (form.get('limit_type') ?? 'time') as MockTask['limit_type'];
+    const messageId = String(Date.now());
+    const created = toIds.map(accountId => {
+      const task: MockTask = {
+        task_id: state.tasks.length + 1,
+        room_id: targetRoom.room_id,
+        account_id: accountId,
+        assigned_by_account_id: state.me.account_id,
+        message_id: messageId,
+        body: taskBody,
+        limit_time: limitType === 'none' ? 0 : parseInt(form.get('limit') ?? '0', 10),
+        status: 'open',
+        limit_type: limitType,
+      };
+      state.tasks.push(task);
+      return task.task_id;
+    });
+    sendJson(res, 200, { task_ids: created });
+    return;
+  }
+
+  if (method === 'POST' && roomPath === '/messages') {
+    const messageBody = form.get('body');
+    if (!messageBody) {
+      sendErrors(res, 400, "Parameter 'body' is required");
+      return;
+    }
+    const message: MockMessage = {
+      message_id: String(state.messages.length + 1),
+      room_id: targetRoom.room_id,
+      account_id: state.me.account_id,
+      body: messageBody,
+      send_time: Math.floor(Date.now() / 1000),
+    };
+    state.messages.push(message);
+    sendJson(res, 200, { message_id: message.message_id });
+    return;
+  }
+
+  if (method === 'POST' && roomPath === '/files') {
+    // multipart/form-data の file (必須) と message (省略可) を読み取る
+    let upload: FormData;
+    try {
+      upload = await new Response(rawBody, { headers: { 'Content-Type': req.headers['content-type'] ?? '' } }).formData();
+    } catch (error) {
+      sendErrors(res, 400, 'Invalid multipart form data');
+      return;
+    }
+    const file = upload.get('file');
+    if (typeof file !== 'object' || file === null) {
+      sendErrors(res, 400, "Parameter 'file' is required");
+      return;
+    }
+    const uploaded = file as File;
+    if (uploaded.size > 5 * 1024 * 1024) {
+      sendErrors(res, 400, 'File size exceeds the limit');
+      return;
+    }
+    // アップロードしたファイルはメッセージとしてルームに投稿される
+    const message: MockMessage = {
+      message_id: String(state.messages.length + 1),
+      room_id: targetRoom.room_id,
+      account_id: state.me.account_id,
+      body: `${upload.get('message') ?? ''}[download:${state.files.length + 1}]${uploaded.name}[/download]`,
+      send_time: Math.floor(Date.now() / 1000),
+    };
+    state.messages.push(message);
+    const created: MockFile = {
+      file_id: state.files.length + 1,
+      room_id: targetRoom.room_id,
+      account_id: state.me.account_id,
+      message_id: message.message_id,
+      filename: uploaded.name,
+      filesize: uploaded.size,
+      upload_time: message.send_time,
+    };
+    state.files.push(created);
+    sendJson(res, 200, { file_id: created.file_id });
+    return;
+  }
+
+  match = roomPath.match(/^\/files\/(\d+)$/);
+  if (method === 'GET' && match) {
+    const file = state.files.find(f => f.room_id === targetRoom.room_id && f.file_id === parseInt(match![1], 10));
+    if (!file) {
+      sendErrors(res, 404, 'File not found');
+      return;
+    }
+    const account = state.accounts.find(a => a.account_id === file.account_id) ?? state.me;
+    sendJson(res, 200, {
+      file_id: file.file_id,
+      account: { account_id: account.account_id, name: account.name, avatar_image_url: account.avatar_image_url },
+      message_id: file.message_id,
+      filename: file.filename,
+      filesize: file.filesize,
+      upload_time: file.upload_time,
+    });
+    return;
+  }
+
+  match = roomPath.match(/^\/tasks\/(\d+)$/);
+  if (method === 'GET' && match) {
+    const task = state.tasks.find(t => t.room_id === targetRoom.room_id && t.task_id === parseInt(match![1], 10));
+    if (!task) {
+      sendErrors(res, 404, 'Task not found');
+      return;
+    }
+    sendJson(res, 200, toTaskResponse(state, task));
+    return;
+  }
+
+  match = roomPath.match(/^\/tasks\/(\d+)\/status$/);
+  if (method === 'PUT' && match) {
+    const task = state.tasks.find(t => t.room_id === targetRoom.room_id && t.task_id === parseInt(match![1], 10));
+    const status = form.get('body');
+    if (!task) {
+      sendErrors(res, 404, 'Task not found');
+      return;
+    }
+    if (status !== 'open' && status !== 'done') {
+      sendErrors(res, 400, "Parameter 'body' must be 'open' or 'done'");
+      return;
+    }
+    task.status = status;
+    sendJson(res, 200, { task_id: task.task_id });
+    return;
+  }
+
+  sendErrors(res, 404, 'Resource not found');
+};
+
+/**
+ * モックサーバーを起動します。
+ * @param options.port - 待ち受けるポート (省略時は空いているポート)
+ * @param options.state - 初期状態 (省略時は createInitialState() の内容)
+ */
+export const startChatworkMockServer = (options: { port?: number; state?: MockState } = {}): Promise<ChatworkMockServer> => {
+  const state = options.state ?? createInitialState();
+  const server = http.createServer((req, res) => {
+    handle(state, req, res).catch(error => {
+      console.error('Chatwork mock server error:', error);
+      sendErrors(res, 500, 'Mock server error');
+    });
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? 0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${port}/v2`,
+        origin: `http://127.0.0.1:${port}`,
+        state,
+        close: () => new Promise<void>((done, fail) => server.close(error => (error ? fail(error) : done()))),
+      });
+    });
+  });
+};
@@ -0,0 +1,52 @@
+// src/types/apiError.ts
+
+/**
+ * APIルートがエラーレスポンスの `code` で返すエラーの種類
+ * `error` の英語の説明は変わることがあるため、画面や外部のスクリプトはこのコードで判定してください。
+ * 画面は、このコードから利用者の言語のメッセージを表示します (src/locales の `apiError.<code>`)。
+ * 一度決めたコードは変更・削除しないでください。
+ */
+export const API_ERROR_CODES = [
+  // リクエストの問題
+  'token_missing',
+  'invalid_body',
+  'invalid_path',
+  'invalid_parameter',
+  'file_too_large',
+  'length_required',
+  'credential_invalid',
+  'profile_limit_reached',
+  'no_assignable_members',
+  // 見つからない
+  'profile_not_found',
+  'schedule_not_found',
+  'calendar_feed_not_found',
+  'webhook_event_not_found',
+  'my_chat_not_found',
+  // サーバーの設定
+  'oauth_not_configured',
+  'webhook_not_configured',
+  'invalid_webhook_signature',
+  'invalid_webhook_payload',
+  'storage_failed',
+  // Chatwork API の応答
+  'chatwork_unauthorized',
+  'chatwork_forbidden',
+  'chatwork_not_found',
+  'chatwork_rate_limited',
+  'chatwork_unreachable',
+  'chatwork_error',
+  // 予期しないエラー
+  'internal_error',
+] as const;
+
+export type ApiErrorCode = typeof API_ERROR_CODES[number];
+
+/**
+ * APIルートのエラーレスポンスのボディ
+ * error は英語の説明 (ログや開発者向け)、code は画面の表示に使うエラーの種類です。
+ */
+export interface ApiErrorBody {
+  error: string;
+  code: ApiErrorCode;
+}
@@ -0,0 +1,62 @@
+// src/types/broadcast.ts
+
+import type { ApiErrorCode } from './apiError';
+import type { LimitType } from './chatwork';
+
+/**
+ * 一斉送信で、ルームごとに担当者を決めるルール
+ * - all: ルームのメンバー全員 (閲覧のみのメンバーを除く)
+ * - members: 指定したアカウントID
+ * - me: 自分だけ
+ */
+export type BroadcastAssigneeRule =
+  | { type: 'all' }
+  | { type: 'members'; accountIds: number[] }
+  | { type: 'me' };
+
+/**
+ * 一斉送信の送信先のルーム
+ */
+export interface BroadcastTarget {
+  roomId: number;
+  assignees: BroadcastAssigneeRule;
+}
+
+/**
+ * 一斉送信APIのリクエスト (POST /api/chatwork/tasks/batch)
+ * limit・limit_type はタスク作成APIと同じ意味で、すべてのルームに同じ期限を付けます。
+ */
+export interface BroadcastRequest {
+  body: string;
+  limit: number | null;
+  limit_type: LimitType;
+  rooms: BroadcastTarget[];
+}
+
+/**
+ * 一斉送信のルームごとの結果
+ */
+export interface BroadcastRoomResult {
+  roomId: number;
+  ok: boolean;
+  // タスク作成APIのHTTPステータス (送信前に失敗した場合は失敗の種類に応じた値)
+  status: number;
+  // 担当者にしたアカウントID (担当者を決められなかった場合は空)
+  assigneeIds: number[];
+  // 作成されたタスクのID
+  taskIds: number[];
+  error: string | null;
+  // 失敗の種類 (画面はこれで利用者の言語のメッセージを表示する)
+  code: ApiErrorCode | null;
+  // 429の場合、レート制限がリセットされる時刻 (Unixタイムスタンプ秒)
+  rateLimitReset?: number;
+}
+
+/**
+ * 一斉送信APIのレスポンス
+ */
+export interface BroadcastResponse {
+  results: BroadcastRoomResult[];
+  succeeded: number;
+  failed: number;
+}
@@ -0,0 +1,68 @@
+// src/types/chatwork.ts
+
+// Chatwork APIのレスポンスのうち、このアプリで利用する型を定義します。
+
+/**
+ * ルームメンバー (GET /rooms/{room_id}/members のレスポンス要素)
+ */
+export interface ChatworkMember {
+  account_id: number;
+  role: 'admin' | 'member' | 'readonly';
+  name: string;
+  chatwork_id: string;
+  organization_id: number;
+  organization_name: string;
+  department: string;
+  avatar_image_url: string;
+}
+
+/**
+ * ルームの種類
+ * - my: マイチャット
+ * - direct: ダイレクトチャット
+ * - group: グループチャット
+ */
+export type RoomType = 'my' | 'direct' | 'group';
+
+/**
+ * ルーム (GET /rooms のレスポンス要素のうち利用する項目)
+ */
+export interface ChatworkRoom {
+  room_id: number;
+  name: string;
+  type: RoomType;
+  // Chatwork側でピン留めされているかどうか
+  sticky: boolean;
+  unread_num: number;
+  icon_path: string;
+}
+
+/**
+ * 自分自身のアカウント情報 (GET /me のレスポンスのうち利用する項目)
+ */
+export interface ChatworkMe {
+  account_id: number;
+  name: string;
+}
+
+/**
+ * タスク期限の種類 (Chatwork APIの limit_type パラメータ)
+ * - none: 期限なし
+ * - date: 日付のみ
+ * - time: 日付と時刻
+ */
+export type LimitType = 'none' | 'date' | 'time';
+
+// limit_type として受け付ける値の一覧 (バリデーション用)
+export const LIMIT_TYPES: LimitType[] = ['none', 'date', 'time'];
+
+/**
+ * アップロードしたファイル (POST /rooms/{room_id}/files と GET /rooms/{room_id}/files/{file_id} から利用する項目)
+ * message_id はアップロードで投稿されたメッセージのID。取得できなかった場合は null です。
+ */
+export interface ChatworkUploadedFile {
+  file_id: number;
+  message_id: string | null;
+  filename: string;
+  filesize: number;
+}
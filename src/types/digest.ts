@@ -0,0 +1,48 @@
+// src/types/digest.ts
+
+import type { ApiErrorCode } from './apiError';
+
+/**
+ * 毎日のダイジェスト (自分の未完了タスクのまとめ) の1回分の送信結果
+ */
+export interface DigestRun {
+  // 送信した時刻 (Unixタイムスタンプ ミリ秒)
+  at: number;
+  ok: boolean;
+  // まとめたタスクの件数
+  taskCount: number;
+  // マイチャットに投稿したメッセージのID
+  messageId: string | null;
+  // 失敗した場合の英語の説明 (ログや開発者向け)
+  error: string | null;
+  // 失敗した場合のエラーの種類 (画面はこのコードから表示言語のメッセージを表示する)
+  code: ApiErrorCode | null;
+}
+
+/**
+ * ダイジェストの送信設定 (クライアントに返す形式)
+ * time は送信する時刻 (HH:MM、Asia/Tokyo) です。
+ */
+export interface DigestSettings {
+  enabled: boolean;
+  time: string;
+  // 土日は送らない
+  weekdaysOnly: boolean;
+  // 設定したアカウントのID (本人のみ参照・変更できる)
+  ownerAccountId: number;
+  // 次に送信する時刻 (Unixタイムスタンプ ミリ秒)。停止中は null
+  nextRunAt: number | null;
+  // 前回の送信結果
+  lastRun: DigestRun | null;
+}
+
+/**
+ * ダイジェストの本文を作った結果
+ */
+export interface DigestPreview {
+  // 投稿先のマイチャットのルームID
+  roomId: number;
+  // 投稿する本文 ([info] 記法)
+  body: string;
+  taskCount: number;
+}
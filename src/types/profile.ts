@@ -0,0 +1,29 @@
+// src/types/profile.ts
+
+/**
+ * Chatwork のアカウントごとのプロフィール (クライアントに返す形式)
+ * 会社のアカウントと取引先の組織のアカウントのように、複数のアカウントを切り替えて使うためのものです。
+ * 認証情報はサーバー側の暗号化したCookieに保存し、クライアントには返しません。
+ */
+export interface ChatworkProfile {
+  // プロフィールのID (ルーム一覧のキャッシュやお気に入りなど、ブラウザに保存する内容をプロフィールごとに分けるキー)
+  id: string;
+  // 利用者が付けた名前 (例: 本社、取引先)
+  name: string;
+  // ログインしたアカウント (/me)
+  accountId: number;
+  accountName: string;
+}
+
+/**
+ * ログイン状態 (GET /api/session などの応答)
+ */
+export interface SessionStatus {
+  loggedIn: boolean;
+  method: 'token' | 'oauth' | null;
+  oauthAvailable: boolean;
+  // 保存しているプロフィールの一覧 (追加した順)
+  profiles: ChatworkProfile[];
+  // 使用中のプロフィールのID
+  activeProfileId: string | null;
+}
@@ -0,0 +1,57 @@
+// src/types/schedule.ts
+
+import type { ApiErrorCode } from './apiError';
+import type { RelativeDeadline } from './template';
+
+/**
+ * 定期タスクの繰り返しのルール
+ * time は実行する時刻 (HH:MM、Asia/Tokyo) です。
+ * - daily: 毎日
+ * - weekly: 毎週、weekdays の曜日 (日曜=0 〜 土曜=6)
+ * - monthly: 毎月 day 日 (その月に day 日がない場合は月末)
+ * - lastBusinessDay: 毎月の最終営業日 (土日を除いた最後の日)
+ */
+export type RecurrenceRule =
+  | { kind: 'daily'; time: string }
+  | { kind: 'weekly'; weekdays: number[]; time: string }
+  | { kind: 'monthly'; day: number; time: string }
+  | { kind: 'lastBusinessDay'; time: string };
+
+/**
+ * 定期タスクの1回分の実行結果
+ */
+export interface ScheduleRun {
+  // 実行した時刻 (Unixタイムスタンプ ミリ秒)
+  at: number;
+  ok: boolean;
+  // タスク作成APIのHTTPステータス (送信前に失敗した場合は失敗の種類に応じた値)
+  status: number;
+  // 作成されたタスクのID
+  taskIds: number[];
+  // 失敗した場合の英語の説明 (ログや開発者向け)
+  error: string | null;
+  // 失敗した場合のエラーの種類 (画面はこのコードから表示言語のメッセージを表示する)
+  code: ApiErrorCode | null;
+}
+
+/**
+ * 定期タスク (クライアントに返す形式)
+ */
+export interface Schedule {
+  id: string;
+  name: string;
+  roomId: number;
+  body: string;
+  assigneeIds: number[];
+  // 作成するタスクの期限 (実行日を基準にした相対的な期限)。null の場合は期限なし
+  deadline: RelativeDeadline | null;
+  rule: RecurrenceRule;
+  enabled: boolean;
+  // 定期タスクを登録したアカウントのID (本人のみ参照・変更できる)
+  ownerAccountId: number;
+  // 次に実行する時刻 (Unixタイムスタンプ ミリ秒)。停止中は null
+  nextRunAt: number | null;
+  // 実行結果の履歴 (新しい順)
+  runs: ScheduleRun[];
+  createdAt: number;
+}
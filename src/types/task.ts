@@ -0,0 +1,48 @@
+// src/types/task.ts
+
+import type { LimitType } from './chatwork';
+
+/**
+ * タスクの状態 (open: 未完了, done: 完了)
+ */
+export type TaskStatus = 'open' | 'done';
+
+/**
+ * タスクに関連するアカウント (担当者・依頼者)
+ */
+export interface TaskAccount {
+  account_id: number;
+  name: string;
+  avatar_image_url: string;
+}
+
+/**
+ * ルームのタスク (GET /rooms/{room_id}/tasks のレスポンス要素)
+ */
+export interface Task {
+  task_id: number;
+  account: TaskAccount;
+  assigned_by_account: TaskAccount;
+  message_id: string;
+  body: string;
+  // 期限 (Unixタイムスタンプ秒)。期限なしの場合は 0
+  limit_time: number;
+  status: TaskStatus;
+  limit_type: LimitType;
+}
+
+/**
+ * 自分が担当者のタスク (GET /my/tasks のレスポンス要素)
+ * ルームのタスクと違い、担当者 (自分) の代わりにタスクのあるルームを含みます。
+ */
+export interface MyTask {
+  task_id: number;
+  room: { room_id: number; name: string; icon_path: string };
+  assigned_by_account: TaskAccount;
+  message_id: string;
+  body: string;
+  // 期限 (Unixタイムスタンプ秒)。期限なしの場合は 0
+  limit_time: number;
+  status: TaskStatus;
+  limit_type: LimitType;
+}
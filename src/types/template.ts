@@ -0,0 +1,33 @@
+// src/types/template.ts
+
+import type { LimitType } from './chatwork';
+
+/**
+ * テンプレートの期限 (使った日を基準にした相対的な期限)
+ * 例: 「3営業日後 17:00」は { limitType: 'time', offset: 3, unit: 'businessDay', time: '17:00' }
+ * limitType が none の場合は期限なしで、offset・unit・time は使いません。
+ */
+export interface RelativeDeadline {
+  limitType: LimitType;
+  offset: number;
+  // day: 暦日、businessDay: 土日を除いた営業日、week: 週
+  unit: 'day' | 'businessDay' | 'week';
+  // limitType が time の場合の時刻 (HH:MM)
+  time: string;
+}
+
+/**
+ * タスクのテンプレート
+ * body には `{{client}}` のようなプレースホルダーを書けます。使う時に値を入力して置き換えます。
+ */
+export interface TaskTemplate {
+  id: string;
+  name: string;
+  body: string;
+  // 既定の送信先ルームID (指定しない場合は null)
+  roomId: number | null;
+  // 既定の担当者のアカウントID (ルームにいないアカウントは使う時に外す)
+  assigneeIds: number[];
+  // 既定の期限 (指定しない場合は null で、フォームの期限をそのまま使う)
+  deadline: RelativeDeadline | null;
+}
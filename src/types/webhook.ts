@@ -0,0 +1,56 @@
+// src/types/webhook.ts
+
+import type { TaskStatus } from './task';
+
+/**
+ * ChatworkのWebhookのリクエストボディ
+ * webhook_event の内容は webhook_event_type によって異なります。
+ */
+export interface ChatworkWebhookPayload {
+  webhook_setting_id: string;
+  // mention_to_me / message_created / message_updated
+  webhook_event_type: string;
+  webhook_event_time: number;
+  webhook_event: {
+    message_id: string;
+    room_id: number;
+    body: string;
+    send_time: number;
+    update_time: number;
+    // message_created / message_updated の場合の投稿者
+    account_id?: number;
+    // mention_to_me の場合の送信者と宛先
+    from_account_id?: number;
+    to_account_id?: number;
+  };
+}
+
+/**
+ * Webhookで受け取り、クライアントに渡すまでサーバーに保存しておくイベント
+ * - mention: 自分宛てのメンション (メモの下書きにできる)
+ * - taskStatus: ルームのメッセージから読み取ったタスクの追加・完了 (送信履歴の状態に反映する)
+ */
+export type WebhookEvent =
+  | {
+    id: string;
+    kind: 'mention';
+    receivedAt: number;
+    roomId: number;
+    messageId: string;
+    fromAccountId: number;
+    toAccountId: number;
+    // [To:] などのタグを除いた本文
+    body: string;
+  }
+  | {
+    id: string;
+    kind: 'taskStatus';
+    receivedAt: number;
+    roomId: number;
+    messageId: string;
+    // タスクの担当者
+    accountId: number;
+    status: TaskStatus;
+    // タスクの本文
+    body: string;
+  };
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { POST } from '../../src/app/api/chatwork/tasks/batch/route';
+import { makeRequest, useChatworkMock } from '../helpers';
+
+const broadcast = (json: unknown, headers: Record<string, string> = {}) =>
+  POST(makeRequest('/api/chatwork/tasks/batch', { method: 'POST', json, headers }));
+
+describe('POST /api/chatwork/tasks/batch', () => {
+  const mock = useChatworkMock();
+
+  it('creates the task in every room with its own assignee rule', async () => {
+    const response = await broadcast({
+      body: '週報を提出',
+      limit: 1793404800,
+      limit_type: 'date',
+      rooms: [
+        { roomId: 3, assignees: { type: 'all' } },
+        { roomId: 2, assignees: { type: 'members', accountIds: [1002] } },
+        { roomId: 1, assignees: { type: 'me' } },
+      ],
+    });
+
+    expect(response.status).toBe(200);
+    const data = await response.json();
+    expect(data.succeeded).toBe(3);
+    expect(data.failed).toBe(0);
+    expect(data.results.map((result: any) => [result.roomId, result.assigneeIds])).toEqual([
+      [3, [1001, 1002, 1003]],
+      [2, [1002]],
+      [1, [1001]],
+    ]);
+    expect(mock().state.tasks.map(task => [task.room_id, task.account_id, task.limit_time])).toEqual(expect.arrayContaining([
+      [3, 1001, 1793404800],
+      [3, 1002, 1793404800],
+      [3, 1003, 1793404800],
+      [2, 1002, 1793404800],
+      [1, 1001, 1793404800],
+    ]));
+  });
+
+  it('reports the failed rooms with 207 and still sends to the others', async () => {
+    const response = await broadcast({
+      body: '週報を提出',
+      rooms: [
+        { roomId: 99, assignees: { type: 'all' } },
+        { roomId: 2, assignees: { type: 'members', accountIds: [1002] } },
+      ],
+    });
+
+    expect(response.status).toBe(207);
+    const data = await response.json();
+    expect(data.succeeded).toBe(1);
+    expect(data.results[0]).toMatchObject({ roomId: 99, ok: false, status: 404, taskIds: [], code: 'chatwork_not_found' });
+    expect(data.results[1]).toMatchObject({ roomId: 2, ok: true, taskIds: [1] });
+  });
+
+  it('stops sending after a rate limit and resends only the missing rooms with the same key', async () => {
+    const state = mock().state;
+    state.rateLimit.remaining = 1;
+    state.rateLimit.reset = Math.floor(Date.now() / 1000) + 3600;
+    const request = {
+      body: '週報を提出',
+      rooms: [1, 2, 3].map(roomId => ({ roomId, assignees: { type: 'members', accountIds: [1001] } })),
+    };
+
+    const first = await (await broadcast(request, { 'Idempotency-Key': 'batch-retry' })).json();
+    expect(first.results.map((result: any) => result.status)).toEqual([200, 429, 429]);
+    expect(first.results[1].rateLimitReset).toBe(state.rateLimit.reset);
+    expect(first.results[2].code).toBe('chatwork_rate_limited');
+    expect(state.tasks).toHaveLength(1);
+
+    state.rateLimit.remaining = 10;
+    const second = await broadcast(request, { 'Idempotency-Key': 'batch-retry' });
+    expect(second.status).toBe(200);
+    expect(state.tasks.map(task => task.room_id)).toEqual([1, 2, 3]);
+  });
+
+  it('rejects a rule without account IDs', async () => {
+    const response = await broadcast({ body: '週報を提出', rooms: [{ roomId: 3, assignees: { type: 'members', accountIds: [] } }] });
+
+    expect(response.status).toBe(400);
+    expect(mock().state.requests).toHaveLength(0);
+  });
+
+  it('rejects a room listed twice', async () => {
+    const response = await broadcast({
+      body: '週報を提出',
+      rooms: [{ roomId: 3, assignees: { type: 'me' } }, { roomId: 3, assignees: { type: 'all' } }],
+    });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('requires a token', async () => {
+    const response = await POST(makeRequest('/api/chatwork/tasks/batch', { method: 'POST', token: null, json: { body: 'x', rooms: [] } }));
+
+    expect(response.status).toBe(400);
+  });
+});
@@ -0,0 +1,102 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { DELETE, GET as getFeed, POST as issueFeed } from '../../src/app/api/chatwork/my/calendar-feed/route';
+import { GET } from '../../src/app/api/chatwork/my/tasks.ics/route';
+import { makeRequest, useChatworkMock } from '../helpers';
+
+describe('GET /api/chatwork/my/tasks.ics', () => {
+  const mock = useChatworkMock();
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'calendar-feeds-'));
+    process.env.CALENDAR_FEEDS_FILE = path.join(dir, 'calendar-feeds.json');
+    process.env.CREDENTIALS_FILE = path.join(dir, 'credentials.json');
+  });
+
+  beforeEach(async () => {
+    await fs.rm(process.env.CALENDAR_FEEDS_FILE!, { force: true });
+    await fs.rm(process.env.CREDENTIALS_FILE!, { force: true });
+    const base = { room_id: 3, assigned_by_account_id: 1002, message_id: '555', status: 'open' as const };
+    mock().state.tasks.push(
+      { ...base, task_id: 1, account_id: 1001, body: '見積書を作成', limit_time: Date.UTC(2026, 9, 31, 8) / 1000, limit_type: 'time' },
+      { ...base, task_id: 2, account_id: 1001, body: '完了済み', limit_time: 0, limit_type: 'none', status: 'done' },
+      { ...base, task_id: 3, account_id: 1002, body: '他の人のタスク', limit_time: 0, limit_type: 'none' },
+    );
+  });
+
+  afterAll(async () => {
+    delete process.env.CALENDAR_FEEDS_FILE;
+    delete process.env.CREDENTIALS_FILE;
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('returns my open tasks as an iCalendar document', async () => {
+    const response = await GET(makeRequest('/api/chatwork/my/tasks.ics'));
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('text/calendar; charset=utf-8');
+    const calendar = await response.text();
+    expect(calendar).toContain('UID:chatwork-task-1@chatwork-task-memo');
+    expect(calendar).toContain('DESCRIPTION:ルーム: 開発チーム');
+    expect(calendar).not.toContain('chatwork-task-2@');
+    expect(calendar).not.toContain('chatwork-task-3@');
+  });
+
+  it('returns an empty calendar when Chatwork has no tasks (204)', async () => {
+    mock().state.tasks = [];
+
+    const response = await GET(makeRequest('/api/chatwork/my/tasks.ics'));
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).not.toContain('BEGIN:VTODO');
+  });
+
+  it('serves a secret feed URL without the token header and revokes it on reissue', async () => {
+    const issued = await issueFeed(makeRequest('/api/chatwork/my/calendar-feed', { method: 'POST' }));
+    expect(issued.status).toBe(201);
+    const { path: feedPath } = await issued.json();
+    expect(feedPath).toMatch(/^\/api\/chatwork\/my\/tasks\.ics\?key=/);
+    // トークンは保存ファイルに平文で残さない
+    expect(await fs.readFile(process.env.CALENDAR_FEEDS_FILE!, 'utf8')).not.toContain('mock-token');
+    expect(await fs.readFile(process.env.CREDENTIALS_FILE!, 'utf8')).not.toContain('mock-token');
+
+    const feed = await GET(makeRequest(feedPath, { token: null }));
+    expect(feed.status).toBe(200);
+    expect(await feed.text()).toContain('UID:chatwork-task-1@chatwork-task-memo');
+
+    const status = await getFeed(makeRequest('/api/chatwork/my/calendar-feed'));
+    expect(await status.json()).toMatchObject({ enabled: true });
+
+    await issueFeed(makeRequest('/api/chatwork/my/calendar-feed', { method: 'POST' }));
+    expect((await GET(makeRequest(feedPath, { token: null }))).status).toBe(404);
+  });
+
+  it('writes the feed in the language it was issued in', async () => {
+    const issued = await issueFeed(makeRequest('/api/chatwork/my/calendar-feed', { method: 'POST', headers: { 'Accept-Language': 'en-US' } }));
+    const { path: feedPath } = await issued.json();
+
+    // カレンダーアプリのリクエストの言語ではなく、発行した時の言語にする
+    const text = await (await GET(makeRequest(feedPath, { token: null, headers: { 'Accept-Language': 'ja' } }))).text();
+    expect(text).toContain('X-WR-CALNAME:Chatwork tasks');
+    expect(text).toContain('DESCRIPTION:Room: 開発チーム');
+  });
+
+  it('stops the feed on DELETE', async () => {
+    const { path: feedPath } = await (await issueFeed(makeRequest('/api/chatwork/my/calendar-feed', { method: 'POST' }))).json();
+
+    const response = await DELETE(makeRequest('/api/chatwork/my/calendar-feed', { method: 'DELETE' }));
+
+    expect(response.status).toBe(204);
+    expect((await GET(makeRequest(feedPath, { token: null }))).status).toBe(404);
+    expect((await DELETE(makeRequest('/api/chatwork/my/calendar-feed', { method: 'DELETE' }))).status).toBe(404);
+  });
+
+  it('requires a credential when no feed key is given', async () => {
+    const response = await GET(makeRequest('/api/chatwork/my/tasks.ics', { token: null }));
+
+    expect(response.status).toBe(400);
+  });
+});
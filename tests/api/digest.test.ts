@@ -0,0 +1,103 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { GET, PUT } from '../../src/app/api/digest/route';
+import { POST as run } from '../../src/app/api/digest/run/route';
+import { runDueDigests } from '../../src/lib/digest';
+import { toZonedParts } from '../../src/lib/timeZone';
+import { makeRequest, useChatworkMock } from '../helpers';
+
+describe('/api/digest', () => {
+  const mock = useChatworkMock();
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'digests-'));
+    process.env.DIGESTS_FILE = path.join(dir, 'digests.json');
+    process.env.CREDENTIALS_FILE = path.join(dir, 'credentials.json');
+  });
+
+  beforeEach(async () => {
+    await fs.rm(process.env.DIGESTS_FILE!, { force: true });
+    await fs.rm(process.env.CREDENTIALS_FILE!, { force: true });
+    mock().state.tasks.push(
+      { task_id: 1, room_id: 3, account_id: 1001, assigned_by_account_id: 1002, message_id: '1', body: '見積書を作成', limit_time: 0, status: 'open', limit_type: 'none' },
+      { task_id: 2, room_id: 3, account_id: 1002, assigned_by_account_id: 1001, message_id: '2', body: '他の人のタスク', limit_time: 0, status: 'open', limit_type: 'none' },
+    );
+  });
+
+  afterAll(async () => {
+    delete process.env.DIGESTS_FILE;
+    delete process.env.CREDENTIALS_FILE;
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('returns the text without posting in dry-run mode', async () => {
+    const response = await run(makeRequest('/api/digest/run?dryRun=true', { method: 'POST' }));
+
+    expect(response.status).toBe(200);
+    const result = await response.json();
+    expect(result).toMatchObject({ roomId: 1, taskCount: 1, posted: false, messageId: null });
+    expect(result.body).toContain('・見積書を作成 - 開発チーム');
+    expect(result.body).not.toContain('他の人のタスク');
+    expect(mock().state.messages).toHaveLength(0);
+  });
+
+  it('posts the digest to my chat', async () => {
+    const response = await run(makeRequest('/api/digest/run', { method: 'POST' }));
+
+    expect(await response.json()).toMatchObject({ roomId: 1, posted: true, messageId: '1' });
+    expect(mock().state.messages).toEqual([expect.objectContaining({ room_id: 1, body: expect.stringContaining('[info][title]') })]);
+  });
+
+  it('returns 404 when there is no my chat room', async () => {
+    mock().state.rooms = mock().state.rooms.filter(room => room.type !== 'my');
+
+    const response = await run(makeRequest('/api/digest/run', { method: 'POST' }));
+
+    expect(response.status).toBe(404);
+  });
+
+  it('saves the send time and sends the digest when it is due', async () => {
+    expect(await (await GET(makeRequest('/api/digest'))).json()).toMatchObject({ enabled: false, nextRunAt: null });
+
+    const saved = await PUT(makeRequest('/api/digest', { method: 'PUT', json: { enabled: true, time: '07:45', weekdaysOnly: false } }));
+    expect(saved.status).toBe(200);
+    const settings = await saved.json();
+    expect(settings).toMatchObject({ enabled: true, time: '07:45', ownerAccountId: 1001 });
+    expect(toZonedParts(new Date(settings.nextRunAt)).hours).toBe(7);
+    expect(settings).not.toHaveProperty('sealedSession');
+
+    // 送信時刻になる前は送らない
+    expect(await runDueDigests({ now: () => new Date(settings.nextRunAt - 1) })).toEqual([]);
+    const results = await runDueDigests({ now: () => new Date(settings.nextRunAt) });
+    expect(results).toEqual([{ ownerAccountId: 1001, run: expect.objectContaining({ ok: true, taskCount: 1 }) }]);
+    expect(mock().state.messages).toHaveLength(1);
+
+    const after = await (await GET(makeRequest('/api/digest'))).json();
+    expect(after.lastRun).toMatchObject({ ok: true, messageId: '1' });
+    expect(after.nextRunAt).toBe(settings.nextRunAt + 24 * 60 * 60 * 1000);
+  });
+
+  it('records an error code and writes the digest in the saved language', async () => {
+    const saved = await PUT(makeRequest('/api/digest', { method: 'PUT', json: { enabled: true }, headers: { 'Accept-Language': 'en' } }));
+    const settings = await saved.json();
+
+    const sent = await runDueDigests({ now: () => new Date(settings.nextRunAt) });
+    expect(sent[0].run).toMatchObject({ ok: true, code: null });
+    expect(mock().state.messages[0].body).toContain('■ No deadline (1)');
+
+    // マイチャットがなくなった場合は、画面で表示言語にできるようエラーの種類を記録する
+    mock().state.rooms = mock().state.rooms.filter(room => room.type !== 'my');
+    const failed = await runDueDigests({ now: () => new Date(settings.nextRunAt + 7 * 24 * 60 * 60 * 1000) });
+    expect(failed[0].run).toMatchObject({ ok: false, code: 'my_chat_not_found', error: 'My chat room not found.' });
+  });
+
+  it('rejects an invalid send time', async () => {
+    const response = await PUT(makeRequest('/api/digest', { method: 'PUT', json: { time: '25:00' } }));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: "Field 'time' must be HH:MM.", code: 'invalid_parameter' });
+  });
+});
@@ -0,0 +1,68 @@
+import { NextRequest } from 'next/server';
+import { describe, expect, it } from 'vitest';
+import { POST } from '../../src/app/api/chatwork/rooms/[roomId]/files/route';
+import { MAX_ATTACHMENT_SIZE } from '../../src/lib/attachments';
+import { MOCK_TOKEN, useChatworkMock } from '../helpers';
+
+const params = { params: { roomId: '3' } };
+
+// multipart/form-data でファイルを送るリクエストを作る (ブラウザと同じく Content-Length を付ける)
+// contentLength を指定した場合は、実際の大きさの代わりにその値を付ける (null の場合は付けない)
+const uploadRequest = async (file: File | null, contentLength?: string | null) => {
+  const formData = new FormData();
+  if (file) formData.append('file', file, file.name);
+  const encoded = new Response(formData);
+  const body = new Uint8Array(await encoded.arrayBuffer());
+  const headers: Record<string, string> = { 'X-ChatWorkToken': MOCK_TOKEN, 'Content-Type': encoded.headers.get('Content-Type')! };
+  const length = contentLength === undefined ? String(body.byteLength) : contentLength;
+  if (length !== null) headers['Content-Length'] = length;
+  return new NextRequest('http://localhost/api/chatwork/rooms/3/files', { method: 'POST', headers, body });
+};
+
+describe('POST /api/chatwork/rooms/[roomId]/files', () => {
+  const mock = useChatworkMock();
+
+  it('uploads the file and returns the message it was posted as', async () => {
+    const response = await POST(await uploadRequest(new File(['%PDF-1.4 見積書'], '見積書.pdf', { type: 'application/pdf' })), params);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ file_id: 1, message_id: '1', filename: '見積書.pdf', filesize: 18 });
+    expect(mock().state.files).toMatchObject([{ room_id: 3, filename: '見積書.pdf', filesize: 18 }]);
+  });
+
+  it("rejects a file over Chatwork's 5MB limit without uploading it", async () => {
+    const response = await POST(await uploadRequest(new File([new Uint8Array(MAX_ATTACHMENT_SIZE + 1)], 'large.png')), params);
+
+    expect(response.status).toBe(413);
+    expect(await response.json()).toEqual({ error: "File exceeds Chatwork's 5MB limit.", code: 'file_too_large' });
+    expect(mock().state.requests).toHaveLength(0);
+  });
+
+  it('rejects an upload without Content-Length before reading it', async () => {
+    const response = await POST(await uploadRequest(new File(['x'], 'memo.txt'), null), params);
+
+    expect(response.status).toBe(411);
+    expect(await response.json()).toEqual({ error: 'Content-Length is required.', code: 'length_required' });
+    expect(mock().state.requests).toHaveLength(0);
+  });
+
+  it('stops reading a body larger than its Content-Length claims', async () => {
+    const response = await POST(await uploadRequest(new File([new Uint8Array(MAX_ATTACHMENT_SIZE * 2)], 'large.png'), '1024'), params);
+
+    expect(response.status).toBe(413);
+    expect(mock().state.requests).toHaveLength(0);
+  });
+
+  it('requires a file', async () => {
+    const response = await POST(await uploadRequest(null), params);
+
+    expect(response.status).toBe(400);
+    expect(mock().state.requests).toHaveLength(0);
+  });
+
+  it('passes through 404 for an unknown room', async () => {
+    const response = await POST(await uploadRequest(new File(['x'], 'memo.txt')), { params: { roomId: '999' } });
+
+    expect(response.status).toBe(404);
+  });
+});
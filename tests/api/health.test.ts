@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { GET } from '../../src/app/api/health/route';
+import { GET as getRooms } from '../../src/app/api/chatwork/rooms/route';
+import { REQUEST_ID_HEADER } from '../../src/lib/logger';
+import { makeRequest, useChatworkMock } from '../helpers';
+
+describe('GET /api/health', () => {
+  const mock = useChatworkMock();
+
+  it('reports that Chatwork is reachable and the last rate-limit state seen', async () => {
+    await getRooms(makeRequest('/api/chatwork/rooms'));
+
+    const response = await GET(makeRequest('/api/health', { token: null }));
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get(REQUEST_ID_HEADER)).toBeTruthy();
+    const data = await response.json();
+    expect(data.status).toBe('ok');
+    expect(data.chatwork).toMatchObject({ reachable: true, status: 401, error: null });
+    expect(data.rateLimit).toMatchObject({ remaining: mock().state.rateLimit.remaining, reset: mock().state.rateLimit.reset });
+  });
+
+  it('does not use up the rate limit', async () => {
+    const before = mock().state.rateLimit.remaining;
+
+    await GET(makeRequest('/api/health', { token: null }));
+
+    expect(mock().state.rateLimit.remaining).toBe(before);
+  });
+
+  it('answers 503 when Chatwork cannot be reached', async () => {
+    const baseUrl = process.env.CHATWORK_API_BASE_URL;
+    process.env.CHATWORK_API_BASE_URL = 'http://127.0.0.1:1';
+    try {
+      const response = await GET(makeRequest('/api/health', { token: null }));
+
+      expect(response.status).toBe(503);
+      const data = await response.json();
+      expect(data.status).toBe('unavailable');
+      expect(data.chatwork.reachable).toBe(false);
+    } finally {
+      process.env.CHATWORK_API_BASE_URL = baseUrl;
+    }
+  });
+});
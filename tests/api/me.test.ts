@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { GET } from '../../src/app/api/chatwork/me/route';
+import { makeRequest, useChatworkMock } from '../helpers';
+
+describe('GET /api/chatwork/me', () => {
+  const mock = useChatworkMock();
+
+  it('returns my account', async () => {
+    const response = await GET(makeRequest('/api/chatwork/me'));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ account_id: 1001, name: '山田 太郎' });
+  });
+
+  it('returns 400 with an error code when the token is missing', async () => {
+    const response = await GET(makeRequest('/api/chatwork/me', { token: null }));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'Chatwork API Token is missing.', code: 'token_missing' });
+  });
+
+  it('passes through the upstream status instead of a generic 500', async () => {
+    const response = await GET(makeRequest('/api/chatwork/me', { token: 'wrong-token' }));
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toMatchObject({ errors: ['Invalid API token'], code: 'chatwork_unauthorized' });
+  });
+
+  it('reports a non-JSON upstream response', async () => {
+    mock().state.faults.push({ status: 502, body: 'Bad Gateway', contentType: 'text/plain' });
+
+    const response = await GET(makeRequest('/api/chatwork/me'));
+
+    expect(response.status).toBe(502);
+    expect(await response.json()).toMatchObject({ error: 'Chatwork API returned non-JSON response.', details: 'Bad Gateway' });
+  });
+});
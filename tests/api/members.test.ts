@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { GET } from '../../src/app/api/chatwork/rooms/[roomId]/members/route';
+import { makeRequest, useChatworkMock } from '../helpers';
+
+describe('GET /api/chatwork/rooms/[roomId]/members', () => {
+  useChatworkMock();
+
+  it('returns the members of the room', async () => {
+    const response = await GET(makeRequest('/api/chatwork/rooms/3/members'), { params: { roomId: '3' } });
+
+    expect(response.status).toBe(200);
+    const members = await response.json();
+    expect(members.map((member: { account_id: number }) => member.account_id)).toEqual([1001, 1002, 1003]);
+  });
+
+  it('passes through 404 for an unknown room', async () => {
+    const response = await GET(makeRequest('/api/chatwork/rooms/999/members'), { params: { roomId: '999' } });
+
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { POST } from '../../src/app/api/chatwork/rooms/[roomId]/messages/route';
+import { makeRequest, useChatworkMock } from '../helpers';
+
+const params = { params: { roomId: '3' } };
+
+describe('POST /api/chatwork/rooms/[roomId]/messages', () => {
+  const mock = useChatworkMock();
+
+  it('posts a message to the room', async () => {
+    const body = '[To:1002]佐藤 花子さん\n[info][title]資料作成[/title]明日までにお願いします[/info]';
+    const response = await POST(makeRequest('/api/chatwork/rooms/3/messages', { form: { body } }), params);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ message_id: '1' });
+    expect(mock().state.messages).toMatchObject([{ room_id: 3, account_id: 1001, body }]);
+  });
+
+  it('rejects an empty body without calling Chatwork', async () => {
+    const response = await POST(makeRequest('/api/chatwork/rooms/3/messages', { form: { body: '  ' } }), params);
+
+    expect(response.status).toBe(400);
+    expect(mock().state.requests).toHaveLength(0);
+  });
+
+  it('replays the stored response for the same Idempotency-Key', async () => {
+    const send = () => POST(
+      makeRequest('/api/chatwork/rooms/3/messages', { form: { body: 'よろしくお願いします' }, headers: { 'Idempotency-Key': 'message-key' } }),
+      params,
+    );
+
+    await send();
+    const replayed = await send();
+
+    expect(replayed.headers.get('Idempotent-Replayed')).toBe('true');
+    expect(mock().state.messages).toHaveLength(1);
+  });
+
+  it('passes through 404 for an unknown room', async () => {
+    const response = await POST(makeRequest('/api/chatwork/rooms/999/messages', { form: { body: 'テスト' } }), { params: { roomId: '999' } });
+
+    expect(response.status).toBe(404);
+  });
+});
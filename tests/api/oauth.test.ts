@@ -0,0 +1,203 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { GET as login } from '../../src/app/api/auth/chatwork/login/route';
+import { GET as callback } from '../../src/app/api/auth/chatwork/callback/route';
+import { DELETE, GET as getSession, POST as postSession } from '../../src/app/api/session/route';
+import { GET as getRooms } from '../../src/app/api/chatwork/rooms/route';
+import { PUT as putDigest } from '../../src/app/api/digest/route';
+import { runDueDigests } from '../../src/lib/digest';
+import { PROFILES_COOKIE_NAME } from '../../src/lib/profiles';
+import { OAUTH_PENDING_COOKIE_NAME, SESSION_COOKIE_NAME } from '../../src/lib/session';
+import { makeRequest, MOCK_TOKEN, useChatworkMock } from '../helpers';
+
+// レスポンスの Set-Cookie から指定した名前のCookieの値を取り出す
+const cookieOf = (response: Response, name: string) =>
+  response.headers.get('set-cookie')?.match(new RegExp(`${name}=([^;]*)`))?.[1] ?? null;
+
+describe('Chatwork OAuth login', () => {
+  const mock = useChatworkMock();
+
+  beforeEach(() => {
+    const { origin, state } = mock();
+    process.env.CHATWORK_OAUTH_CLIENT_ID = state.oauth.clientId;
+    process.env.CHATWORK_OAUTH_CLIENT_SECRET = state.oauth.clientSecret;
+    process.env.CHATWORK_OAUTH_REDIRECT_URI = 'http://localhost/api/auth/chatwork/callback';
+    process.env.CHATWORK_OAUTH_AUTHORIZE_URL = `${origin}/oauth/authorize`;
+    process.env.CHATWORK_OAUTH_TOKEN_URL = `${origin}/oauth/token`;
+    process.env.CHATWORK_OAUTH_REVOKE_URL = `${origin}/oauth/revoke`;
+  });
+
+  // ログインを開始し、偽の認可サーバーの認可を経てコールバックまで進める
+  const authorize = async (cookie?: string) => {
+    const start = await login(makeRequest('/api/auth/chatwork/login', { token: null, headers: cookie ? { cookie } : {} }));
+    const pending = cookieOf(start, OAUTH_PENDING_COOKIE_NAME);
+    const authorized = await fetch(start.headers.get('location')!, { redirect: 'manual' });
+    const callbackUrl = new URL(authorized.headers.get('location')!);
+    return { start, pending, callbackUrl };
+  };
+
+  // OAuth でログインし、セッションCookieを返す
+  const loginWithOAuth = async () => {
+    const { pending, callbackUrl } = await authorize();
+    const response = await callback(makeRequest(`${callbackUrl.pathname}${callbackUrl.search}`, {
+      token: null,
+      headers: { cookie: `${OAUTH_PENDING_COOKIE_NAME}=${pending}` },
+    }));
+    return `${SESSION_COOKIE_NAME}=${cookieOf(response, SESSION_COOKIE_NAME)}`;
+  };
+
+  it('redirects to the authorization server with state and an S256 code challenge', async () => {
+    const response = await login(makeRequest('/api/auth/chatwork/login', { token: null }));
+
+    expect(response.status).toBe(307);
+    const location = new URL(response.headers.get('location')!);
+    expect(location.pathname).toBe('/oauth/authorize');
+    expect(location.searchParams.get('client_id')).toBe('mock-client-id');
+    expect(location.searchParams.get('code_challenge_method')).toBe('S256');
+    expect(location.searchParams.get('code_challenge')).toBeTruthy();
+    expect(location.searchParams.get('state')).toBeTruthy();
+    const setCookie = response.headers.get('set-cookie') ?? '';
+    expect(setCookie).toMatch(/HttpOnly/i);
+    expect(setCookie).toMatch(/SameSite=lax/i);
+  });
+
+  it('exchanges the code and lets proxy routes call Chatwork with the access token', async () => {
+    const { pending, callbackUrl } = await authorize();
+    const response = await callback(makeRequest(`${callbackUrl.pathname}${callbackUrl.search}`, {
+      token: null,
+      headers: { cookie: `${OAUTH_PENDING_COOKIE_NAME}=${pending}` },
+    }));
+
+    expect(response.status).toBe(307);
+    expect(response.headers.get('location')).toBe('http://localhost/');
+    const session = cookieOf(response, SESSION_COOKIE_NAME);
+    expect(session).toBeTruthy();
+    expect(mock().state.oauth.grants).toHaveLength(1);
+    expect(session).not.toContain(mock().state.oauth.grants[0].accessToken);
+
+    const rooms = await getRooms(makeRequest('/api/chatwork/rooms', { token: null, headers: { cookie: `${SESSION_COOKIE_NAME}=${session}` } }));
+    expect(rooms.status).toBe(200);
+  });
+
+  it('rejects a callback whose state does not match', async () => {
+    const { pending, callbackUrl } = await authorize();
+    callbackUrl.searchParams.set('state', 'forged-state');
+
+    const response = await callback(makeRequest(`${callbackUrl.pathname}${callbackUrl.search}`, {
+      token: null,
+      headers: { cookie: `${OAUTH_PENDING_COOKIE_NAME}=${pending}` },
+    }));
+
+    expect(response.headers.get('location')).toBe('http://localhost/?authError=invalid_state');
+    expect(cookieOf(response, SESSION_COOKIE_NAME)).toBeNull();
+    expect(mock().state.oauth.grants).toHaveLength(0);
+  });
+
+  it('rotates the refresh token before the access token expires', async () => {
+    // 有効期限まで更新の猶予 (60秒) 以内のアクセストークンを発行させる
+    mock().state.oauth.accessTokenTtlSec = 30;
+    const cookie = await loginWithOAuth();
+    const [grant] = mock().state.oauth.grants;
+    mock().state.oauth.accessTokenTtlSec = 60 * 30;
+
+    const response = await getRooms(makeRequest('/api/chatwork/rooms', { token: null, headers: { cookie } }));
+
+    expect(response.status).toBe(200);
+    const [rotated] = mock().state.oauth.grants;
+    expect(rotated.refreshToken).not.toBe(grant.refreshToken);
+    const refreshedSession = cookieOf(response, SESSION_COOKIE_NAME);
+    expect(refreshedSession).toBeTruthy();
+
+    // 更新後のCookieで引き続き呼び出せる (古いアクセストークンは無効になっている)
+    const next = await getRooms(makeRequest('/api/chatwork/rooms', { token: null, headers: { cookie: `${SESSION_COOKIE_NAME}=${refreshedSession}` } }));
+    expect(next.status).toBe(200);
+    expect(cookieOf(next, SESSION_COOKIE_NAME)).toBeNull();
+  });
+
+  it('accepts an access token in the Authorization header', async () => {
+    await loginWithOAuth();
+    const [grant] = mock().state.oauth.grants;
+
+    const response = await getRooms(makeRequest('/api/chatwork/rooms', { token: null, headers: { Authorization: `Bearer ${grant.accessToken}` } }));
+
+    expect(response.status).toBe(200);
+  });
+
+  it('revokes the tokens on logout', async () => {
+    const cookie = await loginWithOAuth();
+    const [grant] = mock().state.oauth.grants;
+
+    const response = await DELETE(makeRequest('/api/session', { method: 'DELETE', token: null, headers: { cookie } }));
+
+    expect(response.headers.get('set-cookie')).toMatch(new RegExp(`${SESSION_COOKIE_NAME}=;`));
+    expect(mock().state.oauth.revoked).toContain(grant.refreshToken);
+    expect(mock().state.oauth.grants).toHaveLength(0);
+  });
+
+  it('keeps the current profile when another account logs in with OAuth', async () => {
+    const tokenLogin = await postSession(makeRequest('/api/session', { token: null, form: { token: MOCK_TOKEN, profileName: '本社' } }));
+    const profiles = cookieOf(tokenLogin, PROFILES_COOKIE_NAME);
+    const { start, pending, callbackUrl } = await authorize(
+      `${SESSION_COOKIE_NAME}=${cookieOf(tokenLogin, SESSION_COOKIE_NAME)}; ${PROFILES_COOKIE_NAME}=${profiles}`,
+    );
+    // 認可サーバーからのコールバックには SameSite=Strict のCookieが送られない
+    const response = await callback(makeRequest(`${callbackUrl.pathname}${callbackUrl.search}`, {
+      token: null,
+      headers: { cookie: `${OAUTH_PENDING_COOKIE_NAME}=${pending}` },
+    }));
+    const state = mock().state;
+    state.me = state.accounts[1];
+
+    const session = await getSession(makeRequest('/api/session', {
+      token: null,
+      headers: { cookie: `${SESSION_COOKIE_NAME}=${cookieOf(response, SESSION_COOKIE_NAME)}; ${PROFILES_COOKIE_NAME}=${cookieOf(start, PROFILES_COOKIE_NAME)}` },
+    }));
+
+    const data = await session.json();
+    expect(data.method).toBe('oauth');
+    expect(data.profiles.map((profile: any) => [profile.name, profile.accountId])).toEqual([['本社', 1001], ['佐藤 花子', 1002]]);
+    expect(data.activeProfileId).toBe(data.profiles[1].id);
+  });
+
+  describe('with a stored credential', () => {
+    let dir: string;
+
+    beforeAll(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), 'oauth-credentials-'));
+      process.env.CREDENTIALS_FILE = path.join(dir, 'credentials.json');
+      process.env.DIGESTS_FILE = path.join(dir, 'digests.json');
+    });
+
+    afterAll(async () => {
+      delete process.env.CREDENTIALS_FILE;
+      delete process.env.DIGESTS_FILE;
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('shares the rotated refresh token between the session and the digest', async () => {
+      // 有効期限まで更新の猶予 (60秒) 以内のアクセストークンを発行させ、使うたびに更新させる
+      mock().state.oauth.accessTokenTtlSec = 30;
+      const saved = await putDigest(makeRequest('/api/digest', { method: 'PUT', token: null, json: { enabled: true }, headers: { cookie: await loginWithOAuth() } }));
+      expect(saved.status).toBe(200);
+      const settings = await saved.json();
+
+      // ブラウザ側で更新しても、ダイジェストは保存した認証情報で送信できる
+      const rooms = await getRooms(makeRequest('/api/chatwork/rooms', { token: null, headers: { cookie: `${SESSION_COOKIE_NAME}=${cookieOf(saved, SESSION_COOKIE_NAME)}` } }));
+      expect(rooms.status).toBe(200);
+      const [result] = await runDueDigests({ now: () => new Date(settings.nextRunAt) });
+      expect(result.run).toMatchObject({ ok: true, error: null });
+
+      // サーバー側で更新した後も、古いトークンのCookieは新しいトークンを引き継いで使える
+      const next = await getRooms(makeRequest('/api/chatwork/rooms', { token: null, headers: { cookie: `${SESSION_COOKIE_NAME}=${cookieOf(rooms, SESSION_COOKIE_NAME)}` } }));
+      expect(next.status).toBe(200);
+      expect(mock().state.oauth.grants).toHaveLength(1);
+
+      // ダイジェストが使うトークンは、ログアウトしても失効させない
+      await DELETE(makeRequest('/api/session', { method: 'DELETE', token: null, headers: { cookie: `${SESSION_COOKIE_NAME}=${cookieOf(next, SESSION_COOKIE_NAME)}` } }));
+      expect(mock().state.oauth.revoked).toEqual([]);
+      expect(await runDueDigests({ now: () => new Date(settings.nextRunAt + 1000 * 60 * 60 * 24 * 7) })).toMatchObject([{ run: { ok: true } }]);
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { GET } from '../../src/app/api/chatwork/rooms/route';
+import { makeRequest, useChatworkMock } from '../helpers';
+
+describe('GET /api/chatwork/rooms', () => {
+  const mock = useChatworkMock();
+
+  it('returns the room list with rate-limit headers', async () => {
+    const response = await GET(makeRequest('/api/chatwork/rooms'));
+
+    expect(response.status).toBe(200);
+    const rooms = await response.json();
+    expect(rooms.map((room: { name: string }) => room.name)).toEqual(['マイチャット', '佐藤 花子', '開発チーム']);
+    expect(response.headers.get('X-RateLimit-Remaining')).toBe('299');
+  });
+
+  it('returns 400 without calling Chatwork when the token is missing', async () => {
+    const response = await GET(makeRequest('/api/chatwork/rooms', { token: null }));
+
+    expect(response.status).toBe(400);
+    expect(mock().state.requests).toHaveLength(0);
+  });
+
+  it('passes through 401 with the Chatwork error messages', async () => {
+    const response = await GET(makeRequest('/api/chatwork/rooms', { token: 'wrong-token' }));
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toMatchObject({ status: 401, errors: ['Invalid API token'] });
+  });
+
+  it('reports a non-JSON upstream response with its status code', async () => {
+    mock().state.faults.push({ status: 503, body: '<html>Service Unavailable</html>' });
+
+    const response = await GET(makeRequest('/api/chatwork/rooms'));
+
+    expect(response.status).toBe(503);
+    const body = await response.json();
+    expect(body.error).toBe('Chatwork API returned non-JSON response.');
+    expect(body.details).toContain('Service Unavailable');
+  });
+
+  it('returns 429 with the reset time when the rate limit resets later', async () => {
+    const reset = Math.floor(Date.now() / 1000) + 120;
+    mock().state.rateLimit = { limit: 300, remaining: 0, reset };
+
+    const response = await GET(makeRequest('/api/chatwork/rooms'));
+
+    expect(response.status).toBe(429);
+    expect(await response.json()).toMatchObject({ status: 429, rateLimitReset: reset });
+    expect(response.headers.get('Retry-After')).not.toBeNull();
+  });
+
+  it('waits and retries once when the rate limit resets soon', async () => {
+    const reset = Math.floor(Date.now() / 1000) + 1;
+    mock().state.rateLimit = { limit: 300, remaining: 0, reset };
+
+    const response = await GET(makeRequest('/api/chatwork/rooms'));
+
+    expect(response.status).toBe(200);
+    expect(mock().state.requests).toHaveLength(2);
+  });
+});
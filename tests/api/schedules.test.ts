@@ -0,0 +1,143 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { GET as listSchedules, POST as createSchedule } from '../../src/app/api/schedules/route';
+import { DELETE, GET, PUT } from '../../src/app/api/schedules/[scheduleId]/route';
+import { POST as runNow } from '../../src/app/api/schedules/[scheduleId]/run/route';
+import { nextOccurrence } from '../../src/lib/recurrence';
+import { getScheduleStore } from '../../src/lib/scheduleStore';
+import { runDueSchedules } from '../../src/lib/scheduler';
+import { toZonedParts } from '../../src/lib/timeZone';
+import type { Schedule } from '../../src/types/schedule';
+import { makeRequest, useChatworkMock } from '../helpers';
+
+const input = {
+  name: '週次レポート',
+  roomId: 3,
+  body: '週次レポートを提出',
+  assigneeIds: [1002],
+  deadline: { limitType: 'date', offset: 2, unit: 'businessDay', time: '' },
+  rule: { kind: 'weekly', weekdays: [1], time: '09:00' },
+};
+
+const create = async (json: unknown = input) => createSchedule(makeRequest('/api/schedules', { json }));
+const scheduleParams = (scheduleId: string) => ({ params: { scheduleId } });
+
+describe('/api/schedules', () => {
+  const mock = useChatworkMock();
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'schedules-'));
+    process.env.SCHEDULES_FILE = path.join(dir, 'schedules.json');
+    process.env.CREDENTIALS_FILE = path.join(dir, 'credentials.json');
+  });
+
+  beforeEach(async () => {
+    await fs.rm(process.env.SCHEDULES_FILE!, { force: true });
+    await fs.rm(process.env.CREDENTIALS_FILE!, { force: true });
+  });
+
+  afterAll(async () => {
+    delete process.env.SCHEDULES_FILE;
+    delete process.env.CREDENTIALS_FILE;
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('creates a schedule and lists it without the stored credential', async () => {
+    const response = await create();
+
+    expect(response.status).toBe(201);
+    const created: Schedule = await response.json();
+    expect(created).toMatchObject({ ...input, enabled: true, ownerAccountId: 1001, runs: [] });
+    expect(created.nextRunAt).toBe(nextOccurrence(created.rule, new Date(created.createdAt)).getTime());
+    expect(created).not.toHaveProperty('sealedSession');
+
+    const list = await listSchedules(makeRequest('/api/schedules'));
+    expect(await list.json()).toEqual([created]);
+    // 認証情報はアカウントごとに暗号化して保存する
+    expect(await fs.readFile(process.env.SCHEDULES_FILE!, 'utf8')).not.toContain('mock-token');
+    expect(await fs.readFile(process.env.CREDENTIALS_FILE!, 'utf8')).not.toContain('mock-token');
+  });
+
+  it('rejects an invalid recurrence rule', async () => {
+    const response = await create({ ...input, rule: { kind: 'weekly', weekdays: [], time: '09:00' } });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: "Field 'rule' must be a valid recurrence rule.", code: 'invalid_parameter' });
+  });
+
+  it('requires a token to create a schedule', async () => {
+    const response = await createSchedule(makeRequest('/api/schedules', { json: input, token: null }));
+
+    expect(response.status).toBe(400);
+  });
+
+  it('updates, pauses and deletes a schedule', async () => {
+    const created: Schedule = await (await create()).json();
+
+    const renamed = await PUT(
+      makeRequest(`/api/schedules/${created.id}`, { method: 'PUT', json: { name: '月次レポート', rule: { kind: 'monthly', day: 31, time: '18:00' } } }),
+      scheduleParams(created.id),
+    );
+    expect(renamed.status).toBe(200);
+    const updated: Schedule = await renamed.json();
+    expect(updated).toMatchObject({ name: '月次レポート', rule: { kind: 'monthly', day: 31, time: '18:00' }, body: input.body });
+    expect(toZonedParts(new Date(updated.nextRunAt!)).hours).toBe(18);
+
+    const paused = await PUT(makeRequest(`/api/schedules/${created.id}`, { method: 'PUT', json: { enabled: false } }), scheduleParams(created.id));
+    expect(await paused.json()).toMatchObject({ enabled: false, nextRunAt: null });
+
+    const deleted = await DELETE(makeRequest(`/api/schedules/${created.id}`, { method: 'DELETE' }), scheduleParams(created.id));
+    expect(deleted.status).toBe(204);
+    const missing = await GET(makeRequest(`/api/schedules/${created.id}`), scheduleParams(created.id));
+    expect(missing.status).toBe(404);
+  });
+
+  it("hides other accounts' schedules", async () => {
+    const created: Schedule = await (await create()).json();
+
+    // 別のアカウントでアクセスする
+    mock().state.me = mock().state.accounts[1];
+    expect(await (await listSchedules(makeRequest('/api/schedules'))).json()).toEqual([]);
+    expect((await GET(makeRequest(`/api/schedules/${created.id}`), scheduleParams(created.id))).status).toBe(404);
+    const deleted = await DELETE(makeRequest(`/api/schedules/${created.id}`, { method: 'DELETE' }), scheduleParams(created.id));
+    expect(deleted.status).toBe(404);
+    expect(await getScheduleStore().get(created.id)).not.toBeNull();
+  });
+
+  it('runs due schedules once, records the result and advances the next run', async () => {
+    const created: Schedule = await (await create()).json();
+    // 実行時刻の1分後の時計
+    const now = new Date(created.nextRunAt! + 60 * 1000);
+    const clock = { now: () => now };
+
+    const results = await runDueSchedules(clock);
+
+    expect(results).toHaveLength(1);
+    expect(results[0].run).toMatchObject({ ok: true, status: 200, taskIds: [1], error: null });
+    expect(mock().state.tasks).toHaveLength(1);
+    expect(mock().state.tasks[0]).toMatchObject({ room_id: 3, account_id: 1002, body: input.body });
+
+    const stored = await getScheduleStore().get(created.id);
+    expect(stored!.runs).toHaveLength(1);
+    expect(stored!.nextRunAt).toBe(nextOccurrence(created.rule, now).getTime());
+
+    // 同じ時刻にもう一度確認しても、重複して作成しない
+    expect(await runDueSchedules(clock)).toEqual([]);
+    expect(mock().state.tasks).toHaveLength(1);
+  });
+
+  it('records a failed run without advancing when run manually', async () => {
+    // 存在しないルームへの定期タスク
+    const created: Schedule = await (await create({ ...input, roomId: 99 })).json();
+
+    const response = await runNow(makeRequest(`/api/schedules/${created.id}/run`, { method: 'POST' }), scheduleParams(created.id));
+
+    expect(response.status).toBe(200);
+    const ran: Schedule = await response.json();
+    expect(ran.runs[0]).toMatchObject({ ok: false, status: 404, taskIds: [], code: 'chatwork_not_found' });
+    expect(ran.nextRunAt).toBe(created.nextRunAt);
+  });
+});
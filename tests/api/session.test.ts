@@ -0,0 +1,155 @@
+import { describe, expect, it } from 'vitest';
+import { DELETE, GET, POST } from '../../src/app/api/session/route';
+import { PUT as switchProfile } from '../../src/app/api/session/profile/route';
+import { GET as getMe } from '../../src/app/api/chatwork/me/route';
+import { GET as getRooms } from '../../src/app/api/chatwork/rooms/route';
+import { PROFILES_COOKIE_NAME } from '../../src/lib/profiles';
+import { SESSION_COOKIE_NAME } from '../../src/lib/session';
+import { makeRequest, MOCK_TOKEN, useChatworkMock } from '../helpers';
+
+// レスポンスの Set-Cookie からセッションCookieの値を取り出す
+const sessionCookieOf = (response: Response) =>
+  response.headers.get('set-cookie')?.match(new RegExp(`${SESSION_COOKIE_NAME}=([^;]*)`))?.[1] ?? null;
+
+// セッションCookieとプロフィール用のCookieを、次のリクエストの Cookie ヘッダーにする (レスポンスで設定されなかったものは前の値を使う)
+const cookiesAfter = (response: Response, previous = '') => [SESSION_COOKIE_NAME, PROFILES_COOKIE_NAME]
+  .map(name => {
+    const value = response.headers.get('set-cookie')?.match(new RegExp(`${name}=([^;]*)`))?.[1]
+      ?? previous.match(new RegExp(`${name}=([^;]*)`))?.[1]
+      ?? '';
+    return `${name}=${value}`;
+  })
+  .join('; ');
+
+describe('/api/session', () => {
+  const mock = useChatworkMock();
+
+  it('stores the token encrypted in an httpOnly cookie on login', async () => {
+    const response = await POST(makeRequest('/api/session', { token: null, form: { token: MOCK_TOKEN } }));
+
+    expect(response.status).toBe(200);
+    const data = await response.json();
+    expect(data).toEqual({
+      loggedIn: true,
+      account: { account_id: 1001, name: '山田 太郎' },
+      profile: { id: expect.any(String), name: '山田 太郎', accountId: 1001, accountName: '山田 太郎' },
+      profiles: [data.profile],
+      activeProfileId: data.profile.id,
+    });
+    const setCookie = response.headers.get('set-cookie') ?? '';
+    expect(setCookie).toMatch(/HttpOnly/i);
+    expect(setCookie).toMatch(/SameSite=strict/i);
+    expect(sessionCookieOf(response)).not.toContain(MOCK_TOKEN);
+  });
+
+  it('rejects an invalid token without setting a cookie', async () => {
+    const response = await POST(makeRequest('/api/session', { token: null, form: { token: 'wrong-token' } }));
+
+    expect(response.status).toBe(401);
+    expect(sessionCookieOf(response)).toBeNull();
+  });
+
+  it('lets proxy routes use the token from the session cookie', async () => {
+    const login = await POST(makeRequest('/api/session', { token: null, form: { token: MOCK_TOKEN } }));
+    const cookie = `${SESSION_COOKIE_NAME}=${sessionCookieOf(login)}`;
+
+    const response = await getRooms(makeRequest('/api/chatwork/rooms', { token: null, headers: { cookie } }));
+
+    expect(response.status).toBe(200);
+  });
+
+  it('ignores a tampered session cookie', async () => {
+    const response = await getRooms(makeRequest('/api/chatwork/rooms', { token: null, headers: { cookie: `${SESSION_COOKIE_NAME}=tampered` } }));
+
+    expect(response.status).toBe(400);
+  });
+
+  it('clears the cookie on logout', async () => {
+    const response = await DELETE(makeRequest('/api/session', { method: 'DELETE', token: null }));
+
+    expect(response.headers.get('set-cookie')).toMatch(new RegExp(`${SESSION_COOKIE_NAME}=;`));
+  });
+
+  describe('profiles', () => {
+    // 2つ目のアカウント (佐藤 花子) でも /me に答えられるようにしてログインする
+    const loginAsSecondAccount = async (cookie: string, profileName: string) => {
+      const state = mock().state;
+      state.tokens.push('client-token');
+      state.me = state.accounts[1];
+      const response = await POST(makeRequest('/api/session', { token: null, form: { token: 'client-token', profileName }, headers: { cookie } }));
+      state.me = state.accounts[0];
+      return response;
+    };
+
+    it('keeps the previous account as a profile when logging in to another one', async () => {
+      const first = await POST(makeRequest('/api/session', { token: null, form: { token: MOCK_TOKEN, profileName: '本社' } }));
+      const second = await loginAsSecondAccount(cookiesAfter(first), '取引先');
+
+      const data = await second.json();
+      expect(data.profiles.map((profile: any) => [profile.name, profile.accountId])).toEqual([['本社', 1001], ['取引先', 1002]]);
+      expect(data.activeProfileId).toBe(data.profiles[1].id);
+      expect(second.headers.get('set-cookie')).not.toContain('client-token');
+    });
+
+    it('switches the credential used by proxy routes', async () => {
+      const first = await POST(makeRequest('/api/session', { token: null, form: { token: MOCK_TOKEN } }));
+      const second = await loginAsSecondAccount(cookiesAfter(first), '取引先');
+      const { profiles } = await second.json();
+      mock().state.tokens = [MOCK_TOKEN];
+
+      // 使用中のプロフィールのトークンは無効にしたので、切り替える前は401になる
+      const before = await getMe(makeRequest('/api/chatwork/me', { token: null, headers: { cookie: cookiesAfter(second, cookiesAfter(first)) } }));
+      expect(before.status).toBe(401);
+
+      const switched = await switchProfile(makeRequest('/api/session/profile', {
+        method: 'PUT',
+        token: null,
+        json: { profileId: profiles[0].id },
+        headers: { cookie: cookiesAfter(second, cookiesAfter(first)) },
+      }));
+      expect(switched.status).toBe(200);
+      expect((await switched.json()).activeProfileId).toBe(profiles[0].id);
+
+      const after = await getMe(makeRequest('/api/chatwork/me', { token: null, headers: { cookie: cookiesAfter(switched, cookiesAfter(second)) } }));
+      expect(after.status).toBe(200);
+    });
+
+    it('answers 404 for an unknown profile', async () => {
+      const login = await POST(makeRequest('/api/session', { token: null, form: { token: MOCK_TOKEN } }));
+
+      const response = await switchProfile(makeRequest('/api/session/profile', {
+        method: 'PUT',
+        token: null,
+        json: { profileId: 'unknown' },
+        headers: { cookie: cookiesAfter(login) },
+      }));
+
+      expect(response.status).toBe(404);
+    });
+
+    it('falls back to the remaining profile on logout', async () => {
+      const first = await POST(makeRequest('/api/session', { token: null, form: { token: MOCK_TOKEN, profileName: '本社' } }));
+      const second = await loginAsSecondAccount(cookiesAfter(first), '取引先');
+
+      const response = await DELETE(makeRequest('/api/session', { method: 'DELETE', token: null, headers: { cookie: cookiesAfter(second, cookiesAfter(first)) } }));
+
+      const data = await response.json();
+      expect(data.loggedIn).toBe(true);
+      expect(data.profiles.map((profile: any) => profile.name)).toEqual(['本社']);
+      expect(data.activeProfileId).toBe(data.profiles[0].id);
+    });
+
+    it('creates a profile for a session made before profiles existed', async () => {
+      const login = await POST(makeRequest('/api/session', { token: null, form: { token: MOCK_TOKEN } }));
+      const cookie = `${SESSION_COOKIE_NAME}=${sessionCookieOf(login)}`;
+
+      const response = await GET(makeRequest('/api/session', { token: null, headers: { cookie } }));
+
+      const data = await response.json();
+      expect(data.loggedIn).toBe(true);
+      expect(data.profiles).toEqual([expect.objectContaining({ accountId: 1001, name: '山田 太郎' })]);
+      expect(data.activeProfileId).toBe(data.profiles[0].id);
+      expect(response.headers.get('set-cookie')).toContain(`${PROFILES_COOKIE_NAME}=`);
+    });
+  });
+});
@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { GET } from '../../src/app/share/route';
+import { makeRequest } from '../helpers';
+
+describe('GET /share', () => {
+  it('redirects to the top page with the shared content as the memo', async () => {
+    const response = await GET(makeRequest('/share?title=%E8%AD%B0%E4%BA%8B%E9%8C%B2&text=%E7%A2%BA%E8%AA%8D%E3%81%99%E3%82%8B&url=https%3A%2F%2Fexample.com%2Fa', { token: null }));
+
+    expect(response.status).toBe(303);
+    const location = new URL(response.headers.get('Location')!);
+    expect(location.pathname).toBe('/');
+    expect(location.searchParams.get('shared')).toBe('議事録\n確認する\nhttps://example.com/a');
+  });
+
+  it('redirects to the top page without a memo when nothing was shared', async () => {
+    const response = await GET(makeRequest('/share', { token: null }));
+
+    expect(response.status).toBe(303);
+    expect(new URL(response.headers.get('Location')!).search).toBe('');
+  });
+});
@@ -0,0 +1,192 @@
+import { describe, expect, it, vi } from 'vitest';
+import { GET, POST } from '../../src/app/api/chatwork/rooms/[roomId]/tasks/route';
+import { GET as getTask } from '../../src/app/api/chatwork/rooms/[roomId]/tasks/[taskId]/route';
+import { PUT } from '../../src/app/api/chatwork/rooms/[roomId]/tasks/[taskId]/status/route';
+import { makeRequest, MOCK_TOKEN, useChatworkMock } from '../helpers';
+
+const params = { params: { roomId: '3' } };
+
+describe('POST /api/chatwork/rooms/[roomId]/tasks', () => {
+  const mock = useChatworkMock();
+
+  it('creates a task for each assignee', async () => {
+    const response = await POST(
+      makeRequest('/api/chatwork/rooms/3/tasks', { form: { body: '資料作成', to_ids: '1001,1002', limit_type: 'date', limit: '1793404800' } }),
+      params,
+    );
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ task_ids: [1, 2] });
+    expect(mock().state.tasks.map(task => task.account_id)).toEqual([1001, 1002]);
+  });
+
+  it('does not send limit when limit_type is none', async () => {
+    const response = await POST(
+      makeRequest('/api/chatwork/rooms/3/tasks', { form: { body: '資料作成', to_ids: '1001', limit_type: 'none', limit: '1793404800' } }),
+      params,
+    );
+
+    expect(response.status).toBe(200);
+    expect(new URLSearchParams(mock().state.requests[0].body).has('limit')).toBe(false);
+  });
+
+  it('rejects an unknown limit_type', async () => {
+    const response = await POST(
+      makeRequest('/api/chatwork/rooms/3/tasks', { form: { body: '資料作成', to_ids: '1001', limit_type: 'week' } }),
+      params,
+    );
+
+    expect(response.status).toBe(400);
+    expect(mock().state.requests).toHaveLength(0);
+  });
+
+  it('requires limit for date and time deadlines', async () => {
+    const response = await POST(
+      makeRequest('/api/chatwork/rooms/3/tasks', { form: { body: '資料作成', to_ids: '1001', limit_type: 'time' } }),
+      params,
+    );
+
+    expect(response.status).toBe(400);
+  });
+
+  it('replays the stored result for a repeated Idempotency-Key', async () => {
+    const send = () => POST(
+      makeRequest('/api/chatwork/rooms/3/tasks', {
+        form: { body: '資料作成', to_ids: '1001', limit_type: 'none' },
+        headers: { 'Idempotency-Key': 'retry-test' },
+      }),
+      params,
+    );
+
+    const first = await send();
+    const second = await send();
+
+    expect(await second.json()).toEqual(await first.json());
+    expect(second.headers.get('Idempotent-Replayed')).toBe('true');
+    expect(mock().state.tasks).toHaveLength(1);
+  });
+
+  it("does not replay another account's result for the same Idempotency-Key", async () => {
+    mock().state.tokens.push('other-token');
+    const send = (token: string) => POST(
+      makeRequest('/api/chatwork/rooms/3/tasks', {
+        token,
+        form: { body: '資料作成', to_ids: '1001', limit_type: 'none' },
+        headers: { 'Idempotency-Key': 'shared-key' },
+      }),
+      params,
+    );
+
+    await send(MOCK_TOKEN);
+    const other = await send('other-token');
+
+    expect(other.headers.get('Idempotent-Replayed')).toBeNull();
+    expect(mock().state.tasks).toHaveLength(2);
+  });
+
+  it('reports a non-JSON upstream response with its status code', async () => {
+    mock().state.faults.push({ status: 500, body: '<html>Internal Server Error</html>' });
+
+    const response = await POST(
+      makeRequest('/api/chatwork/rooms/3/tasks', { form: { body: '資料作成', to_ids: '1001' } }),
+      params,
+    );
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toMatchObject({ error: 'Chatwork API returned non-JSON response.' });
+  });
+
+  it('keeps the task body and the token out of the logs', async () => {
+    process.env.LOG_LEVEL = 'debug';
+    const lines: string[] = [];
+    vi.spyOn(console, 'log').mockImplementation((line: string) => lines.push(line));
+    try {
+      const response = await POST(
+        makeRequest('/api/chatwork/rooms/3/tasks', { form: { body: '来期の予算案を確認', to_ids: '1001' } }),
+        params,
+      );
+
+      expect(response.headers.get('X-Request-Id')).toBeTruthy();
+      const logs = lines.join('\n');
+      expect(logs).toContain('Chatwork API responded');
+      expect(logs).not.toContain('来期の予算案を確認');
+      expect(logs).not.toContain('mock-token');
+    } finally {
+      vi.restoreAllMocks();
+      delete process.env.LOG_LEVEL;
+    }
+  });
+});
+
+describe('GET /api/chatwork/rooms/[roomId]/tasks', () => {
+  const mock = useChatworkMock();
+
+  it('returns an empty list when Chatwork answers 204', async () => {
+    const response = await GET(makeRequest('/api/chatwork/rooms/3/tasks?status=open'), params);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual([]);
+  });
+
+  it('filters tasks by status and assignee', async () => {
+    await POST(makeRequest('/api/chatwork/rooms/3/tasks', { form: { body: 'A', to_ids: '1001,1002', limit_type: 'none' } }), params);
+
+    const response = await GET(makeRequest('/api/chatwork/rooms/3/tasks?status=open&account_id=1002'), params);
+
+    const tasks = await response.json();
+    expect(tasks).toHaveLength(1);
+    expect(tasks[0]).toMatchObject({ body: 'A', account: { account_id: 1002 } });
+    expect(mock().state.requests.at(-1)?.path).toBe('/rooms/3/tasks?status=open&account_id=1002');
+  });
+
+  it('rejects an unknown status filter', async () => {
+    const response = await GET(makeRequest('/api/chatwork/rooms/3/tasks?status=all'), params);
+
+    expect(response.status).toBe(400);
+  });
+});
+
+describe('PUT /api/chatwork/rooms/[roomId]/tasks/[taskId]/status', () => {
+  const mock = useChatworkMock();
+
+  it('marks a task as done', async () => {
+    await POST(makeRequest('/api/chatwork/rooms/3/tasks', { form: { body: 'A', to_ids: '1001', limit_type: 'none' } }), params);
+
+    const response = await PUT(
+      makeRequest('/api/chatwork/rooms/3/tasks/1/status', { method: 'PUT', form: { body: 'done' } }),
+      { params: { roomId: '3', taskId: '1' } },
+    );
+
+    expect(response.status).toBe(200);
+    expect(mock().state.tasks[0].status).toBe('done');
+  });
+
+  it('rejects an unknown status', async () => {
+    const response = await PUT(
+      makeRequest('/api/chatwork/rooms/3/tasks/1/status', { method: 'PUT', form: { body: 'closed' } }),
+      { params: { roomId: '3', taskId: '1' } },
+    );
+
+    expect(response.status).toBe(400);
+  });
+});
+
+describe('GET /api/chatwork/rooms/[roomId]/tasks/[taskId]', () => {
+  const mock = useChatworkMock();
+
+  it('returns the current status of a task', async () => {
+    await POST(makeRequest('/api/chatwork/rooms/3/tasks', { form: { body: 'A', to_ids: '1002', limit_type: 'none' } }), params);
+    mock().state.tasks[0].status = 'done';
+
+    const response = await getTask(makeRequest('/api/chatwork/rooms/3/tasks/1'), { params: { roomId: '3', taskId: '1' } });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ task_id: 1, status: 'done', account: { account_id: 1002 } });
+  });
+
+  it('passes through 404 for an unknown task', async () => {
+    const response = await getTask(makeRequest('/api/chatwork/rooms/3/tasks/99'), { params: { roomId: '3', taskId: '99' } });
+
+    expect(response.status).toBe(404);
+  });
+});
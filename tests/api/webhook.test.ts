@@ -0,0 +1,127 @@
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { POST } from '../../src/app/api/chatwork/webhook/route';
+import { GET as listEvents } from '../../src/app/api/chatwork/webhook/events/route';
+import { DELETE } from '../../src/app/api/chatwork/webhook/events/[eventId]/route';
+import mention from '../fixtures/webhook/mention_to_me.json';
+import otherRoom from '../fixtures/webhook/message_created_other_room.json';
+import taskDone from '../fixtures/webhook/message_created_task_done.json';
+import { makeRequest, useChatworkMock } from '../helpers';
+
+// Chatworkの Webhook 設定画面に表示されるトークン (Base64)
+const WEBHOOK_TOKEN = Buffer.from('webhook-secret-for-tests').toString('base64');
+
+const sign = (body: string) =>
+  crypto.createHmac('sha256', Buffer.from(WEBHOOK_TOKEN, 'base64')).update(body).digest('base64');
+
+// Chatworkからの呼び出しと同じく、セッションなしで署名付きのJSONを送る
+const deliver = (payload: unknown, signature?: string) => {
+  const body = JSON.stringify(payload);
+  return POST(makeRequest('/api/chatwork/webhook', {
+    token: null,
+    json: payload,
+    headers: { 'X-ChatWorkWebhookSignature': signature ?? sign(body) },
+  }));
+};
+
+describe('/api/chatwork/webhook', () => {
+  const mock = useChatworkMock();
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'webhook-'));
+    process.env.WEBHOOK_EVENTS_FILE = path.join(dir, 'webhook-events.json');
+  });
+
+  beforeEach(async () => {
+    process.env.CHATWORK_WEBHOOK_TOKEN = WEBHOOK_TOKEN;
+    await fs.rm(process.env.WEBHOOK_EVENTS_FILE!, { force: true });
+  });
+
+  afterAll(async () => {
+    delete process.env.CHATWORK_WEBHOOK_TOKEN;
+    delete process.env.WEBHOOK_EVENTS_FILE;
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('stores a signed mention and ignores a redelivery', async () => {
+    const response = await deliver(mention);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ received: 1, stored: 1 });
+    expect(await (await deliver(mention)).json()).toEqual({ received: 1, stored: 0 });
+  });
+
+  it('rejects a bad signature without storing anything', async () => {
+    const response = await deliver(mention, sign('{"tampered":true}'));
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toEqual({ error: 'Invalid webhook signature.', code: 'invalid_webhook_signature' });
+    expect(await (await listEvents(makeRequest('/api/chatwork/webhook/events'))).json()).toEqual([]);
+  });
+
+  it('accepts the signature as a query parameter', async () => {
+    const body = JSON.stringify(mention);
+    const response = await POST(makeRequest(`/api/chatwork/webhook?chatwork_webhook_signature=${encodeURIComponent(sign(body))}`, {
+      token: null,
+      json: mention,
+    }));
+
+    expect(response.status).toBe(200);
+  });
+
+  it('returns 404 when no webhook token is configured', async () => {
+    delete process.env.CHATWORK_WEBHOOK_TOKEN;
+
+    const response = await deliver(mention);
+
+    expect(response.status).toBe(404);
+  });
+
+  it('lists only the mentions to me and the tasks in my rooms', async () => {
+    await deliver(mention);
+    await deliver(taskDone);
+    await deliver(otherRoom);
+    await deliver({ ...mention, webhook_event: { ...mention.webhook_event, to_account_id: 1003 } });
+
+    const response = await listEvents(makeRequest('/api/chatwork/webhook/events'));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual([
+      expect.objectContaining({ kind: 'mention', toAccountId: 1001, body: '来週の定例の議事録をお願いします' }),
+      expect.objectContaining({ kind: 'taskStatus', roomId: 3, accountId: 1002, status: 'done', body: '見積書を作成' }),
+    ]);
+  });
+
+  it('deletes an acknowledged event but not one for another account', async () => {
+    await deliver(mention);
+    await deliver({ ...mention, webhook_event: { ...mention.webhook_event, to_account_id: 1003 } });
+
+    const own = await DELETE(makeRequest('/api/chatwork/webhook/events/x', { method: 'DELETE' }), { params: { eventId: 'mention:789012345:1001' } });
+    const others = await DELETE(makeRequest('/api/chatwork/webhook/events/x', { method: 'DELETE' }), { params: { eventId: 'mention:789012345:1003' } });
+
+    expect(own.status).toBe(204);
+    expect(others.status).toBe(404);
+    expect(await (await listEvents(makeRequest('/api/chatwork/webhook/events'))).json()).toEqual([]);
+  });
+
+  it('hides an acknowledged task event only from the account that acknowledged it', async () => {
+    await deliver(taskDone);
+    const [event] = await (await listEvents(makeRequest('/api/chatwork/webhook/events'))).json();
+
+    const acknowledge = () => DELETE(makeRequest('/api/chatwork/webhook/events/x', { method: 'DELETE' }), { params: { eventId: event.id } });
+    expect((await acknowledge()).status).toBe(204);
+    expect((await acknowledge()).status).toBe(404);
+    expect(await (await listEvents(makeRequest('/api/chatwork/webhook/events'))).json()).toEqual([]);
+
+    // 同じルームの別のメンバーには残っている
+    mock().state.me = { ...mock().state.me, account_id: 1002 };
+    expect(await (await listEvents(makeRequest('/api/chatwork/webhook/events'))).json()).toEqual([
+      expect.objectContaining({ id: event.id, kind: 'taskStatus' }),
+    ]);
+    expect(JSON.parse(await fs.readFile(process.env.WEBHOOK_EVENTS_FILE!, 'utf8'))).toEqual([expect.objectContaining({ acknowledgedBy: [1001] })]);
+  });
+});
@@ -0,0 +1,65 @@
+// tests/helpers.ts
+
+// APIルートのテストで使う共通処理です。
+// Chatwork APIのモックサーバーを起動し、ルートハンドラーの呼び出し先 (CHATWORK_API_BASE_URL) をそこに向けます。
+
+import { afterAll, beforeAll, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { ChatworkMockServer, createInitialState, startChatworkMockServer } from '../src/mock/chatworkMockServer';
+
+// モックサーバーで有効なAPIトークン
+export const MOCK_TOKEN = 'mock-token';
+
+/**
+ * テストファイルごとにモックサーバーを起動し、各テストの前に状態を初期化します。
+ * 戻り値の関数で、起動中のモックサーバーを取得できます。
+ */
+export const useChatworkMock = () => {
+  let server: ChatworkMockServer;
+
+  beforeAll(async () => {
+    server = await startChatworkMockServer({ state: createInitialState(MOCK_TOKEN) });
+    process.env.CHATWORK_API_BASE_URL = server.url;
+  });
+
+  beforeEach(() => {
+    Object.assign(server.state, createInitialState(MOCK_TOKEN));
+  });
+
+  afterAll(async () => {
+    delete process.env.CHATWORK_API_BASE_URL;
+    await server.close();
+  });
+
+  return () => server;
+};
+
+/**
+ * ルートハンドラーに渡すリクエストを作ります。
+ * @param path - `/api/chatwork/rooms` のようなパス
+ * @param init.token - X-ChatWorkToken ヘッダーの値 (null の場合はヘッダーを付けない)
+ * @param init.form - application/x-www-form-urlencoded で送るボディ
+ * @param init.json - JSONで送るボディ
+ */
+export const makeRequest = (
+  path: string,
+  init: {
+    method?: string;
+    token?: string | null;
+    form?: Record<string, string>;
+    json?: unknown;
+    headers?: Record<string, string>;
+  } = {},
+) => {
+  const headers: Record<string, string> = { ...init.headers };
+  const token = init.token === undefined ? MOCK_TOKEN : init.token;
+  if (token !== null) headers['X-ChatWorkToken'] = token;
+  if (init.form) headers['Content-Type'] = 'application/x-www-form-urlencoded';
+  if (init.json !== undefined) headers['Content-Type'] = 'application/json';
+  const hasBody = init.form !== undefined || init.json !== undefined;
+  return new NextRequest(`http://localhost${path}`, {
+    method: init.method ?? (hasBody ? 'POST' : 'GET'),
+    headers,
+    body: init.form ? new URLSearchParams(init.form).toString() : init.json !== undefined ? JSON.stringify(init.json) : undefined,
+  });
+};
@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { appendAttachmentLinks, MAX_ATTACHMENT_SIZE, toAttachment, validateAttachmentSize } from '../../src/lib/attachments';
+
+describe('attachments', () => {
+  it('marks files over the limit as errors up front', () => {
+    expect(validateAttachmentSize(MAX_ATTACHMENT_SIZE)).toBeNull();
+    expect(toAttachment(new File([new Uint8Array(MAX_ATTACHMENT_SIZE + 1)], 'large.png'))).toMatchObject({ status: 'error' });
+    expect(toAttachment(new File(['x'], 'memo.txt'))).toMatchObject({ status: 'pending', error: null });
+  });
+
+  it('links each uploaded file to its message', () => {
+    const body = appendAttachmentLinks('見積書を確認', 3, [
+      { file_id: 1, message_id: '123', filename: '見積書.pdf', filesize: 20 },
+      { file_id: 2, message_id: null, filename: 'memo.txt', filesize: 1 },
+    ]);
+
+    expect(body).toBe('見積書を確認\n📎 見積書.pdf https://www.chatwork.com/#!rid3-123\n📎 memo.txt');
+  });
+});
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { buildMessageBody, buildToHeader, wrapInInfo } from '../../src/lib/chatworkMessage';
+
+const assignees = [
+  { account_id: 1002, name: '佐藤 花子' },
+  { account_id: 1003, name: '鈴木 一郎' },
+];
+
+describe('chatworkMessage', () => {
+  it('builds one [To:] line per assignee', () => {
+    expect(buildToHeader(assignees)).toBe('[To:1002]佐藤 花子さん\n[To:1003]鈴木 一郎さん');
+  });
+
+  it('wraps the body in [info] with an optional title', () => {
+    expect(wrapInInfo('本文', ' 資料作成 ')).toBe('[info][title]資料作成[/title]本文[/info]');
+    expect(wrapInInfo('本文', '')).toBe('[info]本文[/info]');
+  });
+
+  it('puts the mentions before the body', () => {
+    expect(buildMessageBody('本文', assignees.slice(0, 1), { title: '依頼' })).toBe('[To:1002]佐藤 花子さん\n[info][title]依頼[/title]本文[/info]');
+    expect(buildMessageBody('本文', [], null)).toBe('本文');
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { convertMarkdownToChatwork, parseChatworkNotation } from '../../src/lib/chatworkNotation';
+import type { ChatworkMember } from '../../src/types/chatwork';
+
+const member = (account_id: number, name: string): ChatworkMember => ({
+  account_id,
+  role: 'member',
+  name,
+  chatwork_id: '',
+  organization_id: 0,
+  organization_name: '',
+  department: '',
+  avatar_image_url: '',
+});
+
+const members = [member(1001, '山田 太郎'), member(1002, '佐藤 花子')];
+
+describe('convertMarkdownToChatwork', () => {
+  it('wraps a heading and its section in [info][title]', () => {
+    const { body } = convertMarkdownToChatwork('# 定例の議事録\n\n決定事項はなし\n\n## 次回\n来週火曜', members, 1001);
+
+    expect(body).toBe('[info][title]定例の議事録[/title]決定事項はなし[/info]\n[info][title]次回[/title]来週火曜[/info]');
+  });
+
+  it('turns fenced code, block quotes and horizontal rules into Chatwork tags', () => {
+    const { body } = convertMarkdownToChatwork('手順:\n```sh\nnpm run build # @山田\n```\n> 前回の指摘\n> 2行目\n---\n以上', members, 1001);
+
+    expect(body).toBe('手順:\n[code]npm run build # @山田[/code]\n[qt]前回の指摘\n2行目[/qt]\n[hr]\n以上');
+  });
+
+  it('turns @mentions of room members into [To:] and leaves e-mail addresses alone', () => {
+    const result = convertMarkdownToChatwork('@佐藤 確認お願いします。\n@自分 も見ます。@鈴木 mail@example.com', members, 1001);
+
+    expect(result.body).toBe('[To:1002]佐藤 花子さん 確認お願いします。\n[To:1001]山田 太郎さん も見ます。@鈴木 mail@example.com');
+    expect(result.mentionIds).toEqual([1002, 1001]);
+    expect(result.unresolvedMentions).toEqual([]);
+  });
+
+  it('reports @mentions that are not room members', () => {
+    const result = convertMarkdownToChatwork('@鈴木 確認お願いします', members, 1001);
+
+    expect(result.body).toBe('@鈴木 確認お願いします');
+    expect(result.unresolvedMentions).toEqual(['鈴木']);
+  });
+
+  it('leaves plain text untouched', () => {
+    expect(convertMarkdownToChatwork('資料を作成する\n2行目', members, 1001).body).toBe('資料を作成する\n2行目');
+  });
+});
+
+describe('parseChatworkNotation', () => {
+  it('splits the notation into nodes for the preview', () => {
+    expect(parseChatworkNotation('[To:1002]佐藤 花子さん\n[info][title]見出し[/title]本文[/info][hr][code][info][/code][qt]引用[/qt]')).toEqual([
+      { type: 'to', accountId: 1002 },
+      { type: 'text', text: '佐藤 花子さん\n' },
+      { type: 'info', title: [{ type: 'text', text: '見出し' }], children: [{ type: 'text', text: '本文' }] },
+      { type: 'hr' },
+      { type: 'code', text: '[info]' },
+      { type: 'quote', children: [{ type: 'text', text: '引用' }] },
+    ]);
+  });
+
+  it('keeps unclosed tags as text', () => {
+    expect(parseChatworkNotation('[info]閉じていない')).toEqual([{ type: 'text', text: '[info]閉じていない' }]);
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { parseTaskTags, stripChatworkTags, toWebhookEvents } from '../../src/lib/chatworkWebhook';
+import mention from '../fixtures/webhook/mention_to_me.json';
+import taskDone from '../fixtures/webhook/message_created_task_done.json';
+
+describe('stripChatworkTags', () => {
+  it('removes recipient lines and keeps the text of enclosing tags', () => {
+    expect(stripChatworkTags('[To:1001]山田 太郎さん\n[rp aid=1002 to=3-1]佐藤 花子さん\n議事録をお願いします')).toBe('議事録をお願いします');
+    expect(stripChatworkTags('[info][title]連絡[/title]明日は休みです[/info]')).toBe('連絡明日は休みです');
+    expect(stripChatworkTags('[toall]\n[picon:1002]確認してください')).toBe('確認してください');
+  });
+});
+
+describe('parseTaskTags', () => {
+  it('reads every task tag in a message', () => {
+    expect(parseTaskTags('[task aid=1002 st=done lt=0]見積書を作成[/task][task aid=1003 st=open lt=1700000000]\n請求書[/task]')).toEqual([
+      { accountId: 1002, status: 'done', body: '見積書を作成' },
+      { accountId: 1003, status: 'open', body: '請求書' },
+    ]);
+    expect(parseTaskTags('タスクではないメッセージ')).toEqual([]);
+  });
+});
+
+describe('toWebhookEvents', () => {
+  it('turns mention_to_me into a mention without tags', () => {
+    expect(toWebhookEvents(mention, 10)).toEqual([{
+      id: 'mention:789012345:1001',
+      kind: 'mention',
+      receivedAt: 10,
+      roomId: 3,
+      messageId: '789012345',
+      fromAccountId: 1002,
+      toAccountId: 1001,
+      body: '来週の定例の議事録をお願いします',
+    }]);
+  });
+
+  it('turns task tags in a created message into task status events', () => {
+    expect(toWebhookEvents(taskDone, 10)).toEqual([{
+      id: 'task:789012399:0:0',
+      kind: 'taskStatus',
+      receivedAt: 10,
+      roomId: 3,
+      messageId: '789012399',
+      accountId: 1002,
+      status: 'done',
+      body: '見積書を作成',
+    }]);
+  });
+
+  it('ignores unrelated events and rejects malformed payloads', () => {
+    expect(toWebhookEvents({ ...taskDone, webhook_event_type: 'room_created' }, 10)).toEqual([]);
+    expect(toWebhookEvents({ webhook_event_type: 'mention_to_me' }, 10)).toBeNull();
+  });
+});
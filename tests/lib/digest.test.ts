@@ -0,0 +1,90 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { classifyDigestTask, formatDigest } from '../../src/lib/digest';
+import { createTranslate } from '../../src/lib/i18n';
+import { fromZonedParts } from '../../src/lib/timeZone';
+import type { MyTask } from '../../src/types/task';
+
+// Asia/Tokyo での日時
+const at = fromZonedParts;
+// 2026-10-21 (水) 10:00
+const now = at(2026, 9, 21, 10, 0);
+const unix = (date: Date) => Math.floor(date.getTime() / 1000);
+
+const task = (task_id: number, body: string, limit_type: MyTask['limit_type'], limit?: Date): MyTask => ({
+  task_id,
+  room: { room_id: 3, name: '開発チーム', icon_path: '' },
+  assigned_by_account: { account_id: 1002, name: '佐藤 花子', avatar_image_url: '' },
+  message_id: '1',
+  body,
+  limit_time: limit ? unix(limit) : 0,
+  status: 'open',
+  limit_type,
+});
+
+describe('classifyDigestTask', () => {
+  it('groups by deadline relative to now, with Monday-based weeks', () => {
+    expect(classifyDigestTask(task(1, 'a', 'time', at(2026, 9, 21, 9, 0)), now)).toBe('overdue');
+    expect(classifyDigestTask(task(2, 'a', 'date', at(2026, 9, 20)), now)).toBe('overdue');
+    // 日付のみの期限は、その日のうちは期限内
+    expect(classifyDigestTask(task(3, 'a', 'date', at(2026, 9, 21)), now)).toBe('today');
+    expect(classifyDigestTask(task(4, 'a', 'time', at(2026, 9, 21, 18, 0)), now)).toBe('today');
+    expect(classifyDigestTask(task(5, 'a', 'date', at(2026, 9, 25)), now)).toBe('thisWeek');
+    expect(classifyDigestTask(task(6, 'a', 'date', at(2026, 9, 26)), now)).toBe('later');
+    expect(classifyDigestTask(task(7, 'a', 'none'), now)).toBe('noDeadline');
+  });
+});
+
+describe('formatDigest', () => {
+  it('formats non-empty groups in order with [info] notation', () => {
+    const body = formatDigest([
+      task(1, '議事録を共有', 'none'),
+      task(2, '[To:1001]山田 太郎さん\n見積書を作成', 'time', at(2026, 9, 21, 17, 0)),
+      task(3, '請求書を送付', 'date', at(2026, 9, 19)),
+    ], now);
+
+    expect(body).toBe([
+      '[info][title]10/21(水) の未完了タスク 3件[/title]■ 期限切れ (1件)',
+      '・請求書を送付 (10/19(月)) - 開発チーム',
+      '[hr]■ 今日まで (1件)',
+      '・見積書を作成 (10/21(水) 17:00) - 開発チーム',
+      '[hr]■ 期限なし (1件)',
+      '・議事録を共有 - 開発チーム[/info]',
+    ].join('\n'));
+  });
+
+  it('says so when there are no open tasks', () => {
+    expect(formatDigest([], now)).toBe('[info][title]10/21(水) の未完了タスク 0件[/title]未完了のタスクはありません。[/info]');
+  });
+
+  it('writes the text in the given language', () => {
+    const body = formatDigest([task(1, '議事録を共有', 'date', at(2026, 9, 21))], now, createTranslate('en'));
+
+    expect(body).toBe('[info][title]Open tasks for 10/21 (Wed): 1[/title]■ Due today (1)\n・議事録を共有 (10/21(Wed)) - 開発チーム[/info]');
+    expect(formatDigest([], now, createTranslate('en'))).toContain('You have no open tasks.');
+  });
+});
+
+describe('on a server in UTC', () => {
+  const originalTz = process.env.TZ;
+  beforeAll(() => {
+    process.env.TZ = 'UTC';
+  });
+  afterAll(() => {
+    process.env.TZ = originalTz;
+  });
+
+  it('still splits days in Asia/Tokyo', () => {
+    // Asia/Tokyo の 10/22(木) 8:00 は UTC では 10/21 23:00
+    const morning = at(2026, 9, 22, 8, 0);
+    expect(morning.getDate()).toBe(21);
+
+    expect(classifyDigestTask(task(1, 'a', 'date', at(2026, 9, 21)), morning)).toBe('overdue');
+    expect(classifyDigestTask(task(2, 'a', 'date', at(2026, 9, 22)), morning)).toBe('today');
+    expect(classifyDigestTask(task(3, 'a', 'time', at(2026, 9, 22, 23, 30)), morning)).toBe('today');
+    expect(classifyDigestTask(task(4, 'a', 'date', at(2026, 9, 26)), morning)).toBe('later');
+    expect(formatDigest([task(5, '見積書を作成', 'time', at(2026, 9, 22, 9, 0))], morning)).toBe([
+      '[info][title]10/22(木) の未完了タスク 1件[/title]■ 今日まで (1件)',
+      '・見積書を作成 (10/22(木) 09:00) - 開発チーム[/info]',
+    ].join('\n'));
+  });
+});
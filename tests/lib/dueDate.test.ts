@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { deadlineToUnix, formatDateInput, formatTimeInput, parseJapaneseDueDate } from '../../src/lib/dueDate';
+
+// 2026/10/21 (水) 10:00
+const now = new Date(2026, 9, 21, 10, 0);
+
+// 解釈した期限を「YYYY-MM-DD HH:MM」で返す (日付のみの場合は日付だけ)
+const parse = (input: string, base: Date = now) => {
+  const parsed = parseJapaneseDueDate(input, base);
+  if (!parsed) return null;
+  return parsed.hasTime ? `${formatDateInput(parsed.date)} ${formatTimeInput(parsed.date)}` : formatDateInput(parsed.date);
+};
+
+describe('parseJapaneseDueDate', () => {
+  it('reads 今日 / 明日 / 明後日 as date-only deadlines', () => {
+    expect(parse('今日')).toBe('2026-10-21');
+    expect(parse('本日')).toBe('2026-10-21');
+    expect(parse('明日')).toBe('2026-10-22');
+    expect(parse('あさって')).toBe('2026-10-23');
+  });
+
+  it('reads relative days and weeks', () => {
+    expect(parse('3日後')).toBe('2026-10-24');
+    expect(parse('2週間後')).toBe('2026-11-04');
+    expect(parse('1週後')).toBe('2026-10-28');
+  });
+
+  it('reads weekdays with Monday-based weeks', () => {
+    expect(parse('金曜')).toBe('2026-10-23');
+    // 週の指定がない場合、今日と同じ曜日は今日
+    expect(parse('水曜日')).toBe('2026-10-21');
+    expect(parse('今週月曜')).toBe('2026-10-19');
+    expect(parse('来週金曜')).toBe('2026-10-30');
+    expect(parse('来週日曜')).toBe('2026-11-01');
+    expect(parse('再来週月曜')).toBe('2026-11-02');
+  });
+
+  it('rolls over month and year boundaries', () => {
+    expect(parse('今月末')).toBe('2026-10-31');
+    expect(parse('来月末')).toBe('2026-11-30');
+    expect(parse('3日後', new Date(2026, 9, 30))).toBe('2026-11-02');
+    expect(parse('明日', new Date(2026, 11, 31))).toBe('2027-01-01');
+    expect(parse('来週月曜', new Date(2026, 11, 30))).toBe('2027-01-04');
+    expect(parse('来月末', new Date(2026, 11, 15))).toBe('2027-01-31');
+  });
+
+  it('reads month/day as the next occurrence', () => {
+    expect(parse('10/31')).toBe('2026-10-31');
+    expect(parse('10月21日')).toBe('2026-10-21');
+    // 過ぎている日付は翌年
+    expect(parse('1/5')).toBe('2027-01-05');
+    expect(parse('2027/2/28')).toBe('2027-02-28');
+    expect(parse('１０／３１')).toBe('2026-10-31');
+  });
+
+  it('reads times with 午前 / 午後, 半 and HH:MM', () => {
+    expect(parse('17時')).toBe('2026-10-21 17:00');
+    expect(parse('明日17時30分')).toBe('2026-10-22 17:30');
+    expect(parse('午後3時半')).toBe('2026-10-21 15:30');
+    expect(parse('明日の午前12時')).toBe('2026-10-22 00:00');
+    expect(parse('10/31 9:30')).toBe('2026-10-31 09:30');
+    expect(parse('来週金曜 18:00まで')).toBe('2026-10-30 18:00');
+  });
+
+  it('returns null for what it cannot read', () => {
+    expect(parse('')).toBeNull();
+    expect(parse('そのうち')).toBeNull();
+    expect(parse('2/30')).toBeNull();
+    expect(parse('2026/2/30')).toBeNull();
+    expect(parse('明日25時')).toBeNull();
+    expect(parse('17:75')).toBeNull();
+  });
+});
+
+describe('deadlineToUnix', () => {
+  it('uses 0:00 for date-only deadlines and nothing for no deadline', () => {
+    expect(deadlineToUnix({ limitType: 'date', date: '2026-10-31', time: '17:00' })).toBe(new Date(2026, 9, 31).getTime() / 1000);
+    expect(deadlineToUnix({ limitType: 'time', date: '2026-10-31', time: '17:00' })).toBe(new Date(2026, 9, 31, 17, 0).getTime() / 1000);
+    expect(deadlineToUnix({ limitType: 'none', date: '2026-10-31', time: '' })).toBeNull();
+  });
+});
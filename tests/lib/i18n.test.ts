@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { describeApiError, negotiateLocale, resolveLocale, translate, Translate } from '../../src/lib/i18n';
+import en from '../../src/locales/en';
+import ja from '../../src/locales/ja';
+import { API_ERROR_CODES } from '../../src/types/apiError';
+
+describe('negotiateLocale', () => {
+  it('picks the supported language with the highest quality', () => {
+    expect(negotiateLocale('en-US,en;q=0.9,ja;q=0.8')).toBe('en');
+    expect(negotiateLocale('fr-FR,ja;q=0.5,en;q=0.8')).toBe('en');
+    expect(negotiateLocale('ja-JP')).toBe('ja');
+  });
+
+  it('falls back to Japanese when nothing matches', () => {
+    expect(negotiateLocale('fr,de;q=0.9')).toBe('ja');
+    expect(negotiateLocale('en;q=0')).toBe('ja');
+    expect(negotiateLocale(null)).toBe('ja');
+  });
+});
+
+describe('resolveLocale', () => {
+  it('prefers the language chosen on the page over Accept-Language', () => {
+    expect(resolveLocale('ja', 'en-US')).toBe('ja');
+    expect(resolveLocale('en', 'ja')).toBe('en');
+    expect(resolveLocale('fr', 'en-US')).toBe('en');
+    expect(resolveLocale(undefined, 'ja')).toBe('ja');
+  });
+});
+
+describe('translate', () => {
+  it('fills in the placeholders', () => {
+    expect(translate('en', 'importPanel.send', { count: 3 })).toBe('Send 3');
+    expect(translate('ja', 'importPanel.send', { count: 3 })).toBe('3件を送信');
+  });
+
+  it('has the same messages in both catalogs', () => {
+    expect(Object.keys(en).sort()).toEqual(Object.keys(ja).sort());
+    API_ERROR_CODES.forEach(code => expect(ja).toHaveProperty([`apiError.${code}`]));
+  });
+});
+
+describe('describeApiError', () => {
+  const t: Translate = (key, params) => translate('en', key, params);
+
+  it('localizes a known error code', () => {
+    expect(describeApiError(t, { error: 'Chatwork API Error: 404', code: 'chatwork_not_found' }, 404)).toBe('The room or task was not found.');
+  });
+
+  it('shows the English description when the code is unknown', () => {
+    expect(describeApiError(t, { error: 'Something broke.' }, 500)).toBe('An error occurred (HTTP 500): Something broke.');
+    expect(describeApiError(t, null, 502)).toBe('An error occurred (HTTP 502)');
+  });
+
+  it('treats a missing status as a network error', () => {
+    expect(describeApiError(t, { error: 'Failed to fetch' }, null)).toBe('Network error: Failed to fetch');
+  });
+});
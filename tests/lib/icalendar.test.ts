@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { buildTasksCalendar, escapeText, foldLine } from '../../src/lib/icalendar';
+import type { MyTask } from '../../src/types/task';
+
+const task = (task_id: number, limit_type: MyTask['limit_type'], limit_time: number, body = '見積書を作成'): MyTask => ({
+  task_id,
+  room: { room_id: 3, name: '開発チーム', icon_path: '' },
+  assigned_by_account: { account_id: 1002, name: '佐藤 花子', avatar_image_url: '' },
+  message_id: '555',
+  body,
+  limit_time,
+  status: 'open',
+  limit_type,
+});
+
+// 2026-10-31 17:00 (Asia/Tokyo)
+const OCT_31_17_00_JST = Date.UTC(2026, 9, 31, 8, 0) / 1000;
+// 2026-10-31 0:00 (Asia/Tokyo) = 2026-10-30 15:00 UTC
+const OCT_31_00_00_JST = Date.UTC(2026, 9, 30, 15, 0) / 1000;
+
+const lines = (calendar: string) => calendar.replace(/\r\n /g, '').split('\r\n');
+
+describe('buildTasksCalendar', () => {
+  const now = new Date(Date.UTC(2026, 9, 19, 1, 2, 3));
+
+  it('emits a VTODO with a Tokyo due time for timed tasks', () => {
+    const calendar = buildTasksCalendar([task(1, 'time', OCT_31_17_00_JST)], now);
+
+    expect(calendar.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(lines(calendar)).toEqual(expect.arrayContaining([
+      'BEGIN:VCALENDAR',
+      'TZID:Asia/Tokyo',
+      'BEGIN:VTODO',
+      'UID:chatwork-task-1@chatwork-task-memo',
+      'DTSTAMP:20261019T010203Z',
+      'SUMMARY:見積書を作成',
+      'DESCRIPTION:ルーム: 開発チーム\\n依頼者: 佐藤 花子\\n\\n見積書を作成',
+      'URL:https://www.chatwork.com/#!rid3-555',
+      'DUE;TZID=Asia/Tokyo:20261031T170000',
+      'STATUS:NEEDS-ACTION',
+    ]));
+  });
+
+  it('emits an all-day VEVENT on the Tokyo date for date-only tasks', () => {
+    const calendar = lines(buildTasksCalendar([task(2, 'date', OCT_31_00_00_JST)], now));
+
+    expect(calendar).toEqual(expect.arrayContaining([
+      'BEGIN:VEVENT',
+      'UID:chatwork-task-2@chatwork-task-memo',
+      'DTSTART;VALUE=DATE:20261031',
+      'DTEND;VALUE=DATE:20261101',
+    ]));
+    expect(calendar).not.toContain('BEGIN:VTODO');
+  });
+
+  it('omits the due date for tasks without a deadline and keeps UIDs stable', () => {
+    const first = buildTasksCalendar([task(3, 'none', 0)], now);
+    const second = buildTasksCalendar([task(3, 'none', 0)], new Date(Date.UTC(2026, 9, 20)));
+
+    expect(first).not.toContain('DUE');
+    expect(lines(second)).toContain('UID:chatwork-task-3@chatwork-task-memo');
+  });
+});
+
+describe('escapeText / foldLine', () => {
+  it('escapes special characters', () => {
+    expect(escapeText('a,b;c\\d\ne')).toBe('a\\,b\\;c\\\\d\\ne');
+  });
+
+  it('folds long lines at 75 octets without splitting multibyte characters', () => {
+    const folded = foldLine(`SUMMARY:${'あ'.repeat(40)}`);
+    const parts = folded.split('\r\n');
+
+    expect(parts.length).toBeGreaterThan(1);
+    parts.forEach(part => expect(Buffer.byteLength(part)).toBeLessThanOrEqual(75));
+    expect(folded.replace(/\r\n /g, '')).toBe(`SUMMARY:${'あ'.repeat(40)}`);
+  });
+});
@@ -0,0 +1,101 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest, NextResponse } from 'next/server';
+import { logger, redact, REQUEST_ID_HEADER, withRequestLogging } from '../../src/lib/logger';
+
+// console に出力されたログの行をJSONとして取り出す
+const captureLogs = () => {
+  const lines: any[] = [];
+  const capture = (line: string) => lines.push(JSON.parse(line));
+  vi.spyOn(console, 'log').mockImplementation(capture);
+  vi.spyOn(console, 'warn').mockImplementation(capture);
+  vi.spyOn(console, 'error').mockImplementation(capture);
+  return lines;
+};
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  delete process.env.LOG_LEVEL;
+  delete process.env.LOG_TASK_BODIES;
+});
+
+describe('redact', () => {
+  it('hides tokens and task bodies at any depth', () => {
+    expect(redact({
+      roomId: '3',
+      body: '来期の予算案',
+      headers: { 'X-ChatWorkToken': 'secret-token', Authorization: 'Bearer abc' },
+      tasks: [{ message: 'hello', task_id: 1 }],
+    })).toEqual({
+      roomId: '3',
+      body: '[REDACTED] (6 chars)',
+      headers: { 'X-ChatWorkToken': '[REDACTED]', Authorization: '[REDACTED]' },
+      tasks: [{ message: '[REDACTED] (5 chars)', task_id: 1 }],
+    });
+  });
+
+  it('keeps task bodies when LOG_TASK_BODIES is true but still hides tokens', () => {
+    process.env.LOG_TASK_BODIES = 'true';
+
+    expect(redact({ body: '来期の予算案', token: 'secret-token' })).toEqual({ body: '来期の予算案', token: '[REDACTED]' });
+  });
+
+  it('turns errors into their name and message', () => {
+    expect(redact({ error: new TypeError('boom') })).toEqual({ error: { name: 'TypeError', message: 'boom' } });
+  });
+});
+
+describe('logger', () => {
+  it('writes one JSON line per entry and skips levels below LOG_LEVEL', () => {
+    const lines = captureLogs();
+    process.env.LOG_LEVEL = 'warn';
+
+    logger.info('ignored');
+    logger.warn('Rate limit reached', { path: '/rooms' });
+
+    expect(lines).toHaveLength(1);
+    expect(lines[0]).toMatchObject({ level: 'warn', event: 'Rate limit reached', path: '/rooms' });
+  });
+});
+
+describe('withRequestLogging', () => {
+  it('tags logs with a request ID and returns it in the response header', async () => {
+    const lines = captureLogs();
+    const handler = withRequestLogging(async (request: NextRequest) => {
+      logger.info('Inside handler', { body: 'confidential' });
+      return NextResponse.json({ ok: true });
+    });
+
+    const response = await handler(new NextRequest('http://localhost/api/test?key=secret'));
+
+    const requestId = response.headers.get(REQUEST_ID_HEADER);
+    expect(requestId).toMatch(/^[0-9a-f-]{36}$/);
+    expect(lines.map(line => line.requestId)).toEqual([requestId, requestId]);
+    expect(lines[0].body).toBe('[REDACTED] (12 chars)');
+    expect(lines[1]).toMatchObject({ event: 'Request completed', method: 'GET', path: '/api/test', status: 200 });
+    expect(JSON.stringify(lines)).not.toContain('secret');
+  });
+
+  it('reuses a well-formed request ID from the client', async () => {
+    captureLogs();
+    const handler = withRequestLogging(async () => NextResponse.json({}));
+
+    const given = await handler(new NextRequest('http://localhost/api/test', { headers: { [REQUEST_ID_HEADER]: 'trace-123' } }));
+    const rejected = await handler(new NextRequest('http://localhost/api/test', { headers: { [REQUEST_ID_HEADER]: 'bad id\n' } }));
+
+    expect(given.headers.get(REQUEST_ID_HEADER)).toBe('trace-123');
+    expect(rejected.headers.get(REQUEST_ID_HEADER)).not.toBe('bad id\n');
+  });
+
+  it('answers 500 with the request ID when the handler throws', async () => {
+    const lines = captureLogs();
+    const handler = withRequestLogging(async () => {
+      throw new Error('unexpected');
+    });
+
+    const response = await handler(new NextRequest('http://localhost/api/test'));
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ error: 'Internal server error.', code: 'internal_error', requestId: response.headers.get(REQUEST_ID_HEADER) });
+    expect(lines[0]).toMatchObject({ level: 'error', event: 'Unhandled error in API route', error: { message: 'unexpected' } });
+  });
+});
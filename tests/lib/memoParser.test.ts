@@ -0,0 +1,103 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { parseMemoLines, resolveAssignee } from '../../src/lib/memoParser';
+import type { Deadline } from '../../src/lib/dueDate';
+import type { ChatworkMember } from '../../src/types/chatwork';
+
+const member = (account_id: number, name: string): ChatworkMember => ({
+  account_id,
+  role: 'member',
+  name,
+  chatwork_id: '',
+  organization_id: 0,
+  organization_name: '',
+  department: '',
+  avatar_image_url: '',
+});
+
+const members = [member(1001, '山田 太郎'), member(1002, '佐藤 花子'), member(1003, '佐藤 次郎')];
+const defaultDeadline: Deadline = { limitType: 'time', date: '2026-10-28', time: '17:00' };
+const defaults = { assigneeIds: [1001], deadline: defaultDeadline };
+
+describe('resolveAssignee', () => {
+  it('resolves by account ID, name prefix, partial name or 自分', () => {
+    expect(resolveAssignee('1002', members, 1001)).toBe(1002);
+    expect(resolveAssignee('山田', members, 1001)).toBe(1001);
+    expect(resolveAssignee('花子', members, 1001)).toBe(1002);
+    expect(resolveAssignee('自分', members, 1003)).toBe(1003);
+  });
+
+  it('does not guess when several members match', () => {
+    expect(resolveAssignee('佐藤', members, 1001)).toBeNull();
+    expect(resolveAssignee('鈴木', members, 1001)).toBeNull();
+  });
+});
+
+describe('parseMemoLines', () => {
+  // 期限のトークンは現在時刻から解釈するため、2026/10/21 (水) 10:00 に固定する
+  beforeAll(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date(2026, 9, 21, 10, 0));
+  });
+
+  afterAll(() => {
+    vi.useRealTimers();
+  });
+
+  it('splits lines, strips bullets and skips blank and finished items', () => {
+    const drafts = parseMemoLines([
+      '- [ ] 見積書を作成',
+      '',
+      '- [x] 済んだ作業',
+      '・議事録を共有',
+      '2. レビュー',
+      '   ',
+      '* 請求書を送付',
+    ].join('\r\n'), members, defaults, 1001);
+
+    expect(drafts.map(draft => [draft.line, draft.body])).toEqual([
+      [1, '見積書を作成'],
+      [4, '議事録を共有'],
+      [5, 'レビュー'],
+      [7, '請求書を送付'],
+    ]);
+    drafts.forEach(draft => {
+      expect(draft.assigneeIds).toEqual([1001]);
+      expect(draft.deadline).toEqual(defaultDeadline);
+    });
+  });
+
+  it('reads assignee and deadline tokens anywhere in the line', () => {
+    const [draft] = parseMemoLines('@花子 資料を作成 !明日17時 ＠山田 @花子', members, defaults, 1001);
+
+    expect(draft).toEqual({
+      line: 1,
+      body: '資料を作成',
+      assigneeIds: [1002, 1001],
+      deadline: { limitType: 'time', date: '2026-10-22', time: '17:00' },
+      warnings: [],
+    });
+  });
+
+  it('keeps the default time for date-only deadlines and uses the last deadline token', () => {
+    const [draft] = parseMemoLines('資料を作成 !今日 ！来週金曜', members, defaults, 1001);
+
+    expect(draft.deadline).toEqual({ limitType: 'date', date: '2026-10-30', time: '17:00' });
+  });
+
+  it('warns about tokens it cannot resolve and keeps the defaults', () => {
+    const [draft] = parseMemoLines('資料を作成 @佐藤 !そのうち', members, defaults, 1001);
+
+    expect(draft.body).toBe('資料を作成');
+    expect(draft.assigneeIds).toEqual([1001]);
+    expect(draft.deadline).toEqual(defaultDeadline);
+    expect(draft.warnings).toEqual(['担当者「@佐藤」を特定できません', '期限「!そのうち」を解釈できません']);
+  });
+
+  it('does not treat an @ inside a word as an assignee token', () => {
+    expect(parseMemoLines('info@example.com に連絡', members, defaults, 1001)[0].body).toBe('info@example.com に連絡');
+  });
+
+  it('skips lines that only contain tokens', () => {
+    expect(parseMemoLines('@山田 !明日', members, defaults, 1001)).toEqual([]);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { createOutboxItem, failedAttempt, OutboxItem, retryDelay } from '../../src/lib/outbox';
+import { isRetryableSendError, TaskSendError } from '../../src/lib/taskClient';
+
+const now = Date.UTC(2026, 9, 19, 1, 0);
+
+const item: OutboxItem = {
+  id: 'key-1',
+  roomId: '3',
+  roomName: '開発チーム',
+  task: { body: '見積書を作成', toIds: [1001], deadline: { limitType: 'none', date: '', time: '' } },
+  attempts: 1,
+  nextAttemptAt: now,
+  lastError: '',
+  createdAt: now - 1000,
+};
+
+describe('retryDelay', () => {
+  it('doubles from 5 seconds up to 10 minutes', () => {
+    expect(retryDelay(0)).toBe(5000);
+    expect(retryDelay(1)).toBe(5000);
+    expect(retryDelay(2)).toBe(10000);
+    expect(retryDelay(4)).toBe(40000);
+    expect(retryDelay(8)).toBe(600000);
+    expect(retryDelay(20)).toBe(600000);
+  });
+});
+
+describe('failedAttempt', () => {
+  it('schedules a retry with backoff for network errors and 5xx', () => {
+    expect(failedAttempt(item, new TaskSendError('Failed to fetch', null), undefined, now))
+      .toMatchObject({ attempts: 2, nextAttemptAt: now + 10000 });
+    expect(failedAttempt(item, new TaskSendError('Bad gateway', 502, null, 'chatwork_unreachable'), undefined, now))
+      .toMatchObject({ attempts: 2, nextAttemptAt: now + 10000 });
+  });
+
+  it('waits until the rate limit resets when that is later than the backoff', () => {
+    const reset = Math.floor(now / 1000) + 60;
+    const next = failedAttempt(item, new TaskSendError('Rate limited', 429, reset, 'chatwork_rate_limited'), undefined, now);
+
+    expect(next.nextAttemptAt).toBe(reset * 1000);
+    // 制限解除時刻が過ぎている場合はバックオフで待つ
+    expect(failedAttempt(item, new TaskSendError('Rate limited', 429, 1, 'chatwork_rate_limited'), undefined, now).nextAttemptAt)
+      .toBe(now + 10000);
+  });
+
+  it('stops retrying automatically when resending cannot succeed', () => {
+    const next = failedAttempt(item, new TaskSendError('Not found', 404, null, 'chatwork_not_found'), undefined, now);
+
+    expect(next).toMatchObject({ attempts: 2, nextAttemptAt: null, lastError: 'ルームまたはタスクが見つかりません。' });
+    expect(failedAttempt(item, new Error('boom'), undefined, now)).toMatchObject({ nextAttemptAt: null, lastError: 'boom' });
+  });
+});
+
+describe('isRetryableSendError', () => {
+  it('is true only for network errors, 5xx and 429', () => {
+    expect(isRetryableSendError(new TaskSendError('Failed to fetch', null))).toBe(true);
+    expect(isRetryableSendError(new TaskSendError('Bad gateway', 502))).toBe(true);
+    expect(isRetryableSendError(new TaskSendError('Rate limited', 429))).toBe(true);
+    expect(isRetryableSendError(new TaskSendError('Bad request', 400))).toBe(false);
+    expect(isRetryableSendError(new Error('boom'))).toBe(false);
+  });
+});
+
+describe('createOutboxItem', () => {
+  const fields = { id: 'draft-key', roomId: '3', roomName: '開発チーム', task: item.task, profileId: 'profile-1', message: null };
+
+  it('queues a failed first send under its idempotency key as the first attempt', () => {
+    expect(createOutboxItem(fields, new TaskSendError('Gateway timeout', 504, null, 'chatwork_unreachable'), undefined, now)).toEqual({
+      ...fields,
+      attempts: 1,
+      nextAttemptAt: now + 5000,
+      lastError: 'Chatworkに接続できませんでした。時間をおいて再試行してください。',
+      createdAt: now,
+    });
+  });
+
+  it('waits for the rate limit to reset before the first retry', () => {
+    const reset = Math.floor(now / 1000) + 60;
+
+    expect(createOutboxItem(fields, new TaskSendError('Rate limited', 429, reset, 'chatwork_rate_limited'), undefined, now).nextAttemptAt)
+      .toBe(reset * 1000);
+  });
+});
@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { migrateLegacyItems, readProfileItem, removeProfileItems, writeProfileItem } from '../../src/lib/profileStorage';
+
+// テスト用のローカルストレージ (Map に保存する)
+const createStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    items,
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+    removeItem: (key: string) => void items.delete(key),
+  };
+};
+
+describe('profile storage', () => {
+  let storage: ReturnType<typeof createStorage>;
+
+  beforeEach(() => {
+    storage = createStorage();
+    vi.stubGlobal('localStorage', storage);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('keeps the values of each profile apart', () => {
+    writeProfileItem('company', 'chatworkRoomsCache', '[1]');
+    writeProfileItem('client', 'chatworkRoomsCache', '[2]');
+
+    expect(readProfileItem('company', 'chatworkRoomsCache')).toBe('[1]');
+    expect(readProfileItem('client', 'chatworkRoomsCache')).toBe('[2]');
+  });
+
+  it('neither reads nor writes without an active profile', () => {
+    storage.setItem('chatworkRoomsCache', '[1]');
+
+    writeProfileItem(null, 'chatworkRoomsCache', '[2]');
+
+    expect(readProfileItem(null, 'chatworkRoomsCache')).toBeNull();
+    expect(Array.from(storage.items.keys())).toEqual(['chatworkRoomsCache']);
+  });
+
+  it('removes only the given profile', () => {
+    writeProfileItem('company', 'chatworkFavoriteRooms', '[1]');
+    writeProfileItem('client', 'chatworkFavoriteRooms', '[2]');
+
+    removeProfileItems('company', ['chatworkFavoriteRooms']);
+
+    expect(readProfileItem('company', 'chatworkFavoriteRooms')).toBeNull();
+    expect(readProfileItem('client', 'chatworkFavoriteRooms')).toBe('[2]');
+  });
+
+  it('moves the old favorites to the profile and drops the old room cache', () => {
+    storage.setItem('chatworkFavoriteRooms', '[3]');
+    storage.setItem('chatworkRoomsCache', '[{"room_id":1}]');
+
+    migrateLegacyItems('company', ['chatworkFavoriteRooms'], ['chatworkRoomsCache']);
+
+    expect(readProfileItem('company', 'chatworkFavoriteRooms')).toBe('[3]');
+    expect(readProfileItem('company', 'chatworkRoomsCache')).toBeNull();
+    expect(storage.getItem('chatworkFavoriteRooms')).toBeNull();
+    expect(storage.getItem('chatworkRoomsCache')).toBeNull();
+  });
+
+  it('does not overwrite favorites the profile already has', () => {
+    writeProfileItem('company', 'chatworkFavoriteRooms', '[1]');
+    storage.setItem('chatworkFavoriteRooms', '[3]');
+
+    migrateLegacyItems('company', ['chatworkFavoriteRooms'], []);
+
+    expect(readProfileItem('company', 'chatworkFavoriteRooms')).toBe('[1]');
+  });
+});
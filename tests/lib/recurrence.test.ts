@@ -0,0 +1,77 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { describeRecurrenceRule, nextOccurrence, parseRecurrenceRule } from '../../src/lib/recurrence';
+import { fromZonedParts } from '../../src/lib/timeZone';
+
+// Asia/Tokyo の日時 (月は1始まり)
+const at = (year: number, month: number, day: number, hours = 0, minutes = 0) => fromZonedParts(year, month - 1, day, hours, minutes);
+
+describe('nextOccurrence', () => {
+  it('runs daily at the given time, strictly after the base time', () => {
+    expect(nextOccurrence({ kind: 'daily', time: '09:00' }, at(2026, 10, 19, 8, 0))).toEqual(at(2026, 10, 19, 9, 0));
+    expect(nextOccurrence({ kind: 'daily', time: '09:00' }, at(2026, 10, 19, 9, 0))).toEqual(at(2026, 10, 20, 9, 0));
+  });
+
+  it('runs weekly on the selected weekdays', () => {
+    // 2026-10-19 は月曜日
+    const rule = { kind: 'weekly' as const, weekdays: [1, 4], time: '10:30' };
+    expect(nextOccurrence(rule, at(2026, 10, 19, 11, 0))).toEqual(at(2026, 10, 22, 10, 30));
+    expect(nextOccurrence(rule, at(2026, 10, 22, 11, 0))).toEqual(at(2026, 10, 26, 10, 30));
+  });
+
+  it('runs monthly on day N and falls back to the last day of shorter months', () => {
+    const rule = { kind: 'monthly' as const, day: 31, time: '09:00' };
+    expect(nextOccurrence(rule, at(2026, 1, 31, 10, 0))).toEqual(at(2026, 2, 28, 9, 0));
+    expect(nextOccurrence(rule, at(2026, 2, 28, 10, 0))).toEqual(at(2026, 3, 31, 9, 0));
+  });
+
+  it('runs on the last business day of the month', () => {
+    // 2026-10-31 は土曜日なので、最終営業日は10/30 (金)
+    const rule = { kind: 'lastBusinessDay' as const, time: '18:00' };
+    expect(nextOccurrence(rule, at(2026, 10, 19))).toEqual(at(2026, 10, 30, 18, 0));
+    expect(nextOccurrence(rule, at(2026, 10, 30, 18, 0))).toEqual(at(2026, 11, 30, 18, 0));
+  });
+});
+
+describe('parseRecurrenceRule', () => {
+  it('accepts valid rules and normalizes weekdays', () => {
+    expect(parseRecurrenceRule({ kind: 'weekly', weekdays: [4, 1, 4], time: '09:00' })).toEqual({ kind: 'weekly', weekdays: [1, 4], time: '09:00' });
+    expect(parseRecurrenceRule({ kind: 'lastBusinessDay', time: '18:00', extra: true })).toEqual({ kind: 'lastBusinessDay', time: '18:00' });
+  });
+
+  it('rejects invalid rules', () => {
+    expect(parseRecurrenceRule({ kind: 'daily', time: '25:00' })).toBeNull();
+    expect(parseRecurrenceRule({ kind: 'weekly', weekdays: [], time: '09:00' })).toBeNull();
+    expect(parseRecurrenceRule({ kind: 'weekly', weekdays: [7], time: '09:00' })).toBeNull();
+    expect(parseRecurrenceRule({ kind: 'monthly', day: 0, time: '09:00' })).toBeNull();
+    expect(parseRecurrenceRule({ kind: 'yearly', time: '09:00' })).toBeNull();
+  });
+});
+
+describe('describeRecurrenceRule', () => {
+  it('describes a rule in Japanese', () => {
+    expect(describeRecurrenceRule({ kind: 'weekly', weekdays: [1, 4], time: '09:00' })).toBe('毎週 月・木 09:00');
+    expect(describeRecurrenceRule({ kind: 'monthly', day: 25, time: '10:00' })).toBe('毎月 25日 10:00');
+  });
+});
+
+describe('on a server in UTC', () => {
+  const originalTz = process.env.TZ;
+  beforeAll(() => {
+    process.env.TZ = 'UTC';
+  });
+  afterAll(() => {
+    process.env.TZ = originalTz;
+  });
+
+  it('runs at the rule time in Asia/Tokyo', () => {
+    // Asia/Tokyo の 10/20(火) 8:00 は UTC では 10/19(月) 23:00
+    const base = at(2026, 10, 20, 8, 0);
+    expect(base.getUTCDate()).toBe(19);
+
+    expect(nextOccurrence({ kind: 'daily', time: '09:00' }, base)).toEqual(at(2026, 10, 20, 9, 0));
+    expect(nextOccurrence({ kind: 'weekly', weekdays: [1], time: '09:00' }, base)).toEqual(at(2026, 10, 26, 9, 0));
+    // Asia/Tokyo の 11/1 0:30 は UTC ではまだ 10/31
+    expect(nextOccurrence({ kind: 'monthly', day: 1, time: '00:30' }, at(2026, 10, 31, 12, 0))).toEqual(at(2026, 11, 1, 0, 30));
+    expect(nextOccurrence({ kind: 'lastBusinessDay', time: '06:00' }, at(2026, 10, 19))).toEqual(at(2026, 10, 30, 6, 0));
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { buildRoomSections, matchesRoom, normalizeForSearch } from '../../src/lib/roomSearch';
+import type { ChatworkRoom, RoomType } from '../../src/types/chatwork';
+
+const room = (room_id: number, name: string, type: RoomType = 'group', sticky = false): ChatworkRoom =>
+  ({ room_id, name, type, sticky, unread_num: 0, icon_path: '' });
+
+const matches = (target: ChatworkRoom, query: string) => matchesRoom(target, normalizeForSearch(target.name), query);
+
+describe('normalizeForSearch', () => {
+  it('maps hiragana, katakana and romaji to the same Hepburn spelling', () => {
+    expect(normalizeForSearch('かいはつ')).toBe('kaihatsu');
+    expect(normalizeForSearch('カイハツ')).toBe('kaihatsu');
+    expect(normalizeForSearch('kaihatu')).toBe('kaihatsu');
+    expect(normalizeForSearch('ｋａｉｈａｔｓｕ')).toBe('kaihatsu');
+  });
+
+  it('handles contracted sounds, the sokuon and long vowels', () => {
+    expect(normalizeForSearch('しゃいん')).toBe('shain');
+    expect(normalizeForSearch('syain')).toBe('shain');
+    expect(normalizeForSearch('マッチ')).toBe('matchi');
+    expect(normalizeForSearch('チーム')).toBe(normalizeForSearch('chimu'));
+  });
+});
+
+describe('matchesRoom', () => {
+  const dev = room(3, '開発チーム');
+
+  it('matches by kana reading, room name or room ID', () => {
+    expect(matches(dev, 'ちーむ')).toBe(true);
+    expect(matches(dev, 'chi-mu')).toBe(true);
+    expect(matches(dev, '開発')).toBe(true);
+    expect(matches(dev, ' 3 ')).toBe(true);
+    expect(matches(dev, '')).toBe(true);
+  });
+
+  it('does not match other names', () => {
+    expect(matches(dev, '営業')).toBe(false);
+    expect(matches(dev, '33')).toBe(false);
+  });
+});
+
+describe('buildRoomSections', () => {
+  const my = room(1, 'マイチャット', 'my');
+  const direct = room(2, '佐藤 花子', 'direct');
+  const dev = room(3, '開発チーム');
+  const sales = room(4, '営業チーム', 'group', true);
+  const rooms = [my, direct, dev, sales];
+
+  it('lists favorites and recents first and shows each room once', () => {
+    expect(buildRoomSections(rooms, [3], [3, 2])).toEqual([
+      { key: 'favorites', rooms: [dev] },
+      { key: 'recents', rooms: [direct] },
+      { key: 'my', rooms: [my] },
+      { key: 'group', rooms: [sales] },
+    ]);
+  });
+
+  it('puts pinned rooms first within a type and skips ids that were filtered out', () => {
+    expect(buildRoomSections([dev, sales], [99], [])).toEqual([{ key: 'group', rooms: [sales, dev] }]);
+  });
+});
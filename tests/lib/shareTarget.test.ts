@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { buildSharedMemo, MAX_SHARED_MEMO_LENGTH, readSharedMemo } from '../../src/lib/shareTarget';
+
+describe('buildSharedMemo', () => {
+  it('puts the title, text and URL on their own lines', () => {
+    expect(buildSharedMemo({ title: '議事録', text: '来週までに確認', url: 'https://example.com/a' }))
+      .toBe('議事録\n来週までに確認\nhttps://example.com/a');
+  });
+
+  it('skips a title or URL the text already contains', () => {
+    expect(buildSharedMemo({ title: '議事録', text: '議事録を確認 https://example.com/a', url: 'https://example.com/a' }))
+      .toBe('議事録を確認 https://example.com/a');
+  });
+
+  it('returns an empty string when nothing was shared', () => {
+    expect(buildSharedMemo({ title: ' ', text: null })).toBe('');
+  });
+
+  it('truncates very long content', () => {
+    expect(buildSharedMemo({ text: 'a'.repeat(MAX_SHARED_MEMO_LENGTH + 10) })).toHaveLength(MAX_SHARED_MEMO_LENGTH);
+  });
+});
+
+describe('readSharedMemo', () => {
+  it('reads the memo the share route passed to the top page', () => {
+    expect(readSharedMemo('/', '?shared=%E8%AD%B0%E4%BA%8B%E9%8C%B2')).toBe('議事録');
+  });
+
+  it('reads the raw share parameters when the page was opened offline at /share', () => {
+    expect(readSharedMemo('/share', '?title=T&url=https%3A%2F%2Fexample.com')).toBe('T\nhttps://example.com');
+  });
+
+  it('returns null when nothing was shared', () => {
+    expect(readSharedMemo('/', '')).toBeNull();
+    expect(readSharedMemo('/', '?authError=denied')).toBeNull();
+  });
+});
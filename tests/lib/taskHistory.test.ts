@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { HistoryEntry, searchHistory } from '../../src/lib/taskHistory';
+
+const entry = (id: string, body: string, roomName: string, assignee: string): HistoryEntry => ({
+  id,
+  roomId: '3',
+  roomName,
+  body,
+  assignees: [{ account_id: 1002, name: assignee }],
+  deadline: { limitType: 'none', date: '', time: '' },
+  taskIds: [1],
+  sentAt: 0,
+});
+
+const entries = [
+  entry('1', '見積書を作成', '開発チーム', '佐藤 花子'),
+  entry('2', 'レビューをお願いします', 'マイチャット', '山田 太郎'),
+];
+
+describe('searchHistory', () => {
+  it('matches the body, room name and assignee names', () => {
+    expect(searchHistory(entries, '見積').map(e => e.id)).toEqual(['1']);
+    expect(searchHistory(entries, 'マイチャット').map(e => e.id)).toEqual(['2']);
+    expect(searchHistory(entries, '山田').map(e => e.id)).toEqual(['2']);
+  });
+
+  it('requires every word and ignores kana and width differences', () => {
+    expect(searchHistory(entries, 'れびゅー 山田').map(e => e.id)).toEqual(['2']);
+    expect(searchHistory(entries, 'れびゅー 佐藤')).toEqual([]);
+    expect(searchHistory(entries, '  ')).toHaveLength(2);
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, expect, it } from 'vitest';
+import { TaskSendError } from '../../src/lib/taskClient';
+import {
+  buildImportResultCsv,
+  detectImportFormat,
+  parseCsv,
+  readImportCsv,
+  readImportMarkdown,
+  resolveImportRows,
+  sendImportRows,
+} from '../../src/lib/taskImport';
+import type { ChatworkMember, ChatworkRoom } from '../../src/types/chatwork';
+
+const room = (room_id: number, name: string): ChatworkRoom => ({ room_id, name, type: 'group', sticky: false, unread_num: 0, icon_path: '' });
+const member = (account_id: number, name: string): ChatworkMember => ({
+  account_id, name, role: 'member', chatwork_id: '', organization_id: 0, organization_name: '', department: '', avatar_image_url: '',
+});
+
+const rooms = [room(2, 'マイチャット'), room(3, '開発チーム')];
+const membersByRoomId = {
+  2: [member(1001, '山田 太郎')],
+  3: [member(1001, '山田 太郎'), member(1002, '佐藤 花子')],
+};
+const now = new Date(2026, 9, 19, 10, 0);
+
+describe('parseCsv', () => {
+  it('handles quoted commas, newlines, escaped quotes and a BOM', () => {
+    expect(parseCsv('\uFEFFa,"b,c"\r\n"line\nbreak","say ""hi"""\n')).toEqual([
+      ['a', 'b,c'],
+      ['line\nbreak', 'say "hi"'],
+    ]);
+  });
+});
+
+describe('readImportCsv / readImportMarkdown', () => {
+  it('maps CSV columns by header name and skips blank lines', () => {
+    const rows = readImportCsv('room,body,assignee,due,limit_type\n開発チーム,見積書を作成,佐藤,2026-10-31,date\n,,,,\n');
+    expect(rows).toEqual([{ line: 2, body: '見積書を作成', room: '開発チーム', assignee: '佐藤', due: '2026-10-31', limitType: 'date' }]);
+  });
+
+  it('requires a body column', () => {
+    expect(() => readImportCsv('task,room\nx,y')).toThrow('列名');
+  });
+
+  it('reads open checklist items under room headings', () => {
+    const rows = readImportMarkdown('- [ ] 議事録を共有 @山田\n## 開発チーム\n- [x] 完了済み\n- [ ] レビュー @佐藤 @山田 !10/31');
+    expect(rows).toEqual([
+      { line: 1, body: '議事録を共有', room: '', assignee: '山田', due: '', limitType: '' },
+      { line: 4, body: 'レビュー', room: '開発チーム', assignee: '佐藤,山田', due: '10/31', limitType: '' },
+    ]);
+    // メモと同じく、全角の記号や、最後の期限のトークンも扱う
+    expect(readImportMarkdown('- [ ] info@example.com に連絡 ＠佐藤 !明日 ！10/31')).toEqual([
+      { line: 1, body: 'info@example.com に連絡', room: '', assignee: '佐藤', due: '10/31', limitType: '' },
+    ]);
+    expect(detectImportFormat('tasks.txt', '- [ ] a')).toBe('markdown');
+    expect(detectImportFormat('tasks.txt', 'body\na')).toBe('csv');
+  });
+});
+
+describe('resolveImportRows', () => {
+  it('resolves room names and assignee names to IDs', () => {
+    const [row] = resolveImportRows(
+      [{ line: 2, body: '見積書を作成', room: '開発チーム', assignee: '佐藤、1001', due: '2026/10/31 17:00', limitType: '' }],
+      rooms, membersByRoomId, null, now,
+    );
+    expect(row).toMatchObject({
+      roomId: 3,
+      assigneeIds: [1002, 1001],
+      assigneeNames: ['佐藤 花子', '山田 太郎'],
+      deadline: { limitType: 'time', date: '2026-10-31', time: '17:00' },
+      errors: [],
+    });
+  });
+
+  it('uses the default room and flags invalid rows', () => {
+    const rows = resolveImportRows([
+      { line: 2, body: '議事録', room: '', assignee: '山田', due: '', limitType: '' },
+      { line: 3, body: '', room: '営業部', assignee: '', due: '', limitType: '' },
+      { line: 4, body: '確認', room: '2', assignee: '佐藤', due: 'いつか', limitType: 'weekly' },
+      { line: 5, body: '確認', room: '3', assignee: '佐藤', due: '2026-01-01', limitType: '' },
+    ], rooms, membersByRoomId, 2, now);
+
+    expect(rows[0]).toMatchObject({ roomId: 2, assigneeIds: [1001], errors: [] });
+    expect(rows[1].errors).toEqual(['タスク内容が空です', 'ルーム「営業部」が見つかりません', '担当者が指定されていません']);
+    expect(rows[2].errors).toEqual(['担当者「佐藤」はルームのメンバーにいません', '期限の種類「weekly」は none / date / time のいずれかにしてください']);
+    expect(rows[3].errors).toEqual(['期限が過去の日時です']);
+  });
+});
+
+describe('sendImportRows', () => {
+  const rows = resolveImportRows([
+    { line: 2, body: 'A', room: '3', assignee: '佐藤', due: '', limitType: '' },
+    { line: 3, body: 'B', room: '3', assignee: '不明', due: '', limitType: '' },
+    { line: 4, body: 'C', room: '3', assignee: '佐藤', due: '', limitType: '' },
+  ], rooms, membersByRoomId, null, now);
+
+  it('paces valid rows, waits out a 429 and writes a result CSV', async () => {
+    const sleeps: number[] = [];
+    const sent: string[] = [];
+    let limited = false;
+    const results = await sendImportRows(rows, {}, async (roomId, task) => {
+      if (task.body === 'C' && !limited) {
+        limited = true;
+        throw new TaskSendError('rate limited', 429, Math.floor(Date.now() / 1000));
+      }
+      sent.push(task.body);
+      return [sent.length];
+    }, { sleep: async ms => { sleeps.push(ms); } });
+
+    expect(sent).toEqual(['A', 'C']);
+    expect(sleeps).toHaveLength(2);
+    expect(results).toEqual({ 2: { ok: true, taskIds: [1] }, 4: { ok: true, taskIds: [2] } });
+
+    const csv = buildImportResultCsv(rows, { ...results, 4: { ok: false, error: 'Chatwork APIエラー: 500' } });
+    expect(csv.split('\r\n')).toEqual([
+      '\uFEFFline,body,room,room_id,assignee,due,limit_type,status,task_ids,error',
+      '2,A,開発チーム,3,佐藤 花子,,none,created,1,',
+      '3,B,開発チーム,3,,,none,skipped,,担当者「不明」はルームのメンバーにいません',
+      '4,C,開発チーム,3,佐藤 花子,,none,failed,,Chatwork APIエラー: 500',
+      '',
+    ]);
+  });
+
+  it('skips rows that were already created', async () => {
+    const sent: string[] = [];
+    await sendImportRows(rows, { 2: { ok: true, taskIds: [1] } }, async (roomId, task) => {
+      sent.push(task.body);
+      return [9];
+    }, { sleep: async () => {} });
+
+    expect(sent).toEqual(['C']);
+  });
+});
+
+describe('buildImportResultCsv', () => {
+  it('prefixes values that a spreadsheet would run as formulas', () => {
+    const rows = resolveImportRows([
+      { line: 2, body: '=HYPERLINK("http://example.com")', room: '3', assignee: '佐藤', due: '', limitType: '' },
+      { line: 3, body: '-1 の確認', room: '3', assignee: '佐藤', due: '', limitType: '' },
+    ], rooms, membersByRoomId, null, now);
+
+    const lines = buildImportResultCsv(rows, { 3: { ok: false, error: '@mention failed' } }).split('\r\n');
+    expect(lines[1]).toBe(`2,"'=HYPERLINK(""http://example.com"")",開発チーム,3,佐藤 花子,,none,pending,,`);
+    expect(lines[2]).toBe("3,'-1 の確認,開発チーム,3,佐藤 花子,,none,failed,,'@mention failed");
+  });
+
+  it('prefixes values that start with a tab or a carriage return', () => {
+    const rows = resolveImportRows([
+      { line: 2, body: '見積書を作成', room: '3', assignee: '佐藤', due: '', limitType: '' },
+    ], rooms, membersByRoomId, null, now);
+
+    const csv = buildImportResultCsv(rows, { 2: { ok: false, error: '\t=cmd|" /C calc"!A0' } });
+    expect(csv.split('\r\n')[1]).toBe(`2,見積書を作成,開発チーム,3,佐藤 花子,,none,failed,,"'\t=cmd|"" /C calc""!A0"`);
+    expect(buildImportResultCsv(rows, { 2: { ok: false, error: '\r=1+1' } })).toContain(`failed,,"'\r=1+1"`);
+  });
+});
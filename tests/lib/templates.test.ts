@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import {
+  defaultPlaceholderValue,
+  extractPlaceholders,
+  fillPlaceholders,
+  parseRelativeDeadline,
+  resolveRelativeDeadline,
+} from '../../src/lib/templates';
+
+describe('extractPlaceholders', () => {
+  it('returns the names in order without duplicates', () => {
+    expect(extractPlaceholders('{{client}}様の{{ item }}を作成 ({{client}}宛)')).toEqual(['client', 'item']);
+    expect(extractPlaceholders('プレースホルダーなし')).toEqual([]);
+  });
+});
+
+describe('fillPlaceholders', () => {
+  it('replaces every occurrence and keeps placeholders without a value', () => {
+    const body = '{{client}}様の{{item}}を作成 ({{client}}宛、{{ date }}まで)';
+
+    expect(fillPlaceholders(body, { client: 'A社', item: '', date: '10/20' }))
+      .toBe('A社様の{{item}}を作成 (A社宛、10/20まで)');
+  });
+});
+
+describe('defaultPlaceholderValue', () => {
+  it('fills in today for {{date}} only', () => {
+    const now = new Date(2026, 9, 19);
+
+    expect(defaultPlaceholderValue('date', now)).toBe('10/19');
+    expect(defaultPlaceholderValue('client', now)).toBe('');
+  });
+});
+
+describe('parseRelativeDeadline / resolveRelativeDeadline', () => {
+  it('reads Japanese and English notations', () => {
+    expect(parseRelativeDeadline('3営業日後 17:00')).toEqual({ limitType: 'time', offset: 3, unit: 'businessDay', time: '17:00' });
+    expect(parseRelativeDeadline('+1 week')).toEqual({ limitType: 'date', offset: 1, unit: 'week', time: '' });
+    expect(parseRelativeDeadline('なし')).toEqual({ limitType: 'none', offset: 0, unit: 'day', time: '' });
+    expect(parseRelativeDeadline('来月')).toBeNull();
+  });
+
+  it('skips weekends when counting business days', () => {
+    // 2026/10/16 は金曜日
+    const friday = new Date(2026, 9, 16);
+
+    expect(resolveRelativeDeadline({ limitType: 'date', offset: 1, unit: 'businessDay', time: '' }, friday))
+      .toEqual({ limitType: 'date', date: '2026-10-19', time: '17:00' });
+    expect(resolveRelativeDeadline({ limitType: 'time', offset: 2, unit: 'day', time: '09:30' }, friday))
+      .toEqual({ limitType: 'time', date: '2026-10-18', time: '09:30' });
+  });
+});